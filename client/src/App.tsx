@@ -1,52 +1,108 @@
 import './App.css';
-import { useState } from 'react';
+import { useEffect, type ReactNode } from 'react';
 import { AuthProvider, useAuth } from '@/components/AuthContext';
 import { LanguageProvider, useLanguage } from '@/components/LanguageContext';
 import { Login } from '@/components/Login';
+import { ForcePasswordChange } from '@/components/ChangePassword';
+import { ForceMfaSetup } from '@/components/TwoFactor';
 import { Header } from '@/components/Header';
 import { Sidebar } from '@/components/Sidebar';
 import { Dashboard } from '@/components/Dashboard';
 import { Inventory } from '@/components/Inventory';
+import { ItemDetailPage } from '@/components/ItemDetail';
 import { Purchases } from '@/components/Purchases';
-import { Locations } from '@/components/Locations';
+import { Locations, LocationDetailPage } from '@/components/Locations';
 import { LocationHistory } from '@/components/LocationHistory';
+import { TransferManifests } from '@/components/TransferManifests';
 import { Reports } from '@/components/Reports';
-import { Settings } from '@/components/Settings';
+import { Settings, SupplierDetailPage } from '@/components/Settings';
+import { useLocation, navigate, matchPath } from '@/lib/router';
+import type { SearchResult } from '../../server/src/schema';
+
+interface Route {
+  path: string;
+  // Sidebar entry highlighted while the route is open
+  view: string;
+  render: (params: Record<string, string>) => ReactNode;
+}
+
+const ROUTES: Route[] = [
+  { path: '/', view: 'dashboard', render: () => <Dashboard /> },
+  { path: '/inventory', view: 'inventory', render: () => <Inventory /> },
+  { path: '/inventory/:id', view: 'inventory', render: ({ id }) => <ItemDetailPage itemId={Number(id)} /> },
+  { path: '/purchases', view: 'purchases', render: () => <Purchases /> },
+  { path: '/locations', view: 'locations', render: () => <Locations /> },
+  { path: '/locations/:id', view: 'locations', render: ({ id }) => <LocationDetailPage locationId={Number(id)} /> },
+  { path: '/location-history', view: 'location-history', render: () => <LocationHistory /> },
+  { path: '/manifests', view: 'manifests', render: () => <TransferManifests /> },
+  { path: '/reports', view: 'reports', render: () => <Reports /> },
+  { path: '/reports/:tab', view: 'reports', render: ({ tab }) => <Reports tab={tab} /> },
+  { path: '/settings', view: 'settings', render: () => <Settings /> },
+  { path: '/settings/:tab', view: 'settings', render: ({ tab }) => <Settings tab={tab} /> },
+  { path: '/suppliers/:id', view: 'settings', render: ({ id }) => <SupplierDetailPage supplierId={Number(id)} /> },
+];
+
+const LOGIN_PATH = '/login';
+
+// Where to go after signing in; only paths within the app, so a crafted link cannot lead elsewhere
+const redirectTarget = (search: string) => {
+  const redirect = new URLSearchParams(search).get('redirect');
+  return redirect?.startsWith('/') && !redirect.startsWith('//') ? redirect : '/';
+};
 
 function AppContent() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading, mfaSetupRequired, can } = useAuth();
   const { t } = useLanguage();
-  const [activeView, setActiveView] = useState<string>('dashboard');
+  const location = useLocation();
 
-  // Navigation items with translations
+  // Signed-out visitors are sent to the login page and brought back to the URL they asked for
+  useEffect(() => {
+    if (isLoading) {
+      return;
+    }
+    if (!isAuthenticated && location.pathname !== LOGIN_PATH) {
+      const requested = `${location.pathname}${window.location.search}`;
+      navigate(requested === '/' ? LOGIN_PATH : `${LOGIN_PATH}?redirect=${encodeURIComponent(requested)}`, { replace: true });
+    } else if (isAuthenticated && location.pathname === LOGIN_PATH) {
+      navigate(redirectTarget(window.location.search), { replace: true });
+    }
+  }, [isLoading, isAuthenticated, location.pathname]);
+
+  // Navigation items with translations, limited to what the user's role may view
   const navigationItems = [
-    { id: 'dashboard', label: t('navigation.dashboard'), icon: '🏠' },
-    { id: 'inventory', label: t('navigation.inventory'), icon: '📦' },
-    { id: 'purchases', label: t('navigation.purchases'), icon: '🛒' },
-    { id: 'locations', label: t('navigation.locations'), icon: '📍' },
-    { id: 'location-history', label: t('navigation.locationHistory'), icon: '📋' },
-    { id: 'reports', label: t('navigation.reports'), icon: '📊' },
-    { id: 'settings', label: t('navigation.settings'), icon: '⚙️' },
-  ];
-
-  const renderContent = () => {
-    switch (activeView) {
-      case 'dashboard':
-        return <Dashboard />;
-      case 'inventory':
-        return <Inventory />;
-      case 'purchases':
-        return <Purchases />;
-      case 'locations':
-        return <Locations />;
-      case 'location-history':
-        return <LocationHistory />;
-      case 'reports':
-        return <Reports />;
-      case 'settings':
-        return <Settings />;
-      default:
-        return <Dashboard />;
+    { id: 'dashboard', label: t('navigation.dashboard'), icon: '🏠', visible: can('dashboard.view') },
+    { id: 'inventory', label: t('navigation.inventory'), icon: '📦', visible: can('inventory.view') },
+    { id: 'purchases', label: t('navigation.purchases'), icon: '🛒', visible: can('purchases.view') },
+    { id: 'locations', label: t('navigation.locations'), icon: '📍', visible: can('locations.view') },
+    { id: 'location-history', label: t('navigation.locationHistory'), icon: '📋', visible: can('locationHistory.view') },
+    { id: 'manifests', label: t('navigation.manifests'), icon: '🚚', visible: can('locationHistory.view') },
+    { id: 'reports', label: t('navigation.reports'), icon: '📊', visible: can('reports.view') },
+    { id: 'settings', label: t('navigation.settings'), icon: '⚙️', visible: true },
+  ].filter(item => item.visible);
+
+  // Unknown paths show the dashboard, as the app did before it had routes
+  let activeView = 'dashboard';
+  let content: ReactNode = <Dashboard />;
+  for (const route of ROUTES) {
+    const params = matchPath(route.path, location.pathname);
+    if (params) {
+      activeView = route.view;
+      content = route.render(params);
+      break;
+    }
+  }
+
+  const openSearchResult = (result: SearchResult) => {
+    switch (result.type) {
+      case 'inventory_item':
+        return navigate(`/inventory/${result.id}`);
+      case 'purchase':
+        // Purchases have no page of their own; open the list filtered to the item
+        return navigate(`/purchases?purchases.search=${encodeURIComponent(result.code ?? '')}`);
+      case 'supplier':
+        return navigate(`/suppliers/${result.id}`);
+      case 'location':
+        return navigate(`/locations/${result.id}`);
     }
   };
 
@@ -69,20 +125,34 @@ function AppContent() {
     return <Login />;
   }
 
+  // Signed in on the login page: the effect above is about to leave it
+  if (location.pathname === LOGIN_PATH) {
+    return null;
+  }
+
+  if (user?.must_change_password) {
+    return <ForcePasswordChange />;
+  }
+
+  if (mfaSetupRequired) {
+    return <ForceMfaSetup />;
+  }
+
   return (
     <div className="app-container">
-      <Header />
+      <Header onOpenSearchResult={openSearchResult} />
       
       <div className="app-content">
         <Sidebar
           items={navigationItems}
           activeItem={activeView}
-          onItemClick={setActiveView}
+          onItemClick={(view: string) => navigate(view === 'dashboard' ? '/' : `/${view}`)}
         />
         
         <main className="main-content">
-          <div className="content-window">
-            {renderContent()}
+          {/* Keyed by history entry, so opening a view again starts it from its URL */}
+          <div className="content-window" key={location.key}>
+            {content}
           </div>
         </main>
       </div>
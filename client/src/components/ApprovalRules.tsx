@@ -0,0 +1,281 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { useLanguage } from './LanguageContext';
+import { approvalScopeEnum } from '../../../server/src/schema';
+import type {
+  Location,
+  TransferApprovalRule,
+  CreateTransferApprovalRuleInput
+} from '../../../server/src/schema';
+
+const EMPTY_RULE: CreateTransferApprovalRuleInput = {
+  name: '',
+  from_location_id: null,
+  to_location_id: null,
+  min_item_value: null,
+  approver: 'both',
+  is_active: true
+};
+
+// Admin editor for the rules that decide which transfers need approval
+export function ApprovalRules() {
+  const { t } = useLanguage();
+  const [rules, setRules] = useState<TransferApprovalRule[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<TransferApprovalRule | null>(null);
+  const [formData, setFormData] = useState<CreateTransferApprovalRuleInput>(EMPTY_RULE);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [rulesResult, locationsResult] = await Promise.all([
+        trpc.approvalRules.getAll.query(),
+        trpc.locations.getAll.query()
+      ]);
+      setRules(rulesResult);
+      setLocations(locationsResult);
+    } catch (error) {
+      console.error('Failed to load approval rules:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load approval rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const locationName = (id: number | null) =>
+    id === null ? t('approvalRules.anyLocation') : locations.find((location: Location) => location.id === id)?.name ?? `#${id}`;
+
+  const resetForm = () => {
+    setFormData(EMPTY_RULE);
+    setEditingRule(null);
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      if (editingRule) {
+        await trpc.approvalRules.update.mutate({ id: editingRule.id, ...formData });
+      } else {
+        await trpc.approvalRules.create.mutate(formData);
+      }
+      await loadData();
+      resetForm();
+    } catch (error) {
+      console.error('Failed to save approval rule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save approval rule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (rule: TransferApprovalRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      from_location_id: rule.from_location_id,
+      to_location_id: rule.to_location_id,
+      min_item_value: rule.min_item_value,
+      approver: rule.approver,
+      is_active: rule.is_active
+    });
+    setShowForm(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm(t('approvalRules.confirmDelete'))) return;
+
+    try {
+      await trpc.approvalRules.delete.mutate({ id });
+      await loadData();
+    } catch (error) {
+      console.error('Failed to delete approval rule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete approval rule');
+    }
+  };
+
+  if (loading && rules.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '20px' }}>
+        {t('approvalRules.loading')}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p style={{ marginBottom: '8px' }}>{t('approvalRules.description')}</p>
+
+      <div className="form-row">
+        <button className="win98-button-primary" onClick={() => setShowForm(true)}>
+          {t('approvalRules.addRule')}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#c00', padding: '8px' }}>{error}</div>
+      )}
+
+      {showForm && (
+        <div className="win98-group">
+          <div className="win98-group-title">
+            {editingRule ? t('approvalRules.editRule') : t('approvalRules.addRule')}
+          </div>
+
+          <form onSubmit={handleSubmit}>
+            <div className="form-grid">
+              <label>{t('approvalRules.name')}:</label>
+              <input
+                type="text"
+                className="win98-input"
+                value={formData.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateTransferApprovalRuleInput) => ({ ...prev, name: e.target.value }))
+                }
+                required
+              />
+
+              <label>{t('approvalRules.fromLocation')}:</label>
+              <select
+                className="win98-select"
+                value={formData.from_location_id || 0}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  setFormData((prev: CreateTransferApprovalRuleInput) => ({ ...prev, from_location_id: parseInt(e.target.value) || null }))
+                }
+              >
+                <option value={0}>{t('approvalRules.anyLocation')}</option>
+                {locations.map((location: Location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name} ({location.branch_code})
+                  </option>
+                ))}
+              </select>
+
+              <label>{t('approvalRules.toLocation')}:</label>
+              <select
+                className="win98-select"
+                value={formData.to_location_id || 0}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  setFormData((prev: CreateTransferApprovalRuleInput) => ({ ...prev, to_location_id: parseInt(e.target.value) || null }))
+                }
+              >
+                <option value={0}>{t('approvalRules.anyLocation')}</option>
+                {locations.map((location: Location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name} ({location.branch_code})
+                  </option>
+                ))}
+              </select>
+
+              <label>{t('approvalRules.minItemValue')}:</label>
+              <input
+                type="number"
+                className="win98-input"
+                value={formData.min_item_value ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateTransferApprovalRuleInput) => ({
+                    ...prev,
+                    min_item_value: e.target.value === '' ? null : parseFloat(e.target.value)
+                  }))
+                }
+                min="0"
+                step="0.01"
+                placeholder={t('approvalRules.anyValue')}
+              />
+
+              <label>{t('approvalRules.approver')}:</label>
+              <select
+                className="win98-select"
+                value={formData.approver}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  setFormData((prev: CreateTransferApprovalRuleInput) => ({
+                    ...prev,
+                    approver: approvalScopeEnum.parse(e.target.value)
+                  }))
+                }
+              >
+                {approvalScopeEnum.options.map((scope: string) => (
+                  <option key={scope} value={scope}>{t(`approvalRules.approvers.${scope}`)}</option>
+                ))}
+              </select>
+
+              <label>{t('approvalRules.status')}:</label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateTransferApprovalRuleInput) => ({ ...prev, is_active: e.target.checked }))
+                  }
+                />{' '}
+                {t('approvalRules.active')}
+              </label>
+            </div>
+
+            <div className="form-row">
+              <button type="submit" className="win98-button-primary" disabled={loading}>
+                {t('approvalRules.save')}
+              </button>
+              <button type="button" className="win98-button" onClick={resetForm}>
+                {t('approvalRules.cancel')}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <table className="win98-table">
+        <thead>
+          <tr>
+            <th>{t('approvalRules.name')}</th>
+            <th>{t('approvalRules.fromLocation')}</th>
+            <th>{t('approvalRules.toLocation')}</th>
+            <th>{t('approvalRules.minItemValue')}</th>
+            <th>{t('approvalRules.approver')}</th>
+            <th>{t('approvalRules.status')}</th>
+            <th>{t('approvalRules.actions')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((rule: TransferApprovalRule) => (
+            <tr key={rule.id}>
+              <td><strong>{rule.name}</strong></td>
+              <td>{locationName(rule.from_location_id)}</td>
+              <td>{locationName(rule.to_location_id)}</td>
+              <td>{rule.min_item_value !== null ? rule.min_item_value.toLocaleString() : t('approvalRules.anyValue')}</td>
+              <td>{t(`approvalRules.approvers.${rule.approver}`)}</td>
+              <td>{rule.is_active ? t('approvalRules.active') : t('approvalRules.inactive')}</td>
+              <td>
+                <button
+                  className="win98-button"
+                  onClick={() => handleEdit(rule)}
+                  style={{ marginRight: '4px' }}
+                >
+                  {t('approvalRules.edit')}
+                </button>
+                <button className="win98-button" onClick={() => handleDelete(rule.id)}>
+                  {t('approvalRules.delete')}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {rules.length === 0 && (
+        <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>
+          {t('approvalRules.noRules')}
+        </div>
+      )}
+    </div>
+  );
+}
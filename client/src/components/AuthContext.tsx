@@ -1,13 +1,19 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import { trpc } from '@/utils/trpc';
-import type { User } from '../../../server/src/schema';
+import { trpc, setUnauthorizedHandler } from '@/utils/trpc';
+import type { User, LoginResponse, AccessScope, Permission } from '../../../server/src/schema';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  login: (username: string, password: string) => Promise<LoginResponse>;
+  verifyMfa: (mfaToken: string, code: string) => Promise<LoginResponse>;
   logout: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
+  mfaSetupRequired: boolean;
+  access: AccessScope | null;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -19,14 +25,47 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [requireAdminMfa, setRequireAdminMfa] = useState(false);
+  const [access, setAccess] = useState<AccessScope | null>(null);
 
   const isAuthenticated = user !== null;
+  // Mirrors the server policy so admins are sent to enrollment instead of hitting errors
+  const mfaSetupRequired = user !== null && user.role === 'admin' && !user.totp_enabled && requireAdminMfa;
 
   // Check for existing session on mount
   useEffect(() => {
     checkSession();
   }, []);
 
+  // Drop the local session as soon as the server reports it is no longer valid
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      localStorage.removeItem('sessionId');
+      setUser(null);
+    });
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    trpc.settings.getSecurity.query()
+      .then(settings => setRequireAdminMfa(settings.require_admin_mfa))
+      .catch(error => console.error('Failed to load security settings:', error));
+  }, [user]);
+
+  // Permissions are only available once the account has no pending password change or enrollment
+  useEffect(() => {
+    if (!user || user.must_change_password || mfaSetupRequired) {
+      setAccess(null);
+      return;
+    }
+    trpc.auth.getMyAccess.query()
+      .then(setAccess)
+      .catch(error => console.error('Failed to load permissions:', error));
+  }, [user, mfaSetupRequired]);
+
+  const can = (permission: Permission) => access?.permissions.includes(permission) ?? false;
+
   const checkSession = async () => {
     try {
       const sessionId = localStorage.getItem('sessionId');
@@ -46,7 +85,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  const login = async (username: string, password: string): Promise<LoginResponse> => {
     try {
       setIsLoading(true);
       const result = await trpc.auth.login.mutate({ username, password });
@@ -54,13 +93,29 @@ export function AuthProvider({ children }: AuthProviderProps) {
       if (result.success && result.sessionId && result.user) {
         localStorage.setItem('sessionId', result.sessionId);
         setUser(result.user);
-        return true;
-      } else {
-        return false;
       }
+      return result;
     } catch (error) {
       console.error('Login failed:', error);
-      return false;
+      return { success: false };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyMfa = async (mfaToken: string, code: string): Promise<LoginResponse> => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.auth.verifyMfa.mutate({ mfa_token: mfaToken, code });
+
+      if (result.success && result.sessionId && result.user) {
+        localStorage.setItem('sessionId', result.sessionId);
+        setUser(result.user);
+      }
+      return result;
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+      return { success: false };
     } finally {
       setIsLoading(false);
     }
@@ -82,13 +137,36 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Errors are left to the caller so the form can show the server message
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    const updatedUser = await trpc.auth.changePassword.mutate({
+      current_password: currentPassword,
+      new_password: newPassword
+    });
+    setUser(updatedUser);
+  };
+
+  // Reload the signed-in user after account changes such as enabling two-factor authentication
+  const refreshUser = async () => {
+    const sessionId = localStorage.getItem('sessionId');
+    if (!sessionId) return;
+    const result = await trpc.auth.validateSession.query({ sessionId });
+    setUser(result.user);
+  };
+
   return (
     <AuthContext.Provider value={{
       user,
       isLoading,
       login,
+      verifyMfa,
       logout,
-      isAuthenticated
+      changePassword,
+      refreshUser,
+      isAuthenticated,
+      mfaSetupRequired,
+      access,
+      can
     }}>
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,555 @@
+import { useState, useEffect } from 'react';
+import { trpc } from '@/utils/trpc';
+import { useLanguage } from './LanguageContext';
+import { ItemLink } from './ItemDetail';
+import { readSpreadsheet, parseDelimited, type SheetRows } from '@/lib/spreadsheet';
+import { batchImportFieldEnum, batchImportModeEnum, unknownReferenceActionEnum } from '../../../server/src/schema';
+import type {
+  BatchImportField,
+  BatchImportInput,
+  BatchImportMissingItem,
+  BatchImportMode,
+  BatchImportResult,
+  BatchImportRowResult,
+  Category,
+  ImportTemplate,
+  Location,
+  UnknownReference,
+  UnknownReferenceAction
+} from '../../../server/src/schema';
+
+const FIELDS = batchImportFieldEnum.options;
+
+const FIELD_LABELS: Record<BatchImportField, string> = {
+  item_code: 'inventory.itemCode',
+  name: 'inventory.itemName',
+  description: 'inventory.description',
+  category_name: 'inventory.category',
+  location_name: 'inventory.location',
+  condition: 'inventory.condition',
+  quantity: 'inventory.quantity',
+  purchase_price: 'inventory.purchasePrice',
+  purchase_date: 'inventory.purchaseDate'
+};
+
+const STATUS_ICONS: Record<BatchImportRowResult['status'], string> = {
+  created: '✅',
+  updated: '✏️',
+  unchanged: '➖',
+  skipped: '⏭️',
+  error: '❌'
+};
+
+type ColumnMapping = Partial<Record<BatchImportField, string>>;
+
+// Confirmed records for unknown names, by the name as written in the file
+type ReferenceMatches = Record<UnknownReference['kind'], Record<string, number>>;
+
+const sameReference = (a: UnknownReference) => (b: UnknownReference) => a.kind === b.kind && a.name === b.name;
+
+interface Sheet {
+  headers: string[];
+  // Data rows with the line they came from, blank lines left out
+  rows: { line: number; cells: string[] }[];
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+interface ImportRowResultsProps {
+  rows: BatchImportRowResult[];
+  // Spreadsheet line of a submitted row; without it rows are numbered as submitted
+  lineOf?: (row: number) => number;
+}
+
+// Outcome of every row of an import or dry run
+export function ImportRowResults({ rows, lineOf }: ImportRowResultsProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+      <table className="win98-table">
+        <thead>
+          <tr>
+            <th>{lineOf ? t('importer.line') : t('importer.row')}</th>
+            <th>{t('inventory.itemCode')}</th>
+            <th>{t('importer.status')}</th>
+            <th>{t('importer.notes')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row: BatchImportRowResult) => (
+            <tr key={row.row}>
+              <td>{lineOf ? lineOf(row.row) : row.row}</td>
+              <td>{row.item_id !== null ? <ItemLink itemId={row.item_id}>{row.item_code}</ItemLink> : row.item_code ?? '—'}</td>
+              <td style={{ whiteSpace: 'nowrap' }}>{STATUS_ICONS[row.status]} {t(`importer.statuses.${row.status}`)}</td>
+              <td>
+                {row.errors.map((rowError: string) => (
+                  <div key={rowError} style={{ color: '#c00' }}>{rowError}</div>
+                ))}
+                {row.changes.length > 0 && <div>{t('importer.changed')}: {row.changes.join(', ')}</div>}
+                {row.new_category && <div>{t('importer.newCategory')}: {row.new_category}</div>}
+                {row.new_location && <div>{t('importer.newLocation')}: {row.new_location}</div>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Items a sync import found at the file's locations but not in the file
+export function MissingItems({ items }: { items: BatchImportMissingItem[] }) {
+  const { t } = useLanguage();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <p>
+      {t('importer.missing')}:{' '}
+      {items.map((item: BatchImportMissingItem, index: number) => (
+        <span key={item.item_id}>
+          {index > 0 && ', '}
+          <ItemLink itemId={item.item_id}>{item.item_code}</ItemLink> ({item.location_name})
+        </span>
+      ))}
+    </p>
+  );
+}
+
+interface BatchImportProps {
+  categories: Category[];
+  locations: Location[];
+  onImported: () => void;
+  onClose: () => void;
+}
+
+// Upload a CSV or XLSX file, map its columns onto the import fields, preview the import
+// with a dry run and then commit it
+export function BatchImport({ categories, locations, onImported, onClose }: BatchImportProps) {
+  const { t } = useLanguage();
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<BatchImportMode>('insert');
+  const [pasted, setPasted] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [allOrNothing, setAllOrNothing] = useState(false);
+  const [onUnknown, setOnUnknown] = useState<UnknownReferenceAction>('reject');
+  const [references, setReferences] = useState<UnknownReference[]>([]);
+  const [matches, setMatches] = useState<ReferenceMatches>({ category: {}, location: {} });
+  const [preview, setPreview] = useState<BatchImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    trpc.importTemplates.getAll.query()
+      .then(setTemplates)
+      .catch((error: unknown) => console.error('Failed to load import templates:', error));
+  }, []);
+
+  // Columns whose header matches a field name or its label are mapped straight away
+  const guessMapping = (headers: string[]): ColumnMapping => {
+    const guessed: ColumnMapping = {};
+    for (const field of FIELDS) {
+      const names = [normalize(field), normalize(t(FIELD_LABELS[field]))];
+      const header = headers.find((candidate: string) => names.includes(normalize(candidate)));
+      if (header !== undefined) {
+        guessed[field] = header;
+      }
+    }
+    return guessed;
+  };
+
+  const loadRows = (rows: SheetRows) => {
+    const [headerRow = [], ...dataRows] = rows;
+    const headers = headerRow.map((header: string, index: number) => header.trim() || `${t('importer.column')} ${index + 1}`);
+    const loaded: Sheet = {
+      headers,
+      rows: dataRows
+        .map((cells: string[], index: number) => ({ line: index + 2, cells }))
+        .filter(({ cells }) => cells.some((cell: string) => cell.trim() !== ''))
+    };
+    setSheet(loaded);
+    setMapping(guessMapping(headers));
+    setReferences([]);
+    setMatches({ category: {}, location: {} });
+    setPreview(null);
+    setError(loaded.rows.length === 0 ? t('importer.noRows') : '');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      loadRows(await readSpreadsheet(file));
+      setFileName(file.name);
+    } catch (error) {
+      console.error('Failed to read spreadsheet:', error);
+      setSheet(null);
+      setError(error instanceof Error ? error.message : t('importer.unreadable'));
+    }
+  };
+
+  const changeMapping = (field: BatchImportField, header: string) => {
+    setMapping((prev: ColumnMapping) => ({ ...prev, [field]: header || undefined }));
+    setPreview(null);
+  };
+
+  // Only columns this sheet has are taken from a template
+  const applyTemplate = (id: number) => {
+    const template = templates.find((candidate: ImportTemplate) => candidate.id === id);
+    if (!template || !sheet) {
+      return;
+    }
+    const applied: ColumnMapping = {};
+    for (const field of FIELDS) {
+      const header = template.mapping[field];
+      if (header !== undefined && sheet.headers.includes(header)) {
+        applied[field] = header;
+      }
+    }
+    setMapping(applied);
+    setTemplateName(template.name);
+    setPreview(null);
+  };
+
+  const saveTemplate = async () => {
+    try {
+      const saved = await trpc.importTemplates.save.mutate({ name: templateName, mapping });
+      setTemplates((prev: ImportTemplate[]) => [...prev.filter((template: ImportTemplate) => template.id !== saved.id), saved]
+        .sort((a: ImportTemplate, b: ImportTemplate) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Failed to save import template:', error);
+      setError(error instanceof Error ? error.message : t('importer.saveTemplateFailed'));
+    }
+  };
+
+  const deleteTemplate = async () => {
+    const template = templates.find((candidate: ImportTemplate) => candidate.name === templateName);
+    if (!template || !confirm(t('importer.confirmDeleteTemplate'))) {
+      return;
+    }
+    try {
+      await trpc.importTemplates.delete.mutate({ id: template.id });
+      setTemplates((prev: ImportTemplate[]) => prev.filter((candidate: ImportTemplate) => candidate.id !== template.id));
+      setTemplateName('');
+    } catch (error) {
+      console.error('Failed to delete import template:', error);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!sheet) {
+      return;
+    }
+    const items = sheet.rows.map(({ cells }) => Object.fromEntries(FIELDS.map((field: BatchImportField) => {
+      const column = mapping[field] !== undefined ? sheet.headers.indexOf(mapping[field]) : -1;
+      return [field, column >= 0 ? cells[column] ?? '' : null];
+    })));
+
+    try {
+      setBusy(true);
+      setError('');
+      const input: BatchImportInput = {
+        items,
+        mode,
+        all_or_nothing: allOrNothing,
+        dry_run: dryRun,
+        file_name: fileName,
+        on_unknown_reference: onUnknown,
+        ...(onUnknown === 'map' && { category_matches: matches.category, location_matches: matches.location })
+      };
+      const result = await trpc.inventory.batchImport.mutate(input);
+      setPreview(result);
+      // Names already matched stay listed so their match can still be changed
+      setReferences((prev: UnknownReference[]) => [
+        ...prev.filter((reference: UnknownReference) =>
+          matches[reference.kind][reference.name] !== undefined && !result.unknown_references.some(sameReference(reference))),
+        ...result.unknown_references
+      ]);
+      if (!dryRun) {
+        onImported();
+      }
+    } catch (error) {
+      console.error('Failed to batch import items:', error);
+      setError(error instanceof Error ? error.message : t('importer.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const committed = preview !== null && !preview.dry_run;
+
+  const changeMatch = (reference: UnknownReference, id: number | null) => {
+    setMatches((prev: ReferenceMatches) => {
+      const kindMatches = { ...prev[reference.kind] };
+      if (id === null) {
+        delete kindMatches[reference.name];
+      } else {
+        kindMatches[reference.name] = id;
+      }
+      return { ...prev, [reference.kind]: kindMatches };
+    });
+    setPreview(null);
+  };
+
+  const acceptSuggestions = () => {
+    setMatches((prev: ReferenceMatches) => {
+      const next: ReferenceMatches = { category: { ...prev.category }, location: { ...prev.location } };
+      for (const reference of references) {
+        if (next[reference.kind][reference.name] === undefined && reference.suggestions.length > 0) {
+          next[reference.kind][reference.name] = reference.suggestions[0].id;
+        }
+      }
+      return next;
+    });
+    setPreview(null);
+  };
+
+  // Suggested records first, then every other record of the kind
+  const matchOptions = (reference: UnknownReference) => {
+    const records = reference.kind === 'category'
+      ? categories.map((category: Category) => ({ id: category.id, name: category.name }))
+      : locations.map((location: Location) => ({ id: location.id, name: `${location.name} (${location.branch_code})` }));
+    const suggested = new Set(reference.suggestions.map(suggestion => suggestion.id));
+    return [
+      ...reference.suggestions.map(suggestion => ({ id: suggestion.id, name: `★ ${records.find(record => record.id === suggestion.id)?.name ?? suggestion.name}` })),
+      ...records.filter(record => !suggested.has(record.id))
+    ];
+  };
+
+  return (
+    <div className="win98-group">
+      <div className="win98-group-title">{t('inventory.batchImport')}</div>
+
+      <div className="form-row">
+        <label>{t('importer.file')}:</label>
+        <input type="file" accept=".csv,.tsv,.txt,.xlsx" onChange={handleFile} />
+      </div>
+
+      <textarea
+        className="win98-textarea"
+        value={pasted}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setPasted(e.target.value)}
+        rows={4}
+        placeholder={t('importer.pastePlaceholder')}
+      />
+      <div className="form-row">
+        <button
+          className="win98-button"
+          onClick={() => {
+            loadRows(parseDelimited(pasted));
+            setFileName(null);
+          }}
+          disabled={!pasted.trim()}
+        >
+          {t('importer.usePasted')}
+        </button>
+      </div>
+
+      {error && <div style={{ color: '#c00', padding: '8px' }}>{error}</div>}
+
+      {sheet && sheet.rows.length > 0 && (
+        <>
+          <div className="form-row">
+            <label>{t('importer.template')}:</label>
+            <select
+              className="win98-select"
+              value={templates.find((template: ImportTemplate) => template.name === templateName)?.id ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => applyTemplate(Number(e.target.value))}
+            >
+              <option value="">{t('common.select')}</option>
+              {templates.map((template: ImportTemplate) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              className="win98-input"
+              value={templateName}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTemplateName(e.target.value)}
+              placeholder={t('importer.templateName')}
+            />
+            <button className="win98-button" onClick={saveTemplate} disabled={!templateName.trim()}>
+              💾 {t('importer.saveTemplate')}
+            </button>
+            {templates.some((template: ImportTemplate) => template.name === templateName) && (
+              <button className="win98-button" onClick={deleteTemplate}>
+                {t('importer.deleteTemplate')}
+              </button>
+            )}
+          </div>
+
+          <table className="win98-table">
+            <thead>
+              <tr>
+                <th>{t('importer.field')}</th>
+                <th>{t('importer.column')}</th>
+                <th>{t('importer.sample')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {FIELDS.map((field: BatchImportField) => {
+                const column = mapping[field] !== undefined ? sheet.headers.indexOf(mapping[field]) : -1;
+                return (
+                  <tr key={field}>
+                    <td>{t(FIELD_LABELS[field])}{field !== 'description' && ' *'}</td>
+                    <td>
+                      <select
+                        className="win98-select"
+                        value={mapping[field] ?? ''}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => changeMapping(field, e.target.value)}
+                      >
+                        <option value="">{t('importer.notMapped')}</option>
+                        {sheet.headers.map((header: string, index: number) => (
+                          <option key={index} value={header}>{header}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>{column >= 0 ? sheet.rows[0].cells[column] : ''}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="form-row">
+            <label>{t('importer.mode')}:</label>
+            <select
+              className="win98-select"
+              value={mode}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                setMode(e.target.value as BatchImportMode);
+                setPreview(null);
+              }}
+            >
+              {batchImportModeEnum.options.map((option: BatchImportMode) => (
+                <option key={option} value={option}>{t(`importer.modes.${option}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-row">
+            <label>{t('importer.unknownReferences')}:</label>
+            <select
+              className="win98-select"
+              value={onUnknown}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                setOnUnknown(e.target.value as UnknownReferenceAction);
+                setPreview(null);
+              }}
+            >
+              {unknownReferenceActionEnum.options.map((option: UnknownReferenceAction) => (
+                <option key={option} value={option}>{t(`importer.unknownActions.${option}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          <label>
+            <input
+              type="checkbox"
+              checked={allOrNothing}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setAllOrNothing(e.target.checked);
+                setPreview(null);
+              }}
+            />{' '}
+            {t('inventory.allOrNothing')}
+          </label>
+        </>
+      )}
+
+      {onUnknown === 'map' && references.length > 0 && (
+        <div style={{ marginTop: '8px' }}>
+          <p>
+            <strong>{t('importer.confirmMatches')}</strong> {t('importer.confirmMatchesHint')}
+          </p>
+          <table className="win98-table">
+            <thead>
+              <tr>
+                <th>{t('importer.kind')}</th>
+                <th>{t('importer.inFile')}</th>
+                <th>{t('importer.row')}</th>
+                <th>{t('importer.match')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {references.map((reference: UnknownReference) => (
+                <tr key={`${reference.kind}:${reference.name}`}>
+                  <td>{reference.kind === 'category' ? t('inventory.category') : t('inventory.location')}</td>
+                  <td>{reference.name}</td>
+                  <td>{reference.rows.map((row: number) => sheet?.rows[row - 1]?.line ?? row).join(', ')}</td>
+                  <td>
+                    <select
+                      className="win98-select"
+                      value={matches[reference.kind][reference.name] ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                        changeMatch(reference, e.target.value ? Number(e.target.value) : null)
+                      }
+                    >
+                      <option value="">{t('importer.noMatch')}</option>
+                      {matchOptions(reference).map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="form-row">
+            <button className="win98-button" onClick={acceptSuggestions}>
+              ★ {t('importer.acceptSuggestions')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {preview && sheet && (
+        <div style={{ marginTop: '8px' }}>
+          <p>
+            <strong>
+              {preview.success} / {preview.rows.length} {preview.dry_run ? t('importer.rowsReady') : t('importer.rowsImported')}
+            </strong>
+            {preview.rolled_back && <> — {preview.dry_run ? t('importer.nothingWillImport') : t('importer.nothingImported')}</>}
+          </p>
+          {preview.new_categories.length > 0 && (
+            <p>{preview.dry_run ? t('importer.newCategoriesPreview') : t('importer.newCategories')}: {preview.new_categories.join(', ')}</p>
+          )}
+          {preview.new_locations.length > 0 && (
+            <p>{preview.dry_run ? t('importer.newLocationsPreview') : t('importer.newLocations')}: {preview.new_locations.join(', ')}</p>
+          )}
+          <MissingItems items={preview.missing} />
+
+          <ImportRowResults rows={preview.rows} lineOf={(row: number) => sheet.rows[row - 1]?.line ?? row} />
+        </div>
+      )}
+
+      <div className="form-row">
+        {!committed && (
+          <>
+            <button className="win98-button" onClick={() => runImport(true)} disabled={busy || !sheet || sheet.rows.length === 0}>
+              🔍 {t('importer.preview')}
+            </button>
+            <button
+              className="win98-button-primary"
+              onClick={() => runImport(false)}
+              disabled={busy || preview === null || preview.success === 0}
+            >
+              {t('common.import')}
+            </button>
+          </>
+        )}
+        <button className="win98-button" onClick={onClose}>
+          {committed ? t('importer.close') : t('inventory.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from './AuthContext';
+import { useLanguage } from './LanguageContext';
+
+interface ChangePasswordFormProps {
+  onSuccess?: () => void;
+}
+
+export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
+  const { changePassword } = useAuth();
+  const { t } = useLanguage();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    if (newPassword.length < 6) {
+      setError(t('auth.passwordTooShort'));
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError(t('auth.passwordMismatch'));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setSuccess(t('auth.passwordChanged'));
+      onSuccess?.();
+    } catch (error) {
+      console.error('Failed to change password:', error);
+      setError(error instanceof Error ? error.message : t('auth.changePassword'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="current-password">{t('auth.currentPassword')}</Label>
+        <Input
+          id="current-password"
+          type="password"
+          value={currentPassword}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCurrentPassword(e.target.value)}
+          disabled={isSaving}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="new-password">{t('auth.newPassword')}</Label>
+        <Input
+          id="new-password"
+          type="password"
+          value={newPassword}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+          disabled={isSaving}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password">{t('auth.confirmPassword')}</Label>
+        <Input
+          id="confirm-password"
+          type="password"
+          value={confirmPassword}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+          disabled={isSaving}
+          required
+        />
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">
+            {error}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">
+            {success}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isSaving}>
+        {isSaving ? t('auth.saving') : `🔑 ${t('auth.changePassword')}`}
+      </Button>
+    </form>
+  );
+}
+
+// Full-screen prompt shown instead of the app while the user has a pending forced password change
+export function ForcePasswordChange() {
+  const { user, logout } = useAuth();
+  const { t } = useLanguage();
+
+  return (
+    <div className="login-container">
+      <div className="login-background">
+        <div className="login-window">
+          <div className="titlebar">
+            <div className="titlebar-text">🔑 {t('auth.changePassword')} - {t('app.title')}</div>
+            <div className="titlebar-buttons">
+              <button className="titlebar-button logout-button" onClick={logout} title={t('auth.logout')}>
+                🚪
+              </button>
+            </div>
+          </div>
+
+          <div className="login-content">
+            <Card className="w-full max-w-md mx-auto">
+              <CardHeader className="text-center">
+                <CardTitle className="text-2xl">👤 {user?.username}</CardTitle>
+                <CardDescription>{t('auth.mustChangePassword')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChangePasswordForm />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { useLanguage } from './LanguageContext';
+import type { AuditLog, AuditEntityType } from '../../../server/src/schema';
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: number | string;
+}
+
+// Change log of a single record, newest first
+export function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const result = await trpc.audit.query.query({
+          entity_type: entityType,
+          entity_id: String(entityId),
+          limit: 200
+        });
+        setEntries(result);
+      } catch (error) {
+        console.error('Failed to load audit history:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load audit history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [entityType, entityId]);
+
+  if (loading) {
+    return <div style={{ textAlign: 'center', padding: '20px' }}>{t('audit.loading')}</div>;
+  }
+
+  if (error) {
+    return <div style={{ color: '#c00', padding: '8px' }}>{error}</div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>
+        {t('audit.noEntries')}
+      </div>
+    );
+  }
+
+  return (
+    <table className="win98-table">
+      <thead>
+        <tr>
+          <th>{t('audit.time')}</th>
+          <th>{t('audit.user')}</th>
+          <th>{t('audit.action')}</th>
+          <th>{t('audit.changes')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry: AuditLog) => {
+          const values = entry.action === 'delete' ? entry.before : entry.after;
+          return (
+            <tr key={entry.id}>
+              <td style={{ whiteSpace: 'nowrap' }}>{entry.created_at.toLocaleString()}</td>
+              <td>{entry.username ?? <em style={{ color: '#999' }}>{t('audit.system')}</em>}</td>
+              <td>{t(`audit.actions.${entry.action}`)}</td>
+              <td>
+                {Object.keys(values ?? {}).map((field: string) => (
+                  <div key={field} style={{ fontSize: '11px' }}>
+                    <strong>{field}</strong>:{' '}
+                    {entry.action === 'update' && (
+                      <>
+                        <span style={{ color: '#999', textDecoration: 'line-through' }}>
+                          {formatValue(entry.before?.[field])}
+                        </span>
+                        {' → '}
+                      </>
+                    )}
+                    {formatValue(values?.[field])}
+                  </div>
+                ))}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+interface EntityDetailsProps {
+  entityType: AuditEntityType;
+  entityId: number;
+  fields: { label: string; value: ReactNode }[];
+}
+
+// Read-only field list with a change history tab for users allowed to see the audit log
+export function EntityDetails({ entityType, entityId, fields }: EntityDetailsProps) {
+  const { t } = useLanguage();
+  const { can } = useAuth();
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+
+  return (
+    <div className="win98-tabs">
+      <div className="win98-tab-list">
+        <button
+          className={`win98-tab ${activeTab === 'details' ? 'active' : ''}`}
+          onClick={() => setActiveTab('details')}
+        >
+          📋 {t('audit.details')}
+        </button>
+        {can('audit.view') && (
+          <button
+            className={`win98-tab ${activeTab === 'history' ? 'active' : ''}`}
+            onClick={() => setActiveTab('history')}
+          >
+            🕘 {t('audit.history')}
+          </button>
+        )}
+      </div>
+
+      <div className="win98-tab-content" style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+        {activeTab === 'details' ? (
+          <table className="win98-table">
+            <tbody>
+              {fields.map(({ label, value }) => (
+                <tr key={label}>
+                  <th style={{ textAlign: 'left', width: '35%' }}>{label}</th>
+                  <td>{value ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <AuditHistory entityType={entityType} entityId={entityId} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface EntityDetailsDialogProps extends EntityDetailsProps {
+  title: string;
+  onClose: () => void;
+}
+
+export function EntityDetailsDialog({ title, onClose, ...details }: EntityDetailsDialogProps) {
+  return (
+    <Dialog open onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <EntityDetails {...details} />
+      </DialogContent>
+    </Dialog>
+  );
+}
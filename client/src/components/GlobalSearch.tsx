@@ -0,0 +1,138 @@
+import { useState, useEffect, useRef } from 'react';
+import { trpc } from '@/utils/trpc';
+import { useLanguage } from './LanguageContext';
+import type { SearchResult } from '../../../server/src/schema';
+
+const SEARCH_DELAY_MS = 250;
+
+const TYPE_ICONS: Record<SearchResult['type'], string> = {
+  inventory_item: '📦',
+  purchase: '🛒',
+  supplier: '🏢',
+  location: '📍'
+};
+
+interface GlobalSearchProps {
+  onOpen: (result: SearchResult) => void;
+}
+
+// Search box for the title bar: arrow keys move through the results, Enter opens one,
+// Escape closes the list and Ctrl+K focuses the box from anywhere
+export function GlobalSearch({ onOpen }: GlobalSearchProps) {
+  const { t } = useLanguage();
+  const [text, setText] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searched, setSearched] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleShortcut = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        inputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  useEffect(() => {
+    const query = text.trim();
+    if (!query) {
+      setResults([]);
+      setSearched(false);
+      return;
+    }
+
+    // Wait for a pause in typing; drop answers to queries that were typed over
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      trpc.search.global.query({ query })
+        .then((found: SearchResult[]) => {
+          if (!cancelled) {
+            setResults(found);
+            setSearched(true);
+            setHighlighted(0);
+          }
+        })
+        .catch((error: unknown) => console.error('Global search failed:', error));
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text]);
+
+  const select = (result: SearchResult) => {
+    onOpen(result);
+    setText('');
+    setOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted((prev: number) => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((prev: number) => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[highlighted]) {
+      e.preventDefault();
+      select(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="global-search">
+      <input
+        ref={inputRef}
+        type="search"
+        className="win98-input"
+        placeholder={`🔍 ${t('globalSearch.placeholder')}`}
+        value={text}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          setText(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        aria-label={t('globalSearch.placeholder')}
+      />
+      {open && text.trim() && searched && (
+        <div className="global-search-results" role="listbox">
+          {results.length === 0 && (
+            <div className="global-search-result">{t('globalSearch.noResults')}</div>
+          )}
+          {results.map((result: SearchResult, index: number) => (
+            <div
+              key={`${result.type}-${result.id}`}
+              role="option"
+              aria-selected={index === highlighted}
+              className={`global-search-result ${index === highlighted ? 'active' : ''}`}
+              // Fires before the input's blur closes the list
+              onMouseDown={(e: React.MouseEvent) => {
+                e.preventDefault();
+                select(result);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              {TYPE_ICONS[result.type]} {result.title}
+              <small>
+                {t(`globalSearch.types.${result.type}`)}
+                {result.subtitle && ` · ${result.subtitle}`}
+              </small>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,26 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useAuth } from './AuthContext';
 import { useLanguage } from './LanguageContext';
+import { ChangePasswordForm } from './ChangePassword';
+import { MySessions } from './Sessions';
+import { TwoFactorSettings } from './TwoFactor';
+import { GlobalSearch } from './GlobalSearch';
+import type { SearchResult } from '../../../server/src/schema';
 
-export function Header() {
-  const { user, logout } = useAuth();
+interface HeaderProps {
+  onOpenSearchResult: (result: SearchResult) => void;
+}
+
+export function Header({ onOpenSearchResult }: HeaderProps) {
+  const { user, logout, can } = useAuth();
   const { language, setLanguage, t } = useLanguage();
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
 
   const handleLogout = async () => {
     if (confirm(t('auth.logoutConfirm'))) {
@@ -13,6 +28,8 @@ export function Header() {
     }
   };
 
+  const canSearch = can('inventory.view') || can('purchases.view') || can('suppliers.view') || can('locations.view');
+
   const handleLanguageChange = (value: string) => {
     setLanguage(value as 'en' | 'id');
   };
@@ -21,6 +38,7 @@ export function Header() {
     <div className="titlebar">
       <div className="titlebar-text">📟 {t('app.title')}</div>
       <div className="titlebar-info">
+        {user && canSearch && <GlobalSearch onOpen={onOpenSearchResult} />}
         <div className="language-selector">
           <Select value={language} onValueChange={handleLanguageChange}>
             <SelectTrigger className="w-32 h-6 text-xs bg-gray-200 border border-gray-400 text-black">
@@ -33,9 +51,28 @@ export function Header() {
           </Select>
         </div>
         {user && (
-          <span className="user-info ml-2">
-            👤 {user.username} ({user.role === 'admin' ? `👑 ${t('auth.admin')}` : `👤 ${t('auth.user')}`})
-          </span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="user-info ml-2">
+                👤 {user.username} ({user.role === 'admin' ? '👑' : '👤'} {t(`roles.names.${user.role}`)}) ▾
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => setShowChangePassword(true)}>
+                🔑 {t('auth.changePassword')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setShowTwoFactor(true)}>
+                🛡️ {t('mfa.title')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setShowSessions(true)}>
+                💻 {t('sessions.mySessions')}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={handleLogout}>
+                🚪 {t('auth.logout')}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         )}
       </div>
       <div className="titlebar-buttons">
@@ -52,6 +89,33 @@ export function Header() {
         <button className="titlebar-button">□</button>
         <button className="titlebar-button">×</button>
       </div>
+
+      <Dialog open={showChangePassword} onOpenChange={setShowChangePassword}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>🔑 {t('auth.changePassword')}</DialogTitle>
+          </DialogHeader>
+          <ChangePasswordForm />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showTwoFactor} onOpenChange={setShowTwoFactor}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>🛡️ {t('mfa.title')}</DialogTitle>
+          </DialogHeader>
+          {showTwoFactor && <TwoFactorSettings />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showSessions} onOpenChange={setShowSessions}>
+        <DialogContent className="sm:max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>💻 {t('sessions.mySessions')}</DialogTitle>
+          </DialogHeader>
+          {showSessions && <MySessions />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { trpc } from '@/utils/trpc';
+import { useLanguage } from './LanguageContext';
+import { ImportRowResults, MissingItems } from './BatchImport';
+import type { ImportJob, ImportJobDetail } from '../../../server/src/schema';
+
+// Past batch imports, newest first; opening one lists the outcome of each of its rows
+export function ImportHistory({ onClose }: { onClose: () => void }) {
+  const { t } = useLanguage();
+  const [jobs, setJobs] = useState<ImportJob[] | null>(null);
+  const [openJob, setOpenJob] = useState<ImportJobDetail | null>(null);
+
+  useEffect(() => {
+    trpc.importJobs.getAll.query({ limit: 50 })
+      .then(setJobs)
+      .catch((error: unknown) => console.error('Failed to load import jobs:', error));
+  }, []);
+
+  const toggleJob = async (id: number) => {
+    if (openJob?.id === id) {
+      setOpenJob(null);
+      return;
+    }
+    try {
+      setOpenJob(await trpc.importJobs.getById.query({ id }));
+    } catch (error) {
+      console.error('Failed to load import job:', error);
+    }
+  };
+
+  return (
+    <div className="win98-group">
+      <div className="win98-group-title">🗂️ {t('importer.history')}</div>
+
+      {jobs === null && <div style={{ textAlign: 'center', padding: '20px' }}>…</div>}
+      {jobs !== null && jobs.length === 0 && (
+        <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>{t('importer.noJobs')}</div>
+      )}
+      {jobs !== null && jobs.length > 0 && (
+        <table className="win98-table">
+          <thead>
+            <tr>
+              <th>{t('audit.time')}</th>
+              <th>{t('audit.user')}</th>
+              <th>{t('importer.mode')}</th>
+              <th>{t('importer.fileName')}</th>
+              <th>{t('importer.statuses.created')}</th>
+              <th>{t('importer.statuses.updated')}</th>
+              <th>{t('importer.statuses.unchanged')}</th>
+              <th>{t('importer.statuses.skipped')}</th>
+              <th>{t('importer.statuses.error')}</th>
+              <th>{t('importer.missingCount')}</th>
+              <th>{t('inventory.actions')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map((job: ImportJob) => (
+              <tr key={job.id}>
+                <td style={{ whiteSpace: 'nowrap' }}>{job.created_at.toLocaleString()}</td>
+                <td>{job.created_by ?? '—'}</td>
+                <td>
+                  {t(`importer.modes.${job.mode}`)}
+                  {job.rolled_back && <div style={{ color: '#c00' }}>{t('importer.nothingImported')}</div>}
+                </td>
+                <td>{job.file_name ?? '—'}</td>
+                <td>{job.created_count}</td>
+                <td>{job.updated_count}</td>
+                <td>{job.unchanged_count}</td>
+                <td>{job.skipped_count}</td>
+                <td>{job.error_count}</td>
+                <td>{job.missing_count}</td>
+                <td>
+                  <button className="win98-button" onClick={() => toggleJob(job.id)}>
+                    {openJob?.id === job.id ? t('importer.hideRows') : t('importer.showRows')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {openJob && (
+        <div style={{ marginTop: '8px' }}>
+          <MissingItems items={openJob.missing} />
+          <ImportRowResults rows={openJob.rows} />
+        </div>
+      )}
+
+      <div className="form-row">
+        <button className="win98-button" onClick={onClose}>
+          {t('importer.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
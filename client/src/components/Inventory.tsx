@@ -1,13 +1,19 @@
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
 import { useLanguage } from './LanguageContext';
+import { useAuth } from './AuthContext';
+import { ItemLink } from './ItemDetail';
+import { BatchImport } from './BatchImport';
+import { ImportHistory } from './ImportHistory';
+import { SortableHeader, Pager } from './ListControls';
+import { useListQuery, numberFilter } from '@/lib/listQuery';
+import { inventorySortFieldEnum } from '../../../server/src/schema';
 import type { 
   InventoryItem, 
   CreateInventoryItemInput, 
   UpdateInventoryItemInput,
   Category,
-  Location,
-  BatchImportInput 
+  Location
 } from '../../../server/src/schema';
 
 interface InventoryWithDetails extends InventoryItem {
@@ -17,13 +23,17 @@ interface InventoryWithDetails extends InventoryItem {
 
 export function Inventory() {
   const { t } = useLanguage();
+  const { can } = useAuth();
   const [items, setItems] = useState<InventoryWithDetails[]>([]);
+  const [total, setTotal] = useState(0);
+  const { query, setFilter, setPage, setPageSize, toggleSort } = useListQuery('inventory', inventorySortFieldEnum.options);
   const [categories, setCategories] = useState<Category[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryWithDetails | null>(null);
   const [showBatchImport, setShowBatchImport] = useState(false);
+  const [showImportHistory, setShowImportHistory] = useState(false);
 
   const [formData, setFormData] = useState<CreateInventoryItemInput>({
     item_code: '',
@@ -37,18 +47,24 @@ export function Inventory() {
     purchase_date: new Date()
   });
 
-  const [batchData, setBatchData] = useState<string>('');
-
   const loadData = useCallback(async () => {
     try {
-      const [itemsResult, categoriesResult, locationsResult] = await Promise.all([
-        trpc.inventory.getAll.query(),
+      const [pageResult, categoriesResult, locationsResult] = await Promise.all([
+        trpc.inventory.list.query({
+          page: query.page,
+          page_size: query.pageSize,
+          sort: query.sort,
+          search: query.filters.search || undefined,
+          category_id: numberFilter(query.filters.category_id),
+          location_id: numberFilter(query.filters.location_id),
+          condition: query.filters.condition as InventoryItem['condition'] | undefined
+        }),
         trpc.categories.getAll.query(),
         trpc.locations.getAll.query()
       ]);
 
       // Enhance items with category and location names
-      const itemsWithDetails = itemsResult.map((item: InventoryItem) => {
+      const itemsWithDetails = pageResult.items.map((item: InventoryItem) => {
         const category = categoriesResult.find((cat: Category) => cat.id === item.category_id);
         const location = locationsResult.find((loc: Location) => loc.id === item.location_id);
         
@@ -60,6 +76,7 @@ export function Inventory() {
       });
 
       setItems(itemsWithDetails);
+      setTotal(pageResult.total);
       setCategories(categoriesResult);
       setLocations(locationsResult);
     } catch (error) {
@@ -67,7 +84,7 @@ export function Inventory() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [query]);
 
   useEffect(() => {
     loadData();
@@ -113,6 +130,16 @@ export function Inventory() {
     setShowForm(true);
   };
 
+  // Roles limited to condition updates change the condition straight from the list
+  const handleConditionChange = async (id: number, condition: InventoryItem['condition']) => {
+    try {
+      await trpc.inventory.update.mutate({ id, condition });
+      await loadData();
+    } catch (error) {
+      console.error('Failed to update condition:', error);
+    }
+  };
+
   const handleDelete = async (id: number) => {
     if (!confirm(t('inventory.confirmDelete'))) return;
     
@@ -140,35 +167,6 @@ export function Inventory() {
     setShowForm(false);
   };
 
-  const handleBatchImport = async () => {
-    try {
-      const lines = batchData.trim().split('\n');
-      const items = lines.map((line: string) => {
-        const [item_code, name, description, category_name, location_name, condition, quantity, purchase_price, purchase_date] = line.split('\t');
-        
-        return {
-          item_code: item_code?.trim() || '',
-          name: name?.trim() || '',
-          description: description?.trim() || null,
-          category_name: category_name?.trim() || '',
-          location_name: location_name?.trim() || '',
-          condition: condition?.trim() as any || 'good',
-          quantity: parseInt(quantity?.trim() || '0'),
-          purchase_price: parseFloat(purchase_price?.trim() || '0'),
-          purchase_date: new Date(purchase_date?.trim() || new Date())
-        };
-      });
-
-      const batchInput: BatchImportInput = { items };
-      await trpc.inventory.batchImport.mutate(batchInput);
-      await loadData();
-      setBatchData('');
-      setShowBatchImport(false);
-    } catch (error) {
-      console.error('Failed to batch import items:', error);
-    }
-  };
-
   if (loading && items.length === 0) {
     return (
       <div className="win98-group">
@@ -186,18 +184,30 @@ export function Inventory() {
         <div className="win98-group-title">📦 {t('inventory.title')}</div>
         
         <div className="form-row">
-          <button 
-            className="win98-button-primary" 
-            onClick={() => setShowForm(true)}
-          >
-            {t('inventory.addItem')}
-          </button>
-          <button 
-            className="win98-button" 
-            onClick={() => setShowBatchImport(true)}
-          >
-            {t('inventory.batchImport')}
-          </button>
+          {can('inventory.create') && (
+            <button 
+              className="win98-button-primary" 
+              onClick={() => setShowForm(true)}
+            >
+              {t('inventory.addItem')}
+            </button>
+          )}
+          {can('inventory.import') && (
+            <button 
+              className="win98-button" 
+              onClick={() => setShowBatchImport(true)}
+            >
+              {t('inventory.batchImport')}
+            </button>
+          )}
+          {can('inventory.import') && (
+            <button
+              className="win98-button"
+              onClick={() => setShowImportHistory(true)}
+            >
+              {t('importer.history')}
+            </button>
+          )}
           <button 
             className="win98-button" 
             onClick={() => loadData()}
@@ -345,50 +355,78 @@ export function Inventory() {
         )}
 
         {showBatchImport && (
-          <div className="win98-group">
-            <div className="win98-group-title">{t('inventory.batchImport')}</div>
-            
-            <p style={{ marginBottom: '8px' }}>
-              Paste tab-separated data with columns: Item Code, Name, Description, Category Name, Location Name, Condition, Quantity, Purchase Price, Purchase Date
-            </p>
-            
-            <textarea
-              className="win98-textarea"
-              value={batchData}
-              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setBatchData(e.target.value)}
-              rows={10}
-              placeholder="IT001	Laptop Dell	High-performance laptop	Electronics	Main Office	excellent	1	1500.00	2023-01-15"
-            />
+          <BatchImport
+            categories={categories}
+            locations={locations}
+            onImported={loadData}
+            onClose={() => setShowBatchImport(false)}
+          />
+        )}
 
-            <div className="form-row">
-              <button className="win98-button-primary" onClick={handleBatchImport}>
-                {t('common.import')}
-              </button>
-              <button className="win98-button" onClick={() => setShowBatchImport(false)}>
-                {t('inventory.cancel')}
-              </button>
-            </div>
-          </div>
+        {showImportHistory && (
+          <ImportHistory onClose={() => setShowImportHistory(false)} />
         )}
 
+        <div className="form-row">
+          <input
+            type="text"
+            className="win98-input"
+            placeholder={t('list.searchPlaceholder')}
+            value={query.filters.search ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter('search', e.target.value)}
+          />
+          <select
+            className="win98-select"
+            value={query.filters.category_id ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter('category_id', e.target.value)}
+          >
+            <option value="">{t('list.allCategories')}</option>
+            {categories.map((category: Category) => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+          <select
+            className="win98-select"
+            value={query.filters.location_id ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter('location_id', e.target.value)}
+          >
+            <option value="">{t('list.allLocations')}</option>
+            {locations.map((location: Location) => (
+              <option key={location.id} value={location.id}>{location.name} ({location.branch_code})</option>
+            ))}
+          </select>
+          <select
+            className="win98-select"
+            value={query.filters.condition ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter('condition', e.target.value)}
+          >
+            <option value="">{t('list.allConditions')}</option>
+            <option value="excellent">{t('inventory.conditions.excellent')}</option>
+            <option value="good">{t('inventory.conditions.good')}</option>
+            <option value="fair">{t('inventory.conditions.fair')}</option>
+            <option value="poor">{t('inventory.conditions.poor')}</option>
+            <option value="damaged">{t('inventory.conditions.damaged')}</option>
+          </select>
+        </div>
+
         <table className="win98-table">
           <thead>
             <tr>
-              <th>{t('inventory.itemCode')}</th>
-              <th>{t('inventory.itemName')}</th>
-              <th>{t('inventory.category')}</th>
-              <th>{t('inventory.location')}</th>
-              <th>{t('inventory.condition')}</th>
-              <th>{t('inventory.quantity')}</th>
-              <th>{t('inventory.purchasePrice')}</th>
-              <th>{t('inventory.purchaseDate')}</th>
+              <SortableHeader field="item_code" sort={query.sort} onSort={toggleSort}>{t('inventory.itemCode')}</SortableHeader>
+              <SortableHeader field="name" sort={query.sort} onSort={toggleSort}>{t('inventory.itemName')}</SortableHeader>
+              <SortableHeader field="category" sort={query.sort} onSort={toggleSort}>{t('inventory.category')}</SortableHeader>
+              <SortableHeader field="location" sort={query.sort} onSort={toggleSort}>{t('inventory.location')}</SortableHeader>
+              <SortableHeader field="condition" sort={query.sort} onSort={toggleSort}>{t('inventory.condition')}</SortableHeader>
+              <SortableHeader field="quantity" sort={query.sort} onSort={toggleSort}>{t('inventory.quantity')}</SortableHeader>
+              <SortableHeader field="purchase_price" sort={query.sort} onSort={toggleSort}>{t('inventory.purchasePrice')}</SortableHeader>
+              <SortableHeader field="purchase_date" sort={query.sort} onSort={toggleSort}>{t('inventory.purchaseDate')}</SortableHeader>
               <th>{t('inventory.actions')}</th>
             </tr>
           </thead>
           <tbody>
             {items.map((item: InventoryWithDetails) => (
               <tr key={item.id}>
-                <td>{item.item_code}</td>
+                <td><ItemLink itemId={item.id}>{item.item_code}</ItemLink></td>
                 <td>{item.name}</td>
                 <td>{item.category_name}</td>
                 <td>{item.location_name}</td>
@@ -401,19 +439,41 @@ export function Inventory() {
                 <td>${item.purchase_price.toFixed(2)}</td>
                 <td>{item.purchase_date.toLocaleDateString()}</td>
                 <td>
-                  <button 
-                    className="win98-button" 
-                    onClick={() => handleEdit(item)}
-                    style={{ marginRight: '4px' }}
-                  >
-                    {t('inventory.edit')}
-                  </button>
-                  <button 
-                    className="win98-button" 
-                    onClick={() => handleDelete(item.id)}
-                  >
-                    {t('inventory.delete')}
-                  </button>
+                  <ItemLink itemId={item.id} className="win98-button mr-1">
+                    {t('audit.details')}
+                  </ItemLink>
+                  {can('inventory.update') ? (
+                    <button 
+                      className="win98-button" 
+                      onClick={() => handleEdit(item)}
+                      style={{ marginRight: '4px' }}
+                    >
+                      {t('inventory.edit')}
+                    </button>
+                  ) : can('inventory.updateCondition') && (
+                    <select
+                      className="win98-select"
+                      value={item.condition}
+                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                        handleConditionChange(item.id, e.target.value as InventoryItem['condition'])
+                      }
+                      style={{ marginRight: '4px' }}
+                    >
+                      <option value="excellent">{t('inventory.conditions.excellent')}</option>
+                      <option value="good">{t('inventory.conditions.good')}</option>
+                      <option value="fair">{t('inventory.conditions.fair')}</option>
+                      <option value="poor">{t('inventory.conditions.poor')}</option>
+                      <option value="damaged">{t('inventory.conditions.damaged')}</option>
+                    </select>
+                  )}
+                  {can('inventory.delete') && (
+                    <button 
+                      className="win98-button" 
+                      onClick={() => handleDelete(item.id)}
+                    >
+                      {t('inventory.delete')}
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -425,6 +485,14 @@ export function Inventory() {
             {t('inventory.noItems')}
           </div>
         )}
+
+        <Pager
+          page={query.page}
+          pageSize={query.pageSize}
+          total={total}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,251 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { useLanguage } from './LanguageContext';
+import { AuditHistory } from './EntityDetails';
+import { Link } from './Link';
+import { goBack } from '@/lib/router';
+import type { ItemDetail, ItemStock, ItemTimelineEvent } from '../../../server/src/schema';
+
+const EVENT_ICONS: Record<ItemTimelineEvent['type'], string> = {
+  created: '✨',
+  purchase: '🛒',
+  transfer: '🚚',
+  condition_change: '🔧',
+  custodian_change: '🤝'
+};
+
+// Units of one item code held at each location
+function ItemStockList({ code }: { code: string }) {
+  const [stock, setStock] = useState<ItemStock[] | null>(null);
+
+  useEffect(() => {
+    trpc.inventory.getStock.query({ code })
+      .then(setStock)
+      .catch((error: unknown) => console.error('Failed to load item stock:', error));
+  }, [code]);
+
+  if (stock === null) {
+    return <>…</>;
+  }
+
+  return (
+    <>
+      {stock.map((row: ItemStock) => (
+        <div key={row.item_id}>
+          {row.location_name} ({row.branch_code}): <strong>{row.quantity}</strong>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function TimelineEventSummary({ event }: { event: ItemTimelineEvent }) {
+  const { t } = useLanguage();
+
+  switch (event.type) {
+    case 'created':
+      return <>{event.location_name} · {t(`inventory.conditions.${event.condition}`)}</>;
+    case 'purchase':
+      return (
+        <>
+          {event.supplier_name} · {t('purchases.quantity')}: {event.quantity} · ${event.total_price.toFixed(2)}
+          {event.notes && <div><em>{event.notes}</em></div>}
+        </>
+      );
+    case 'transfer':
+      return (
+        <>
+          {event.from_location_name ?? '—'} → {event.to_location_name}
+          {event.quantity !== null && ` · ${t('inventory.quantity')}: ${event.quantity}`}
+          {' · '}{t(`locationHistory.statuses.${event.status}`)}
+          {event.reason && <div>{t('locationHistory.reason')}: {event.reason}</div>}
+          {event.notes && <div><em>{event.notes}</em></div>}
+        </>
+      );
+    case 'condition_change':
+      return (
+        <>
+          {event.from_condition ? t(`inventory.conditions.${event.from_condition}`) : '—'}
+          {' → '}{t(`inventory.conditions.${event.to_condition}`)}
+        </>
+      );
+    case 'custodian_change':
+      return <>{event.custodian} · {event.location_name}</>;
+  }
+}
+
+function ItemTimeline({ events }: { events: ItemTimelineEvent[] }) {
+  const { t } = useLanguage();
+
+  if (events.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>
+        {t('itemDetail.noEvents')}
+      </div>
+    );
+  }
+
+  return (
+    <table className="win98-table">
+      <thead>
+        <tr>
+          <th>{t('audit.time')}</th>
+          <th>{t('itemDetail.event')}</th>
+          <th>{t('audit.details')}</th>
+          <th>{t('audit.user')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {events.map((event: ItemTimelineEvent, index: number) => (
+          <tr key={index}>
+            <td style={{ whiteSpace: 'nowrap' }}>{event.occurred_at.toLocaleString()}</td>
+            <td style={{ whiteSpace: 'nowrap' }}>{EVENT_ICONS[event.type]} {t(`itemDetail.events.${event.type}`)}</td>
+            <td><TimelineEventSummary event={event} /></td>
+            <td>{event.actor ?? <em style={{ color: '#999' }}>—</em>}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Everything known about one asset: its current state, a lifecycle timeline and the raw change log
+export function ItemDetailPage({ itemId }: { itemId: number }) {
+  const { t } = useLanguage();
+  const { can } = useAuth();
+  const [detail, setDetail] = useState<ItemDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [activeTab, setActiveTab] = useState<'details' | 'timeline' | 'history'>('details');
+
+  useEffect(() => {
+    const loadDetail = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        setDetail(await trpc.inventory.getDetail.query({ id: itemId }));
+      } catch (error) {
+        console.error('Failed to load item detail:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load item detail');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDetail();
+  }, [itemId]);
+
+  const renderDetails = (detail: ItemDetail) => {
+    const { item } = detail;
+    const fields = [
+      { label: t('inventory.itemCode'), value: item.item_code },
+      { label: t('inventory.itemName'), value: item.name },
+      { label: t('inventory.description'), value: item.description },
+      { label: t('inventory.category'), value: detail.category_name },
+      { label: t('inventory.location'), value: detail.location_name },
+      { label: t('itemDetail.currentCustodian'), value: detail.current_custodian ?? <em style={{ color: '#999' }}>{t('itemDetail.noCustodian')}</em> },
+      { label: t('inventory.condition'), value: t(`inventory.conditions.${item.condition}`) },
+      { label: t('inventory.quantity'), value: item.quantity },
+      { label: t('inventory.stockByLocation'), value: <ItemStockList code={item.item_code} /> },
+      { label: t('inventory.purchasePrice'), value: `$${item.purchase_price.toFixed(2)}` },
+      ...(detail.total_cost_of_ownership !== null
+        ? [{ label: t('itemDetail.totalCost'), value: <strong>${detail.total_cost_of_ownership.toFixed(2)}</strong> }]
+        : []),
+      { label: t('inventory.purchaseDate'), value: item.purchase_date.toLocaleDateString() },
+      { label: t('common.updatedAt'), value: item.updated_at.toLocaleString() }
+    ];
+
+    return (
+      <table className="win98-table">
+        <tbody>
+          {fields.map(({ label, value }) => (
+            <tr key={label}>
+              <th style={{ textAlign: 'left', width: '35%' }}>{label}</th>
+              <td>{value ?? '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return <div style={{ textAlign: 'center', padding: '20px' }}>{t('itemDetail.loading')}</div>;
+    }
+    if (error) {
+      return <div style={{ color: '#c00', padding: '8px' }}>{error}</div>;
+    }
+    if (detail === null) {
+      return <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>{t('itemDetail.notFound')}</div>;
+    }
+
+    switch (activeTab) {
+      case 'details':
+        return renderDetails(detail);
+      case 'timeline':
+        return <ItemTimeline events={detail.timeline} />;
+      case 'history':
+        return <AuditHistory entityType="inventory_item" entityId={itemId} />;
+    }
+  };
+
+  return (
+    <div className="win98-group">
+      <div className="win98-group-title">
+        📦 {detail ? `${detail.item.item_code} - ${detail.item.name}` : t('itemDetail.loading')}
+      </div>
+
+      <div className="form-row">
+        <button className="win98-button" onClick={() => goBack('/inventory')}>
+          ◀ {t('common.back')}
+        </button>
+      </div>
+
+      <div className="win98-tabs">
+        <div className="win98-tab-list">
+          <button
+            className={`win98-tab ${activeTab === 'details' ? 'active' : ''}`}
+            onClick={() => setActiveTab('details')}
+          >
+            📋 {t('audit.details')}
+          </button>
+          <button
+            className={`win98-tab ${activeTab === 'timeline' ? 'active' : ''}`}
+            onClick={() => setActiveTab('timeline')}
+          >
+            🗓️ {t('itemDetail.timeline')}
+          </button>
+          {can('audit.view') && (
+            <button
+              className={`win98-tab ${activeTab === 'history' ? 'active' : ''}`}
+              onClick={() => setActiveTab('history')}
+            >
+              🕘 {t('audit.history')}
+            </button>
+          )}
+        </div>
+
+        <div className="win98-tab-content">
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ItemLinkProps {
+  itemId: number;
+  className?: string;
+  children: ReactNode;
+}
+
+// An item reference in a table that opens the item's detail page
+export function ItemLink({ itemId, className = 'item-link', children }: ItemLinkProps) {
+  return (
+    <Link to={`/inventory/${itemId}`} className={className}>
+      {children}
+    </Link>
+  );
+}
@@ -0,0 +1,26 @@
+import type { AnchorHTMLAttributes } from 'react';
+import { navigate } from '@/lib/router';
+
+interface LinkProps extends AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+}
+
+// In-app link: a plain click navigates without reloading, modified clicks keep the browser's behaviour
+export function Link({ to, onClick, children, ...props }: LinkProps) {
+  return (
+    <a
+      href={to}
+      {...props}
+      onClick={(e: React.MouseEvent<HTMLAnchorElement>) => {
+        onClick?.(e);
+        if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) {
+          return;
+        }
+        e.preventDefault();
+        navigate(to);
+      }}
+    >
+      {children}
+    </a>
+  );
+}
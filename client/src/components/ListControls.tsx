@@ -0,0 +1,79 @@
+import type { ReactNode } from 'react';
+import { useLanguage } from './LanguageContext';
+import { PAGE_SIZES, type SortKey } from '@/lib/listQuery';
+
+interface SortableHeaderProps<F extends string> {
+  field: F;
+  sort: SortKey<F>[];
+  onSort: (field: F, additive: boolean) => void;
+  children: ReactNode;
+}
+
+// Column header that sorts the list; shift-click adds the column to the existing sort
+export function SortableHeader<F extends string>({ field, sort, onSort, children }: SortableHeaderProps<F>) {
+  const { t } = useLanguage();
+  const index = sort.findIndex(key => key.field === field);
+  const key = index >= 0 ? sort[index] : null;
+
+  return (
+    <th
+      onClick={(e: React.MouseEvent) => onSort(field, e.shiftKey)}
+      title={t('list.sortHint')}
+      style={{ cursor: 'pointer', userSelect: 'none' }}
+    >
+      {children}
+      {key && (
+        <span style={{ marginLeft: '4px' }}>
+          {key.direction === 'asc' ? '▲' : '▼'}
+          {sort.length > 1 && <sup>{index + 1}</sup>}
+        </span>
+      )}
+    </th>
+  );
+}
+
+interface PagerProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+export function Pager({ page, pageSize, total, onPageChange, onPageSizeChange }: PagerProps) {
+  const { t } = useLanguage();
+  const pages = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="form-row" style={{ alignItems: 'center', justifyContent: 'space-between', marginTop: '8px' }}>
+      <span>
+        {first}–{last} {t('list.of')} {total}
+      </span>
+      <span>
+        <button className="win98-button" disabled={page <= 1} onClick={() => onPageChange(page - 1)}>
+          ◀ {t('list.previous')}
+        </button>
+        <span style={{ margin: '0 8px' }}>
+          {t('list.page')} {page} {t('list.of')} {pages}
+        </span>
+        <button className="win98-button" disabled={page >= pages} onClick={() => onPageChange(page + 1)}>
+          {t('list.next')} ▶
+        </button>
+      </span>
+      <label>
+        {t('list.pageSize')}:{' '}
+        <select
+          className="win98-select"
+          value={pageSize}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onPageSizeChange(parseInt(e.target.value))}
+        >
+          {PAGE_SIZES.map((size: number) => (
+            <option key={size} value={size}>{size}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
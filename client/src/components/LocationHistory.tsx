@@ -1,109 +1,168 @@
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { ItemLink } from './ItemDetail';
+import { downloadHandoverPdf } from '@/lib/handoverPdf';
+import { useListQuery, numberFilter, dateFilter } from '@/lib/listQuery';
+import { SortableHeader, Pager } from './ListControls';
+import { transferStatusTransitions, createLocationHistoryInputSchema, locationHistorySortFieldEnum } from '../../../server/src/schema';
 import type { 
-  LocationHistory as LocationHistoryType, 
+  LocationHistoryListRow, 
+  TransferStatus,
   CreateLocationHistoryInput, 
   UpdateLocationHistoryInput,
   InventoryItem,
-  Location 
+  Location,
+  UserDirectoryEntry
 } from '../../../server/src/schema';
 
-interface LocationHistoryWithDetails extends LocationHistoryType {
-  item_name?: string;
-  item_code?: string;
-  from_location_name?: string;
-  to_location_name?: string;
-}
+// Editing shows the record's current status, which may be one new transfers cannot start in
+type TransferFormData = Omit<CreateLocationHistoryInput, 'status'> & { status: TransferStatus };
+
+const STATUS_LABELS: Record<TransferStatus, string> = {
+  pending_approval: 'Awaiting Approval',
+  rejected: 'Rejected',
+  pending: 'Pending',
+  in_transit: 'In Transit',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+// Transfers that never changed hands have nothing to sign for
+const UNPRINTABLE_STATUSES: TransferStatus[] = ['pending_approval', 'rejected', 'cancelled'];
 
 export function LocationHistory() {
-  const [history, setHistory] = useState<LocationHistoryWithDetails[]>([]);
+  const { can } = useAuth();
+  const canApprove = can('locationHistory.approve');
+  const [history, setHistory] = useState<LocationHistoryListRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const { query, setFilter, setPage, setPageSize, toggleSort } = useListQuery('transfers', locationHistorySortFieldEnum.options);
+  const [approvalQueue, setApprovalQueue] = useState<LocationHistoryListRow[]>([]);
+  const [approvalError, setApprovalError] = useState('');
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
+  const [users, setUsers] = useState<UserDirectoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
-  const [editingHistory, setEditingHistory] = useState<LocationHistoryWithDetails | null>(null);
+  const [editingHistory, setEditingHistory] = useState<LocationHistoryListRow | null>(null);
+  const [formError, setFormError] = useState('');
 
-  const [formData, setFormData] = useState<CreateLocationHistoryInput>({
+  const [formData, setFormData] = useState<TransferFormData>({
     item_id: 0,
     from_location_id: null,
     to_location_id: 0,
     transfer_date: new Date(),
-    transferred_by: '',
+    sender_id: null,
+    receiver_id: null,
     reason: null,
     status: 'pending',
     notes: null
   });
 
+  // Transfers arrive with the names they show, so paging fetches only the page and the queue
   const loadData = useCallback(async () => {
     try {
-      const [historyResult, itemsResult, locationsResult] = await Promise.all([
-        trpc.locationHistory.getAll.query(),
-        trpc.inventory.getAll.query(),
-        trpc.locations.getAll.query()
+      const [pageResult, queueResult] = await Promise.all([
+        trpc.locationHistory.list.query({
+          page: query.page,
+          page_size: query.pageSize,
+          sort: query.sort,
+          search: query.filters.search || undefined,
+          location_id: numberFilter(query.filters.location_id),
+          status: query.filters.status as TransferStatus | undefined,
+          date_from: dateFilter(query.filters.date_from),
+          date_to: dateFilter(query.filters.date_to)
+        }),
+        canApprove ? trpc.locationHistory.awaitingApproval.query() : Promise.resolve([] as LocationHistoryListRow[])
       ]);
 
-      // Enhance history with item and location details
-      const historyWithDetails = historyResult.map((history: LocationHistoryType) => {
-        const item = itemsResult.find((item: InventoryItem) => item.id === history.item_id);
-        const fromLocation = locationsResult.find((loc: Location) => loc.id === history.from_location_id);
-        const toLocation = locationsResult.find((loc: Location) => loc.id === history.to_location_id);
-        
-        return {
-          ...history,
-          item_name: item?.name,
-          item_code: item?.item_code,
-          from_location_name: fromLocation?.name,
-          to_location_name: toLocation?.name
-        };
-      });
-
-      setHistory(historyWithDetails);
-      setItems(itemsResult);
-      setLocations(locationsResult);
+      setHistory(pageResult.items);
+      setTotal(pageResult.total);
+      // The queue is listed in full, whichever page of the history is showing
+      setApprovalQueue(queueResult);
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
       setLoading(false);
     }
+  }, [canApprove, query]);
+
+  const loadMasterData = useCallback(async () => {
+    try {
+      const [locationsResult, usersResult] = await Promise.all([
+        trpc.locations.getAll.query(),
+        trpc.users.directory.query()
+      ]);
+
+      setLocations(locationsResult);
+      setUsers(usersResult);
+    } catch (error) {
+      console.error('Failed to load master data:', error);
+    }
+  }, []);
+
+  // The whole inventory is needed only by the form's item picker
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await trpc.inventory.getAll.query());
+    } catch (error) {
+      console.error('Failed to load items:', error);
+    }
   }, []);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  useEffect(() => {
+    loadMasterData();
+  }, [loadMasterData]);
+
+  useEffect(() => {
+    if (showForm) {
+      loadItems();
+    }
+  }, [showForm, loadItems]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setFormError('');
     
     try {
       if (editingHistory) {
         const updateData: UpdateLocationHistoryInput = {
           id: editingHistory.id,
           status: formData.status,
+          sender_id: formData.sender_id,
+          receiver_id: formData.receiver_id,
           notes: formData.notes
         };
         await trpc.locationHistory.update.mutate(updateData);
       } else {
-        await trpc.locationHistory.create.mutate(formData);
+        await trpc.locationHistory.create.mutate(createLocationHistoryInputSchema.parse(formData));
       }
       
       await loadData();
       resetForm();
     } catch (error) {
       console.error('Failed to save location history:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save transfer');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleEdit = (historyItem: LocationHistoryWithDetails) => {
+  const handleEdit = (historyItem: LocationHistoryListRow) => {
     setEditingHistory(historyItem);
     setFormData({
       item_id: historyItem.item_id,
       from_location_id: historyItem.from_location_id,
       to_location_id: historyItem.to_location_id,
       transfer_date: historyItem.transfer_date,
-      transferred_by: historyItem.transferred_by,
+      quantity: historyItem.quantity ?? undefined,
+      sender_id: historyItem.sender_id,
+      receiver_id: historyItem.receiver_id,
       reason: historyItem.reason,
       status: historyItem.status,
       notes: historyItem.notes
@@ -111,6 +170,34 @@ export function LocationHistory() {
     setShowForm(true);
   };
 
+  const handleDecision = async (historyItem: LocationHistoryListRow, decision: 'approve' | 'reject') => {
+    const comment = prompt(decision === 'approve' ? 'Approval comment (optional):' : 'Reason for rejecting this transfer:');
+    if (comment === null) return;
+
+    try {
+      setApprovalError('');
+      if (decision === 'approve') {
+        await trpc.locationHistory.approve.mutate({ id: historyItem.id, comment: comment.trim() || null });
+      } else {
+        await trpc.locationHistory.reject.mutate({ id: historyItem.id, comment });
+      }
+      await loadData();
+    } catch (error) {
+      console.error(`Failed to ${decision} transfer:`, error);
+      setApprovalError(error instanceof Error ? error.message : `Failed to ${decision} transfer`);
+    }
+  };
+
+  const handlePrint = async (id: number) => {
+    try {
+      downloadHandoverPdf(await trpc.locationHistory.handoverDocument.mutate({ id }));
+      await loadData();
+    } catch (error) {
+      console.error('Failed to print handover document:', error);
+      alert(error instanceof Error ? error.message : 'Failed to print handover document');
+    }
+  };
+
   const handleDelete = async (id: number) => {
     if (!confirm('Are you sure you want to delete this transfer record?')) return;
     
@@ -128,15 +215,23 @@ export function LocationHistory() {
       from_location_id: null,
       to_location_id: 0,
       transfer_date: new Date(),
-      transferred_by: '',
+      sender_id: null,
+      receiver_id: null,
       reason: null,
       status: 'pending',
       notes: null
     });
     setEditingHistory(null);
+    setFormError('');
     setShowForm(false);
   };
 
+  // New transfers may start in any regular status (the server holds them for approval when
+  // a rule applies); existing ones only offer their legal next steps
+  const statusOptions: TransferStatus[] = editingHistory
+    ? [editingHistory.status, ...transferStatusTransitions[editingHistory.status]]
+    : ['pending', 'in_transit', 'completed', 'cancelled'];
+
   if (loading && history.length === 0) {
     return (
       <div className="win98-group">
@@ -154,12 +249,14 @@ export function LocationHistory() {
         <div className="win98-group-title">📋 Location History</div>
         
         <div className="form-row">
-          <button 
-            className="win98-button-primary" 
-            onClick={() => setShowForm(true)}
-          >
-            Record Transfer
-          </button>
+          {can('locationHistory.create') && (
+            <button 
+              className="win98-button-primary" 
+              onClick={() => setShowForm(true)}
+            >
+              Record Transfer
+            </button>
+          )}
           <button 
             className="win98-button" 
             onClick={() => loadData()}
@@ -168,6 +265,64 @@ export function LocationHistory() {
           </button>
         </div>
 
+        {canApprove && (
+          <div className="win98-group">
+            <div className="win98-group-title">⏳ Awaiting My Approval ({approvalQueue.length})</div>
+
+            {approvalError && (
+              <div style={{ color: '#c00', padding: '8px' }}>{approvalError}</div>
+            )}
+
+            {approvalQueue.length === 0 ? (
+              <div style={{ textAlign: 'center', padding: '12px', color: '#666' }}>
+                No transfers are waiting for your approval.
+              </div>
+            ) : (
+              <table className="win98-table">
+                <thead>
+                  <tr>
+                    <th>Item</th>
+                    <th>From → To</th>
+                    <th>Date</th>
+                    <th>Requested By</th>
+                    <th>Reason</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {approvalQueue.map((historyItem: LocationHistoryListRow) => (
+                    <tr key={historyItem.id}>
+                      <td>
+                        <div><ItemLink itemId={historyItem.item_id}>{historyItem.item_name}</ItemLink></div>
+                        <small style={{ color: '#666' }}>{historyItem.item_code}</small>
+                      </td>
+                      <td>{historyItem.from_location_name} → {historyItem.to_location_name}</td>
+                      <td>{historyItem.transfer_date.toLocaleDateString()}</td>
+                      <td>{historyItem.recorded_by || <em style={{ color: '#999' }}>Unknown</em>}</td>
+                      <td>{historyItem.reason || <em style={{ color: '#999' }}>Not specified</em>}</td>
+                      <td>
+                        <button
+                          className="win98-button"
+                          onClick={() => handleDecision(historyItem, 'approve')}
+                          style={{ marginRight: '4px' }}
+                        >
+                          Approve
+                        </button>
+                        <button
+                          className="win98-button"
+                          onClick={() => handleDecision(historyItem, 'reject')}
+                        >
+                          Reject
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
         {showForm && (
           <div className="win98-group">
             <div className="win98-group-title">
@@ -180,33 +335,55 @@ export function LocationHistory() {
                 <select
                   className="win98-select"
                   value={formData.item_id}
-                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
-                    setFormData((prev: CreateLocationHistoryInput) => ({ ...prev, item_id: parseInt(e.target.value) }))
-                  }
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                    const itemId = parseInt(e.target.value);
+                    const item = items.find((item: InventoryItem) => item.id === itemId);
+                    // Transfers start from the item's current location
+                    setFormData((prev: TransferFormData) => ({
+                      ...prev,
+                      item_id: itemId,
+                      from_location_id: item ? item.location_id : prev.from_location_id,
+                      quantity: item?.quantity
+                    }));
+                  }}
                   required
                   disabled={editingHistory !== null}
                 >
                   <option value={0}>Select Item</option>
                   {items.map((item: InventoryItem) => (
                     <option key={item.id} value={item.id}>
-                      {item.item_code} - {item.name}
+                      {item.item_code} - {item.name} ({item.quantity} at {locations.find((location: Location) => location.id === item.location_id)?.name})
                     </option>
                   ))}
                 </select>
 
+                <label>Quantity:</label>
+                <input
+                  type="number"
+                  className="win98-input"
+                  value={formData.quantity ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: TransferFormData) => ({ ...prev, quantity: parseInt(e.target.value) || undefined }))
+                  }
+                  min="1"
+                  max={items.find((item: InventoryItem) => item.id === formData.item_id)?.quantity}
+                  placeholder="Whole stock"
+                  disabled={editingHistory !== null}
+                />
+
                 <label>From Location:</label>
                 <select
                   className="win98-select"
                   value={formData.from_location_id || 0}
                   onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
-                    setFormData((prev: CreateLocationHistoryInput) => ({ 
+                    setFormData((prev: TransferFormData) => ({ 
                       ...prev, 
                       from_location_id: parseInt(e.target.value) || null 
                     }))
                   }
                   disabled={editingHistory !== null}
                 >
-                  <option value={0}>New Item (No Previous Location)</option>
+                  <option value={0}>Current Location of Item</option>
                   {locations.map((location: Location) => (
                     <option key={location.id} value={location.id}>
                       {location.name} ({location.branch_code})
@@ -219,7 +396,7 @@ export function LocationHistory() {
                   className="win98-select"
                   value={formData.to_location_id}
                   onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
-                    setFormData((prev: CreateLocationHistoryInput) => ({ ...prev, to_location_id: parseInt(e.target.value) }))
+                    setFormData((prev: TransferFormData) => ({ ...prev, to_location_id: parseInt(e.target.value) }))
                   }
                   required
                   disabled={editingHistory !== null}
@@ -238,31 +415,50 @@ export function LocationHistory() {
                   className="win98-input"
                   value={formData.transfer_date.toISOString().split('T')[0]}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData((prev: CreateLocationHistoryInput) => ({ ...prev, transfer_date: new Date(e.target.value) }))
+                    setFormData((prev: TransferFormData) => ({ ...prev, transfer_date: new Date(e.target.value) }))
                   }
                   required
                   disabled={editingHistory !== null}
                 />
 
-                <label>Transferred By:</label>
-                <input
-                  type="text"
-                  className="win98-input"
-                  value={formData.transferred_by}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData((prev: CreateLocationHistoryInput) => ({ ...prev, transferred_by: e.target.value }))
+                <label>Handed Over By:</label>
+                <select
+                  className="win98-select"
+                  value={formData.sender_id || 0}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    setFormData((prev: TransferFormData) => ({ ...prev, sender_id: parseInt(e.target.value) || null }))
                   }
-                  placeholder="Name of person handling the transfer"
-                  required
-                  disabled={editingHistory !== null}
-                />
+                >
+                  <option value={0}>Not specified</option>
+                  {users.map((user: UserDirectoryEntry) => (
+                    <option key={user.id} value={user.id}>
+                      {user.username}
+                    </option>
+                  ))}
+                </select>
+
+                <label>Received By:</label>
+                <select
+                  className="win98-select"
+                  value={formData.receiver_id || 0}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    setFormData((prev: TransferFormData) => ({ ...prev, receiver_id: parseInt(e.target.value) || null }))
+                  }
+                >
+                  <option value={0}>Not specified</option>
+                  {users.map((user: UserDirectoryEntry) => (
+                    <option key={user.id} value={user.id}>
+                      {user.username}
+                    </option>
+                  ))}
+                </select>
 
                 <label>Reason:</label>
                 <select
                   className="win98-select"
                   value={formData.reason || ''}
                   onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
-                    setFormData((prev: CreateLocationHistoryInput) => ({ ...prev, reason: e.target.value || null }))
+                    setFormData((prev: TransferFormData) => ({ ...prev, reason: e.target.value || null }))
                   }
                   disabled={editingHistory !== null}
                 >
@@ -281,13 +477,12 @@ export function LocationHistory() {
                   className="win98-select"
                   value={formData.status}
                   onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
-                    setFormData((prev: CreateLocationHistoryInput) => ({ ...prev, status: e.target.value as any }))
+                    setFormData((prev: TransferFormData) => ({ ...prev, status: e.target.value as any }))
                   }
                 >
-                  <option value="pending">Pending</option>
-                  <option value="in_transit">In Transit</option>
-                  <option value="completed">Completed</option>
-                  <option value="cancelled">Cancelled</option>
+                  {statusOptions.map((status: TransferStatus) => (
+                    <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                  ))}
                 </select>
 
                 <label>Notes:</label>
@@ -295,16 +490,20 @@ export function LocationHistory() {
                   className="win98-textarea"
                   value={formData.notes || ''}
                   onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                    setFormData((prev: CreateLocationHistoryInput) => ({ ...prev, notes: e.target.value || null }))
+                    setFormData((prev: TransferFormData) => ({ ...prev, notes: e.target.value || null }))
                   }
                   rows={3}
                   placeholder="Optional notes about this transfer..."
                 />
               </div>
 
+              {formError && (
+                <div style={{ color: '#c00', padding: '8px' }}>{formError}</div>
+              )}
+
               <div className="form-row">
                 <button type="submit" className="win98-button-primary" disabled={loading}>
-                  {loading ? 'Saving...' : editingHistory ? 'Update Status' : 'Record Transfer'}
+                  {loading ? 'Saving...' : editingHistory ? 'Update Transfer' : 'Record Transfer'}
                 </button>
                 <button type="button" className="win98-button" onClick={resetForm}>
                   Cancel
@@ -314,27 +513,78 @@ export function LocationHistory() {
           </div>
         )}
 
+        <div className="form-row">
+          <input
+            type="text"
+            className="win98-input"
+            placeholder="Item code or name"
+            value={query.filters.search ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter('search', e.target.value)}
+          />
+          <select
+            className="win98-select"
+            value={query.filters.location_id ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter('location_id', e.target.value)}
+          >
+            <option value="">All destinations</option>
+            {locations.map((location: Location) => (
+              <option key={location.id} value={location.id}>{location.name} ({location.branch_code})</option>
+            ))}
+          </select>
+          <select
+            className="win98-select"
+            value={query.filters.status ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter('status', e.target.value)}
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(STATUS_LABELS) as TransferStatus[]).map((status: TransferStatus) => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <label>
+            From:{' '}
+            <input
+              type="date"
+              className="win98-input"
+              value={query.filters.date_from ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter('date_from', e.target.value)}
+            />
+          </label>
+          <label>
+            To:{' '}
+            <input
+              type="date"
+              className="win98-input"
+              value={query.filters.date_to ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter('date_to', e.target.value)}
+            />
+          </label>
+        </div>
+
         <table className="win98-table">
           <thead>
             <tr>
-              <th>Item</th>
+              <SortableHeader field="item" sort={query.sort} onSort={toggleSort}>Item</SortableHeader>
+              <SortableHeader field="quantity" sort={query.sort} onSort={toggleSort}>Qty</SortableHeader>
               <th>From</th>
-              <th>To</th>
-              <th>Date</th>
-              <th>Transferred By</th>
+              <SortableHeader field="to_location" sort={query.sort} onSort={toggleSort}>To</SortableHeader>
+              <SortableHeader field="transfer_date" sort={query.sort} onSort={toggleSort}>Date</SortableHeader>
+              <th>Recorded By</th>
+              <th>Handover</th>
               <th>Reason</th>
-              <th>Status</th>
+              <SortableHeader field="status" sort={query.sort} onSort={toggleSort}>Status</SortableHeader>
               <th>Notes</th>
               <th>Actions</th>
             </tr>
           </thead>
           <tbody>
-            {history.map((historyItem: LocationHistoryWithDetails) => (
+            {history.map((historyItem: LocationHistoryListRow) => (
               <tr key={historyItem.id}>
                 <td>
-                  <div>{historyItem.item_name}</div>
+                  <div><ItemLink itemId={historyItem.item_id}>{historyItem.item_name}</ItemLink></div>
                   <small style={{ color: '#666' }}>{historyItem.item_code}</small>
                 </td>
+                <td>{historyItem.quantity ?? <em style={{ color: '#999' }}>All</em>}</td>
                 <td>
                   {historyItem.from_location_name ? (
                     historyItem.from_location_name
@@ -344,7 +594,17 @@ export function LocationHistory() {
                 </td>
                 <td>{historyItem.to_location_name}</td>
                 <td>{historyItem.transfer_date.toLocaleDateString()}</td>
-                <td>{historyItem.transferred_by}</td>
+                <td>{historyItem.recorded_by || <em style={{ color: '#999' }}>Unknown</em>}</td>
+                <td>
+                  {historyItem.sender_name || historyItem.receiver_name ? (
+                    `${historyItem.sender_name ?? '?'} → ${historyItem.receiver_name ?? '?'}`
+                  ) : (
+                    <em style={{ color: '#999' }}>Not specified</em>
+                  )}
+                  {historyItem.handover_document_number && (
+                    <div><small style={{ color: '#666' }}>{historyItem.handover_document_number}</small></div>
+                  )}
+                </td>
                 <td>
                   {historyItem.reason ? (
                     historyItem.reason.charAt(0).toUpperCase() + historyItem.reason.slice(1)
@@ -354,8 +614,7 @@ export function LocationHistory() {
                 </td>
                 <td>
                   <span className={`status-${historyItem.status}`}>
-                    {historyItem.status.replace('_', ' ').charAt(0).toUpperCase() + 
-                     historyItem.status.replace('_', ' ').slice(1)}
+                    {STATUS_LABELS[historyItem.status]}
                   </span>
                 </td>
                 <td>
@@ -366,19 +625,32 @@ export function LocationHistory() {
                   )}
                 </td>
                 <td>
-                  <button 
-                    className="win98-button" 
-                    onClick={() => handleEdit(historyItem)}
-                    style={{ marginRight: '4px' }}
-                  >
-                    Edit
-                  </button>
-                  <button 
-                    className="win98-button" 
-                    onClick={() => handleDelete(historyItem.id)}
-                  >
-                    Delete
-                  </button>
+                  {historyItem.manifest_id === null && !UNPRINTABLE_STATUSES.includes(historyItem.status) && (
+                    <button
+                      className="win98-button"
+                      onClick={() => handlePrint(historyItem.id)}
+                      style={{ marginRight: '4px' }}
+                    >
+                      Print BAST
+                    </button>
+                  )}
+                  {can('locationHistory.update') && (
+                    <button 
+                      className="win98-button" 
+                      onClick={() => handleEdit(historyItem)}
+                      style={{ marginRight: '4px' }}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {can('locationHistory.delete') && (
+                    <button 
+                      className="win98-button" 
+                      onClick={() => handleDelete(historyItem.id)}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -390,6 +662,14 @@ export function LocationHistory() {
             No transfer records found. Click "Record Transfer" to get started.
           </div>
         )}
+
+        <Pager
+          page={query.page}
+          pageSize={query.pageSize}
+          total={total}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+        />
       </div>
     </div>
   );
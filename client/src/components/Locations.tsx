@@ -1,5 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { EntityDetails } from './EntityDetails';
+import { Link } from './Link';
+import { goBack } from '@/lib/router';
 import type { 
   Location, 
   CreateLocationInput, 
@@ -7,6 +11,7 @@ import type {
 } from '../../../server/src/schema';
 
 export function Locations() {
+  const { can } = useAuth();
   const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -106,12 +111,14 @@ export function Locations() {
         <div className="win98-group-title">📍 Location Management</div>
         
         <div className="form-row">
-          <button 
-            className="win98-button-primary" 
-            onClick={() => setShowForm(true)}
-          >
-            Add New Location
-          </button>
+          {can('locations.create') && (
+            <button 
+              className="win98-button-primary" 
+              onClick={() => setShowForm(true)}
+            >
+              Add New Location
+            </button>
+          )}
           <button 
             className="win98-button" 
             onClick={() => loadData()}
@@ -211,19 +218,26 @@ export function Locations() {
                 </td>
                 <td>{location.created_at.toLocaleDateString()}</td>
                 <td>
-                  <button 
-                    className="win98-button" 
-                    onClick={() => handleEdit(location)}
-                    style={{ marginRight: '4px' }}
-                  >
-                    Edit
-                  </button>
-                  <button 
-                    className="win98-button" 
-                    onClick={() => handleDelete(location.id)}
-                  >
-                    Delete
-                  </button>
+                  <Link to={`/locations/${location.id}`} className="win98-button mr-1">
+                    Details
+                  </Link>
+                  {can('locations.update') && (
+                    <button 
+                      className="win98-button" 
+                      onClick={() => handleEdit(location)}
+                      style={{ marginRight: '4px' }}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {can('locations.delete') && (
+                    <button 
+                      className="win98-button" 
+                      onClick={() => handleDelete(location.id)}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -238,4 +252,52 @@ export function Locations() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// One location with its change history and a link to the stock held there
+export function LocationDetailPage({ locationId }: { locationId: number }) {
+  const [location, setLocation] = useState<Location | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    trpc.locations.getById.query({ id: locationId })
+      .then(setLocation)
+      .catch((error: unknown) => console.error('Failed to load location:', error))
+      .finally(() => setLoading(false));
+  }, [locationId]);
+
+  return (
+    <div className="win98-group">
+      <div className="win98-group-title">🏢 {location?.name ?? 'Location'}</div>
+
+      <div className="form-row">
+        <button className="win98-button" onClick={() => goBack('/locations')}>
+          ◀ Back
+        </button>
+        {location && (
+          <Link to={`/inventory?inventory.location_id=${location.id}`} className="win98-button">
+            📦 Inventory at this location
+          </Link>
+        )}
+      </div>
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '20px' }}>Loading location...</div>
+      ) : location === null ? (
+        <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>Location not found</div>
+      ) : (
+        <EntityDetails
+          entityType="location"
+          entityId={location.id}
+          fields={[
+            { label: 'Name', value: location.name },
+            { label: 'Branch Code', value: location.branch_code },
+            { label: 'Address', value: location.address },
+            { label: 'Created', value: location.created_at.toLocaleString() },
+            { label: 'Updated', value: location.updated_at.toLocaleString() }
+          ]}
+        />
+      )}
+    </div>
+  );
+}
@@ -8,10 +8,12 @@ import { useAuth } from './AuthContext';
 import { useLanguage } from './LanguageContext';
 
 export function Login() {
-  const { login, isLoading } = useAuth();
+  const { login, verifyMfa, isLoading } = useAuth();
   const { t } = useLanguage();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
   const [error, setError] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -23,12 +25,46 @@ export function Login() {
       return;
     }
 
-    const success = await login(username, password);
-    if (!success) {
+    const result = await login(username, password);
+    if (result.mfa_required && result.mfa_token) {
+      setMfaToken(result.mfa_token);
+      setMfaCode('');
+    } else if (result.reason === 'account_locked') {
+      setError(`${t('auth.accountLocked')} ${result.locked_until?.toLocaleString() ?? ''}`);
+    } else if (result.reason === 'ip_blocked') {
+      setError(t('auth.tooManyAttempts'));
+    } else if (!result.success) {
       setError(t('auth.invalidCredentials'));
     }
   };
 
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaToken) return;
+    setError('');
+
+    const result = await verifyMfa(mfaToken, mfaCode);
+    if (result.success) return;
+
+    setMfaCode('');
+    if (result.mfa_required && result.mfa_token) {
+      setMfaToken(result.mfa_token);
+      setError(result.message || t('loginActivity.reasons.invalid_mfa_code'));
+    } else {
+      // The challenge expired or ran out of attempts; start again from the password
+      setMfaToken(null);
+      setPassword('');
+      setError(result.message || t('auth.loginFailed'));
+    }
+  };
+
+  const handleBackToLogin = () => {
+    setMfaToken(null);
+    setMfaCode('');
+    setPassword('');
+    setError('');
+  };
+
   return (
     <div className="login-container">
       <div className="login-background">
@@ -53,49 +89,85 @@ export function Login() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <form onSubmit={handleSubmit} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="username">{t('auth.username')}</Label>
-                    <Input
-                      id="username"
-                      type="text"
-                      value={username}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
-                      placeholder={`Enter your ${t('auth.username').toLowerCase()}`}
-                      disabled={isLoading}
-                      required
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="password">{t('auth.password')}</Label>
-                    <Input
-                      id="password"
-                      type="password"
-                      value={password}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
-                      placeholder={`Enter your ${t('auth.password').toLowerCase()}`}
-                      disabled={isLoading}
-                      required
-                    />
-                  </div>
+                {mfaToken ? (
+                  <form onSubmit={handleMfaSubmit} className="space-y-4">
+                    <p className="text-sm text-gray-600">{t('mfa.enterCode')}</p>
+                    <div className="space-y-2">
+                      <Label htmlFor="mfa-code">{t('mfa.code')}</Label>
+                      <Input
+                        id="mfa-code"
+                        type="text"
+                        value={mfaCode}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMfaCode(e.target.value)}
+                        placeholder={t('mfa.codePlaceholder')}
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        disabled={isLoading}
+                        required
+                      />
+                    </div>
 
-                  {error && (
-                    <Alert className="border-red-200 bg-red-50">
-                      <AlertDescription className="text-red-800">
-                        {error}
-                      </AlertDescription>
-                    </Alert>
-                  )}
+                    {error && (
+                      <Alert className="border-red-200 bg-red-50">
+                        <AlertDescription className="text-red-800">
+                          {error}
+                        </AlertDescription>
+                      </Alert>
+                    )}
 
-                  <Button 
-                    type="submit" 
-                    className="w-full"
-                    disabled={isLoading}
-                  >
-                    {isLoading ? `${t('auth.login')}...` : t('auth.loginButton')}
-                  </Button>
-                </form>
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? `${t('mfa.verify')}...` : t('mfa.verify')}
+                    </Button>
+                    <Button type="button" variant="outline" className="w-full" onClick={handleBackToLogin}>
+                      {t('mfa.backToLogin')}
+                    </Button>
+                  </form>
+                ) : (
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="username">{t('auth.username')}</Label>
+                      <Input
+                        id="username"
+                        type="text"
+                        value={username}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
+                        placeholder={`Enter your ${t('auth.username').toLowerCase()}`}
+                        disabled={isLoading}
+                        required
+                      />
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="password">{t('auth.password')}</Label>
+                      <Input
+                        id="password"
+                        type="password"
+                        value={password}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                        placeholder={`Enter your ${t('auth.password').toLowerCase()}`}
+                        disabled={isLoading}
+                        required
+                      />
+                    </div>
+
+                    {error && (
+                      <Alert className="border-red-200 bg-red-50">
+                        <AlertDescription className="text-red-800">
+                          {error}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    <Button 
+                      type="submit" 
+                      className="w-full"
+                      disabled={isLoading}
+                    >
+                      {isLoading ? `${t('auth.login')}...` : t('auth.loginButton')}
+                    </Button>
+                  </form>
+                )}
 
 
               </CardContent>
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useLanguage } from './LanguageContext';
+import type { LoginAttempt } from '../../../server/src/schema';
+
+// Recent sign-in attempts for administrators to spot suspicious activity
+export function LoginActivity() {
+  const { t } = useLanguage();
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [username, setUsername] = useState('');
+  const [failuresOnly, setFailuresOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadAttempts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const result = await trpc.loginAttempts.getAll.query({
+        username: username || undefined,
+        success: failuresOnly ? false : undefined,
+        limit: 100
+      });
+      setAttempts(result);
+    } catch (error) {
+      console.error('Failed to load login attempts:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load login attempts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [username, failuresOnly]);
+
+  useEffect(() => {
+    loadAttempts();
+  }, [loadAttempts]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="attempt-username">{t('loginActivity.username')}</Label>
+          <Input
+            id="attempt-username"
+            value={username}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
+            placeholder={t('common.search')}
+          />
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Checkbox
+            id="attempt-failures"
+            checked={failuresOnly}
+            onCheckedChange={(checked: boolean | 'indeterminate') => setFailuresOnly(checked === true)}
+          />
+          <Label htmlFor="attempt-failures">{t('loginActivity.failuresOnly')}</Label>
+        </div>
+        <Button variant="outline" size="sm" disabled={isLoading} onClick={loadAttempts}>
+          🔄 {t('common.refresh')}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {attempts.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">{t('loginActivity.noAttempts')}</div>
+      ) : (
+        <div className="border rounded-md max-h-96 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('loginActivity.time')}</TableHead>
+                <TableHead>{t('loginActivity.username')}</TableHead>
+                <TableHead>{t('loginActivity.ipAddress')}</TableHead>
+                <TableHead>{t('loginActivity.result')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {attempts.map((attempt: LoginAttempt) => (
+                <TableRow key={attempt.id}>
+                  <TableCell>{attempt.created_at.toLocaleString()}</TableCell>
+                  <TableCell className="font-medium">{attempt.username}</TableCell>
+                  <TableCell>{attempt.ip_address || '-'}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-1 rounded-full text-xs ${
+                      attempt.success
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-red-100 text-red-800'
+                    }`}>
+                      {attempt.success ? '✅' : '❌'} {t(`loginActivity.reasons.${attempt.reason}`)}
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
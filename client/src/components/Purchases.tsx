@@ -1,26 +1,28 @@
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { ItemLink } from './ItemDetail';
+import { SortableHeader, Pager } from './ListControls';
+import { useListQuery, numberFilter, dateFilter } from '@/lib/listQuery';
+import { purchaseSortFieldEnum } from '../../../server/src/schema';
 import type { 
-  Purchase, 
+  PurchaseListRow, 
   CreatePurchaseInput, 
   UpdatePurchaseInput,
   InventoryItem,
   Supplier
 } from '../../../server/src/schema';
 
-interface PurchaseWithDetails extends Purchase {
-  item_name?: string;
-  item_code?: string;
-  supplier_name?: string;
-}
-
 export function Purchases() {
-  const [purchases, setPurchases] = useState<PurchaseWithDetails[]>([]);
+  const { can } = useAuth();
+  const [purchases, setPurchases] = useState<PurchaseListRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const { query, setFilter, setPage, setPageSize, toggleSort } = useListQuery('purchases', purchaseSortFieldEnum.options);
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
-  const [editingPurchase, setEditingPurchase] = useState<PurchaseWithDetails | null>(null);
+  const [editingPurchase, setEditingPurchase] = useState<PurchaseListRow | null>(null);
 
   const [formData, setFormData] = useState<CreatePurchaseInput>({
     item_id: 0,
@@ -31,41 +33,59 @@ export function Purchases() {
     notes: null
   });
 
+  // Rows come with their item and supplier names, so a page change loads only the page
   const loadData = useCallback(async () => {
     try {
-      const [purchasesResult, itemsResult, suppliersResult] = await Promise.all([
-        trpc.purchases.getAll.query(),
-        trpc.inventory.getAll.query(),
-        trpc.suppliers.getAll.query()
-      ]);
-
-      // Enhance purchases with item and supplier details
-      const purchasesWithDetails = purchasesResult.map((purchase: Purchase) => {
-        const item = itemsResult.find((item: InventoryItem) => item.id === purchase.item_id);
-        const supplier = suppliersResult.find((supplier: Supplier) => supplier.id === purchase.supplier_id);
-        
-        return {
-          ...purchase,
-          item_name: item?.name,
-          item_code: item?.item_code,
-          supplier_name: supplier?.name
-        };
+      const pageResult = await trpc.purchases.list.query({
+        page: query.page,
+        page_size: query.pageSize,
+        sort: query.sort,
+        search: query.filters.search || undefined,
+        supplier_id: numberFilter(query.filters.supplier_id),
+        date_from: dateFilter(query.filters.date_from),
+        date_to: dateFilter(query.filters.date_to)
       });
 
-      setPurchases(purchasesWithDetails);
-      setItems(itemsResult);
-      setSuppliers(suppliersResult);
+      setPurchases(pageResult.items);
+      setTotal(pageResult.total);
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
       setLoading(false);
     }
+  }, [query]);
+
+  const loadMasterData = useCallback(async () => {
+    try {
+      setSuppliers(await trpc.suppliers.getAll.query());
+    } catch (error) {
+      console.error('Failed to load master data:', error);
+    }
+  }, []);
+
+  // The item picker lists the whole inventory, so it is fetched when the form opens
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await trpc.inventory.getAll.query());
+    } catch (error) {
+      console.error('Failed to load items:', error);
+    }
   }, []);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  useEffect(() => {
+    loadMasterData();
+  }, [loadMasterData]);
+
+  useEffect(() => {
+    if (showForm) {
+      loadItems();
+    }
+  }, [showForm, loadItems]);
+
   // Calculate total price when quantity or unit price changes
   useEffect(() => {
     // This is handled in the component display, no need for separate state
@@ -95,7 +115,7 @@ export function Purchases() {
     }
   };
 
-  const handleEdit = (purchase: PurchaseWithDetails) => {
+  const handleEdit = (purchase: PurchaseListRow) => {
     setEditingPurchase(purchase);
     setFormData({
       item_id: purchase.item_id,
@@ -153,12 +173,14 @@ export function Purchases() {
         <div className="win98-group-title">🛒 Purchase Management</div>
         
         <div className="form-row">
-          <button 
-            className="win98-button-primary" 
-            onClick={() => setShowForm(true)}
-          >
-            Record New Purchase
-          </button>
+          {can('purchases.create') && (
+            <button 
+              className="win98-button-primary" 
+              onClick={() => setShowForm(true)}
+            >
+              Record New Purchase
+            </button>
+          )}
           <button 
             className="win98-button" 
             onClick={() => loadData()}
@@ -278,24 +300,62 @@ export function Purchases() {
           </div>
         )}
 
+        <div className="form-row">
+          <input
+            type="text"
+            className="win98-input"
+            placeholder="Item code or name"
+            value={query.filters.search ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter('search', e.target.value)}
+          />
+          <select
+            className="win98-select"
+            value={query.filters.supplier_id ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter('supplier_id', e.target.value)}
+          >
+            <option value="">All suppliers</option>
+            {suppliers.map((supplier: Supplier) => (
+              <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+            ))}
+          </select>
+          <label>
+            From:{' '}
+            <input
+              type="date"
+              className="win98-input"
+              value={query.filters.date_from ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter('date_from', e.target.value)}
+            />
+          </label>
+          <label>
+            To:{' '}
+            <input
+              type="date"
+              className="win98-input"
+              value={query.filters.date_to ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter('date_to', e.target.value)}
+            />
+          </label>
+        </div>
+
         <table className="win98-table">
           <thead>
             <tr>
-              <th>Item</th>
-              <th>Supplier</th>
-              <th>Quantity</th>
-              <th>Unit Price</th>
-              <th>Total Price</th>
-              <th>Purchase Date</th>
+              <SortableHeader field="item" sort={query.sort} onSort={toggleSort}>Item</SortableHeader>
+              <SortableHeader field="supplier" sort={query.sort} onSort={toggleSort}>Supplier</SortableHeader>
+              <SortableHeader field="quantity" sort={query.sort} onSort={toggleSort}>Quantity</SortableHeader>
+              <SortableHeader field="unit_price" sort={query.sort} onSort={toggleSort}>Unit Price</SortableHeader>
+              <SortableHeader field="total_price" sort={query.sort} onSort={toggleSort}>Total Price</SortableHeader>
+              <SortableHeader field="purchase_date" sort={query.sort} onSort={toggleSort}>Purchase Date</SortableHeader>
               <th>Notes</th>
               <th>Actions</th>
             </tr>
           </thead>
           <tbody>
-            {purchases.map((purchase: PurchaseWithDetails) => (
+            {purchases.map((purchase: PurchaseListRow) => (
               <tr key={purchase.id}>
                 <td>
-                  <div>{purchase.item_name}</div>
+                  <div><ItemLink itemId={purchase.item_id}>{purchase.item_name}</ItemLink></div>
                   <small style={{ color: '#666' }}>{purchase.item_code}</small>
                 </td>
                 <td>{purchase.supplier_name}</td>
@@ -311,19 +371,23 @@ export function Purchases() {
                   )}
                 </td>
                 <td>
-                  <button 
-                    className="win98-button" 
-                    onClick={() => handleEdit(purchase)}
-                    style={{ marginRight: '4px' }}
-                  >
-                    Edit
-                  </button>
-                  <button 
-                    className="win98-button" 
-                    onClick={() => handleDelete(purchase.id)}
-                  >
-                    Delete
-                  </button>
+                  {can('purchases.update') && (
+                    <button 
+                      className="win98-button" 
+                      onClick={() => handleEdit(purchase)}
+                      style={{ marginRight: '4px' }}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {can('purchases.delete') && (
+                    <button 
+                      className="win98-button" 
+                      onClick={() => handleDelete(purchase.id)}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -335,6 +399,14 @@ export function Purchases() {
             No purchase records found. Click "Record New Purchase" to get started.
           </div>
         )}
+
+        <Pager
+          page={query.page}
+          pageSize={query.pageSize}
+          total={total}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+        />
       </div>
     </div>
   );
@@ -1,40 +1,323 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
 import { trpc } from '@/utils/trpc';
+import { SortableHeader, Pager } from './ListControls';
+import { ItemLink } from './ItemDetail';
+import { PAGE_SIZES, toggleSortKey, readListQuery, writeListQuery, typedFilters, filterStrings, type SortKey } from '@/lib/listQuery';
+import { navigate } from '@/lib/router';
+import { downloadReportExport } from '@/lib/reportExport';
+import {
+  inventorySortFieldEnum,
+  purchaseSortFieldEnum,
+  locationHistorySortFieldEnum,
+  inventoryReportFilterSchema,
+  purchaseReportFilterSchema,
+  locationHistoryReportFilterSchema,
+  inventoryReportGroupByEnum,
+  purchaseReportGroupByEnum,
+  locationHistoryReportGroupByEnum
+} from '../../../server/src/schema';
 import type { 
   InventoryReportFilter,
   PurchaseReportFilter,
   LocationHistoryReportFilter,
+  InventorySortField,
+  PurchaseSortField,
+  LocationHistorySortField,
   Category,
   Location,
-  Supplier
+  Supplier,
+  UserDirectoryEntry,
+  ExportFormat,
+  ReportExportInput,
+  InventoryReportGroupBy,
+  PurchaseReportGroupBy,
+  LocationHistoryReportGroupBy,
+  InventoryReportRow,
+  PurchaseReportRow,
+  LocationHistoryReportRow,
+  InventorySummary,
+  PurchaseSummary,
+  LocationHistorySummary,
+  ReportGroup,
+  ReportPage,
+  TransferStatus
 } from '../../../server/src/schema';
 
-export function Reports() {
-  const [activeTab, setActiveTab] = useState<string>('inventory');
+type DetailReport = 'inventory' | 'purchases' | 'history';
+
+// Columns of the detailed reports that the server can sort by
+const REPORT_SORT_FIELDS: Record<DetailReport, readonly string[]> = {
+  inventory: inventorySortFieldEnum.options,
+  purchases: purchaseSortFieldEnum.options,
+  history: locationHistorySortFieldEnum.options
+};
+
+interface ReportView {
+  report: DetailReport;
+  page: number;
+  pageSize: number;
+  sort: SortKey<string>[];
+}
+
+// The report on screen
+type ReportResult =
+  | { report: 'inventory'; page: ReportPage<InventoryReportRow> }
+  | { report: 'purchases'; page: ReportPage<PurchaseReportRow> }
+  | { report: 'history'; page: ReportPage<LocationHistoryReportRow> }
+  | { report: 'inventory_summary'; summary: InventorySummary }
+  | { report: 'purchases_summary'; summary: PurchaseSummary }
+  | { report: 'history_summary'; summary: LocationHistorySummary };
+
+const GROUP_LABELS: Record<InventoryReportGroupBy | PurchaseReportGroupBy | LocationHistoryReportGroupBy, string> = {
+  category: 'Category',
+  location: 'Location',
+  supplier: 'Supplier',
+  month: 'Month'
+};
+
+const STATUS_LABELS: Record<TransferStatus, string> = {
+  pending_approval: 'Awaiting Approval',
+  rejected: 'Rejected',
+  pending: 'Pending',
+  in_transit: 'In Transit',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+interface ReportColumn<Row> {
+  header: string;
+  // The server's sort field, for columns the report can be sorted by
+  sort?: string;
+  numeric?: boolean;
+  // Which group subtotal lines up under this column
+  subtotal?: 'quantity' | 'amount';
+  render: (row: Row) => ReactNode;
+}
+
+interface ReportTableProps<Row extends { group_key: string | null }> {
+  columns: ReportColumn<Row>[];
+  rows: Row[];
+  groups: ReportGroup[];
+  sort: SortKey<string>[];
+  onSort: (field: string, additive: boolean) => void;
+}
+
+// A detailed report page. Grouped reports show each group under a heading, closed by the
+// group's subtotal over all pages, and end on the report's grand total.
+function ReportTable<Row extends { group_key: string | null }>({ columns, rows, groups, sort, onSort }: ReportTableProps<Row>) {
+  const groupsByKey = new Map(groups.map(group => [group.key, group]));
+
+  const totalsRow = (label: string, totals: Pick<ReportGroup, 'count' | 'quantity' | 'amount'>, key: string) => (
+    <tr key={key} style={{ fontWeight: 'bold' }}>
+      {columns.map((column, index) => (
+        <td key={column.header} style={column.numeric ? { textAlign: 'right' } : undefined}>
+          {index === 0 && `${label} (${totals.count})`}
+          {column.subtotal === 'quantity' && totals.quantity !== null && totals.quantity.toLocaleString()}
+          {column.subtotal === 'amount' && totals.amount !== null && formatCurrency(totals.amount)}
+        </td>
+      ))}
+    </tr>
+  );
+
+  const body: ReactNode[] = [];
+  rows.forEach((row, index) => {
+    const group = row.group_key !== null ? groupsByKey.get(row.group_key) : undefined;
+    if (group && rows[index - 1]?.group_key !== row.group_key) {
+      body.push(
+        <tr key={`group-${group.key}`}>
+          <td colSpan={columns.length} style={{ fontWeight: 'bold', background: '#dfdfdf' }}>{group.label}</td>
+        </tr>
+      );
+    }
+    body.push(
+      <tr key={index}>
+        {columns.map(column => (
+          <td key={column.header} style={column.numeric ? { textAlign: 'right' } : undefined}>{column.render(row)}</td>
+        ))}
+      </tr>
+    );
+    if (group && rows[index + 1]?.group_key !== row.group_key) {
+      body.push(totalsRow('Subtotal', group, `subtotal-${group.key}`));
+    }
+  });
+
+  const grandTotal = groups.reduce(
+    (total, group) => ({
+      count: total.count + group.count,
+      quantity: group.quantity === null ? total.quantity : (total.quantity ?? 0) + group.quantity,
+      amount: group.amount === null ? total.amount : (total.amount ?? 0) + group.amount
+    }),
+    { count: 0, quantity: null as number | null, amount: null as number | null }
+  );
+
+  return (
+    <table className="win98-table">
+      <thead>
+        <tr>
+          {columns.map(column => column.sort ? (
+            <SortableHeader key={column.header} field={column.sort} sort={sort} onSort={onSort}>
+              {column.header}
+            </SortableHeader>
+          ) : (
+            <th key={column.header}>{column.header}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>{body}</tbody>
+      {groups.length > 0 && <tfoot>{totalsRow('Total', grandTotal, 'total')}</tfoot>}
+    </table>
+  );
+}
+
+const INVENTORY_COLUMNS: ReportColumn<InventoryReportRow>[] = [
+  { header: 'Item Code', sort: 'item_code', render: item => <ItemLink itemId={item.id}>{item.item_code}</ItemLink> },
+  { header: 'Name', sort: 'name', render: item => item.name },
+  { header: 'Category', sort: 'category', render: item => item.category_name },
+  { header: 'Location', sort: 'location', render: item => `${item.location_name} (${item.location_branch_code})` },
+  { header: 'Condition', sort: 'condition', render: item => item.condition },
+  { header: 'Quantity', sort: 'quantity', numeric: true, subtotal: 'quantity', render: item => item.quantity },
+  { header: 'Purchase Price', sort: 'purchase_price', numeric: true, render: item => formatCurrency(item.purchase_price) },
+  { header: 'Value', numeric: true, subtotal: 'amount', render: item => formatCurrency(item.quantity * item.purchase_price) },
+  { header: 'Purchase Date', sort: 'purchase_date', render: item => item.purchase_date.toLocaleDateString() }
+];
+
+const PURCHASE_COLUMNS: ReportColumn<PurchaseReportRow>[] = [
+  { header: 'Purchase Date', sort: 'purchase_date', render: purchase => purchase.purchase_date.toLocaleDateString() },
+  { header: 'Item', sort: 'item', render: purchase => <ItemLink itemId={purchase.item_id}>{purchase.item_code}</ItemLink> },
+  { header: 'Name', render: purchase => purchase.item_name },
+  { header: 'Category', render: purchase => purchase.category_name },
+  { header: 'Location', render: purchase => `${purchase.location_name} (${purchase.location_branch_code})` },
+  { header: 'Supplier', sort: 'supplier', render: purchase => purchase.supplier_name },
+  { header: 'Quantity', sort: 'quantity', numeric: true, subtotal: 'quantity', render: purchase => purchase.quantity },
+  { header: 'Unit Price', sort: 'unit_price', numeric: true, render: purchase => formatCurrency(purchase.unit_price) },
+  { header: 'Total Price', sort: 'total_price', numeric: true, subtotal: 'amount', render: purchase => formatCurrency(purchase.total_price) },
+  { header: 'Notes', render: purchase => purchase.notes ?? '' }
+];
+
+const HISTORY_COLUMNS: ReportColumn<LocationHistoryReportRow>[] = [
+  { header: 'Transfer Date', sort: 'transfer_date', render: transfer => transfer.transfer_date.toLocaleDateString() },
+  { header: 'Item', sort: 'item', render: transfer => <ItemLink itemId={transfer.item_id}>{transfer.item_code}</ItemLink> },
+  { header: 'Name', render: transfer => transfer.item_name },
+  { header: 'From', render: transfer => transfer.from_location_name ?? '—' },
+  { header: 'To', sort: 'to_location', render: transfer => transfer.to_location_name },
+  { header: 'Quantity', sort: 'quantity', numeric: true, render: transfer => transfer.quantity ?? 'All' },
+  { header: 'Status', sort: 'status', render: transfer => STATUS_LABELS[transfer.status] },
+  { header: 'Recorded By', render: transfer => transfer.recorded_by ?? '' },
+  { header: 'Sender', render: transfer => transfer.sender_name ?? '' },
+  { header: 'Receiver', render: transfer => transfer.receiver_name ?? '' },
+  { header: 'Document No.', render: transfer => transfer.handover_document_number ?? '' },
+  { header: 'Recorded', sort: 'created_at', render: transfer => transfer.created_at.toLocaleDateString() }
+];
+
+// One breakdown of a summary report, largest first
+function BreakdownTable({ title, rows, columns }: { title: string; rows: [string, ...ReactNode[]][]; columns: string[] }) {
+  return (
+    <div style={{ flex: '1 1 260px' }}>
+      <table className="win98-table">
+        <thead>
+          <tr>
+            <th>{title}</th>
+            {columns.map(column => <th key={column}>{column}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 && (
+            <tr><td colSpan={columns.length + 1} style={{ color: '#808080' }}>—</td></tr>
+          )}
+          {rows.map(([name, ...values]) => (
+            <tr key={name}>
+              <td>{name}</td>
+              {values.map((value, index) => <td key={index} style={{ textAlign: 'right' }}>{value}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const countRows = (counts: Record<string, number>): [string, ReactNode][] =>
+  Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([name, count]) => [name, count.toLocaleString()]);
+
+const amountRows = (totals: Record<string, { count: number; amount: number }>, byName = false): [string, ReactNode, ReactNode][] =>
+  Object.entries(totals)
+    .sort(([nameA, a], [nameB, b]) => byName ? nameA.localeCompare(nameB) : b.amount - a.amount)
+    .map(([name, total]) => [name, total.count.toLocaleString(), formatCurrency(total.amount)]);
+
+function StatCard({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div className="stat-card">
+      <div className="stat-value">{value}</div>
+      <div className="stat-label">{label}</div>
+    </div>
+  );
+}
+
+interface ReportsProps {
+  // From the URL, e.g. /reports/purchases
+  tab?: string;
+}
+
+export function Reports({ tab }: ReportsProps) {
+  const activeTab: DetailReport = tab === 'purchases' || tab === 'history' ? tab : 'inventory';
   const [categories, setCategories] = useState<Category[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [users, setUsers] = useState<UserDirectoryEntry[]>([]);
+  const [masterDataLoaded, setMasterDataLoaded] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [reportData, setReportData] = useState<any>(null);
+  const [result, setResult] = useState<ReportResult | null>(null);
+  // Paging of the detailed report on screen; null while a summary is showing
+  const [detail, setDetail] = useState<(ReportView & { total: number }) | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [exporting, setExporting] = useState(false);
+
+  // A shared link carries the generated report, its filters, paging and sort under `report.`
+  const [linked] = useState(() => readListQuery('report', REPORT_SORT_FIELDS[activeTab]));
+  const pendingLink = useRef(linked.filters.view ? linked : null);
 
   // Filter states
-  const [inventoryFilter, setInventoryFilter] = useState<InventoryReportFilter>({});
-  const [purchaseFilter, setPurchaseFilter] = useState<PurchaseReportFilter>({});
-  const [historyFilter, setHistoryFilter] = useState<LocationHistoryReportFilter>({});
+  const [inventoryFilter, setInventoryFilter] = useState<InventoryReportFilter>(() =>
+    activeTab === 'inventory' ? typedFilters(inventoryReportFilterSchema, linked.filters) : {}
+  );
+  const [purchaseFilter, setPurchaseFilter] = useState<PurchaseReportFilter>(() =>
+    activeTab === 'purchases' ? typedFilters(purchaseReportFilterSchema, linked.filters) : {}
+  );
+  const [historyFilter, setHistoryFilter] = useState<LocationHistoryReportFilter>(() =>
+    activeTab === 'history' ? typedFilters(locationHistoryReportFilterSchema, linked.filters) : {}
+  );
+
+  const [inventoryGroupBy, setInventoryGroupBy] = useState<InventoryReportGroupBy | undefined>(() =>
+    activeTab === 'inventory' ? inventoryReportGroupByEnum.safeParse(linked.filters.group_by).data : undefined
+  );
+  const [purchaseGroupBy, setPurchaseGroupBy] = useState<PurchaseReportGroupBy | undefined>(() =>
+    activeTab === 'purchases' ? purchaseReportGroupByEnum.safeParse(linked.filters.group_by).data : undefined
+  );
+  const [historyGroupBy, setHistoryGroupBy] = useState<LocationHistoryReportGroupBy | undefined>(() =>
+    activeTab === 'history' ? locationHistoryReportGroupByEnum.safeParse(linked.filters.group_by).data : undefined
+  );
 
   const loadMasterData = useCallback(async () => {
     try {
-      const [categoriesResult, locationsResult, suppliersResult] = await Promise.all([
+      const [categoriesResult, locationsResult, suppliersResult, usersResult] = await Promise.all([
         trpc.categories.getAll.query(),
         trpc.locations.getAll.query(),
-        trpc.suppliers.getAll.query()
+        trpc.suppliers.getAll.query(),
+        trpc.users.directory.query()
       ]);
 
       setCategories(categoriesResult);
       setLocations(locationsResult);
       setSuppliers(suppliersResult);
+      setUsers(usersResult);
     } catch (error) {
       console.error('Failed to load master data:', error);
+    } finally {
+      setMasterDataLoaded(true);
     }
   }, []);
 
@@ -42,11 +325,34 @@ export function Reports() {
     loadMasterData();
   }, [loadMasterData]);
 
-  const generateInventoryReport = async () => {
+  // Keep the report on screen in the URL; a summary is written without a view
+  const linkReport = (filter: object, view?: ReportView) => writeListQuery('report', {
+    page: view?.page ?? 1,
+    pageSize: view?.pageSize ?? PAGE_SIZES[1],
+    sort: view?.sort ?? [],
+    filters: { view: view ? 'detail' : 'summary', ...filterStrings(filter) }
+  });
+
+  const firstPage = (report: DetailReport): ReportView => ({
+    report,
+    page: 1,
+    pageSize: detail?.pageSize ?? PAGE_SIZES[1],
+    sort: []
+  });
+
+  const generateInventoryReport = async (view: ReportView = firstPage('inventory')) => {
     setLoading(true);
     try {
-      const result = await trpc.reports.inventory.query(inventoryFilter);
-      setReportData(result);
+      const page = await trpc.reports.inventory.query({
+        ...inventoryFilter,
+        group_by: inventoryGroupBy,
+        page: view.page,
+        page_size: view.pageSize,
+        sort: view.sort as SortKey<InventorySortField>[]
+      });
+      setResult({ report: 'inventory', page });
+      setDetail({ ...view, total: page.total });
+      linkReport({ ...inventoryFilter, group_by: inventoryGroupBy }, view);
     } catch (error) {
       console.error('Failed to generate inventory report:', error);
     } finally {
@@ -57,8 +363,9 @@ export function Reports() {
   const generateInventorySummary = async () => {
     setLoading(true);
     try {
-      const result = await trpc.reports.inventorySummary.query(inventoryFilter);
-      setReportData(result);
+      setDetail(null);
+      setResult({ report: 'inventory_summary', summary: await trpc.reports.inventorySummary.query(inventoryFilter) });
+      linkReport(inventoryFilter);
     } catch (error) {
       console.error('Failed to generate inventory summary:', error);
     } finally {
@@ -66,11 +373,19 @@ export function Reports() {
     }
   };
 
-  const generatePurchaseReport = async () => {
+  const generatePurchaseReport = async (view: ReportView = firstPage('purchases')) => {
     setLoading(true);
     try {
-      const result = await trpc.reports.purchases.query(purchaseFilter);
-      setReportData(result);
+      const page = await trpc.reports.purchases.query({
+        ...purchaseFilter,
+        group_by: purchaseGroupBy,
+        page: view.page,
+        page_size: view.pageSize,
+        sort: view.sort as SortKey<PurchaseSortField>[]
+      });
+      setResult({ report: 'purchases', page });
+      setDetail({ ...view, total: page.total });
+      linkReport({ ...purchaseFilter, group_by: purchaseGroupBy }, view);
     } catch (error) {
       console.error('Failed to generate purchase report:', error);
     } finally {
@@ -81,8 +396,9 @@ export function Reports() {
   const generatePurchaseSummary = async () => {
     setLoading(true);
     try {
-      const result = await trpc.reports.purchasesSummary.query(purchaseFilter);
-      setReportData(result);
+      setDetail(null);
+      setResult({ report: 'purchases_summary', summary: await trpc.reports.purchasesSummary.query(purchaseFilter) });
+      linkReport(purchaseFilter);
     } catch (error) {
       console.error('Failed to generate purchase summary:', error);
     } finally {
@@ -90,11 +406,19 @@ export function Reports() {
     }
   };
 
-  const generateLocationHistoryReport = async () => {
+  const generateLocationHistoryReport = async (view: ReportView = firstPage('history')) => {
     setLoading(true);
     try {
-      const result = await trpc.reports.locationHistory.query(historyFilter);
-      setReportData(result);
+      const page = await trpc.reports.locationHistory.query({
+        ...historyFilter,
+        group_by: historyGroupBy,
+        page: view.page,
+        page_size: view.pageSize,
+        sort: view.sort as SortKey<LocationHistorySortField>[]
+      });
+      setResult({ report: 'history', page });
+      setDetail({ ...view, total: page.total });
+      linkReport({ ...historyFilter, group_by: historyGroupBy }, view);
     } catch (error) {
       console.error('Failed to generate location history report:', error);
     } finally {
@@ -102,10 +426,107 @@ export function Reports() {
     }
   };
 
+  const generateLocationHistorySummary = async () => {
+    setLoading(true);
+    try {
+      setDetail(null);
+      setResult({ report: 'history_summary', summary: await trpc.reports.locationHistorySummary.query(historyFilter) });
+      linkReport(historyFilter);
+    } catch (error) {
+      console.error('Failed to generate location history summary:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderGroupBy = <G extends keyof typeof GROUP_LABELS>(options: readonly G[], value: G | undefined, onChange: (value: G | undefined) => void) => (
+    <>
+      <label>Group By:</label>
+      <select
+        className="win98-select"
+        value={value ?? ''}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(options.find(option => option === e.target.value))}
+      >
+        <option value="">No Grouping</option>
+        {options.map(option => (
+          <option key={option} value={option}>{GROUP_LABELS[option]}</option>
+        ))}
+      </select>
+    </>
+  );
+
+  // Exports cover every row, in the sort of the report on screen when it is the same report
+  const exportSort = <F extends string>(report: DetailReport) =>
+    detail?.report === report && detail.sort.length > 0 ? detail.sort as SortKey<F>[] : undefined;
+
+  const exportReport = async (input: ReportExportInput) => {
+    setExporting(true);
+    try {
+      await downloadReportExport(input);
+    } catch (error) {
+      console.error('Failed to export report:', error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderExportRow = (detailed: ReportExportInput, summary: ReportExportInput) => (
+    <div className="form-row">
+      <label>Export as:</label>
+      <select
+        className="win98-select"
+        value={exportFormat}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setExportFormat(e.target.value as ExportFormat)}
+      >
+        <option value="csv">CSV</option>
+        <option value="xlsx">Excel (XLSX)</option>
+        <option value="pdf">PDF</option>
+      </select>
+      <button className="win98-button" onClick={() => exportReport(detailed)} disabled={exporting}>
+        Export Detailed Report
+      </button>
+      <button className="win98-button" onClick={() => exportReport(summary)} disabled={exporting}>
+        Export Summary
+      </button>
+      {exporting && <span>Preparing download...</span>}
+    </div>
+  );
+
   const clearReport = () => {
-    setReportData(null);
+    setResult(null);
+    setDetail(null);
+    writeListQuery('report', { page: 1, pageSize: PAGE_SIZES[1], sort: [], filters: {} });
+  };
+
+  const reloadReport = (view: ReportView) => {
+    const generators = {
+      inventory: generateInventoryReport,
+      purchases: generatePurchaseReport,
+      history: generateLocationHistoryReport
+    };
+    return generators[view.report](view);
   };
 
+  // Regenerate the report a link points to once the filter options have loaded
+  useEffect(() => {
+    if (!masterDataLoaded || pendingLink.current === null) {
+      return;
+    }
+    const { page, pageSize, sort, filters } = pendingLink.current;
+    pendingLink.current = null;
+
+    if (filters.view === 'detail') {
+      reloadReport({ report: activeTab, page, pageSize, sort });
+    } else {
+      const summaries = {
+        inventory: generateInventorySummary,
+        purchases: generatePurchaseSummary,
+        history: generateLocationHistorySummary
+      };
+      summaries[activeTab]();
+    }
+  });
+
   const renderInventoryTab = () => (
     <div className="win98-tab-content">
       <div className="win98-group">
@@ -194,10 +615,12 @@ export function Reports() {
               }))
             }
           />
+
+          {renderGroupBy(inventoryReportGroupByEnum.options, inventoryGroupBy, setInventoryGroupBy)}
         </div>
 
         <div className="form-row">
-          <button className="win98-button-primary" onClick={generateInventoryReport} disabled={loading}>
+          <button className="win98-button-primary" onClick={() => generateInventoryReport()} disabled={loading}>
             Generate Detailed Report
           </button>
           <button className="win98-button" onClick={generateInventorySummary} disabled={loading}>
@@ -207,6 +630,11 @@ export function Reports() {
             Clear Report
           </button>
         </div>
+
+        {renderExportRow(
+          { report: 'inventory', format: exportFormat, filter: { ...inventoryFilter, sort: exportSort<InventorySortField>('inventory') } },
+          { report: 'inventory_summary', format: exportFormat, filter: inventoryFilter }
+        )}
       </div>
     </div>
   );
@@ -261,10 +689,12 @@ export function Reports() {
               }))
             }
           />
+
+          {renderGroupBy(purchaseReportGroupByEnum.options, purchaseGroupBy, setPurchaseGroupBy)}
         </div>
 
         <div className="form-row">
-          <button className="win98-button-primary" onClick={generatePurchaseReport} disabled={loading}>
+          <button className="win98-button-primary" onClick={() => generatePurchaseReport()} disabled={loading}>
             Generate Detailed Report
           </button>
           <button className="win98-button" onClick={generatePurchaseSummary} disabled={loading}>
@@ -274,6 +704,11 @@ export function Reports() {
             Clear Report
           </button>
         </div>
+
+        {renderExportRow(
+          { report: 'purchases', format: exportFormat, filter: { ...purchaseFilter, sort: exportSort<PurchaseSortField>('purchases') } },
+          { report: 'purchases_summary', format: exportFormat, filter: purchaseFilter }
+        )}
       </div>
     </div>
   );
@@ -315,12 +750,33 @@ export function Reports() {
             }
           >
             <option value="">All Statuses</option>
+            <option value="pending_approval">Awaiting Approval</option>
+            <option value="rejected">Rejected</option>
             <option value="pending">Pending</option>
             <option value="in_transit">In Transit</option>
             <option value="completed">Completed</option>
             <option value="cancelled">Cancelled</option>
           </select>
 
+          <label>User:</label>
+          <select
+            className="win98-select"
+            value={historyFilter.user_id || 0}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+              setHistoryFilter((prev: LocationHistoryReportFilter) => ({ 
+                ...prev, 
+                user_id: parseInt(e.target.value) || undefined 
+              }))
+            }
+          >
+            <option value={0}>All Users</option>
+            {users.map((user: UserDirectoryEntry) => (
+              <option key={user.id} value={user.id}>
+                {user.username}
+              </option>
+            ))}
+          </select>
+
           <label>Date From:</label>
           <input
             type="date"
@@ -346,85 +802,125 @@ export function Reports() {
               }))
             }
           />
+
+          {renderGroupBy(locationHistoryReportGroupByEnum.options, historyGroupBy, setHistoryGroupBy)}
         </div>
 
         <div className="form-row">
-          <button className="win98-button-primary" onClick={generateLocationHistoryReport} disabled={loading}>
+          <button className="win98-button-primary" onClick={() => generateLocationHistoryReport()} disabled={loading}>
             Generate Report
           </button>
+          <button className="win98-button" onClick={generateLocationHistorySummary} disabled={loading}>
+            Generate Summary
+          </button>
           <button className="win98-button" onClick={clearReport}>
             Clear Report
           </button>
         </div>
+
+        {renderExportRow(
+          { report: 'location_history', format: exportFormat, filter: { ...historyFilter, sort: exportSort<LocationHistorySortField>('history') } },
+          { report: 'location_history_summary', format: exportFormat, filter: historyFilter }
+        )}
       </div>
     </div>
   );
 
   const renderReportData = () => {
-    if (!reportData) return null;
+    if (!result) return null;
 
-    if (Array.isArray(reportData)) {
-      if (reportData.length === 0) {
-        return (
-          <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>
-            No data found for the selected criteria.
+    if (result.report === 'inventory_summary') {
+      const { summary } = result;
+      return (
+        <>
+          <div className="stats-grid">
+            <StatCard label="TOTAL ITEMS" value={summary.totalItems.toLocaleString()} />
+            <StatCard label="TOTAL VALUE" value={formatCurrency(summary.totalValue)} />
           </div>
-        );
-      }
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+            <BreakdownTable title="Category" columns={['Quantity']} rows={countRows(summary.itemsByCategory)} />
+            <BreakdownTable title="Location" columns={['Quantity']} rows={countRows(summary.itemsByLocation)} />
+            <BreakdownTable title="Condition" columns={['Quantity']} rows={countRows(summary.itemsByCondition)} />
+          </div>
+        </>
+      );
+    }
 
-      // Render as table for array data
-      const firstItem = reportData[0];
-      const columns = Object.keys(firstItem);
+    if (result.report === 'purchases_summary') {
+      const { summary } = result;
+      return (
+        <>
+          <div className="stats-grid">
+            <StatCard label="TOTAL PURCHASES" value={summary.totalPurchases.toLocaleString()} />
+            <StatCard label="TOTAL AMOUNT" value={formatCurrency(summary.totalAmount)} />
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+            <BreakdownTable title="Supplier" columns={['Purchases', 'Amount']} rows={amountRows(summary.purchasesBySupplier)} />
+            <BreakdownTable title="Month" columns={['Purchases', 'Amount']} rows={amountRows(summary.purchasesByMonth, true)} />
+          </div>
+        </>
+      );
+    }
 
+    if (result.report === 'history_summary') {
+      const { summary } = result;
+      const statuses = Object.fromEntries(Object.entries(summary.transfersByStatus).map(([status, count]) =>
+        [STATUS_LABELS[status as TransferStatus] ?? status, count]
+      ));
       return (
-        <table className="win98-table">
-          <thead>
-            <tr>
-              {columns.map((col: string) => (
-                <th key={col}>{col.replace(/_/g, ' ').toUpperCase()}</th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {reportData.map((item: any, index: number) => (
-              <tr key={index}>
-                {columns.map((col: string) => (
-                  <td key={col}>
-                    {typeof item[col] === 'number' 
-                      ? col.includes('price') || col.includes('total') 
-                        ? `$${item[col].toFixed(2)}`
-                        : item[col]
-                      : typeof item[col] === 'object' && item[col] instanceof Date
-                        ? item[col].toLocaleDateString()
-                        : String(item[col] || '')}
-                  </td>
-                ))}
-              </tr>
-            ))}
-          </tbody>
-        </table>
+        <>
+          <div className="stats-grid">
+            <StatCard label="TOTAL TRANSFERS" value={summary.totalTransfers.toLocaleString()} />
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+            <BreakdownTable title="Recorded By" columns={['Transfers']} rows={countRows(summary.transfersByUser)} />
+            <BreakdownTable title="Sender" columns={['Transfers']} rows={countRows(summary.transfersBySender)} />
+            <BreakdownTable title="Receiver" columns={['Transfers']} rows={countRows(summary.transfersByReceiver)} />
+            <BreakdownTable title="Status" columns={['Transfers']} rows={countRows(statuses)} />
+          </div>
+        </>
       );
-    } else {
-      // Render as summary for object data
+    }
+
+    if (result.page.items.length === 0) {
       return (
-        <div className="stats-grid">
-          {Object.entries(reportData).map(([key, value]) => (
-            <div key={key} className="stat-card">
-              <div className="stat-value">
-                {typeof value === 'number' 
-                  ? key.includes('total') && key.includes('value')
-                    ? `$${value.toFixed(2)}`
-                    : value.toLocaleString()
-                  : String(value)}
-              </div>
-              <div className="stat-label">
-                {key.replace(/_/g, ' ').toUpperCase()}
-              </div>
-            </div>
-          ))}
+        <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>
+          No data found for the selected criteria.
         </div>
       );
     }
+
+    const sortProps = {
+      sort: detail?.sort ?? [],
+      onSort: (field: string, additive: boolean) => {
+        if (detail) {
+          reloadReport({ ...detail, page: 1, sort: toggleSortKey(detail.sort, field, additive) });
+        }
+      }
+    };
+
+    return (
+      <>
+        {result.report === 'inventory' && (
+          <ReportTable columns={INVENTORY_COLUMNS} rows={result.page.items} groups={result.page.groups} {...sortProps} />
+        )}
+        {result.report === 'purchases' && (
+          <ReportTable columns={PURCHASE_COLUMNS} rows={result.page.items} groups={result.page.groups} {...sortProps} />
+        )}
+        {result.report === 'history' && (
+          <ReportTable columns={HISTORY_COLUMNS} rows={result.page.items} groups={result.page.groups} {...sortProps} />
+        )}
+        {detail && (
+          <Pager
+            page={detail.page}
+            pageSize={detail.pageSize}
+            total={detail.total}
+            onPageChange={(page: number) => reloadReport({ ...detail, page })}
+            onPageSizeChange={(pageSize: number) => reloadReport({ ...detail, page: 1, pageSize })}
+          />
+        )}
+      </>
+    );
   };
 
   return (
@@ -436,19 +932,19 @@ export function Reports() {
           <div className="win98-tab-list">
             <button 
               className={`win98-tab ${activeTab === 'inventory' ? 'active' : ''}`}
-              onClick={() => setActiveTab('inventory')}
+              onClick={() => navigate('/reports/inventory')}
             >
               Inventory Reports
             </button>
             <button 
               className={`win98-tab ${activeTab === 'purchases' ? 'active' : ''}`}
-              onClick={() => setActiveTab('purchases')}
+              onClick={() => navigate('/reports/purchases')}
             >
               Purchase Reports
             </button>
             <button 
               className={`win98-tab ${activeTab === 'history' ? 'active' : ''}`}
-              onClick={() => setActiveTab('history')}
+              onClick={() => navigate('/reports/history')}
             >
               Transfer Reports
             </button>
@@ -465,7 +961,7 @@ export function Reports() {
           </div>
         )}
 
-        {reportData && (
+        {result && (
           <div className="win98-group">
             <div className="win98-group-title">📋 Report Results</div>
             {renderReportData()}
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useLanguage } from './LanguageContext';
+import { permissionEnum } from '../../../server/src/schema';
+import type { Permission, RolePermissions, UserRole } from '../../../server/src/schema';
+
+const ACTIONS = ['view', 'create', 'update', 'updateCondition', 'delete', 'import', 'approve'] as const;
+
+// Group permission keys ("router.action") by router for the matrix rows
+const RESOURCES = permissionEnum.options.reduce<string[]>((resources, permission) => {
+  const resource = permission.split('.')[0];
+  return resources.includes(resource) ? resources : [...resources, resource];
+}, []);
+
+const isPermission = (key: string): key is Permission =>
+  (permissionEnum.options as readonly string[]).includes(key);
+
+// Admin editor for the role permission matrix
+export function RoleManagement() {
+  const { t } = useLanguage();
+  const [roles, setRoles] = useState<RolePermissions[]>([]);
+  const [selectedRole, setSelectedRole] = useState<UserRole>('user');
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [locationScoped, setLocationScoped] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadRoles = useCallback(async () => {
+    try {
+      const result = await trpc.roles.getAll.query();
+      setRoles(result);
+    } catch (error) {
+      console.error('Failed to load roles:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load roles');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  useEffect(() => {
+    const role = roles.find((role: RolePermissions) => role.role === selectedRole);
+    setPermissions(role?.permissions ?? []);
+    setLocationScoped(role?.location_scoped ?? false);
+  }, [roles, selectedRole]);
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setPermissions((prev: Permission[]) =>
+      checked ? [...prev, permission] : prev.filter((p: Permission) => p !== permission)
+    );
+  };
+
+  const handleSave = async () => {
+    if (selectedRole === 'admin') return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      setSuccess('');
+      await trpc.roles.update.mutate({
+        role: selectedRole,
+        permissions,
+        location_scoped: locationScoped
+      });
+      setSuccess(t('roles.saved'));
+      await loadRoles();
+    } catch (error) {
+      console.error('Failed to save role permissions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save role permissions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isAdminRole = selectedRole === 'admin';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="role-select">{t('roles.role')}</Label>
+          <Select value={selectedRole} onValueChange={(value: UserRole) => setSelectedRole(value)}>
+            <SelectTrigger id="role-select" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {roles.map((role: RolePermissions) => (
+                <SelectItem key={role.role} value={role.role}>
+                  {t(`roles.names.${role.role}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Checkbox
+            id="role-location-scoped"
+            checked={locationScoped}
+            disabled={isAdminRole}
+            onCheckedChange={(checked: boolean | 'indeterminate') => setLocationScoped(checked === true)}
+          />
+          <Label htmlFor="role-location-scoped" title={t('roles.locationScopedHint')}>
+            {t('roles.locationScoped')}
+          </Label>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">{t('roles.description')}</p>
+
+      <div className="border rounded-md overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              {ACTIONS.map((action: string) => (
+                <TableHead key={action} className="text-center">{t(`roles.actions.${action}`)}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {RESOURCES.map((resource: string) => (
+              <TableRow key={resource}>
+                <TableCell className="font-medium">{t(`roles.resources.${resource}`)}</TableCell>
+                {ACTIONS.map((action: string) => {
+                  const key = `${resource}.${action}`;
+                  return (
+                    <TableCell key={action} className="text-center">
+                      {isPermission(key) && (
+                        <Checkbox
+                          checked={isAdminRole || permissions.includes(key)}
+                          disabled={isAdminRole}
+                          onCheckedChange={(checked: boolean | 'indeterminate') => togglePermission(key, checked === true)}
+                        />
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {!isAdminRole && (
+        <Button disabled={isSaving} onClick={handleSave}>
+          {isSaving ? t('auth.saving') : `💾 ${t('settings.save')}`}
+        </Button>
+      )}
+    </div>
+  );
+}
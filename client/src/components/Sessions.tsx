@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { useLanguage } from './LanguageContext';
+import type { SessionInfo } from '../../../server/src/schema';
+
+// Shorten a user agent string to something readable in a table cell
+const describeUserAgent = (userAgent: string | null, fallback: string) => {
+  if (!userAgent) return fallback;
+  const browser = userAgent.match(/(Edg|OPR|Chrome|Firefox|Safari)\/[\d.]+/)?.[0];
+  const platform = userAgent.match(/\(([^;)]+)/)?.[1];
+  return [browser, platform].filter(Boolean).join(' · ') || userAgent.slice(0, 40);
+};
+
+interface SessionTableProps {
+  sessions: SessionInfo[];
+  showUser: boolean;
+  isLoading: boolean;
+  onRevoke: (session: SessionInfo) => void;
+  onLogoutUser?: (session: SessionInfo) => void;
+  currentUserId?: number;
+}
+
+function SessionTable({ sessions, showUser, isLoading, onRevoke, onLogoutUser, currentUserId }: SessionTableProps) {
+  const { t } = useLanguage();
+
+  if (sessions.length === 0) {
+    return <div className="text-center py-8 text-gray-500">{t('sessions.noSessions')}</div>;
+  }
+
+  return (
+    <div className="border rounded-md">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {showUser && <TableHead>{t('sessions.user')}</TableHead>}
+            <TableHead>{t('sessions.device')}</TableHead>
+            <TableHead>{t('sessions.ipAddress')}</TableHead>
+            <TableHead>{t('sessions.signedIn')}</TableHead>
+            <TableHead>{t('sessions.lastSeen')}</TableHead>
+            <TableHead>{t('sessions.expires')}</TableHead>
+            <TableHead className="text-right">{t('settings.actions')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sessions.map((session: SessionInfo) => (
+            <TableRow key={session.public_id}>
+              {showUser && <TableCell className="font-medium">{session.username}</TableCell>}
+              <TableCell title={session.user_agent || undefined}>
+                {describeUserAgent(session.user_agent, t('sessions.unknown'))}
+                {session.is_current && (
+                  <span className="ml-1 px-2 py-1 rounded-full text-xs bg-green-100 text-green-800">
+                    {t('sessions.current')}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell>{session.ip_address || t('sessions.unknown')}</TableCell>
+              <TableCell>{session.created_at.toLocaleString()}</TableCell>
+              <TableCell>{session.last_seen_at.toLocaleString()}</TableCell>
+              <TableCell>{session.expires_at.toLocaleString()}</TableCell>
+              <TableCell className="text-right space-x-2">
+                {!session.is_current && (
+                  <Button variant="outline" size="sm" disabled={isLoading} onClick={() => onRevoke(session)}>
+                    ⛔ {t('sessions.revoke')}
+                  </Button>
+                )}
+                {onLogoutUser && session.user_id !== currentUserId && (
+                  <Button variant="destructive" size="sm" disabled={isLoading} onClick={() => onLogoutUser(session)}>
+                    🚪 {t('sessions.logoutUser')}
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Sessions of the signed-in user, shown from the header menu
+export function MySessions() {
+  const { t } = useLanguage();
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.sessions.getMine.query();
+      setSessions(result);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionInfo) => {
+    if (!confirm(t('sessions.confirmRevoke'))) return;
+
+    try {
+      setError('');
+      await trpc.sessions.revokeMine.mutate({ publicId: session.public_id });
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke session');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+      <SessionTable sessions={sessions} showUser={false} isLoading={isLoading} onRevoke={handleRevoke} />
+    </div>
+  );
+}
+
+// Every active session in the system, for administrators
+export function ActiveSessions() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.sessions.getAll.query();
+      setSessions(result);
+    } catch (error) {
+      console.error('Failed to load active sessions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load active sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionInfo) => {
+    if (!confirm(t('sessions.confirmRevoke'))) return;
+
+    try {
+      setError('');
+      await trpc.sessions.revoke.mutate({ publicId: session.public_id });
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke session');
+    }
+  };
+
+  const handleLogoutUser = async (session: SessionInfo) => {
+    if (!confirm(`${t('sessions.confirmLogoutUser')} (${session.username})`)) return;
+
+    try {
+      setError('');
+      await trpc.sessions.revokeUser.mutate({ userId: session.user_id });
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to log out user:', error);
+      setError(error instanceof Error ? error.message : 'Failed to log out user');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" disabled={isLoading} onClick={loadSessions}>
+          🔄 {t('common.refresh')}
+        </Button>
+      </div>
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+      <SessionTable
+        sessions={sessions}
+        showUser={true}
+        isLoading={isLoading}
+        onRevoke={handleRevoke}
+        onLogoutUser={handleLogoutUser}
+        currentUserId={user?.id}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
 import { UserManagement } from './UserManagement';
+import { RoleManagement } from './RoleManagement';
+import { ApprovalRules } from './ApprovalRules';
+import { EntityDetails, EntityDetailsDialog } from './EntityDetails';
+import { Link } from './Link';
+import { navigate, goBack } from '@/lib/router';
 import { useAuth } from './AuthContext';
 import { useLanguage } from './LanguageContext';
 import type { 
@@ -12,10 +17,14 @@ import type {
   UpdateSupplierInput 
 } from '../../../server/src/schema';
 
-export function Settings() {
+interface SettingsProps {
+  // From the URL, e.g. /settings/suppliers
+  tab?: string;
+}
+
+export function Settings({ tab: activeTab = 'categories' }: SettingsProps) {
   const { user } = useAuth();
   const { t } = useLanguage();
-  const [activeTab, setActiveTab] = useState<string>('categories');
   const [categories, setCategories] = useState<Category[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [loading, setLoading] = useState(true);
@@ -23,6 +32,7 @@ export function Settings() {
   // Category form state
   const [showCategoryForm, setShowCategoryForm] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [detailCategory, setDetailCategory] = useState<Category | null>(null);
   const [categoryFormData, setCategoryFormData] = useState<CreateCategoryInput>({
     name: '',
     description: null
@@ -257,6 +267,13 @@ export function Settings() {
               </td>
               <td>{category.created_at.toLocaleDateString()}</td>
               <td>
+                <button
+                  className="win98-button"
+                  onClick={() => setDetailCategory(category)}
+                  style={{ marginRight: '4px' }}
+                >
+                  Details
+                </button>
                 <button 
                   className="win98-button" 
                   onClick={() => handleCategoryEdit(category)}
@@ -281,6 +298,21 @@ export function Settings() {
           No categories found. Click "Add New Category" to get started.
         </div>
       )}
+
+      {detailCategory && (
+        <EntityDetailsDialog
+          title={`📂 ${detailCategory.name}`}
+          entityType="category"
+          entityId={detailCategory.id}
+          fields={[
+            { label: 'Name', value: detailCategory.name },
+            { label: 'Description', value: detailCategory.description },
+            { label: 'Created', value: detailCategory.created_at.toLocaleString() },
+            { label: 'Updated', value: detailCategory.updated_at.toLocaleString() }
+          ]}
+          onClose={() => setDetailCategory(null)}
+        />
+      )}
     </div>
   );
 
@@ -395,6 +427,9 @@ export function Settings() {
               </td>
               <td>{supplier.created_at.toLocaleDateString()}</td>
               <td>
+                <Link to={`/suppliers/${supplier.id}`} className="win98-button mr-1">
+                  Details
+                </Link>
                 <button 
                   className="win98-button" 
                   onClick={() => handleSupplierEdit(supplier)}
@@ -448,31 +483,106 @@ export function Settings() {
           <div className="win98-tab-list">
             <button 
               className={`win98-tab ${activeTab === 'categories' ? 'active' : ''}`}
-              onClick={() => setActiveTab('categories')}
+              onClick={() => navigate('/settings/categories')}
             >
               📂 {t('settings.categories')}
             </button>
             <button 
               className={`win98-tab ${activeTab === 'suppliers' ? 'active' : ''}`}
-              onClick={() => setActiveTab('suppliers')}
+              onClick={() => navigate('/settings/suppliers')}
             >
               🏢 {t('settings.suppliers')}
             </button>
             {user?.role === 'admin' && (
               <button 
                 className={`win98-tab ${activeTab === 'users' ? 'active' : ''}`}
-                onClick={() => setActiveTab('users')}
+                onClick={() => navigate('/settings/users')}
               >
                 👥 {t('settings.userManagement')}
               </button>
             )}
+            {user?.role === 'admin' && (
+              <button 
+                className={`win98-tab ${activeTab === 'roles' ? 'active' : ''}`}
+                onClick={() => navigate('/settings/roles')}
+              >
+                🔐 {t('roles.title')}
+              </button>
+            )}
+            {user?.role === 'admin' && (
+              <button 
+                className={`win98-tab ${activeTab === 'approvalRules' ? 'active' : ''}`}
+                onClick={() => navigate('/settings/approvalRules')}
+              >
+                ✅ {t('approvalRules.title')}
+              </button>
+            )}
           </div>
 
           {activeTab === 'categories' && renderCategoriesTab()}
           {activeTab === 'suppliers' && renderSuppliersTab()}
           {activeTab === 'users' && user?.role === 'admin' && renderUserManagementTab()}
+          {activeTab === 'roles' && user?.role === 'admin' && (
+            <div className="win98-tab-content">
+              <RoleManagement />
+            </div>
+          )}
+          {activeTab === 'approvalRules' && user?.role === 'admin' && (
+            <div className="win98-tab-content">
+              <ApprovalRules />
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// One supplier with its change history and a link to what was bought from it
+export function SupplierDetailPage({ supplierId }: { supplierId: number }) {
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    trpc.suppliers.getById.query({ id: supplierId })
+      .then(setSupplier)
+      .catch((error: unknown) => console.error('Failed to load supplier:', error))
+      .finally(() => setLoading(false));
+  }, [supplierId]);
+
+  return (
+    <div className="win98-group">
+      <div className="win98-group-title">🏢 {supplier?.name ?? 'Supplier'}</div>
+
+      <div className="form-row">
+        <button className="win98-button" onClick={() => goBack('/settings/suppliers')}>
+          ◀ Back
+        </button>
+        {supplier && (
+          <Link to={`/purchases?purchases.supplier_id=${supplier.id}`} className="win98-button">
+            🛒 Purchases from this supplier
+          </Link>
+        )}
+      </div>
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '20px' }}>Loading supplier...</div>
+      ) : supplier === null ? (
+        <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>Supplier not found</div>
+      ) : (
+        <EntityDetails
+          entityType="supplier"
+          entityId={supplier.id}
+          fields={[
+            { label: 'Name', value: supplier.name },
+            { label: 'Contact Person', value: supplier.contact_person },
+            { label: 'Phone', value: supplier.phone_number },
+            { label: 'Address', value: supplier.address },
+            { label: 'Created', value: supplier.created_at.toLocaleString() },
+            { label: 'Updated', value: supplier.updated_at.toLocaleString() }
+          ]}
+        />
+      )}
+    </div>
+  );
+}
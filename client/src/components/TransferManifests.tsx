@@ -0,0 +1,457 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { ItemLink } from './ItemDetail';
+import { downloadHandoverPdf } from '@/lib/handoverPdf';
+import type {
+  TransferManifest,
+  TransferManifestDetails,
+  CreateTransferManifestInput,
+  InventoryItem,
+  Location,
+  ManifestStatus,
+  ReceiptStatus
+} from '../../../server/src/schema';
+
+const MANIFEST_STATUS_LABELS: Record<ManifestStatus, string> = {
+  pending: 'Pending',
+  in_transit: 'In Transit',
+  received: 'Received',
+  partially_received: 'Partially Received',
+  cancelled: 'Cancelled'
+};
+
+const RECEIPT_LABELS: Record<ReceiptStatus, string> = {
+  received: 'Received',
+  damaged: 'Damaged',
+  missing: 'Missing'
+};
+
+type ManifestTransfer = TransferManifestDetails['transfers'][number];
+
+const EMPTY_MANIFEST: CreateTransferManifestInput = {
+  from_location_id: 0,
+  to_location_id: 0,
+  item_ids: [],
+  courier: null,
+  tracking_number: null,
+  transfer_date: new Date(),
+  reason: null,
+  notes: null
+};
+
+// Shipments of several items that move between two locations together
+export function TransferManifests() {
+  const { can } = useAuth();
+  const [manifests, setManifests] = useState<TransferManifest[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<CreateTransferManifestInput>(EMPTY_MANIFEST);
+  const [selected, setSelected] = useState<TransferManifestDetails | null>(null);
+  // Outcome per transfer while a shipment is being received
+  const [receipt, setReceipt] = useState<Record<number, ReceiptStatus> | null>(null);
+
+  // Runs after every manifest action, so it fetches only the manifests
+  const loadData = useCallback(async () => {
+    try {
+      setManifests(await trpc.manifests.getAll.query());
+    } catch (error) {
+      console.error('Failed to load manifests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadMasterData = useCallback(async () => {
+    try {
+      setLocations(await trpc.locations.getAll.query());
+    } catch (error) {
+      console.error('Failed to load master data:', error);
+    }
+  }, []);
+
+  // Only the form picks items, from those at the chosen origin
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await trpc.inventory.getAll.query());
+    } catch (error) {
+      console.error('Failed to load items:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useEffect(() => {
+    loadMasterData();
+  }, [loadMasterData]);
+
+  useEffect(() => {
+    if (showForm) {
+      loadItems();
+    }
+  }, [showForm, loadItems]);
+
+  const locationName = (id: number) => locations.find((location: Location) => location.id === id)?.name ?? `#${id}`;
+
+  const openManifest = async (id: number) => {
+    try {
+      setError('');
+      setReceipt(null);
+      setSelected(await trpc.manifests.getById.query({ id }));
+    } catch (error) {
+      console.error('Failed to load manifest:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load manifest');
+    }
+  };
+
+  // Runs a manifest action, then refreshes the list and the open manifest
+  const runAction = async (action: () => Promise<TransferManifestDetails>) => {
+    try {
+      setError('');
+      const updated = await action();
+      setSelected(updated);
+      setReceipt(null);
+      await loadData();
+    } catch (error) {
+      console.error('Manifest action failed:', error);
+      setError(error instanceof Error ? error.message : 'Manifest action failed');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await runAction(async () => {
+      const created = await trpc.manifests.create.mutate(formData);
+      setFormData(EMPTY_MANIFEST);
+      setShowForm(false);
+      return created;
+    });
+  };
+
+  const handleCancel = (manifest: TransferManifestDetails) => {
+    if (!confirm('Cancel this manifest and every open transfer on it?')) return;
+    runAction(() => trpc.manifests.cancel.mutate({ id: manifest.id }));
+  };
+
+  const handlePrint = async (manifest: TransferManifestDetails) => {
+    try {
+      setError('');
+      downloadHandoverPdf(await trpc.manifests.handoverDocument.mutate({ id: manifest.id }));
+      setSelected(await trpc.manifests.getById.query({ id: manifest.id }));
+    } catch (error) {
+      console.error('Failed to print handover document:', error);
+      setError(error instanceof Error ? error.message : 'Failed to print handover document');
+    }
+  };
+
+  const startReceipt = (manifest: TransferManifestDetails) => {
+    setReceipt(Object.fromEntries(
+      manifest.transfers
+        .filter((transfer: ManifestTransfer) => transfer.status === 'in_transit')
+        .map((transfer: ManifestTransfer) => [transfer.id, 'received' as ReceiptStatus])
+    ));
+  };
+
+  const confirmReceipt = (manifest: TransferManifestDetails) => {
+    if (!receipt) return;
+    runAction(() => trpc.manifests.receive.mutate({
+      id: manifest.id,
+      lines: Object.entries(receipt).map(([transferId, outcome]) => ({ transfer_id: Number(transferId), outcome }))
+    }));
+  };
+
+  const toggleItem = (itemId: number, checked: boolean) => {
+    setFormData((prev: CreateTransferManifestInput) => ({
+      ...prev,
+      item_ids: checked ? [...prev.item_ids, itemId] : prev.item_ids.filter((id: number) => id !== itemId)
+    }));
+  };
+
+  const availableItems = items.filter((item: InventoryItem) => item.location_id === formData.from_location_id);
+
+  if (loading && manifests.length === 0) {
+    return (
+      <div className="win98-group">
+        <div className="win98-group-title">🚚 Transfer Manifests</div>
+        <div style={{ textAlign: 'center', padding: '20px' }}>
+          Loading manifests...
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="win98-group">
+        <div className="win98-group-title">🚚 Transfer Manifests</div>
+
+        <div className="form-row">
+          {can('locationHistory.create') && (
+            <button className="win98-button-primary" onClick={() => setShowForm(true)}>
+              New Manifest
+            </button>
+          )}
+          <button className="win98-button" onClick={() => loadData()}>
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div style={{ color: '#c00', padding: '8px' }}>{error}</div>
+        )}
+
+        {showForm && (
+          <div className="win98-group">
+            <div className="win98-group-title">New Manifest</div>
+
+            <form onSubmit={handleSubmit}>
+              <div className="form-grid">
+                <label>From Location:</label>
+                <select
+                  className="win98-select"
+                  value={formData.from_location_id}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    setFormData((prev: CreateTransferManifestInput) => ({
+                      ...prev,
+                      from_location_id: parseInt(e.target.value),
+                      item_ids: []
+                    }))
+                  }
+                  required
+                >
+                  <option value={0}>Select Origin</option>
+                  {locations.map((location: Location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name} ({location.branch_code})
+                    </option>
+                  ))}
+                </select>
+
+                <label>To Location:</label>
+                <select
+                  className="win98-select"
+                  value={formData.to_location_id}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    setFormData((prev: CreateTransferManifestInput) => ({ ...prev, to_location_id: parseInt(e.target.value) }))
+                  }
+                  required
+                >
+                  <option value={0}>Select Destination</option>
+                  {locations.map((location: Location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name} ({location.branch_code})
+                    </option>
+                  ))}
+                </select>
+
+                <label>Items ({formData.item_ids.length}):</label>
+                <div style={{ maxHeight: '160px', overflowY: 'auto', border: '1px solid #808080', padding: '4px', background: '#fff' }}>
+                  {availableItems.length === 0 ? (
+                    <em style={{ color: '#999' }}>Select an origin with items in stock</em>
+                  ) : availableItems.map((item: InventoryItem) => (
+                    <label key={item.id} style={{ display: 'block' }}>
+                      <input
+                        type="checkbox"
+                        checked={formData.item_ids.includes(item.id)}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => toggleItem(item.id, e.target.checked)}
+                      />{' '}
+                      {item.item_code} - {item.name}
+                    </label>
+                  ))}
+                </div>
+
+                <label>Courier:</label>
+                <input
+                  type="text"
+                  className="win98-input"
+                  value={formData.courier || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateTransferManifestInput) => ({ ...prev, courier: e.target.value || null }))
+                  }
+                  placeholder="e.g., JNE, internal driver"
+                />
+
+                <label>Tracking Number:</label>
+                <input
+                  type="text"
+                  className="win98-input"
+                  value={formData.tracking_number || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateTransferManifestInput) => ({ ...prev, tracking_number: e.target.value || null }))
+                  }
+                />
+
+                <label>Transfer Date:</label>
+                <input
+                  type="date"
+                  className="win98-input"
+                  value={formData.transfer_date.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateTransferManifestInput) => ({ ...prev, transfer_date: new Date(e.target.value) }))
+                  }
+                  required
+                />
+
+                <label>Notes:</label>
+                <textarea
+                  className="win98-textarea"
+                  value={formData.notes || ''}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                    setFormData((prev: CreateTransferManifestInput) => ({ ...prev, notes: e.target.value || null }))
+                  }
+                  rows={2}
+                />
+              </div>
+
+              <div className="form-row">
+                <button type="submit" className="win98-button-primary" disabled={formData.item_ids.length === 0}>
+                  Create Manifest
+                </button>
+                <button
+                  type="button"
+                  className="win98-button"
+                  onClick={() => {
+                    setFormData(EMPTY_MANIFEST);
+                    setShowForm(false);
+                  }}
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <table className="win98-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>From → To</th>
+              <th>Courier</th>
+              <th>Tracking</th>
+              <th>Status</th>
+              <th>Dispatched</th>
+              <th>Received</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {manifests.map((manifest: TransferManifest) => (
+              <tr key={manifest.id}>
+                <td>{manifest.id}</td>
+                <td>{locationName(manifest.from_location_id)} → {locationName(manifest.to_location_id)}</td>
+                <td>{manifest.courier || <em style={{ color: '#999' }}>—</em>}</td>
+                <td>{manifest.tracking_number || <em style={{ color: '#999' }}>—</em>}</td>
+                <td>{MANIFEST_STATUS_LABELS[manifest.status]}</td>
+                <td>{manifest.dispatched_at?.toLocaleDateString() ?? '—'}</td>
+                <td>{manifest.received_at?.toLocaleDateString() ?? '—'}</td>
+                <td>
+                  <button className="win98-button" onClick={() => openManifest(manifest.id)}>
+                    Open
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {manifests.length === 0 && (
+          <div style={{ textAlign: 'center', padding: '20px', color: '#808080' }}>
+            No manifests yet.
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="win98-group">
+          <div className="win98-group-title">
+            Manifest #{selected.id}: {locationName(selected.from_location_id)} → {locationName(selected.to_location_id)} ({MANIFEST_STATUS_LABELS[selected.status]})
+            {selected.handover_document_number && ` · BAST ${selected.handover_document_number}`}
+          </div>
+
+          <div className="form-row">
+            {can('locationHistory.update') && (
+              <>
+                {selected.status === 'pending' && (
+                  <button className="win98-button-primary" onClick={() => runAction(() => trpc.manifests.dispatch.mutate({ id: selected.id }))}>
+                    Dispatch
+                  </button>
+                )}
+                {selected.status === 'in_transit' && !receipt && (
+                  <button className="win98-button-primary" onClick={() => startReceipt(selected)}>
+                    Receive
+                  </button>
+                )}
+                {receipt && (
+                  <button className="win98-button-primary" onClick={() => confirmReceipt(selected)}>
+                    Confirm Receipt
+                  </button>
+                )}
+                {(selected.status === 'pending' || selected.status === 'in_transit') && (
+                  <button className="win98-button" onClick={() => handleCancel(selected)}>
+                    Cancel Manifest
+                  </button>
+                )}
+              </>
+            )}
+            {selected.status !== 'cancelled' && (
+              <button className="win98-button" onClick={() => handlePrint(selected)}>
+                Print BAST
+              </button>
+            )}
+            <button className="win98-button" onClick={() => setSelected(null)}>
+              Close
+            </button>
+          </div>
+
+          <table className="win98-table">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Transfer Status</th>
+                <th>Receipt</th>
+                <th>Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.transfers.map((transfer: ManifestTransfer) => (
+                <tr key={transfer.id}>
+                  <td><ItemLink itemId={transfer.item_id}>{transfer.item_code} - {transfer.item_name}</ItemLink></td>
+                  <td>{transfer.status.replace('_', ' ')}</td>
+                  <td>
+                    {receipt && receipt[transfer.id] !== undefined ? (
+                      <select
+                        className="win98-select"
+                        value={receipt[transfer.id]}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                          setReceipt((prev: Record<number, ReceiptStatus> | null) => ({
+                            ...prev,
+                            [transfer.id]: e.target.value as ReceiptStatus
+                          }))
+                        }
+                      >
+                        {(Object.keys(RECEIPT_LABELS) as ReceiptStatus[]).map((outcome: ReceiptStatus) => (
+                          <option key={outcome} value={outcome}>{RECEIPT_LABELS[outcome]}</option>
+                        ))}
+                      </select>
+                    ) : transfer.receipt_status ? (
+                      RECEIPT_LABELS[transfer.receipt_status]
+                    ) : (
+                      <em style={{ color: '#999' }}>—</em>
+                    )}
+                  </td>
+                  <td>{transfer.notes}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { useLanguage } from './LanguageContext';
+import type { MfaSetupResponse } from '../../../server/src/schema';
+
+interface RecoveryCodeListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+function RecoveryCodeList({ codes, onDone }: RecoveryCodeListProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-4">
+      <Alert className="border-yellow-200 bg-yellow-50">
+        <AlertDescription className="text-yellow-800">{t('mfa.recoveryCodesHint')}</AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm border rounded-md p-3 bg-gray-50">
+        {codes.map((code: string) => (
+          <div key={code}>{code}</div>
+        ))}
+      </div>
+      <Button className="w-full" onClick={onDone}>
+        ✅ {t('mfa.done')}
+      </Button>
+    </div>
+  );
+}
+
+interface TwoFactorEnrollmentProps {
+  onComplete: () => void;
+}
+
+// Walks the user through scanning the QR code, confirming a code and saving recovery codes
+export function TwoFactorEnrollment({ onComplete }: TwoFactorEnrollmentProps) {
+  const { t } = useLanguage();
+  const [setup, setSetup] = useState<MfaSetupResponse | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const startSetup = async () => {
+    try {
+      setIsSaving(true);
+      setError('');
+      setSetup(await trpc.mfa.setup.mutate());
+    } catch (error) {
+      console.error('Failed to start two-factor setup:', error);
+      setError(error instanceof Error ? error.message : 'Failed to start two-factor setup');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError('');
+      const result = await trpc.mfa.enable.mutate({ code });
+      setRecoveryCodes(result.recovery_codes);
+    } catch (error) {
+      console.error('Failed to enable two-factor authentication:', error);
+      setError(error instanceof Error ? error.message : 'Failed to enable two-factor authentication');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={onComplete} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {!setup ? (
+        <Button className="w-full" disabled={isSaving} onClick={startSetup}>
+          🛡️ {t('mfa.enable')}
+        </Button>
+      ) : (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <p className="text-sm text-gray-600">{t('mfa.scanQrCode')}</p>
+          <div className="flex justify-center bg-white p-3 border rounded-md">
+            <QRCodeSVG value={setup.provisioning_uri} size={180} />
+          </div>
+          <div className="space-y-1">
+            <Label>{t('mfa.secretKey')}</Label>
+            <div className="font-mono text-sm break-all">{setup.secret}</div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mfa-enroll-code">{t('mfa.code')}</Label>
+            <Input
+              id="mfa-enroll-code"
+              value={code}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              disabled={isSaving}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? t('auth.saving') : t('mfa.verify')}
+          </Button>
+        </form>
+      )}
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+// Two-factor status for the signed-in user, with enroll, disable and recovery code actions
+export function TwoFactorSettings() {
+  const { user, refreshUser } = useAuth();
+  const { t } = useLanguage();
+  const [mode, setMode] = useState<'idle' | 'disable' | 'regenerate'>('idle');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const resetForm = () => {
+    setMode('idle');
+    setPassword('');
+    setCode('');
+    setError('');
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError('');
+      await trpc.mfa.disable.mutate({ password });
+      resetForm();
+      await refreshUser();
+    } catch (error) {
+      console.error('Failed to disable two-factor authentication:', error);
+      setError(error instanceof Error ? error.message : 'Failed to disable two-factor authentication');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError('');
+      const result = await trpc.mfa.regenerateRecoveryCodes.mutate({ code });
+      resetForm();
+      setRecoveryCodes(result.recovery_codes);
+    } catch (error) {
+      console.error('Failed to regenerate recovery codes:', error);
+      setError(error instanceof Error ? error.message : 'Failed to regenerate recovery codes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!user) return null;
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  }
+
+  if (!user.totp_enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">{t('mfa.description')}</p>
+        <TwoFactorEnrollment onComplete={refreshUser} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm">{t('mfa.title')}</span>
+        <span className="px-2 py-1 rounded-full text-xs bg-green-100 text-green-800">
+          ✅ {t('mfa.enabled')}
+        </span>
+      </div>
+
+      {mode === 'idle' && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setMode('regenerate')}>
+            🔁 {t('mfa.regenerateCodes')}
+          </Button>
+          <Button variant="destructive" size="sm" onClick={() => setMode('disable')}>
+            {t('mfa.disable')}
+          </Button>
+        </div>
+      )}
+
+      {mode === 'disable' && (
+        <form onSubmit={handleDisable} className="space-y-3">
+          <Label htmlFor="mfa-disable-password">{t('mfa.disableConfirm')}</Label>
+          <Input
+            id="mfa-disable-password"
+            type="password"
+            value={password}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+            disabled={isSaving}
+            required
+          />
+          <div className="flex gap-2">
+            <Button type="submit" variant="destructive" size="sm" disabled={isSaving}>
+              {t('mfa.disable')}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={resetForm}>
+              {t('mfa.cancel')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {mode === 'regenerate' && (
+        <form onSubmit={handleRegenerate} className="space-y-3">
+          <Label htmlFor="mfa-regenerate-code">{t('mfa.code')}</Label>
+          <Input
+            id="mfa-regenerate-code"
+            value={code}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            disabled={isSaving}
+            required
+          />
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {t('mfa.confirm')}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={resetForm}>
+              {t('mfa.cancel')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+// Full-screen enrollment shown instead of the app while the admin two-factor policy is unmet
+export function ForceMfaSetup() {
+  const { user, logout, refreshUser } = useAuth();
+  const { t } = useLanguage();
+
+  return (
+    <div className="login-container">
+      <div className="login-background">
+        <div className="login-window">
+          <div className="titlebar">
+            <div className="titlebar-text">🛡️ {t('mfa.title')} - {t('app.title')}</div>
+            <div className="titlebar-buttons">
+              <button className="titlebar-button logout-button" onClick={logout} title={t('auth.logout')}>
+                🚪
+              </button>
+            </div>
+          </div>
+
+          <div className="login-content">
+            <Card className="w-full max-w-md mx-auto">
+              <CardHeader className="text-center">
+                <CardTitle className="text-2xl">👤 {user?.username}</CardTitle>
+                <CardDescription>{t('mfa.setupRequired')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TwoFactorEnrollment onComplete={refreshUser} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,18 +5,32 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { trpc } from '@/utils/trpc';
+import { useAuth } from './AuthContext';
+import { ActiveSessions } from './Sessions';
+import { LoginActivity } from './LoginActivity';
 import { useLanguage } from './LanguageContext';
-import type { User, CreateUserInput } from '../../../server/src/schema';
+import { userRoleEnum } from '../../../server/src/schema';
+import type { User, CreateUserInput, UpdateUserInput, UserRole, Location } from '../../../server/src/schema';
 
 export function UserManagement() {
   const { t } = useLanguage();
+  const { user: currentUser, refreshUser } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [temporaryPassword, setTemporaryPassword] = useState<{ username: string; password: string } | null>(null);
+  const [requireAdminMfa, setRequireAdminMfa] = useState(false);
+
+  // Edit dialog state
+  const [editData, setEditData] = useState<UpdateUserInput | null>(null);
+  const [editLocationIds, setEditLocationIds] = useState<number[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
 
   // Form state
   const [formData, setFormData] = useState<CreateUserInput>({
@@ -42,6 +56,26 @@ export function UserManagement() {
     loadUsers();
   }, [loadUsers]);
 
+  useEffect(() => {
+    trpc.settings.getSecurity.query()
+      .then(settings => setRequireAdminMfa(settings.require_admin_mfa))
+      .catch(error => console.error('Failed to load security settings:', error));
+  }, []);
+
+  const handleRequireAdminMfaChange = async (checked: boolean) => {
+    try {
+      setError('');
+      setSuccess('');
+      const settings = await trpc.settings.updateSecurity.mutate({ require_admin_mfa: checked });
+      setRequireAdminMfa(settings.require_admin_mfa);
+      // The current admin may now have to enroll before continuing
+      await refreshUser();
+    } catch (error) {
+      console.error('Failed to update security settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update security settings');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -91,17 +125,125 @@ export function UserManagement() {
     }
   };
 
-  const getRoleDisplay = (role: string) => {
-    switch (role) {
-      case 'admin':
-        return '👑 Administrator';
-      case 'user':
-        return '👤 User';
-      default:
-        return role;
+  const openEditDialog = async (user: User) => {
+    setEditData({ id: user.id, username: user.username, role: user.role });
+    setEditLocationIds([]);
+    try {
+      const [locationsResult, assignedResult] = await Promise.all([
+        trpc.locations.getAll.query(),
+        trpc.users.getLocations.query({ id: user.id })
+      ]);
+      setLocations(locationsResult);
+      setEditLocationIds(assignedResult);
+    } catch (error) {
+      console.error('Failed to load user locations:', error);
+    }
+  };
+
+  const toggleEditLocation = (locationId: number, checked: boolean) => {
+    setEditLocationIds((prev: number[]) =>
+      checked ? [...prev, locationId] : prev.filter((id: number) => id !== locationId)
+    );
+  };
+
+  const handleUpdateUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editData) return;
+
+    try {
+      setError('');
+      setSuccess('');
+      setIsLoading(true);
+      const updated = await trpc.users.update.mutate(editData);
+      await trpc.users.setLocations.mutate({ user_id: editData.id, location_ids: editLocationIds });
+      setSuccess(`User "${updated.username}" updated successfully`);
+      setEditData(null);
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to update user:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update user');
+      setEditData(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (user: User) => {
+    try {
+      setError('');
+      setSuccess('');
+      setIsLoading(true);
+      if (user.is_active) {
+        await trpc.users.deactivate.mutate({ id: user.id });
+        setSuccess(`User "${user.username}" deactivated`);
+      } else {
+        await trpc.users.reactivate.mutate({ id: user.id });
+        setSuccess(`User "${user.username}" reactivated`);
+      }
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to change user status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to change user status');
+    } finally {
+      setIsLoading(false);
     }
   };
 
+  const handleUnlockUser = async (userId: number, username: string) => {
+    try {
+      setError('');
+      setSuccess('');
+      setIsLoading(true);
+      await trpc.users.unlock.mutate({ id: userId });
+      setSuccess(`User "${username}" unlocked`);
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to unlock user:', error);
+      setError(error instanceof Error ? error.message : 'Failed to unlock user');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetMfa = async (userId: number, username: string) => {
+    try {
+      setError('');
+      setSuccess('');
+      setIsLoading(true);
+      await trpc.users.resetMfa.mutate({ id: userId });
+      setSuccess(`${t('mfa.resetDone')}: "${username}"`);
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to reset two-factor authentication:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reset two-factor authentication');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isLocked = (user: User) => user.locked_until !== null && user.locked_until > new Date();
+
+  const handleResetPassword = async (userId: number, username: string) => {
+    try {
+      setError('');
+      setSuccess('');
+      setTemporaryPassword(null);
+      setIsLoading(true);
+      const result = await trpc.users.resetPassword.mutate({ id: userId });
+      setTemporaryPassword({ username, password: result.temporary_password });
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to reset password:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getRoleDisplay = (role: UserRole) => {
+    return `${role === 'admin' ? '👑' : '👤'} ${t(`roles.names.${role}`)}`;
+  };
+
   return (
     <div className="space-y-6">
       <div className="section-header">
@@ -155,7 +297,7 @@ export function UserManagement() {
                 <Label htmlFor="new-role">Role</Label>
                 <Select
                   value={formData.role}
-                  onValueChange={(value: 'admin' | 'user') =>
+                  onValueChange={(value: UserRole) =>
                     setFormData((prev: CreateUserInput) => ({ ...prev, role: value }))
                   }
                   disabled={isLoading}
@@ -164,8 +306,9 @@ export function UserManagement() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="user">👤 User</SelectItem>
-                    <SelectItem value="admin">👑 Administrator</SelectItem>
+                    {userRoleEnum.options.map((role: UserRole) => (
+                      <SelectItem key={role} value={role}>{getRoleDisplay(role)}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -187,6 +330,17 @@ export function UserManagement() {
               </Alert>
             )}
 
+            {temporaryPassword && (
+              <Alert className="border-yellow-200 bg-yellow-50">
+                <AlertDescription className="text-yellow-800">
+                  Kata sandi sementara untuk "{temporaryPassword.username}":{' '}
+                  <code className="font-mono font-bold select-all">{temporaryPassword.password}</code>
+                  <br />
+                  Sampaikan kepada pengguna. Kata sandi ini hanya ditampilkan sekali dan harus diganti saat login berikutnya.
+                </AlertDescription>
+              </Alert>
+            )}
+
             <Button type="submit" disabled={isLoading}>
               {isLoading ? 'Membuat...' : '➕ Buat Pengguna'}
             </Button>
@@ -236,12 +390,145 @@ export function UserManagement() {
                         }`}>
                           {user.is_active ? '✅ Aktif' : '❌ Tidak Aktif'}
                         </span>
+                        {isLocked(user) && (
+                          <span
+                            className="ml-1 px-2 py-1 rounded-full text-xs bg-red-100 text-red-800"
+                            title={user.locked_until?.toLocaleString()}
+                          >
+                            🔒 Terkunci
+                          </span>
+                        )}
+                        {user.failed_login_count > 0 && (
+                          <span className="ml-1 text-xs text-gray-500">
+                            ({user.failed_login_count} gagal)
+                          </span>
+                        )}
+                        {user.must_change_password && (
+                          <span className="ml-1 px-2 py-1 rounded-full text-xs bg-yellow-100 text-yellow-800">
+                            🔑 Wajib ganti sandi
+                          </span>
+                        )}
+                        {user.totp_enabled && (
+                          <span className="ml-1 px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800">
+                            🛡️ 2FA
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell>
                         {user.created_at.toLocaleDateString('id-ID')}
                       </TableCell>
-                      <TableCell className="text-right">
-                        {user.username !== 'admin' ? (
+                      <TableCell className="text-right space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isLoading}
+                          onClick={() => openEditDialog(user)}
+                        >
+                          ✏️ Edit
+                        </Button>
+                        {isLocked(user) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isLoading}
+                            onClick={() => handleUnlockUser(user.id, user.username)}
+                          >
+                            🔓 Buka Kunci
+                          </Button>
+                        )}
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={isLoading}
+                            >
+                              🔑 Reset Sandi
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Reset Kata Sandi</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Buat kata sandi sementara untuk "{user.username}"? 
+                                Semua sesi pengguna ini akan diakhiri.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Batal</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleResetPassword(user.id, user.username)}
+                              >
+                                Reset
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                        {user.totp_enabled && user.id !== currentUser?.id && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isLoading}
+                              >
+                                🛡️ {t('mfa.reset')}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>{t('mfa.reset')}</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  "{user.username}": {t('mfa.resetConfirm')}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Batal</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleResetMfa(user.id, user.username)}>
+                                  Reset
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                        {user.id !== currentUser?.id && (user.is_active ? (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isLoading}
+                              >
+                                ⏸️ Nonaktifkan
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Nonaktifkan Pengguna</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Nonaktifkan pengguna "{user.username}"? 
+                                  Semua sesi aktif pengguna ini akan diakhiri.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Batal</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleToggleActive(user)}>
+                                  Nonaktifkan
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isLoading}
+                            onClick={() => handleToggleActive(user)}
+                          >
+                            ▶️ Aktifkan
+                          </Button>
+                        ))}
+                        {user.id !== currentUser?.id ? (
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button 
@@ -273,7 +560,7 @@ export function UserManagement() {
                           </AlertDialog>
                         ) : (
                           <span className="text-gray-400 text-sm">
-                            🛡️ Tidak dapat dihapus
+                            🛡️ Akun Anda
                           </span>
                         )}
                       </TableCell>
@@ -285,6 +572,131 @@ export function UserManagement() {
           )}
         </CardContent>
       </Card>
+
+      {/* Security Policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle>🛡️ {t('mfa.title')}</CardTitle>
+          <CardDescription>
+            {t('mfa.policyDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="require-admin-mfa"
+              checked={requireAdminMfa}
+              onCheckedChange={(checked: boolean | 'indeterminate') => handleRequireAdminMfaChange(checked === true)}
+            />
+            <Label htmlFor="require-admin-mfa">{t('mfa.requireForAdmins')}</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Active Sessions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>💻 {t('sessions.activeSessions')}</CardTitle>
+          <CardDescription>
+            {t('sessions.activeSessionsDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ActiveSessions />
+        </CardContent>
+      </Card>
+
+      {/* Login Activity */}
+      <Card>
+        <CardHeader>
+          <CardTitle>🕵️ {t('loginActivity.title')}</CardTitle>
+          <CardDescription>
+            {t('loginActivity.description')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoginActivity />
+        </CardContent>
+      </Card>
+
+      {/* Edit User Dialog */}
+      <Dialog open={editData !== null} onOpenChange={(open: boolean) => !open && setEditData(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>✏️ Edit Pengguna</DialogTitle>
+            <DialogDescription>
+              Ubah username atau role pengguna
+            </DialogDescription>
+          </DialogHeader>
+          {editData && (
+            <form onSubmit={handleUpdateUser} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-username">Username *</Label>
+                <Input
+                  id="edit-username"
+                  value={editData.username || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setEditData((prev: UpdateUserInput | null) => prev && { ...prev, username: e.target.value })
+                  }
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-role">Role</Label>
+                <Select
+                  value={editData.role || 'user'}
+                  onValueChange={(value: UserRole) =>
+                    setEditData((prev: UpdateUserInput | null) => prev && { ...prev, role: value })
+                  }
+                  disabled={isLoading}
+                >
+                  <SelectTrigger id="edit-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {userRoleEnum.options.map((role: UserRole) => (
+                      <SelectItem key={role} value={role}>{getRoleDisplay(role)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('roles.assignedLocations')}</Label>
+                <p className="text-xs text-gray-500">{t('roles.assignedLocationsHint')}</p>
+                <div className="border rounded-md p-2 max-h-40 overflow-auto space-y-1">
+                  {locations.length === 0 ? (
+                    <div className="text-sm text-gray-500">{t('roles.noLocations')}</div>
+                  ) : locations.map((location: Location) => (
+                    <div key={location.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`edit-location-${location.id}`}
+                        checked={editLocationIds.includes(location.id)}
+                        onCheckedChange={(checked: boolean | 'indeterminate') => toggleEditLocation(location.id, checked === true)}
+                        disabled={isLoading}
+                      />
+                      <Label htmlFor={`edit-location-${location.id}`}>
+                        {location.name} ({location.branch_code})
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditData(null)}>
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isLoading}>
+                  💾 Simpan
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -12,9 +12,169 @@ export const translations = {
       loginButton: "Login",
       loginFailed: "Login failed",
       invalidCredentials: "Invalid username or password",
+      accountLocked: "Account is locked after too many failed attempts. Try again after",
+      tooManyAttempts: "Too many failed login attempts from this address. Please try again later.",
       logoutConfirm: "Are you sure you want to logout?",
       admin: "Admin",
-      user: "User"
+      user: "User",
+      changePassword: "Change Password",
+      currentPassword: "Current Password",
+      newPassword: "New Password",
+      confirmPassword: "Confirm New Password",
+      passwordMismatch: "New passwords do not match",
+      passwordTooShort: "Password must be at least 6 characters",
+      passwordChanged: "Password changed successfully",
+      mustChangePassword: "You must choose a new password before continuing.",
+      saving: "Saving..."
+    },
+    sessions: {
+      mySessions: "My Sessions",
+      activeSessions: "Active Sessions",
+      activeSessionsDescription: "All signed-in sessions across users",
+      user: "User",
+      ipAddress: "IP Address",
+      device: "Device",
+      signedIn: "Signed In",
+      lastSeen: "Last Seen",
+      expires: "Expires",
+      current: "This session",
+      revoke: "Revoke",
+      logoutUser: "Log out everywhere",
+      confirmRevoke: "Revoke this session? The device will be signed out.",
+      confirmLogoutUser: "Sign this user out of all sessions?",
+      noSessions: "No active sessions",
+      unknown: "Unknown"
+    },
+    loginActivity: {
+      title: "Login Activity",
+      description: "Recent successful and failed sign-in attempts",
+      time: "Time",
+      username: "Username",
+      ipAddress: "IP Address",
+      result: "Result",
+      failuresOnly: "Failures only",
+      noAttempts: "No login attempts recorded",
+      reasons: {
+        success: "Success",
+        invalid_credentials: "Invalid credentials",
+        account_locked: "Account locked",
+        ip_blocked: "Address blocked",
+        mfa_required: "Password accepted, awaiting code",
+        invalid_mfa_code: "Invalid two-factor code"
+      }
+    },
+    mfa: {
+      title: "Two-Factor Authentication",
+      description: "Protect your account with a code from an authenticator app",
+      enabled: "Enabled",
+      disabled: "Not enabled",
+      enable: "Enable two-factor authentication",
+      disable: "Disable",
+      scanQrCode: "Scan this QR code with your authenticator app, or enter the key manually.",
+      secretKey: "Setup key",
+      code: "Verification code",
+      codePlaceholder: "6-digit code or recovery code",
+      verify: "Verify",
+      confirm: "Confirm",
+      cancel: "Cancel",
+      enterCode: "Enter the code from your authenticator app to finish signing in.",
+      backToLogin: "Back to login",
+      recoveryCodes: "Recovery codes",
+      recoveryCodesHint: "Store these codes somewhere safe. Each one can be used once if you lose access to your authenticator app.",
+      regenerateCodes: "New recovery codes",
+      done: "I have saved these codes",
+      disableConfirm: "Enter your password to disable two-factor authentication.",
+      setupRequired: "Administrators must set up two-factor authentication before continuing.",
+      requireForAdmins: "Require two-factor authentication for administrators",
+      policyDescription: "Admins without two-factor authentication must enroll at their next request",
+      reset: "Reset 2FA",
+      resetConfirm: "Remove two-factor authentication from this user? They can enroll again after signing in.",
+      resetDone: "Two-factor authentication has been reset"
+    },
+    roles: {
+      title: "Roles & Permissions",
+      description: "Choose what each role may do. Administrators always have every permission.",
+      role: "Role",
+      locationScoped: "Limit to assigned locations",
+      locationScopedHint: "Users with this role only see and change items at the locations assigned to them",
+      assignedLocations: "Assigned locations",
+      assignedLocationsHint: "Used when the user's role is limited to assigned locations",
+      noLocations: "No locations assigned",
+      allPermissions: "Every permission",
+      saved: "Permissions saved",
+      names: {
+        admin: "Administrator",
+        user: "User",
+        auditor: "Auditor",
+        branch_manager: "Branch Manager",
+        procurement: "Procurement",
+        technician: "Technician"
+      },
+      resources: {
+        dashboard: "Dashboard",
+        locations: "Locations",
+        categories: "Categories",
+        suppliers: "Suppliers",
+        inventory: "Inventory",
+        purchases: "Purchases",
+        locationHistory: "Transfers",
+        reports: "Reports",
+        audit: "Audit Log"
+      },
+      actions: {
+        view: "View",
+        create: "Create",
+        update: "Edit",
+        updateCondition: "Update condition",
+        delete: "Delete",
+        import: "Import",
+        approve: "Approve"
+      }
+    },
+    audit: {
+      details: "Details",
+      history: "History",
+      time: "Time",
+      user: "User",
+      action: "Action",
+      changes: "Changes",
+      system: "System",
+      loading: "Loading history...",
+      noEntries: "No changes recorded yet",
+      actions: {
+        create: "Created",
+        update: "Updated",
+        delete: "Deleted"
+      }
+    },
+    approvalRules: {
+      title: "Approval Rules",
+      description: "Transfers between branches that match an active rule wait for branch manager approval before they can be sent.",
+      addRule: "Add Rule",
+      editRule: "Edit Rule",
+      name: "Name",
+      fromLocation: "From Location",
+      toLocation: "To Location",
+      anyLocation: "Any location",
+      minItemValue: "Minimum Item Value",
+      anyValue: "Any value",
+      approver: "Approver",
+      active: "Active",
+      inactive: "Inactive",
+      status: "Status",
+      actions: "Actions",
+      save: "Save",
+      cancel: "Cancel",
+      edit: "Edit",
+      delete: "Delete",
+      confirmDelete: "Are you sure you want to delete this approval rule?",
+      noRules: "No approval rules yet. Transfers do not need approval.",
+      loading: "Loading approval rules...",
+      approvers: {
+        source: "Source branch manager",
+        destination: "Destination branch manager",
+        both: "Both branch managers"
+      }
     },
     navigation: {
       dashboard: "Dashboard",
@@ -22,6 +182,7 @@ export const translations = {
       purchases: "Purchases", 
       locations: "Locations",
       locationHistory: "Location History",
+      manifests: "Manifests",
       reports: "Reports",
       settings: "Settings"
     },
@@ -44,6 +205,7 @@ export const translations = {
       editItem: "Edit Item",
       deleteItem: "Delete Item",
       batchImport: "Batch Import",
+      allOrNothing: "Import nothing if any row fails",
       itemCode: "Item Code",
       itemName: "Item Name",
       description: "Description",
@@ -51,6 +213,7 @@ export const translations = {
       location: "Location",
       condition: "Condition",
       quantity: "Quantity",
+      stockByLocation: "Stock by Location",
       purchasePrice: "Purchase Price",
       purchaseDate: "Purchase Date",
       actions: "Actions",
@@ -129,6 +292,8 @@ export const translations = {
       noHistory: "No transfer history found",
       loading: "Loading location history...",
       statuses: {
+        pending_approval: "Awaiting Approval",
+        rejected: "Rejected",
         pending: "Pending",
         in_transit: "In Transit",
         completed: "Completed",
@@ -183,8 +348,35 @@ export const translations = {
       confirmDelete: "Are you sure you want to delete this item?",
       loading: "Loading data..."
     },
+    handover: {
+      title: "Handover Record",
+      print: "Print BAST",
+      documentNumber: "Document No.",
+      date: "Date",
+      from: "From",
+      to: "To",
+      courier: "Courier",
+      trackingNumber: "Tracking No.",
+      reason: "Reason",
+      notes: "Notes",
+      statement: "The items listed below have been handed over by the sender and received by the receiver in the condition stated.",
+      itemCode: "Item Code",
+      itemName: "Item Name",
+      condition: "Condition",
+      quantity: "Qty",
+      receipt: "Receipt",
+      sender: "Handed over by",
+      receiver: "Received by",
+      signature: "Signature & name",
+      receiptStatuses: {
+        received: "Received",
+        damaged: "Damaged",
+        missing: "Missing"
+      }
+    },
     common: {
       search: "Search",
+      back: "Back",
       filter: "Filter",
       export: "Export",
       import: "Import",
@@ -201,6 +393,114 @@ export const translations = {
       createdAt: "Created At",
       updatedAt: "Updated At"
     },
+    itemDetail: {
+      timeline: "Timeline",
+      event: "Event",
+      currentCustodian: "Current Custodian",
+      noCustodian: "Not handed over to anyone",
+      totalCost: "Total Cost of Ownership",
+      loading: "Loading item...",
+      notFound: "Item not found",
+      noEvents: "Nothing recorded yet",
+      events: {
+        created: "Recorded",
+        purchase: "Purchased",
+        transfer: "Transferred",
+        condition_change: "Condition changed",
+        custodian_change: "Handed over"
+      }
+    },
+    globalSearch: {
+      placeholder: "Search (Ctrl+K)",
+      noResults: "No matches",
+      types: {
+        inventory_item: "Item",
+        purchase: "Purchase",
+        supplier: "Supplier",
+        location: "Location"
+      }
+    },
+    importer: {
+      file: "Spreadsheet (CSV or XLSX)",
+      pastePlaceholder: "Or paste rows copied from a spreadsheet, with the column headers on the first line",
+      usePasted: "Use pasted rows",
+      noRows: "The spreadsheet has no data rows below its header row",
+      unreadable: "The file could not be read",
+      template: "Saved mapping",
+      templateName: "Mapping name",
+      saveTemplate: "Save mapping",
+      deleteTemplate: "Delete mapping",
+      confirmDeleteTemplate: "Delete this saved mapping?",
+      saveTemplateFailed: "Failed to save the mapping",
+      field: "Field",
+      column: "Column",
+      sample: "First row",
+      notMapped: "(not imported)",
+      preview: "Preview",
+      failed: "Import failed",
+      close: "Close",
+      rowsReady: "rows ready to import",
+      rowsImported: "rows imported",
+      nothingWillImport: "nothing will be imported until every row is fixed",
+      nothingImported: "rolled back, nothing was imported",
+      mode: "Mode",
+      modes: {
+        insert: "Add new items only",
+        update: "Update existing items only",
+        upsert: "Add new and update existing items",
+        sync: "Add and update, and flag items missing from the file"
+      },
+      missing: "In inventory at these locations but not in the file",
+      missingCount: "Missing",
+      changed: "Changed",
+      row: "Row",
+      history: "Import History",
+      noJobs: "No imports yet",
+      fileName: "File",
+      showRows: "Show rows",
+      hideRows: "Hide rows",
+      unknownReferences: "Unknown categories and locations",
+      unknownActions: {
+        reject: "Reject the row",
+        map: "Match to existing records",
+        create: "Create them"
+      },
+      confirmMatches: "Confirm matches.",
+      confirmMatchesHint: "These names match no existing record. Pick the record each one means, then preview again; rows with unmatched names are rejected.",
+      acceptSuggestions: "Use closest matches",
+      kind: "Type",
+      inFile: "In the file",
+      match: "Existing record",
+      noMatch: "(no match, reject rows)",
+      newCategories: "Categories created",
+      newLocations: "Locations created",
+      newCategoriesPreview: "Categories that will be created",
+      newLocationsPreview: "Locations that will be created",
+      newCategory: "New category",
+      newLocation: "New location",
+      line: "Line",
+      status: "Status",
+      notes: "Notes",
+      statuses: {
+        created: "Created",
+        updated: "Updated",
+        unchanged: "Unchanged",
+        skipped: "Skipped",
+        error: "Error"
+      }
+    },
+    list: {
+      previous: "Previous",
+      next: "Next",
+      page: "Page",
+      of: "of",
+      pageSize: "Rows per page",
+      sortHint: "Click to sort, shift-click to sort by more columns",
+      searchPlaceholder: "Item code or name",
+      allCategories: "All categories",
+      allLocations: "All locations",
+      allConditions: "All conditions"
+    },
     language: {
       english: "English",
       indonesian: "Indonesian"
@@ -219,9 +519,169 @@ export const translations = {
       loginButton: "Masuk",
       loginFailed: "Gagal masuk",
       invalidCredentials: "Nama pengguna atau kata sandi salah",
+      accountLocked: "Akun dikunci karena terlalu banyak percobaan gagal. Coba lagi setelah",
+      tooManyAttempts: "Terlalu banyak percobaan masuk gagal dari alamat ini. Silakan coba lagi nanti.",
       logoutConfirm: "Apakah Anda yakin ingin keluar?",
       admin: "Admin",
-      user: "Pengguna"
+      user: "Pengguna",
+      changePassword: "Ubah Kata Sandi",
+      currentPassword: "Kata Sandi Saat Ini",
+      newPassword: "Kata Sandi Baru",
+      confirmPassword: "Konfirmasi Kata Sandi Baru",
+      passwordMismatch: "Kata sandi baru tidak cocok",
+      passwordTooShort: "Kata sandi minimal 6 karakter",
+      passwordChanged: "Kata sandi berhasil diubah",
+      mustChangePassword: "Anda harus membuat kata sandi baru sebelum melanjutkan.",
+      saving: "Menyimpan..."
+    },
+    sessions: {
+      mySessions: "Sesi Saya",
+      activeSessions: "Sesi Aktif",
+      activeSessionsDescription: "Semua sesi yang sedang masuk dari seluruh pengguna",
+      user: "Pengguna",
+      ipAddress: "Alamat IP",
+      device: "Perangkat",
+      signedIn: "Masuk Pada",
+      lastSeen: "Terakhir Aktif",
+      expires: "Berakhir",
+      current: "Sesi ini",
+      revoke: "Cabut",
+      logoutUser: "Keluarkan dari semua sesi",
+      confirmRevoke: "Cabut sesi ini? Perangkat tersebut akan dikeluarkan.",
+      confirmLogoutUser: "Keluarkan pengguna ini dari semua sesi?",
+      noSessions: "Tidak ada sesi aktif",
+      unknown: "Tidak diketahui"
+    },
+    loginActivity: {
+      title: "Aktivitas Masuk",
+      description: "Percobaan masuk terbaru, berhasil maupun gagal",
+      time: "Waktu",
+      username: "Nama Pengguna",
+      ipAddress: "Alamat IP",
+      result: "Hasil",
+      failuresOnly: "Hanya yang gagal",
+      noAttempts: "Belum ada percobaan masuk tercatat",
+      reasons: {
+        success: "Berhasil",
+        invalid_credentials: "Kredensial salah",
+        account_locked: "Akun terkunci",
+        ip_blocked: "Alamat diblokir",
+        mfa_required: "Kata sandi diterima, menunggu kode",
+        invalid_mfa_code: "Kode dua faktor salah"
+      }
+    },
+    mfa: {
+      title: "Autentikasi Dua Faktor",
+      description: "Lindungi akun Anda dengan kode dari aplikasi autentikator",
+      enabled: "Aktif",
+      disabled: "Tidak aktif",
+      enable: "Aktifkan autentikasi dua faktor",
+      disable: "Nonaktifkan",
+      scanQrCode: "Pindai kode QR ini dengan aplikasi autentikator Anda, atau masukkan kunci secara manual.",
+      secretKey: "Kunci pengaturan",
+      code: "Kode verifikasi",
+      codePlaceholder: "Kode 6 digit atau kode pemulihan",
+      verify: "Verifikasi",
+      confirm: "Konfirmasi",
+      cancel: "Batal",
+      enterCode: "Masukkan kode dari aplikasi autentikator untuk menyelesaikan proses masuk.",
+      backToLogin: "Kembali ke halaman masuk",
+      recoveryCodes: "Kode pemulihan",
+      recoveryCodesHint: "Simpan kode ini di tempat yang aman. Setiap kode dapat digunakan sekali jika Anda kehilangan akses ke aplikasi autentikator.",
+      regenerateCodes: "Kode pemulihan baru",
+      done: "Saya sudah menyimpan kode ini",
+      disableConfirm: "Masukkan kata sandi Anda untuk menonaktifkan autentikasi dua faktor.",
+      setupRequired: "Administrator wajib mengatur autentikasi dua faktor sebelum melanjutkan.",
+      requireForAdmins: "Wajibkan autentikasi dua faktor untuk administrator",
+      policyDescription: "Admin tanpa autentikasi dua faktor harus mendaftar pada permintaan berikutnya",
+      reset: "Reset 2FA",
+      resetConfirm: "Hapus autentikasi dua faktor dari pengguna ini? Pengguna dapat mendaftar lagi setelah masuk.",
+      resetDone: "Autentikasi dua faktor telah direset"
+    },
+    roles: {
+      title: "Peran & Hak Akses",
+      description: "Tentukan apa yang boleh dilakukan setiap peran. Administrator selalu memiliki semua hak akses.",
+      role: "Peran",
+      locationScoped: "Batasi ke lokasi yang ditugaskan",
+      locationScopedHint: "Pengguna dengan peran ini hanya melihat dan mengubah barang di lokasi yang ditugaskan kepadanya",
+      assignedLocations: "Lokasi yang ditugaskan",
+      assignedLocationsHint: "Digunakan jika peran pengguna dibatasi ke lokasi yang ditugaskan",
+      noLocations: "Belum ada lokasi yang ditugaskan",
+      allPermissions: "Semua hak akses",
+      saved: "Hak akses disimpan",
+      names: {
+        admin: "Administrator",
+        user: "Pengguna",
+        auditor: "Auditor",
+        branch_manager: "Manajer Cabang",
+        procurement: "Pengadaan",
+        technician: "Teknisi"
+      },
+      resources: {
+        dashboard: "Dashboard",
+        locations: "Lokasi",
+        categories: "Kategori",
+        suppliers: "Pemasok",
+        inventory: "Inventaris",
+        purchases: "Pembelian",
+        locationHistory: "Transfer",
+        reports: "Laporan",
+        audit: "Log Audit"
+      },
+      actions: {
+        view: "Lihat",
+        create: "Tambah",
+        update: "Edit",
+        updateCondition: "Ubah kondisi",
+        delete: "Hapus",
+        import: "Impor",
+        approve: "Setujui"
+      }
+    },
+    audit: {
+      details: "Detail",
+      history: "Riwayat",
+      time: "Waktu",
+      user: "Pengguna",
+      action: "Aksi",
+      changes: "Perubahan",
+      system: "Sistem",
+      loading: "Memuat riwayat...",
+      noEntries: "Belum ada perubahan tercatat",
+      actions: {
+        create: "Dibuat",
+        update: "Diubah",
+        delete: "Dihapus"
+      }
+    },
+    approvalRules: {
+      title: "Aturan Persetujuan",
+      description: "Transfer antar cabang yang cocok dengan aturan aktif menunggu persetujuan kepala cabang sebelum dapat dikirim.",
+      addRule: "Tambah Aturan",
+      editRule: "Edit Aturan",
+      name: "Nama",
+      fromLocation: "Lokasi Asal",
+      toLocation: "Lokasi Tujuan",
+      anyLocation: "Semua lokasi",
+      minItemValue: "Nilai Barang Minimum",
+      anyValue: "Semua nilai",
+      approver: "Penyetuju",
+      active: "Aktif",
+      inactive: "Nonaktif",
+      status: "Status",
+      actions: "Aksi",
+      save: "Simpan",
+      cancel: "Batal",
+      edit: "Edit",
+      delete: "Hapus",
+      confirmDelete: "Apakah Anda yakin ingin menghapus aturan persetujuan ini?",
+      noRules: "Belum ada aturan persetujuan. Transfer tidak memerlukan persetujuan.",
+      loading: "Memuat aturan persetujuan...",
+      approvers: {
+        source: "Kepala cabang asal",
+        destination: "Kepala cabang tujuan",
+        both: "Kedua kepala cabang"
+      }
     },
     navigation: {
       dashboard: "Dashboard",
@@ -229,6 +689,7 @@ export const translations = {
       purchases: "Pembelian",
       locations: "Lokasi",
       locationHistory: "Riwayat Lokasi",
+      manifests: "Manifes",
       reports: "Laporan",
       settings: "Pengaturan"
     },
@@ -251,6 +712,7 @@ export const translations = {
       editItem: "Edit Barang",
       deleteItem: "Hapus Barang",
       batchImport: "Impor Massal",
+      allOrNothing: "Batalkan seluruh impor jika ada baris yang gagal",
       itemCode: "Kode Barang",
       itemName: "Nama Barang",
       description: "Deskripsi",
@@ -258,6 +720,7 @@ export const translations = {
       location: "Lokasi",
       condition: "Kondisi",
       quantity: "Jumlah",
+      stockByLocation: "Stok per Lokasi",
       purchasePrice: "Harga Beli",
       purchaseDate: "Tanggal Beli",
       actions: "Aksi",
@@ -336,6 +799,8 @@ export const translations = {
       noHistory: "Tidak ada riwayat transfer ditemukan",
       loading: "Memuat riwayat lokasi...",
       statuses: {
+        pending_approval: "Menunggu Persetujuan",
+        rejected: "Ditolak",
         pending: "Menunggu",
         in_transit: "Dalam Perjalanan",
         completed: "Selesai",
@@ -390,8 +855,35 @@ export const translations = {
       confirmDelete: "Apakah Anda yakin ingin menghapus item ini?",
       loading: "Memuat data..."
     },
+    handover: {
+      title: "Berita Acara Serah Terima",
+      print: "Cetak BAST",
+      documentNumber: "No. Dokumen",
+      date: "Tanggal",
+      from: "Dari",
+      to: "Ke",
+      courier: "Kurir",
+      trackingNumber: "No. Resi",
+      reason: "Alasan",
+      notes: "Catatan",
+      statement: "Barang yang tercantum di bawah ini telah diserahkan oleh pihak pengirim dan diterima oleh pihak penerima dalam kondisi sebagaimana tertulis.",
+      itemCode: "Kode Barang",
+      itemName: "Nama Barang",
+      condition: "Kondisi",
+      quantity: "Jml",
+      receipt: "Penerimaan",
+      sender: "Yang menyerahkan",
+      receiver: "Yang menerima",
+      signature: "Tanda tangan & nama",
+      receiptStatuses: {
+        received: "Diterima",
+        damaged: "Rusak",
+        missing: "Hilang"
+      }
+    },
     common: {
       search: "Cari",
+      back: "Kembali",
       filter: "Filter",
       export: "Ekspor",
       import: "Impor",
@@ -408,6 +900,114 @@ export const translations = {
       createdAt: "Dibuat Pada",
       updatedAt: "Diperbarui Pada"
     },
+    itemDetail: {
+      timeline: "Linimasa",
+      event: "Kejadian",
+      currentCustodian: "Pemegang Saat Ini",
+      noCustodian: "Belum diserahkan kepada siapa pun",
+      totalCost: "Total Biaya Kepemilikan",
+      loading: "Memuat barang...",
+      notFound: "Barang tidak ditemukan",
+      noEvents: "Belum ada catatan",
+      events: {
+        created: "Dicatat",
+        purchase: "Dibeli",
+        transfer: "Dipindahkan",
+        condition_change: "Kondisi berubah",
+        custodian_change: "Diserahterimakan"
+      }
+    },
+    globalSearch: {
+      placeholder: "Cari (Ctrl+K)",
+      noResults: "Tidak ada hasil",
+      types: {
+        inventory_item: "Barang",
+        purchase: "Pembelian",
+        supplier: "Pemasok",
+        location: "Lokasi"
+      }
+    },
+    importer: {
+      file: "Spreadsheet (CSV atau XLSX)",
+      pastePlaceholder: "Atau tempel baris yang disalin dari spreadsheet, dengan judul kolom di baris pertama",
+      usePasted: "Gunakan baris yang ditempel",
+      noRows: "Spreadsheet tidak memiliki baris data di bawah baris judul",
+      unreadable: "Berkas tidak dapat dibaca",
+      template: "Pemetaan tersimpan",
+      templateName: "Nama pemetaan",
+      saveTemplate: "Simpan pemetaan",
+      deleteTemplate: "Hapus pemetaan",
+      confirmDeleteTemplate: "Hapus pemetaan tersimpan ini?",
+      saveTemplateFailed: "Gagal menyimpan pemetaan",
+      field: "Kolom Data",
+      column: "Kolom",
+      sample: "Baris pertama",
+      notMapped: "(tidak diimpor)",
+      preview: "Pratinjau",
+      failed: "Impor gagal",
+      close: "Tutup",
+      rowsReady: "baris siap diimpor",
+      rowsImported: "baris diimpor",
+      nothingWillImport: "tidak ada yang diimpor sampai semua baris diperbaiki",
+      nothingImported: "dibatalkan, tidak ada yang diimpor",
+      mode: "Mode",
+      modes: {
+        insert: "Hanya tambah barang baru",
+        update: "Hanya perbarui barang yang ada",
+        upsert: "Tambah barang baru dan perbarui yang ada",
+        sync: "Tambah dan perbarui, serta tandai barang yang tidak ada di berkas"
+      },
+      missing: "Ada di inventaris lokasi ini tetapi tidak ada di berkas",
+      missingCount: "Tidak ada",
+      changed: "Diubah",
+      row: "Baris",
+      history: "Riwayat Impor",
+      noJobs: "Belum ada impor",
+      fileName: "Berkas",
+      showRows: "Lihat baris",
+      hideRows: "Sembunyikan baris",
+      unknownReferences: "Kategori dan lokasi yang tidak dikenal",
+      unknownActions: {
+        reject: "Tolak barisnya",
+        map: "Cocokkan dengan data yang ada",
+        create: "Buat baru"
+      },
+      confirmMatches: "Konfirmasi pencocokan.",
+      confirmMatchesHint: "Nama-nama ini tidak cocok dengan data mana pun. Pilih data yang dimaksud, lalu pratinjau lagi; baris dengan nama yang tidak dicocokkan ditolak.",
+      acceptSuggestions: "Gunakan yang paling mirip",
+      kind: "Jenis",
+      inFile: "Di berkas",
+      match: "Data yang ada",
+      noMatch: "(tidak dicocokkan, tolak baris)",
+      newCategories: "Kategori yang dibuat",
+      newLocations: "Lokasi yang dibuat",
+      newCategoriesPreview: "Kategori yang akan dibuat",
+      newLocationsPreview: "Lokasi yang akan dibuat",
+      newCategory: "Kategori baru",
+      newLocation: "Lokasi baru",
+      line: "Baris",
+      status: "Status",
+      notes: "Catatan",
+      statuses: {
+        created: "Dibuat",
+        updated: "Diperbarui",
+        unchanged: "Tidak berubah",
+        skipped: "Dilewati",
+        error: "Galat"
+      }
+    },
+    list: {
+      previous: "Sebelumnya",
+      next: "Berikutnya",
+      page: "Halaman",
+      of: "dari",
+      pageSize: "Baris per halaman",
+      sortHint: "Klik untuk mengurutkan, shift-klik untuk mengurutkan dengan kolom tambahan",
+      searchPlaceholder: "Kode atau nama barang",
+      allCategories: "Semua kategori",
+      allLocations: "Semua lokasi",
+      allConditions: "Semua kondisi"
+    },
     language: {
       english: "Inggris",
       indonesian: "Indonesia"
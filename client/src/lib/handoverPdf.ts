@@ -0,0 +1,195 @@
+import { createPdf, A4_WIDTH, A4_HEIGHT, type PdfDocument } from './pdf';
+import { translations } from '@/components/i18n/translations';
+import type { HandoverDocument } from '../../../server/src/schema';
+
+type Language = keyof typeof translations;
+type Translation = (typeof translations)[Language];
+
+const MARGIN = 40;
+const CONTENT_WIDTH = A4_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 18;
+const FOOTER_SPACE = 60;
+
+// The document is always printed in both languages, Indonesian first
+const LANGUAGES: Language[] = ['id', 'en'];
+
+const bilingual = (pick: (translation: Translation) => string) =>
+  LANGUAGES.map(language => pick(translations[language])).join(' / ');
+
+const describeLocation = (location: HandoverDocument['to_location'] | null) =>
+  location ? `${location.name} (${location.branch_code})` : '-';
+
+interface Column {
+  title: [string, string];
+  width: number;
+  value: (item: HandoverDocument['items'][number], index: number) => string;
+}
+
+const buildColumns = (document: HandoverDocument): Column[] => {
+  const columns: Column[] = [
+    { title: ['No.', ''], width: 30, value: (_, index) => String(index + 1) },
+    {
+      title: [translations.id.handover.itemCode, translations.en.handover.itemCode],
+      width: 90,
+      value: item => item.item_code
+    },
+    {
+      title: [translations.id.handover.itemName, translations.en.handover.itemName],
+      width: 0,
+      value: item => item.name
+    },
+    {
+      title: [translations.id.handover.condition, translations.en.handover.condition],
+      width: 90,
+      value: item => bilingual(translation => translation.inventory.conditions[item.condition])
+    },
+    {
+      title: [translations.id.handover.quantity, translations.en.handover.quantity],
+      width: 35,
+      value: item => String(item.quantity)
+    }
+  ];
+
+  if (document.items.some(item => item.receipt_status !== null)) {
+    columns.push({
+      title: [translations.id.handover.receipt, translations.en.handover.receipt],
+      width: 90,
+      value: item => item.receipt_status
+        ? bilingual(translation => translation.handover.receiptStatuses[item.receipt_status!])
+        : '-'
+    });
+  }
+
+  // The name column takes whatever width is left
+  const fixed = columns.reduce((total, column) => total + column.width, 0);
+  columns[2].width = CONTENT_WIDTH - fixed;
+  return columns;
+};
+
+const drawTableHeader = (pdf: PdfDocument, columns: Column[], y: number) => {
+  pdf.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT * 1.6);
+  let x = MARGIN;
+  for (const column of columns) {
+    pdf.text(x + 4, y + 11, column.title[0], { size: 8, bold: true });
+    pdf.text(x + 4, y + 22, column.title[1], { size: 7 });
+    x += column.width;
+    if (x < MARGIN + CONTENT_WIDTH) {
+      pdf.line(x, y, x, y + ROW_HEIGHT * 1.6);
+    }
+  }
+  return y + ROW_HEIGHT * 1.6;
+};
+
+const fitText = (pdf: PdfDocument, text: string, size: number, width: number) => {
+  if (pdf.textWidth(text, size) <= width) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 1 && pdf.textWidth(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+const drawSignatureBlock = (pdf: PdfDocument, x: number, y: number, title: string, name: string | null) => {
+  const width = CONTENT_WIDTH / 2 - 20;
+  pdf.text(x + width / 2, y, title, { size: 9, bold: true, align: 'center' });
+  pdf.line(x + 20, y + 70, x + width - 20, y + 70);
+  pdf.text(x + width / 2, y + 84, name ?? '', { size: 9, align: 'center' });
+  pdf.text(x + width / 2, y + 96, bilingual(translation => translation.handover.signature), { size: 7, align: 'center' });
+};
+
+export function buildHandoverPdf(document: HandoverDocument): Blob {
+  const pdf = createPdf();
+  pdf.addPage();
+
+  pdf.text(A4_WIDTH / 2, MARGIN + 10, translations.id.handover.title.toUpperCase(), { size: 14, bold: true, align: 'center' });
+  pdf.text(A4_WIDTH / 2, MARGIN + 26, translations.en.handover.title, { size: 10, align: 'center' });
+  pdf.text(A4_WIDTH / 2, MARGIN + 42, `${bilingual(translation => translation.handover.documentNumber)}: ${document.document_number}`, {
+    size: 10,
+    bold: true,
+    align: 'center'
+  });
+  pdf.line(MARGIN, MARGIN + 52, A4_WIDTH - MARGIN, MARGIN + 52, 1);
+
+  const details: [string, string][] = [
+    [bilingual(translation => translation.handover.date), document.transfer_date.toLocaleDateString('en-GB')],
+    [bilingual(translation => translation.handover.from), describeLocation(document.from_location)],
+    [bilingual(translation => translation.handover.to), describeLocation(document.to_location)]
+  ];
+  if (document.courier) {
+    details.push([bilingual(translation => translation.handover.courier), document.courier]);
+  }
+  if (document.tracking_number) {
+    details.push([bilingual(translation => translation.handover.trackingNumber), document.tracking_number]);
+  }
+  if (document.reason) {
+    details.push([bilingual(translation => translation.handover.reason), document.reason]);
+  }
+
+  let y = MARGIN + 72;
+  for (const [label, value] of details) {
+    pdf.text(MARGIN, y, label, { size: 9 });
+    pdf.text(MARGIN + 130, y, `: ${value}`, { size: 9 });
+    y += 14;
+  }
+
+  y += 6;
+  for (const language of LANGUAGES) {
+    const size = language === 'id' ? 9 : 8;
+    for (const line of pdf.wrapText(translations[language].handover.statement, size, CONTENT_WIDTH)) {
+      pdf.text(MARGIN, y, line, { size });
+      y += size + 3;
+    }
+  }
+
+  const columns = buildColumns(document);
+  y = drawTableHeader(pdf, columns, y + 8);
+
+  document.items.forEach((item, index) => {
+    if (y + ROW_HEIGHT > A4_HEIGHT - FOOTER_SPACE) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, columns, MARGIN);
+    }
+
+    pdf.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT);
+    let x = MARGIN;
+    for (const column of columns) {
+      pdf.text(x + 4, y + 12, fitText(pdf, column.value(item, index), 8, column.width - 8), { size: 8 });
+      x += column.width;
+      if (x < MARGIN + CONTENT_WIDTH) {
+        pdf.line(x, y, x, y + ROW_HEIGHT);
+      }
+    }
+    y += ROW_HEIGHT;
+  });
+
+  y += 16;
+  if (document.notes) {
+    const notes = pdf.wrapText(`${bilingual(translation => translation.handover.notes)}: ${document.notes}`, 9, CONTENT_WIDTH);
+    for (const line of notes) {
+      pdf.text(MARGIN, y, line, { size: 9 });
+      y += 12;
+    }
+    y += 8;
+  }
+
+  // Keep both signature blocks together on one page
+  if (y + 110 > A4_HEIGHT - MARGIN) {
+    pdf.addPage();
+    y = MARGIN + 10;
+  }
+  drawSignatureBlock(pdf, MARGIN, y, bilingual(translation => translation.handover.sender), document.sender);
+  drawSignatureBlock(pdf, MARGIN + CONTENT_WIDTH / 2 + 20, y, bilingual(translation => translation.handover.receiver), document.receiver);
+
+  return pdf.toBlob();
+}
+
+export function downloadHandoverPdf(document: HandoverDocument) {
+  const url = URL.createObjectURL(buildHandoverPdf(document));
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = `BAST-${document.document_number.replace(/\//g, '-')}.pdf`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import { z } from 'zod';
+
+// Paging, sorting and filters of one list, kept in the URL query string under `<prefix>.`
+// so that a filtered view survives a reload and can be shared as a link.
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey<F extends string> {
+  field: F;
+  direction: SortDirection;
+}
+
+export interface ListQuery<F extends string> {
+  page: number;
+  pageSize: number;
+  sort: SortKey<F>[];
+  filters: Record<string, string>;
+}
+
+export const PAGE_SIZES = [25, 50, 100, 200];
+const DEFAULT_PAGE_SIZE = 50;
+
+export const readListQuery = <F extends string>(prefix: string, sortFields: readonly F[]): ListQuery<F> => {
+  const params = new URLSearchParams(window.location.search);
+  const query: ListQuery<F> = { page: 1, pageSize: DEFAULT_PAGE_SIZE, sort: [], filters: {} };
+
+  params.forEach((value, key) => {
+    if (!key.startsWith(`${prefix}.`)) {
+      return;
+    }
+    const name = key.slice(prefix.length + 1);
+    if (name === 'page') {
+      query.page = Math.max(1, parseInt(value) || 1);
+    } else if (name === 'size') {
+      query.pageSize = PAGE_SIZES.includes(parseInt(value)) ? parseInt(value) : DEFAULT_PAGE_SIZE;
+    } else if (name === 'sort') {
+      // e.g. quantity:desc,name:asc
+      query.sort = value.split(',')
+        .map(part => part.split(':'))
+        .filter(([field, direction]) => sortFields.includes(field as F) && (direction === 'asc' || direction === 'desc'))
+        .map(([field, direction]) => ({ field: field as F, direction: direction as SortDirection }));
+    } else if (value !== '') {
+      query.filters[name] = value;
+    }
+  });
+
+  return query;
+};
+
+export const writeListQuery = <F extends string>(prefix: string, query: ListQuery<F>) => {
+  const params = new URLSearchParams(window.location.search);
+  for (const key of [...params.keys()]) {
+    if (key.startsWith(`${prefix}.`)) {
+      params.delete(key);
+    }
+  }
+
+  if (query.page > 1) params.set(`${prefix}.page`, String(query.page));
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) params.set(`${prefix}.size`, String(query.pageSize));
+  if (query.sort.length > 0) {
+    params.set(`${prefix}.sort`, query.sort.map(key => `${key.field}:${key.direction}`).join(','));
+  }
+  for (const [name, value] of Object.entries(query.filters)) {
+    if (value !== '') params.set(`${prefix}.${name}`, value);
+  }
+
+  const search = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+};
+
+// A plain click sorts by the column alone; with `additive` the column is added as a tie-breaker.
+// Clicking a sorted column flips it, and a third click on a descending column removes it.
+export const toggleSortKey = <F extends string>(sort: SortKey<F>[], field: F, additive: boolean): SortKey<F>[] => {
+  const current = sort.find(key => key.field === field);
+  const others = additive ? sort.filter(key => key.field !== field) : [];
+  if (!current) {
+    return [...others, { field, direction: 'asc' }];
+  }
+  if (current.direction === 'asc') {
+    return additive
+      ? sort.map(key => key.field === field ? { field, direction: 'desc' as const } : key)
+      : [{ field, direction: 'desc' }];
+  }
+  return others;
+};
+
+export function useListQuery<F extends string>(prefix: string, sortFields: readonly F[]) {
+  const [query, setQuery] = useState<ListQuery<F>>(() => readListQuery(prefix, sortFields));
+
+  useEffect(() => {
+    writeListQuery(prefix, query);
+  }, [prefix, query]);
+
+  // Changing a filter starts again from the first page
+  const setFilter = useCallback((name: string, value: string) => {
+    setQuery(prev => ({ ...prev, page: 1, filters: { ...prev.filters, [name]: value } }));
+  }, []);
+
+  const setPage = useCallback((page: number) => {
+    setQuery(prev => ({ ...prev, page }));
+  }, []);
+
+  const setPageSize = useCallback((pageSize: number) => {
+    setQuery(prev => ({ ...prev, page: 1, pageSize }));
+  }, []);
+
+  const toggleSort = useCallback((field: F, additive: boolean) => {
+    setQuery(prev => ({ ...prev, page: 1, sort: toggleSortKey(prev.sort, field, additive) }));
+  }, []);
+
+  return { query, setFilter, setPage, setPageSize, toggleSort };
+}
+
+// Filter values come from the URL as strings; these turn them into typed query input
+export const numberFilter = (value: string | undefined) => {
+  const parsed = value ? parseInt(value) : NaN;
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+export const dateFilter = (value: string | undefined) => value ? new Date(value) : undefined;
+
+// Filters of a zod input schema read back from the URL; values the schema rejects are dropped
+export const typedFilters = <S extends z.AnyZodObject>(schema: S, filters: Record<string, string>): Partial<z.infer<S>> => {
+  const values: Record<string, unknown> = {};
+  for (const [field, type] of Object.entries(schema.shape as z.ZodRawShape)) {
+    if (filters[field] === undefined) {
+      continue;
+    }
+    const inner = type instanceof z.ZodOptional ? type.unwrap() : type;
+    const parsed = type.safeParse(inner instanceof z.ZodNumber ? Number(filters[field]) : filters[field]);
+    if (parsed.success) {
+      values[field] = parsed.data;
+    }
+  }
+  return values as Partial<z.infer<S>>;
+};
+
+// The reverse of typedFilters: dates are written as yyyy-mm-dd
+export const filterStrings = (values: object): Record<string, string> => Object.fromEntries(
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([field, value]) => [field, value instanceof Date ? value.toISOString().split('T')[0] : String(value)])
+);
@@ -0,0 +1,102 @@
+import { encodeText, formatNumber, textWidth, wrapText } from '../../../server/src/helpers/pdf_text';
+
+// Just enough of a PDF writer for printable forms: A4 pages, the two built-in Helvetica
+// fonts, text and lines. Coordinates are in points measured from the top-left corner.
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfDocument {
+  addPage: () => void;
+  text: (x: number, y: number, text: string, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, width?: number) => void;
+  rect: (x: number, y: number, width: number, height: number) => void;
+  textWidth: (text: string, size: number, bold?: boolean) => number;
+  wrapText: (text: string, size: number, maxWidth: number, bold?: boolean) => string[];
+  toBlob: () => Blob;
+}
+
+export function createPdf(): PdfDocument {
+  const pages: string[][] = [];
+
+  const current = () => {
+    if (pages.length === 0) {
+      pages.push([]);
+    }
+    return pages[pages.length - 1];
+  };
+
+  const text = (x: number, y: number, value: string, options: PdfTextOptions = {}) => {
+    const size = options.size ?? 10;
+    const width = textWidth(value, size, options.bold);
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+
+    current().push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(left)} ${formatNumber(A4_HEIGHT - y)} Td (${encodeText(value)}) Tj ET`
+    );
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, width = 0.5) => {
+    current().push(
+      `${width} w ${formatNumber(x1)} ${formatNumber(A4_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(A4_HEIGHT - y2)} l S`
+    );
+  };
+
+  const rect = (x: number, y: number, width: number, height: number) => {
+    current().push(
+      `0.5 w ${formatNumber(x)} ${formatNumber(A4_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re S`
+    );
+  };
+
+  // Everything written is ASCII, so string lengths double as byte offsets for the xref table
+  const toBlob = () => {
+    const contents = (pages.length === 0 ? [[]] : pages).map(commands => commands.join('\n'));
+    const firstPage = 5;
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${contents.map((_, index) => `${firstPage + index * 2} 0 R`).join(' ')}] /Count ${contents.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    ];
+
+    contents.forEach((content, index) => {
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPage + index * 2 + 1} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+    return new Blob([output], { type: 'application/pdf' });
+  };
+
+  return {
+    addPage: () => {
+      pages.push([]);
+    },
+    text,
+    line,
+    rect,
+    textWidth,
+    wrapText,
+    toBlob
+  };
+}
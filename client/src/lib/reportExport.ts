@@ -0,0 +1,14 @@
+import { trpc } from '@/utils/trpc';
+import type { ReportExportInput } from '../../../server/src/schema';
+
+// Report files stream from the server outside tRPC. The browser downloads them itself, so a
+// large file goes straight to disk; the one-time ticket stands in for the session header a
+// download cannot send, and the file name comes from the response.
+export async function downloadReportExport(input: ReportExportInput) {
+  const { ticket } = await trpc.reports.prepareExport.mutate(input);
+
+  const link = window.document.createElement('a');
+  link.href = `/api/export?ticket=${encodeURIComponent(ticket)}`;
+  link.download = '';
+  link.click();
+}
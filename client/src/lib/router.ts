@@ -0,0 +1,87 @@
+import { useSyncExternalStore } from 'react';
+
+// Minimal history-based routing: the current URL is an external store that components
+// subscribe to, and navigate() changes it without reloading the page.
+
+export interface RouteLocation {
+  pathname: string;
+  search: string;
+  // Differs between history entries, so a view can be remounted when the same URL is opened again
+  key: string;
+}
+
+interface HistoryState {
+  key: string;
+  // In-app pages behind this one in the history
+  depth: number;
+}
+
+const historyState = () => window.history.state as HistoryState | null;
+
+const readLocation = (): RouteLocation => ({
+  pathname: window.location.pathname,
+  search: window.location.search,
+  key: historyState()?.key ?? 'initial'
+});
+
+let current = readLocation();
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  current = readLocation();
+  listeners.forEach(listener => listener());
+};
+
+// Back and forward buttons
+window.addEventListener('popstate', notify);
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useLocation = (): RouteLocation => useSyncExternalStore(subscribe, () => current);
+
+export const navigate = (to: string, options: { replace?: boolean } = {}) => {
+  const depth = historyState()?.depth ?? 0;
+  const state: HistoryState = {
+    key: Math.random().toString(36).slice(2),
+    depth: options.replace ? depth : depth + 1
+  };
+  if (options.replace) {
+    window.history.replaceState(state, '', to);
+  } else {
+    window.history.pushState(state, '', to);
+  }
+  notify();
+};
+
+// Parameters of a pattern such as `/inventory/:id`, or null when the path does not match it
+export const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < patternParts.length; index++) {
+    if (patternParts[index].startsWith(':')) {
+      params[patternParts[index].slice(1)] = decodeURIComponent(pathParts[index]);
+    } else if (patternParts[index] !== pathParts[index]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+// Back to the page the user came from, or to `fallback` when the page was opened directly
+export const goBack = (fallback: string) => {
+  if ((historyState()?.depth ?? 0) > 0) {
+    window.history.back();
+  } else {
+    navigate(fallback);
+  }
+};
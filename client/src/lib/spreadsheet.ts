@@ -0,0 +1,222 @@
+// Just enough spreadsheet reading for imports: delimited text (CSV, semicolon or tab separated)
+// and the first worksheet of an .xlsx workbook. Every cell comes back as text; dates stored as
+// Excel serial numbers are written as yyyy-mm-dd.
+
+export type SheetRows = string[][];
+
+// The delimiter used most often on the first line wins
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const candidates = [',', ';', '\t'];
+  const counts = candidates.map(candidate => firstLine.split(candidate).length - 1);
+  const best = Math.max(...counts);
+  return best > 0 ? candidates[counts.indexOf(best)] : ',';
+};
+
+export const parseDelimited = (input: string): SheetRows => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Zip archives list their files in a central directory at the end
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> => {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error('Not a valid .xlsx file');
+  }
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, () => Promise<string>>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let index = 0; index < count; index++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.set(name, async () => {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) {
+        return decoder.decode(data);
+      }
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// Text of a shared or inline string, leaving out phonetic guides
+const stringText = (element: Element) => Array.from(element.getElementsByTagName('t'))
+  .filter(t => t.parentElement?.tagName !== 'rPh')
+  .map(t => t.textContent ?? '')
+  .join('');
+
+// Built-in number formats that show dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+const isDateFormatCode = (code: string) => {
+  const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+  return /[dy]/i.test(bare) || (/m/i.test(bare) && !/[hs]/i.test(bare));
+};
+
+// Indexes of the cell styles that format their number as a date
+const readDateStyles = (styles: Document | null): Set<number> => {
+  const dateStyles = new Set<number>();
+  if (styles === null) {
+    return dateStyles;
+  }
+
+  const customDateFormats = new Set(Array.from(styles.getElementsByTagName('numFmt'))
+    .filter(format => isDateFormatCode(format.getAttribute('formatCode') ?? ''))
+    .map(format => Number(format.getAttribute('numFmtId'))));
+
+  const cellFormats = styles.getElementsByTagName('cellXfs')[0];
+  Array.from(cellFormats?.getElementsByTagName('xf') ?? []).forEach((format, index) => {
+    const formatId = Number(format.getAttribute('numFmtId') ?? 0);
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+};
+
+// Days since 1899-12-30, which absorbs Excel's phantom 29 February 1900
+const serialToDate = (serial: number) => new Date(Math.round((serial - 25569) * 86400000)).toISOString().slice(0, 10);
+
+const columnIndex = (reference: string) => {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) {
+    index = index * 26 + char.toUpperCase().charCodeAt(0) - 64;
+  }
+  return index - 1;
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SheetRows> => {
+  const entries = await readZipEntries(buffer);
+  const readXml = async (path: string) => {
+    const read = entries.get(path);
+    return read ? parseXml(await read()) : null;
+  };
+
+  // The first sheet in workbook order, which need not be sheet1.xml
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const [workbook, relationships] = await Promise.all([readXml('xl/workbook.xml'), readXml('xl/_rels/workbook.xml.rels')]);
+  const relationshipId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = Array.from(relationships?.getElementsByTagName('Relationship') ?? [])
+    .find(relationship => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+  if (target) {
+    sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const [sheet, sharedStringsXml, styles] = await Promise.all([
+    readXml(sheetPath), readXml('xl/sharedStrings.xml'), readXml('xl/styles.xml')
+  ]);
+  if (sheet === null) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const sharedStrings = Array.from(sharedStringsXml?.getElementsByTagName('si') ?? []).map(stringText);
+  const dateStyles = readDateStyles(styles);
+  const rows: SheetRows = [];
+
+  for (const rowElement of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach(cellElement => {
+      const reference = cellElement.getAttribute('r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = cellElement.getAttribute('t');
+      const value = cellElement.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        const inline = cellElement.getElementsByTagName('is')[0];
+        text = inline ? stringText(inline) : '';
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (type === 'e') {
+        text = '';
+      } else if (type !== 'str' && value !== '' && dateStyles.has(Number(cellElement.getAttribute('s') ?? 0))) {
+        text = serialToDate(Number(value));
+      } else {
+        text = value;
+      }
+
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = text;
+    });
+
+    // Rows carry their own number, and empty ones are left out of the file
+    const rowNumber = Number(rowElement.getAttribute('r') ?? rows.length + 1);
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const readSpreadsheet = async (file: File): Promise<SheetRows> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  return parseDelimited(await file.text());
+};
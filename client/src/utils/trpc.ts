@@ -1,10 +1,43 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, loggerLink, TRPCClientError, type TRPCLink } from '@trpc/client';
+import { observable } from '@trpc/server/observable';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// Called whenever the server rejects a request with UNAUTHORIZED (expired or revoked session)
+let unauthorizedHandler: (() => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+const unauthorizedLink: TRPCLink<AppRouter> = () => {
+  return ({ next, op }) => {
+    return observable((observer) => {
+      return next(op).subscribe({
+        next: (value) => observer.next(value),
+        error: (error) => {
+          if (error instanceof TRPCClientError && error.data?.code === 'UNAUTHORIZED') {
+            unauthorizedHandler?.();
+          }
+          observer.error(error);
+        },
+        complete: () => observer.complete(),
+      });
+    });
+  };
+};
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    unauthorizedLink,
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers() {
+        const sessionId = localStorage.getItem('sessionId');
+        return sessionId ? { Authorization: `Bearer ${sessionId}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -1,5 +1,6 @@
 import 'dotenv/config';
-import { drizzle } from 'drizzle-orm/node-postgres';
+import { drizzle, type NodePgQueryResultHKT } from 'drizzle-orm/node-postgres';
+import { type PgDatabase } from 'drizzle-orm/pg-core';
 import { Pool } from 'pg';
 import * as schema from './schema';
 
@@ -9,3 +10,8 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Either the pool or an open transaction. Handlers that write several rows run them in
+// `executor.transaction(...)` so a caller can fold them into its own unit of work; nested calls
+// become savepoints.
+export type DbExecutor = PgDatabase<NodePgQueryResultHKT, typeof schema>;
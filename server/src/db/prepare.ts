@@ -0,0 +1,57 @@
+import { asc, eq, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from './index';
+import { locationsTable } from './schema';
+import { newBranchCode } from '../handlers/locations';
+
+const tableExists = async (executor: DbExecutor, name: string): Promise<boolean> => {
+  const table = await executor.execute<{ name: string | null }>(sql`select to_regclass(${`public.${name}`})::text as name`);
+  return Boolean(table.rows[0]?.name);
+};
+
+// Locations could share a branch code before codes became unique. Every location after the
+// oldest one holding a code gets a new code, numbered the way imports number new locations, so
+// the constraint can be added.
+const renumberSharedBranchCodes = async (executor: DbExecutor): Promise<void> => {
+  if (!await tableExists(executor, 'locations')) {
+    return;
+  }
+
+  await executor.transaction(async (tx) => {
+    const locations = await tx.select({ id: locationsTable.id, name: locationsTable.name, branch_code: locationsTable.branch_code })
+      .from(locationsTable)
+      .orderBy(asc(locationsTable.id))
+      .for('update')
+      .execute();
+
+    const usedCodes = new Set(locations.map(location => location.branch_code));
+    const claimed = new Set<string>();
+
+    for (const location of locations) {
+      if (!claimed.has(location.branch_code)) {
+        claimed.add(location.branch_code);
+        continue;
+      }
+
+      const branchCode = newBranchCode(location.name, usedCodes);
+      usedCodes.add(branchCode);
+      await tx.update(locationsTable)
+        .set({ branch_code: branchCode, updated_at: new Date() })
+        .where(eq(locationsTable.id, location.id))
+        .execute();
+      console.log(`Location ${location.id} shared branch code "${location.branch_code}"; renumbered to "${branchCode}"`);
+    }
+  });
+};
+
+// Runs before `drizzle-kit push` applies the schema: sets up what the schema needs but cannot
+// declare itself, and fixes data the new schema would reject. Every step is safe to repeat.
+export const prepareDatabase = async (executor: DbExecutor = db): Promise<void> => {
+  // Trigram operators behind the search text indexes
+  await executor.execute(sql`create extension if not exists pg_trgm`);
+  await renumberSharedBranchCodes(executor);
+};
+
+if (import.meta.main) {
+  await prepareDatabase();
+  process.exit(0);
+}
@@ -1,10 +1,32 @@
-import { serial, text, pgTable, timestamp, numeric, integer, pgEnum, boolean } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, numeric, integer, pgEnum, boolean, uuid, index, primaryKey, unique, jsonb, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const itemConditionEnum = pgEnum('item_condition', ['excellent', 'good', 'fair', 'poor', 'damaged']);
-export const transferStatusEnum = pgEnum('transfer_status', ['pending', 'in_transit', 'completed', 'cancelled']);
-export const userRoleEnum = pgEnum('user_role', ['admin', 'user']);
+export const transferStatusEnum = pgEnum('transfer_status', ['pending_approval', 'rejected', 'pending', 'in_transit', 'completed', 'cancelled']);
+export const approvalSideEnum = pgEnum('approval_side', ['source', 'destination']);
+export const approvalDecisionEnum = pgEnum('approval_decision', ['approved', 'rejected']);
+export const approvalScopeEnum = pgEnum('approval_scope', ['source', 'destination', 'both']);
+export const manifestStatusEnum = pgEnum('manifest_status', ['pending', 'in_transit', 'received', 'partially_received', 'cancelled']);
+export const receiptStatusEnum = pgEnum('receipt_status', ['received', 'damaged', 'missing']);
+export const batchImportModeEnum = pgEnum('batch_import_mode', ['insert', 'update', 'upsert', 'sync']);
+export const userRoleEnum = pgEnum('user_role', ['admin', 'user', 'auditor', 'branch_manager', 'procurement', 'technician']);
+
+// Text behind the global search indexes. Queries must build the same expressions for Postgres
+// to use the indexes.
+export const searchText = (...columns: AnyPgColumn[]) =>
+  sql`(${sql.join(columns.map(column => sql`coalesce(${column}, '')`), sql` || ' ' || `)})`;
+export const searchDocument = (...columns: AnyPgColumn[]) => sql`to_tsvector('simple', ${searchText(...columns)})`;
+// Trigram index for substring matches the word index splits apart, like the "-001" of "LT-001";
+// needs the pg_trgm extension, which src/db/prepare.ts installs
+const searchTextIndex = (name: string, ...columns: AnyPgColumn[]) =>
+  index(name).using('gin', sql`${searchText(...columns)} gin_trgm_ops`);
+export const loginAttemptReasonEnum = pgEnum('login_attempt_reason', ['success', 'invalid_credentials', 'account_locked', 'ip_blocked', 'mfa_required', 'invalid_mfa_code']);
+export const auditActionEnum = pgEnum('audit_action', ['create', 'update', 'delete']);
+export const auditEntityTypeEnum = pgEnum('audit_entity_type', [
+  'inventory_item', 'location', 'category', 'supplier', 'purchase', 'location_history',
+  'user', 'role', 'settings', 'approval_rule', 'transfer_manifest', 'import_template'
+]);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -13,6 +35,14 @@ export const usersTable = pgTable('users', {
   password_hash: text('password_hash').notNull(),
   role: userRoleEnum('role').notNull().default('user'),
   is_active: boolean('is_active').notNull().default(true),
+  must_change_password: boolean('must_change_password').notNull().default(false),
+  failed_login_count: integer('failed_login_count').notNull().default(0),
+  lockout_count: integer('lockout_count').notNull().default(0),
+  locked_until: timestamp('locked_until'),
+  totp_enabled: boolean('totp_enabled').notNull().default(false),
+  // Secret of the confirmed enrollment, or of a pending one while totp_enabled is false
+  totp_secret: text('totp_secret'),
+  totp_recovery_code_hashes: text('totp_recovery_code_hashes').array().notNull().default(sql`'{}'::text[]`),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -20,20 +50,95 @@ export const usersTable = pgTable('users', {
 // Sessions table
 export const sessionsTable = pgTable('sessions', {
   id: text('id').primaryKey(),
+  // Non-secret handle used to list and revoke sessions without exposing the session token
+  public_id: uuid('public_id').defaultRandom().notNull().unique(),
   user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  ip_address: text('ip_address'),
+  user_agent: text('user_agent'),
+  expires_at: timestamp('expires_at').notNull(),
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Pending second login step for users with two-factor authentication
+export const mfaChallengesTable = pgTable('mfa_challenges', {
+  id: text('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  attempts: integer('attempts').notNull().default(0),
   expires_at: timestamp('expires_at').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Report downloads a session has asked for. The browser redeems one by downloading the file
+// itself, which streams it to disk but cannot send the session header.
+export const exportTicketsTable = pgTable('export_tickets', {
+  id: text('id').primaryKey(),
+  session_id: text('session_id').references(() => sessionsTable.id, { onDelete: 'cascade' }).notNull(),
+  input: jsonb('input').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Application-wide settings stored as key/value pairs
+export const appSettingsTable = pgTable('app_settings', {
+  key: text('key').primaryKey(),
+  value: text('value').notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Permission matrix: the actions each role may perform (admin always has every permission)
+export const rolePermissionsTable = pgTable('role_permissions', {
+  role: userRoleEnum('role').primaryKey(),
+  permissions: text('permissions').array().notNull().default(sql`'{}'::text[]`),
+  // Location-scoped roles only see and change data for their assigned locations
+  location_scoped: boolean('location_scoped').notNull().default(false),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Login attempts table (every success and failure, for lockout checks and admin review)
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  username: text('username').notNull(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  ip_address: text('ip_address'),
+  user_agent: text('user_agent'),
+  success: boolean('success').notNull(),
+  reason: loginAttemptReasonEnum('reason').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('login_attempts_ip_created_idx').on(table.ip_address, table.created_at),
+]);
+
 // Locations table
 export const locationsTable = pgTable('locations', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
-  branch_code: text('branch_code').notNull(),
+  branch_code: text('branch_code').notNull().unique(),
   address: text('address'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('locations_search_idx').using('gin', searchDocument(table.name, table.branch_code, table.address)),
+  searchTextIndex('locations_search_text_idx', table.name, table.branch_code, table.address),
+]);
+
+// Locations assigned to a user, used by location-scoped roles
+export const userLocationsTable = pgTable('user_locations', {
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  location_id: integer('location_id').references(() => locationsTable.id, { onDelete: 'cascade' }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.user_id, table.location_id] }),
+]);
+
+// Last handover document number issued per branch and year
+export const documentSequencesTable = pgTable('document_sequences', {
+  location_id: integer('location_id').references(() => locationsTable.id, { onDelete: 'cascade' }).notNull(),
+  year: integer('year').notNull(),
+  last_number: integer('last_number').notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.location_id, table.year] }),
+]);
 
 // Categories table
 export const categoriesTable = pgTable('categories', {
@@ -53,12 +158,16 @@ export const suppliersTable = pgTable('suppliers', {
   address: text('address'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('suppliers_search_idx').using('gin', searchDocument(table.name, table.contact_person)),
+  searchTextIndex('suppliers_search_text_idx', table.name, table.contact_person),
+]);
 
-// Inventory Items table
+// Inventory Items table. Bulk stock of one item code may be split across locations,
+// one row per location and condition, so damaged units are counted apart from intact ones.
 export const inventoryItemsTable = pgTable('inventory_items', {
   id: serial('id').primaryKey(),
-  item_code: text('item_code').notNull().unique(),
+  item_code: text('item_code').notNull(),
   name: text('name').notNull(),
   description: text('description'),
   category_id: integer('category_id').references(() => categoriesTable.id).notNull(),
@@ -69,7 +178,11 @@ export const inventoryItemsTable = pgTable('inventory_items', {
   purchase_date: timestamp('purchase_date').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  unique('inventory_items_item_code_location_condition_unique').on(table.item_code, table.location_id, table.condition),
+  index('inventory_items_search_idx').using('gin', searchDocument(table.item_code, table.name, table.description)),
+  searchTextIndex('inventory_items_search_text_idx', table.item_code, table.name, table.description),
+]);
 
 // Purchases table
 export const purchasesTable = pgTable('purchases', {
@@ -83,26 +196,226 @@ export const purchasesTable = pgTable('purchases', {
   notes: text('notes'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('purchases_search_idx').using('gin', searchDocument(table.notes)),
+  searchTextIndex('purchases_search_text_idx', table.notes),
+]);
+
+// Transfer manifests (one shipment of several items between two locations)
+export const transferManifestsTable = pgTable('transfer_manifests', {
+  id: serial('id').primaryKey(),
+  from_location_id: integer('from_location_id').references(() => locationsTable.id).notNull(),
+  to_location_id: integer('to_location_id').references(() => locationsTable.id).notNull(),
+  courier: text('courier'),
+  tracking_number: text('tracking_number'),
+  status: manifestStatusEnum('status').notNull().default('pending'),
+  dispatched_at: timestamp('dispatched_at'),
+  received_at: timestamp('received_at'),
+  // Number of the printed handover record (BAST), assigned when first generated
+  handover_document_number: text('handover_document_number').unique(),
+  created_by_id: integer('created_by_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
 // Location History table
 export const locationHistoryTable = pgTable('location_history', {
   id: serial('id').primaryKey(),
   item_id: integer('item_id').references(() => inventoryItemsTable.id).notNull(),
+  manifest_id: integer('manifest_id').references(() => transferManifestsTable.id, { onDelete: 'set null' }),
   from_location_id: integer('from_location_id').references(() => locationsTable.id),
   to_location_id: integer('to_location_id').references(() => locationsTable.id).notNull(),
   transfer_date: timestamp('transfer_date').notNull(),
-  transferred_by: text('transferred_by').notNull(),
+  // Units moved; null on transfers recorded before quantities were tracked, which moved the whole row
+  quantity: integer('quantity'),
+  // Free-text name typed before transfers referenced users; only set on older records
+  transferred_by: text('transferred_by'),
+  // User who recorded the transfer, plus the optional people handing over and receiving the item
+  created_by_id: integer('created_by_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  sender_id: integer('sender_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  receiver_id: integer('receiver_id').references(() => usersTable.id, { onDelete: 'set null' }),
   reason: text('reason'),
   status: transferStatusEnum('status').notNull(),
+  // Which branch managers must sign off before the transfer may leave pending_approval
+  requires_source_approval: boolean('requires_source_approval').notNull().default(false),
+  requires_destination_approval: boolean('requires_destination_approval').notNull().default(false),
+  // How the item arrived when its manifest was received
+  receipt_status: receiptStatusEnum('receipt_status'),
+  handover_document_number: text('handover_document_number').unique(),
   notes: text('notes'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Approval decisions on transfers, one per required side
+export const transferApprovalsTable = pgTable('transfer_approvals', {
+  id: serial('id').primaryKey(),
+  transfer_id: integer('transfer_id').references(() => locationHistoryTable.id, { onDelete: 'cascade' }).notNull(),
+  side: approvalSideEnum('side').notNull(),
+  decision: approvalDecisionEnum('decision').notNull(),
+  approver_id: integer('approver_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  comment: text('comment'),
+  decided_at: timestamp('decided_at').defaultNow().notNull(),
+}, (table) => [
+  index('transfer_approvals_transfer_idx').on(table.transfer_id),
+]);
+
+// Rules deciding which transfers need approval; null locations and value match anything
+export const transferApprovalRulesTable = pgTable('transfer_approval_rules', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  from_location_id: integer('from_location_id').references(() => locationsTable.id, { onDelete: 'cascade' }),
+  to_location_id: integer('to_location_id').references(() => locationsTable.id, { onDelete: 'cascade' }),
+  min_item_value: numeric('min_item_value', { precision: 12, scale: 2 }),
+  approver: approvalScopeEnum('approver').notNull().default('both'),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Saved spreadsheet column mappings for batch import, keyed by a unique name
+export const importTemplatesTable = pgTable('import_templates', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  mapping: jsonb('mapping').$type<Record<string, string>>().notNull(),
+  created_by_id: integer('created_by_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Committed batch imports with the outcome of every row, for review after the fact
+export const importJobsTable = pgTable('import_jobs', {
+  id: serial('id').primaryKey(),
+  mode: batchImportModeEnum('mode').notNull(),
+  file_name: text('file_name'),
+  rolled_back: boolean('rolled_back').notNull().default(false),
+  created_count: integer('created_count').notNull().default(0),
+  updated_count: integer('updated_count').notNull().default(0),
+  unchanged_count: integer('unchanged_count').notNull().default(0),
+  skipped_count: integer('skipped_count').notNull().default(0),
+  error_count: integer('error_count').notNull().default(0),
+  missing_count: integer('missing_count').notNull().default(0),
+  rows: jsonb('rows').$type<Record<string, unknown>[]>().notNull(),
+  missing: jsonb('missing').$type<Record<string, unknown>[]>().notNull(),
+  created_by_id: integer('created_by_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Transfer status changes (one row per transition, including the initial status)
+export const transferStatusChangesTable = pgTable('transfer_status_changes', {
+  id: serial('id').primaryKey(),
+  transfer_id: integer('transfer_id').references(() => locationHistoryTable.id, { onDelete: 'cascade' }).notNull(),
+  from_status: transferStatusEnum('from_status'),
+  to_status: transferStatusEnum('to_status').notNull(),
+  changed_by_id: integer('changed_by_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  changed_at: timestamp('changed_at').defaultNow().notNull(),
+}, (table) => [
+  index('transfer_status_changes_transfer_idx').on(table.transfer_id),
+]);
+
+// Audit log table (who changed what; before/after hold only the changed fields for updates)
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  username: text('username'),
+  action: auditActionEnum('action').notNull(),
+  entity_type: auditEntityTypeEnum('entity_type').notNull(),
+  entity_id: text('entity_id').notNull(),
+  before: jsonb('before').$type<Record<string, unknown>>(),
+  after: jsonb('after').$type<Record<string, unknown>>(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('audit_log_entity_idx').on(table.entity_type, table.entity_id),
+  index('audit_log_created_idx').on(table.created_at),
+]);
+
 // Relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
   sessions: many(sessionsTable),
+  loginAttempts: many(loginAttemptsTable),
+  locations: many(userLocationsTable),
+  transfersCreated: many(locationHistoryTable, { relationName: 'createdBy' }),
+  transfersSent: many(locationHistoryTable, { relationName: 'sender' }),
+  transfersReceived: many(locationHistoryTable, { relationName: 'receiver' }),
+}));
+
+export const userLocationsRelations = relations(userLocationsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userLocationsTable.user_id],
+    references: [usersTable.id],
+  }),
+  location: one(locationsTable, {
+    fields: [userLocationsTable.location_id],
+    references: [locationsTable.id],
+  }),
+}));
+
+export const loginAttemptsRelations = relations(loginAttemptsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [loginAttemptsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const transferManifestsRelations = relations(transferManifestsTable, ({ one, many }) => ({
+  transfers: many(locationHistoryTable),
+  fromLocation: one(locationsTable, {
+    fields: [transferManifestsTable.from_location_id],
+    references: [locationsTable.id],
+    relationName: 'manifestFrom',
+  }),
+  toLocation: one(locationsTable, {
+    fields: [transferManifestsTable.to_location_id],
+    references: [locationsTable.id],
+    relationName: 'manifestTo',
+  }),
+  createdBy: one(usersTable, {
+    fields: [transferManifestsTable.created_by_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const transferApprovalsRelations = relations(transferApprovalsTable, ({ one }) => ({
+  transfer: one(locationHistoryTable, {
+    fields: [transferApprovalsTable.transfer_id],
+    references: [locationHistoryTable.id],
+  }),
+  approver: one(usersTable, {
+    fields: [transferApprovalsTable.approver_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const transferApprovalRulesRelations = relations(transferApprovalRulesTable, ({ one }) => ({
+  fromLocation: one(locationsTable, {
+    fields: [transferApprovalRulesTable.from_location_id],
+    references: [locationsTable.id],
+    relationName: 'approvalRuleFrom',
+  }),
+  toLocation: one(locationsTable, {
+    fields: [transferApprovalRulesTable.to_location_id],
+    references: [locationsTable.id],
+    relationName: 'approvalRuleTo',
+  }),
+}));
+
+export const transferStatusChangesRelations = relations(transferStatusChangesTable, ({ one }) => ({
+  transfer: one(locationHistoryTable, {
+    fields: [transferStatusChangesTable.transfer_id],
+    references: [locationHistoryTable.id],
+  }),
+  changedBy: one(usersTable, {
+    fields: [transferStatusChangesTable.changed_by_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const auditLogRelations = relations(auditLogTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [auditLogTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
@@ -116,6 +429,11 @@ export const locationsRelations = relations(locationsTable, ({ many }) => ({
   inventoryItems: many(inventoryItemsTable),
   historyFrom: many(locationHistoryTable, { relationName: 'fromLocation' }),
   historyTo: many(locationHistoryTable, { relationName: 'toLocation' }),
+  assignedUsers: many(userLocationsTable),
+  approvalRulesFrom: many(transferApprovalRulesTable, { relationName: 'approvalRuleFrom' }),
+  approvalRulesTo: many(transferApprovalRulesTable, { relationName: 'approvalRuleTo' }),
+  manifestsFrom: many(transferManifestsTable, { relationName: 'manifestFrom' }),
+  manifestsTo: many(transferManifestsTable, { relationName: 'manifestTo' }),
 }));
 
 export const categoriesRelations = relations(categoriesTable, ({ many }) => ({
@@ -150,7 +468,9 @@ export const purchasesRelations = relations(purchasesTable, ({ one }) => ({
   }),
 }));
 
-export const locationHistoryRelations = relations(locationHistoryTable, ({ one }) => ({
+export const locationHistoryRelations = relations(locationHistoryTable, ({ one, many }) => ({
+  statusChanges: many(transferStatusChangesTable),
+  approvals: many(transferApprovalsTable),
   item: one(inventoryItemsTable, {
     fields: [locationHistoryTable.item_id],
     references: [inventoryItemsTable.id],
@@ -165,18 +485,50 @@ export const locationHistoryRelations = relations(locationHistoryTable, ({ one }
     references: [locationsTable.id],
     relationName: 'toLocation',
   }),
+  manifest: one(transferManifestsTable, {
+    fields: [locationHistoryTable.manifest_id],
+    references: [transferManifestsTable.id],
+  }),
+  createdBy: one(usersTable, {
+    fields: [locationHistoryTable.created_by_id],
+    references: [usersTable.id],
+    relationName: 'createdBy',
+  }),
+  sender: one(usersTable, {
+    fields: [locationHistoryTable.sender_id],
+    references: [usersTable.id],
+    relationName: 'sender',
+  }),
+  receiver: one(usersTable, {
+    fields: [locationHistoryTable.receiver_id],
+    references: [usersTable.id],
+    relationName: 'receiver',
+  }),
 }));
 
 // Export all tables for relation queries
 export const tables = {
   users: usersTable,
   sessions: sessionsTable,
+  loginAttempts: loginAttemptsTable,
+  mfaChallenges: mfaChallengesTable,
+  appSettings: appSettingsTable,
+  rolePermissions: rolePermissionsTable,
+  userLocations: userLocationsTable,
   locations: locationsTable,
   categories: categoriesTable,
   suppliers: suppliersTable,
   inventoryItems: inventoryItemsTable,
   purchases: purchasesTable,
   locationHistory: locationHistoryTable,
+  transferManifests: transferManifestsTable,
+  documentSequences: documentSequencesTable,
+  transferStatusChanges: transferStatusChangesTable,
+  transferApprovals: transferApprovalsTable,
+  transferApprovalRules: transferApprovalRulesTable,
+  importTemplates: importTemplatesTable,
+  importJobs: importJobsTable,
+  auditLog: auditLogTable,
 };
 
 // TypeScript types for the table schemas
@@ -186,6 +538,24 @@ export type NewUser = typeof usersTable.$inferInsert;
 export type Session = typeof sessionsTable.$inferSelect;
 export type NewSession = typeof sessionsTable.$inferInsert;
 
+export type MfaChallenge = typeof mfaChallengesTable.$inferSelect;
+export type NewMfaChallenge = typeof mfaChallengesTable.$inferInsert;
+
+export type AppSetting = typeof appSettingsTable.$inferSelect;
+export type NewAppSetting = typeof appSettingsTable.$inferInsert;
+
+export type RolePermissions = typeof rolePermissionsTable.$inferSelect;
+export type NewRolePermissions = typeof rolePermissionsTable.$inferInsert;
+
+export type UserLocation = typeof userLocationsTable.$inferSelect;
+export type NewUserLocation = typeof userLocationsTable.$inferInsert;
+
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+
+export type AuditLog = typeof auditLogTable.$inferSelect;
+export type NewAuditLog = typeof auditLogTable.$inferInsert;
+
 export type Location = typeof locationsTable.$inferSelect;
 export type NewLocation = typeof locationsTable.$inferInsert;
 
@@ -202,4 +572,17 @@ export type Purchase = typeof purchasesTable.$inferSelect;
 export type NewPurchase = typeof purchasesTable.$inferInsert;
 
 export type LocationHistory = typeof locationHistoryTable.$inferSelect;
-export type NewLocationHistory = typeof locationHistoryTable.$inferInsert;
\ No newline at end of file
+export type NewLocationHistory = typeof locationHistoryTable.$inferInsert;
+
+export type TransferStatusChange = typeof transferStatusChangesTable.$inferSelect;
+export type NewTransferStatusChange = typeof transferStatusChangesTable.$inferInsert;
+export type TransferApproval = typeof transferApprovalsTable.$inferSelect;
+export type NewTransferApproval = typeof transferApprovalsTable.$inferInsert;
+export type TransferApprovalRule = typeof transferApprovalRulesTable.$inferSelect;
+export type NewTransferApprovalRule = typeof transferApprovalRulesTable.$inferInsert;
+export type ImportTemplate = typeof importTemplatesTable.$inferSelect;
+export type NewImportTemplate = typeof importTemplatesTable.$inferInsert;
+export type ImportJob = typeof importJobsTable.$inferSelect;
+export type NewImportJob = typeof importJobsTable.$inferInsert;
+export type TransferManifest = typeof transferManifestsTable.$inferSelect;
+export type NewTransferManifest = typeof transferManifestsTable.$inferInsert;
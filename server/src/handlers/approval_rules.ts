@@ -0,0 +1,171 @@
+import { db, type DbExecutor } from '../db';
+import { transferApprovalRulesTable, locationsTable } from '../db/schema';
+import {
+  type TransferApprovalRule,
+  type CreateTransferApprovalRuleInput,
+  type UpdateTransferApprovalRuleInput
+} from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { recordAudit, type AuditActor } from './audit';
+
+type TransferApprovalRuleRow = typeof transferApprovalRulesTable.$inferSelect;
+
+const toApprovalRule = (row: TransferApprovalRuleRow): TransferApprovalRule => ({
+  ...row,
+  min_item_value: row.min_item_value !== null ? parseFloat(row.min_item_value) : null
+});
+
+const ensureLocationExists = async (locationId: number | null | undefined): Promise<void> => {
+  if (locationId === null || locationId === undefined) {
+    return;
+  }
+
+  const locations = await db.select({ id: locationsTable.id })
+    .from(locationsTable)
+    .where(eq(locationsTable.id, locationId))
+    .execute();
+
+  if (locations.length === 0) {
+    throw new Error(`Location with ID ${locationId} does not exist`);
+  }
+};
+
+export async function getApprovalRules(): Promise<TransferApprovalRule[]> {
+  try {
+    const results = await db.select()
+      .from(transferApprovalRulesTable)
+      .orderBy(asc(transferApprovalRulesTable.id))
+      .execute();
+
+    return results.map(toApprovalRule);
+  } catch (error) {
+    console.error('Failed to fetch approval rules:', error);
+    throw error;
+  }
+}
+
+export async function createApprovalRule(input: CreateTransferApprovalRuleInput, actor: AuditActor = null): Promise<TransferApprovalRule> {
+  try {
+    await ensureLocationExists(input.from_location_id);
+    await ensureLocationExists(input.to_location_id);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(transferApprovalRulesTable)
+        .values({
+          name: input.name,
+          from_location_id: input.from_location_id,
+          to_location_id: input.to_location_id,
+          min_item_value: input.min_item_value !== null ? input.min_item_value.toString() : null,
+          approver: input.approver,
+          is_active: input.is_active
+        })
+        .returning()
+        .execute();
+
+      const rule = toApprovalRule(result[0]);
+      await recordAudit({ actor, action: 'create', entity_type: 'approval_rule', entity_id: rule.id, after: rule }, tx);
+
+      return rule;
+    });
+  } catch (error) {
+    console.error('Approval rule creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateApprovalRule(input: UpdateTransferApprovalRuleInput, actor: AuditActor = null): Promise<TransferApprovalRule> {
+  try {
+    const existing = await db.select()
+      .from(transferApprovalRulesTable)
+      .where(eq(transferApprovalRulesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Approval rule with ID ${input.id} not found`);
+    }
+
+    await ensureLocationExists(input.from_location_id);
+    await ensureLocationExists(input.to_location_id);
+
+    const updateValues: Partial<typeof transferApprovalRulesTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateValues.name = input.name;
+    if (input.from_location_id !== undefined) updateValues.from_location_id = input.from_location_id;
+    if (input.to_location_id !== undefined) updateValues.to_location_id = input.to_location_id;
+    if (input.min_item_value !== undefined) {
+      updateValues.min_item_value = input.min_item_value !== null ? input.min_item_value.toString() : null;
+    }
+    if (input.approver !== undefined) updateValues.approver = input.approver;
+    if (input.is_active !== undefined) updateValues.is_active = input.is_active;
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(transferApprovalRulesTable)
+        .set(updateValues)
+        .where(eq(transferApprovalRulesTable.id, input.id))
+        .returning()
+        .execute();
+
+      const rule = toApprovalRule(result[0]);
+      await recordAudit({ actor, action: 'update', entity_type: 'approval_rule', entity_id: rule.id, before: toApprovalRule(existing[0]), after: rule }, tx);
+
+      return rule;
+    });
+  } catch (error) {
+    console.error('Approval rule update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteApprovalRule(id: number, actor: AuditActor = null): Promise<boolean> {
+  try {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(transferApprovalRulesTable)
+        .where(eq(transferApprovalRulesTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAudit({ actor, action: 'delete', entity_type: 'approval_rule', entity_id: id, before: toApprovalRule(result[0]) }, tx);
+      }
+
+      return result.length > 0;
+    });
+  } catch (error) {
+    console.error('Approval rule deletion failed:', error);
+    throw error;
+  }
+}
+
+// Which sides have to approve a transfer between two branches; moves within a branch never need
+// approval
+export async function getRequiredApprovals(
+  fromLocationId: number,
+  toLocationId: number,
+  itemValue: number,
+  executor: DbExecutor = db
+): Promise<{ source: boolean; destination: boolean }> {
+  const required = { source: false, destination: false };
+  if (fromLocationId === toLocationId) {
+    return required;
+  }
+
+  const rules = await executor.select()
+    .from(transferApprovalRulesTable)
+    .where(eq(transferApprovalRulesTable.is_active, true))
+    .execute();
+
+  for (const rule of rules.map(toApprovalRule)) {
+    const matches = (rule.from_location_id === null || rule.from_location_id === fromLocationId)
+      && (rule.to_location_id === null || rule.to_location_id === toLocationId)
+      && (rule.min_item_value === null || itemValue >= rule.min_item_value);
+
+    if (matches) {
+      required.source = required.source || rule.approver !== 'destination';
+      required.destination = required.destination || rule.approver !== 'source';
+    }
+  }
+
+  return required;
+}
@@ -0,0 +1,113 @@
+import { db, type DbExecutor } from '../db';
+import { auditLogTable } from '../db/schema';
+import { type AuditLog, type AuditLogFilter, type AuditAction, type AuditEntityType } from '../schema';
+import { and, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+// The signed-in user behind a change; null for changes made outside a request (seeds, scripts)
+export type AuditActor = { id: number; username: string } | null;
+
+interface AuditEntry {
+  actor: AuditActor;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: number | string;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Bookkeeping and secret columns never end up in the log
+const OMITTED_FIELDS = ['created_at', 'updated_at', 'password_hash', 'totp_secret', 'totp_recovery_code_hashes'];
+
+const toAuditValues = (row: object | null | undefined): Record<string, unknown> | null => {
+  if (!row) {
+    return null;
+  }
+
+  return Object.fromEntries(
+    Object.entries(row).filter(([key, value]) => !OMITTED_FIELDS.includes(key) && value !== undefined)
+  );
+};
+
+const pick = (values: Record<string, unknown>, keys: string[]): Record<string, unknown> => {
+  return Object.fromEntries(keys.filter(key => key in values).map(key => [key, values[key]]));
+};
+
+// Compare the way the values are stored, so dates and arrays compare by content
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Pass the transaction the change ran in so the entry commits or rolls back with it
+export const recordAudit = async (entry: AuditEntry, executor: DbExecutor = db): Promise<void> => {
+  try {
+    let before = toAuditValues(entry.before);
+    let after = toAuditValues(entry.after);
+
+    // Updates only keep the fields that actually changed
+    if (before && after) {
+      const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+      const changed = keys.filter(key => !isSameValue(before![key], after![key]));
+
+      if (changed.length === 0) {
+        return;
+      }
+
+      before = pick(before, changed);
+      after = pick(after, changed);
+    }
+
+    await executor.insert(auditLogTable)
+      .values({
+        user_id: entry.actor?.id ?? null,
+        username: entry.actor?.username ?? null,
+        action: entry.action,
+        entity_type: entry.entity_type,
+        entity_id: String(entry.entity_id),
+        before,
+        after
+      })
+      .execute();
+  } catch (error) {
+    console.error('Failed to record audit entry:', error);
+    throw error;
+  }
+};
+
+export const getAuditLog = async (filter: AuditLogFilter): Promise<AuditLog[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter.entity_type) {
+      conditions.push(eq(auditLogTable.entity_type, filter.entity_type));
+    }
+    if (filter.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, filter.entity_id));
+    }
+    if (filter.user_id !== undefined) {
+      conditions.push(eq(auditLogTable.user_id, filter.user_id));
+    }
+    if (filter.action) {
+      conditions.push(eq(auditLogTable.action, filter.action));
+    }
+    if (filter.date_from) {
+      conditions.push(gte(auditLogTable.created_at, filter.date_from));
+    }
+    if (filter.date_to) {
+      conditions.push(lte(auditLogTable.created_at, filter.date_to));
+    }
+
+    const baseQuery = db.select()
+      .from(auditLogTable)
+      .$dynamic();
+
+    const query = conditions.length > 0
+      ? baseQuery.where(and(...conditions))
+      : baseQuery;
+
+    return await query
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(filter.limit)
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+};
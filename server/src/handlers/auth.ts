@@ -1,28 +1,105 @@
 import { db } from '../db';
-import { usersTable, sessionsTable } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
-import { type LoginInput, type LoginResponse, type User, type Session } from '../schema';
-
-// Simple password hashing using built-in crypto (fallback without bcrypt)
-const hashPassword = async (password: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password + 'salt_key_totalindo');
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+import { usersTable, sessionsTable, mfaChallengesTable } from '../db/schema';
+import { eq, and, ne, or, lt, lte, isNull, sql } from 'drizzle-orm';
+import { type LoginInput, type LoginResponse, type User, type Session, type ChangePasswordInput, type ClientInfo, type VerifyMfaInput } from '../schema';
+import { hashPassword, verifyPassword, needsRehash } from '../helpers/password';
+import { getSessionExpiry, shouldTouchSession } from './sessions';
+import { recordLoginAttempt, countRecentIpFailures } from './login_attempts';
+import { verifySecondFactor } from './mfa';
+import { recordAudit } from './audit';
+
+const generateSessionId = (): string => {
+  return crypto.randomUUID();
 };
 
-const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
-  const hashedInput = await hashPassword(password);
-  return hashedInput === hash;
+// Brute-force protection, configurable through the environment
+const LOGIN_MAX_FAILED_ATTEMPTS = parseInt(process.env['LOGIN_MAX_FAILED_ATTEMPTS'] || '5', 10);
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env['LOGIN_LOCKOUT_MINUTES'] || '15', 10);
+const LOGIN_LOCKOUT_MAX_MINUTES = parseInt(process.env['LOGIN_LOCKOUT_MAX_MINUTES'] || '1440', 10);
+const LOGIN_IP_MAX_FAILED_ATTEMPTS = parseInt(process.env['LOGIN_IP_MAX_FAILED_ATTEMPTS'] || '20', 10);
+const LOGIN_IP_WINDOW_MINUTES = parseInt(process.env['LOGIN_IP_WINDOW_MINUTES'] || '15', 10);
+
+// Two-factor step: how long the code prompt stays valid and how many wrong codes it accepts
+const MFA_CHALLENGE_MINUTES = 5;
+const MFA_MAX_ATTEMPTS = 5;
+
+// Each consecutive lockout doubles the previous one, up to the configured maximum
+const getLockoutMinutes = (lockoutCount: number): number => {
+  return Math.min(LOGIN_LOCKOUT_MINUTES * 2 ** Math.max(lockoutCount - 1, 0), LOGIN_LOCKOUT_MAX_MINUTES);
 };
 
-const generateSessionId = (): string => {
-  return crypto.randomUUID();
+const toSafeUser = (user: typeof usersTable.$inferSelect): User => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  is_active: user.is_active,
+  must_change_password: user.must_change_password,
+  failed_login_count: user.failed_login_count,
+  locked_until: user.locked_until,
+  totp_enabled: user.totp_enabled,
+  created_at: user.created_at,
+  updated_at: user.updated_at
+});
+
+const createSession = async (userId: number, client: ClientInfo): Promise<string> => {
+  const sessionId = generateSessionId();
+
+  await db.insert(sessionsTable)
+    .values({
+      id: sessionId,
+      user_id: userId,
+      ip_address: client.ip_address,
+      user_agent: client.user_agent,
+      expires_at: getSessionExpiry()
+    })
+    .execute();
+
+  return sessionId;
+};
+
+const getLockedUntil = async (userId: number): Promise<Date | null> => {
+  const users = await db.select({ locked_until: usersTable.locked_until })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  return users[0]?.locked_until ?? null;
+};
+
+// Locks the account unless a parallel attempt already did
+const lockAccount = async (user: typeof usersTable.$inferSelect): Promise<Date | null> => {
+  const locked = await db.update(usersTable)
+    .set({
+      failed_login_count: 0,
+      lockout_count: sql`${usersTable.lockout_count} + 1`,
+      locked_until: new Date(Date.now() + getLockoutMinutes(user.lockout_count + 1) * 60 * 1000)
+    })
+    .where(and(
+      eq(usersTable.id, user.id),
+      or(isNull(usersTable.locked_until), lte(usersTable.locked_until, new Date()))
+    ))
+    .returning({ locked_until: usersTable.locked_until })
+    .execute();
+
+  return locked.length > 0 ? locked[0].locked_until : getLockedUntil(user.id);
 };
 
-export const login = async (input: LoginInput): Promise<LoginResponse> => {
+export const login = async (input: LoginInput, client: ClientInfo): Promise<LoginResponse> => {
   try {
+    // Throttle addresses that keep guessing, whatever usernames they try
+    if (client.ip_address) {
+      const windowStart = new Date(Date.now() - LOGIN_IP_WINDOW_MINUTES * 60 * 1000);
+      const ipFailures = await countRecentIpFailures(client.ip_address, windowStart);
+      if (ipFailures >= LOGIN_IP_MAX_FAILED_ATTEMPTS) {
+        await recordLoginAttempt(input.username, null, client, 'ip_blocked');
+        return {
+          success: false,
+          message: 'Too many failed login attempts from this address. Please try again later.',
+          reason: 'ip_blocked'
+        };
+      }
+    }
+
     // Find user by username
     const users = await db.select()
       .from(usersTable)
@@ -33,50 +110,99 @@ export const login = async (input: LoginInput): Promise<LoginResponse> => {
       .execute();
 
     if (users.length === 0) {
+      await recordLoginAttempt(input.username, null, client, 'invalid_credentials');
       return {
         success: false,
-        message: 'Invalid username or password'
+        message: 'Invalid username or password',
+        reason: 'invalid_credentials'
       };
     }
 
     const user = users[0];
 
+    // Claim an attempt before checking the password, in one statement, so parallel guesses
+    // cannot all pass the check while the count still looks low. A correct password gives the
+    // attempt back below.
+    const claimed = await db.update(usersTable)
+      .set({ failed_login_count: sql`${usersTable.failed_login_count} + 1` })
+      .where(and(
+        eq(usersTable.id, user.id),
+        or(isNull(usersTable.locked_until), lte(usersTable.locked_until, new Date()))
+      ))
+      .returning({ failed_login_count: usersTable.failed_login_count })
+      .execute();
+
+    const failedCount = claimed[0]?.failed_login_count;
+
+    // Already locked, or other guesses have used up the remaining attempts
+    if (failedCount === undefined || failedCount > LOGIN_MAX_FAILED_ATTEMPTS) {
+      const lockedUntil = failedCount === undefined ? await getLockedUntil(user.id) : await lockAccount(user);
+      await recordLoginAttempt(input.username, user.id, client, 'account_locked');
+      return {
+        success: false,
+        message: 'Account is temporarily locked after too many failed login attempts',
+        reason: 'account_locked',
+        locked_until: lockedUntil ?? undefined
+      };
+    }
+
     // Verify password
     const isValidPassword = await verifyPassword(input.password, user.password_hash);
     if (!isValidPassword) {
+      if (failedCount >= LOGIN_MAX_FAILED_ATTEMPTS) {
+        await lockAccount(user);
+      }
+
+      await recordLoginAttempt(input.username, user.id, client, 'invalid_credentials');
       return {
         success: false,
-        message: 'Invalid username or password'
+        message: 'Invalid username or password',
+        reason: 'invalid_credentials'
       };
     }
 
-    // Create session
-    const sessionId = generateSessionId();
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 8); // 8 hour session
-
-    await db.insert(sessionsTable)
-      .values({
-        id: sessionId,
-        user_id: user.id,
-        expires_at: expiresAt
+    // Successful login clears the failure history; transparently upgrade legacy or
+    // outdated hashes now that we know the plain password
+    const [updatedUser] = await db.update(usersTable)
+      .set({
+        failed_login_count: 0,
+        lockout_count: 0,
+        locked_until: null,
+        ...(needsRehash(user.password_hash) ? { password_hash: await hashPassword(input.password) } : {})
       })
+      .where(eq(usersTable.id, user.id))
+      .returning()
       .execute();
 
-    // Clean up user object (remove password_hash)
-    const safeUser: User = {
-      id: user.id,
-      username: user.username,
-      role: user.role,
-      is_active: user.is_active,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    };
+    // Hold back the session until the second factor has been checked
+    if (updatedUser.totp_enabled) {
+      const mfaToken = generateSessionId();
+      await db.insert(mfaChallengesTable)
+        .values({
+          id: mfaToken,
+          user_id: user.id,
+          expires_at: new Date(Date.now() + MFA_CHALLENGE_MINUTES * 60 * 1000)
+        })
+        .execute();
+
+      await recordLoginAttempt(input.username, user.id, client, 'mfa_required');
+      return {
+        success: false,
+        message: 'Enter the code from your authenticator app',
+        reason: 'mfa_required',
+        mfa_required: true,
+        mfa_token: mfaToken
+      };
+    }
+
+    await recordLoginAttempt(input.username, user.id, client, 'success');
+
+    const sessionId = await createSession(user.id, client);
 
     return {
       success: true,
       sessionId,
-      user: safeUser
+      user: toSafeUser(updatedUser)
     };
   } catch (error) {
     console.error('Login failed:', error);
@@ -84,6 +210,95 @@ export const login = async (input: LoginInput): Promise<LoginResponse> => {
   }
 };
 
+export const verifyMfa = async (input: VerifyMfaInput, client: ClientInfo): Promise<LoginResponse> => {
+  try {
+    const challenges = await db.select({
+        challenge: mfaChallengesTable,
+        user: usersTable
+      })
+      .from(mfaChallengesTable)
+      .innerJoin(usersTable, eq(mfaChallengesTable.user_id, usersTable.id))
+      .where(and(
+        eq(mfaChallengesTable.id, input.mfa_token),
+        eq(usersTable.is_active, true)
+      ))
+      .execute();
+
+    if (challenges.length === 0 || challenges[0].challenge.expires_at < new Date()) {
+      await db.delete(mfaChallengesTable)
+        .where(eq(mfaChallengesTable.id, input.mfa_token))
+        .execute();
+      return {
+        success: false,
+        message: 'Verification expired, please log in again',
+        reason: 'invalid_mfa_code'
+      };
+    }
+
+    const { challenge, user } = challenges[0];
+
+    // Count the attempt before checking the code, as for passwords
+    const claimed = await db.update(mfaChallengesTable)
+      .set({ attempts: sql`${mfaChallengesTable.attempts} + 1` })
+      .where(and(
+        eq(mfaChallengesTable.id, challenge.id),
+        lt(mfaChallengesTable.attempts, MFA_MAX_ATTEMPTS)
+      ))
+      .returning({ attempts: mfaChallengesTable.attempts })
+      .execute();
+
+    if (claimed.length === 0) {
+      return {
+        success: false,
+        message: 'Too many invalid codes, please log in again',
+        reason: 'invalid_mfa_code'
+      };
+    }
+
+    const isValidCode = await verifySecondFactor(user, input.code);
+    if (!isValidCode) {
+      await recordLoginAttempt(user.username, user.id, client, 'invalid_mfa_code');
+
+      // Too many guesses: make the user start over with their password
+      if (claimed[0].attempts >= MFA_MAX_ATTEMPTS) {
+        await db.delete(mfaChallengesTable)
+          .where(eq(mfaChallengesTable.id, challenge.id))
+          .execute();
+        return {
+          success: false,
+          message: 'Too many invalid codes, please log in again',
+          reason: 'invalid_mfa_code'
+        };
+      }
+
+      return {
+        success: false,
+        message: 'Invalid verification code',
+        reason: 'invalid_mfa_code',
+        mfa_required: true,
+        mfa_token: challenge.id
+      };
+    }
+
+    await db.delete(mfaChallengesTable)
+      .where(eq(mfaChallengesTable.id, challenge.id))
+      .execute();
+
+    await recordLoginAttempt(user.username, user.id, client, 'success');
+
+    const sessionId = await createSession(user.id, client);
+
+    return {
+      success: true,
+      sessionId,
+      user: toSafeUser(user)
+    };
+  } catch (error) {
+    console.error('Two-factor verification failed:', error);
+    throw error;
+  }
+};
+
 export const logout = async (sessionId: string): Promise<{ success: boolean }> => {
   try {
     await db.delete(sessionsTable)
@@ -126,26 +341,91 @@ export const validateSession = async (sessionId: string): Promise<{ user: User |
       return { user: null };
     }
 
-    // Return safe user object
-    const safeUser: User = {
-      id: result.user.id,
-      username: result.user.username,
-      role: result.user.role,
-      is_active: result.user.is_active,
-      created_at: result.user.created_at,
-      updated_at: result.user.updated_at
-    };
+    // Sliding expiry: activity pushes the idle timeout forward
+    const now = new Date();
+    if (shouldTouchSession(result.session.last_seen_at, now)) {
+      await db.update(sessionsTable)
+        .set({
+          last_seen_at: now,
+          expires_at: getSessionExpiry(now)
+        })
+        .where(eq(sessionsTable.id, sessionId))
+        .execute();
+    }
 
-    return { user: safeUser };
+    return { user: toSafeUser(result.user) };
   } catch (error) {
     console.error('Session validation failed:', error);
     return { user: null };
   }
 };
 
+export const changePassword = async (userId: number, sessionId: string, input: ChangePasswordInput): Promise<User> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with ID ${userId} does not exist`);
+    }
+
+    const user = users[0];
+
+    const isValidPassword = await verifyPassword(input.current_password, user.password_hash);
+    if (!isValidPassword) {
+      throw new Error('Current password is incorrect');
+    }
+
+    if (input.current_password === input.new_password) {
+      throw new Error('New password must be different from the current password');
+    }
+
+    const passwordHash = await hashPassword(input.new_password);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({
+          password_hash: passwordHash,
+          must_change_password: false,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+
+      // The hash itself is never logged, so mark the change explicitly
+      await recordAudit({
+        actor: { id: user.id, username: user.username },
+        action: 'update',
+        entity_type: 'user',
+        entity_id: userId,
+        before: user,
+        after: { ...result[0], password: 'changed' }
+      }, tx);
+
+      // Sign out every other session that still knows the old password
+      await tx.delete(sessionsTable)
+        .where(and(
+          eq(sessionsTable.user_id, userId),
+          ne(sessionsTable.id, sessionId)
+        ))
+        .execute();
+
+      return toSafeUser(result[0]);
+    });
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+};
+
 // Initialize default admin user
 export const initializeDefaultUser = async (): Promise<void> => {
   try {
+    const defaultPassword = process.env['APP_ADMIN_PASSWORD'] || 'TotalindO465';
+
     // Check if admin user already exists
     const existingUsers = await db.select()
       .from(usersTable)
@@ -153,20 +433,34 @@ export const initializeDefaultUser = async (): Promise<void> => {
       .execute();
 
     if (existingUsers.length === 0) {
-      const hashedPassword = await hashPassword('TotalindO465');
+      const hashedPassword = await hashPassword(defaultPassword);
       
+      // The seeded password is shared knowledge, so it must be replaced on first login
       await db.insert(usersTable)
         .values({
           username: 'admin',
           password_hash: hashedPassword,
           role: 'admin',
-          is_active: true
+          is_active: true,
+          must_change_password: true
         })
         .execute();
 
       console.log('Default admin user created successfully');
+      return;
+    }
+
+    // Installs seeded before the forced change existed may still run on the shared password
+    const admin = existingUsers[0];
+    if (!admin.must_change_password && await verifyPassword(defaultPassword, admin.password_hash)) {
+      await db.update(usersTable)
+        .set({ must_change_password: true, updated_at: new Date() })
+        .where(eq(usersTable.id, admin.id))
+        .execute();
+
+      console.log('Default admin user must change the default password');
     }
   } catch (error) {
     console.error('Failed to initialize default user:', error);
   }
-};
\ No newline at end of file
+};
@@ -2,6 +2,7 @@ import { db } from '../db';
 import { categoriesTable } from '../db/schema';
 import { type Category, type CreateCategoryInput, type UpdateCategoryInput } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAudit, type AuditActor } from './audit';
 
 export async function getCategories(): Promise<Category[]> {
   try {
@@ -30,25 +31,38 @@ export async function getCategoryById(id: number): Promise<Category | null> {
   }
 }
 
-export async function createCategory(input: CreateCategoryInput): Promise<Category> {
+export async function createCategory(input: CreateCategoryInput, actor: AuditActor = null): Promise<Category> {
   try {
-    const result = await db.insert(categoriesTable)
-      .values({
-        name: input.name,
-        description: input.description
-      })
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(categoriesTable)
+        .values({
+          name: input.name,
+          description: input.description
+        })
+        .returning()
+        .execute();
+
+      await recordAudit({ actor, action: 'create', entity_type: 'category', entity_id: result[0].id, after: result[0] }, tx);
 
-    return result[0];
+      return result[0];
+    });
   } catch (error) {
     console.error('Category creation failed:', error);
     throw error;
   }
 }
 
-export async function updateCategory(input: UpdateCategoryInput): Promise<Category> {
+export async function updateCategory(input: UpdateCategoryInput, actor: AuditActor = null): Promise<Category> {
   try {
+    const existing = await db.select()
+      .from(categoriesTable)
+      .where(eq(categoriesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Category with ID ${input.id} not found`);
+    }
+
     const updateData: any = {};
     
     if (input.name !== undefined) {
@@ -60,31 +74,41 @@ export async function updateCategory(input: UpdateCategoryInput): Promise<Catego
 
     updateData.updated_at = new Date();
 
-    const result = await db.update(categoriesTable)
-      .set(updateData)
-      .where(eq(categoriesTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(categoriesTable)
+        .set(updateData)
+        .where(eq(categoriesTable.id, input.id))
+        .returning()
+        .execute();
 
-    if (result.length === 0) {
-      throw new Error(`Category with ID ${input.id} not found`);
-    }
+      if (result.length === 0) {
+        throw new Error(`Category with ID ${input.id} not found`);
+      }
 
-    return result[0];
+      await recordAudit({ actor, action: 'update', entity_type: 'category', entity_id: input.id, before: existing[0], after: result[0] }, tx);
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Category update failed:', error);
     throw error;
   }
 }
 
-export async function deleteCategory(id: number): Promise<boolean> {
+export async function deleteCategory(id: number, actor: AuditActor = null): Promise<boolean> {
   try {
-    const result = await db.delete(categoriesTable)
-      .where(eq(categoriesTable.id, id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(categoriesTable)
+        .where(eq(categoriesTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAudit({ actor, action: 'delete', entity_type: 'category', entity_id: id, before: result[0] }, tx);
+      }
 
-    return result.length > 0;
+      return result.length > 0;
+    });
   } catch (error) {
     console.error('Category deletion failed:', error);
     throw error;
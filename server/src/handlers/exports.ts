@@ -0,0 +1,334 @@
+import { db } from '../db';
+import {
+  categoriesTable,
+  exportTicketsTable,
+  inventoryItemsTable,
+  locationsTable,
+  suppliersTable,
+  usersTable
+} from '../db/schema';
+import {
+  MAX_PAGE_SIZE,
+  reportExportInputSchema,
+  type ExportFormat,
+  type ReportExportInput,
+  type InventoryReportFilter,
+  type PurchaseReportFilter,
+  type LocationHistoryReportFilter,
+  type ItemCondition,
+  type TransferStatus,
+  type Paginated
+} from '../schema';
+import { eq } from 'drizzle-orm';
+import {
+  formatExportDate,
+  writeCsv,
+  type ExportCell,
+  type ExportColumn,
+  type ExportSink,
+  type ExportTable,
+  type ExportWriter
+} from '../helpers/export_table';
+import { writeXlsx } from '../helpers/xlsx';
+import { writePdf } from '../helpers/pdf';
+import {
+  generateInventoryReport,
+  generatePurchaseReport,
+  generateLocationHistoryReport,
+  generateInventorySummary,
+  generatePurchaseSummary,
+  generateLocationHistorySummary
+} from './reports';
+
+export interface ReportExport {
+  file_name: string;
+  content_type: string;
+  // Streams the file into `write`; rows are read a page at a time while it runs
+  write: (write: ExportSink) => Promise<void>;
+}
+
+// Long enough for the browser to start the download it was issued for
+const EXPORT_TICKET_SECONDS = 60;
+
+const FORMATS: Record<ExportFormat, { extension: string; content_type: string; writer: ExportWriter }> = {
+  csv: { extension: 'csv', content_type: 'text/csv; charset=utf-8', writer: writeCsv },
+  xlsx: { extension: 'xlsx', content_type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', writer: writeXlsx },
+  pdf: { extension: 'pdf', content_type: 'application/pdf', writer: writePdf }
+};
+
+const CONDITION_LABELS: Record<ItemCondition, string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+  damaged: 'Damaged'
+};
+
+const STATUS_LABELS: Record<TransferStatus, string> = {
+  pending_approval: 'Awaiting Approval',
+  rejected: 'Rejected',
+  pending: 'Pending',
+  in_transit: 'In Transit',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+type Rows = AsyncIterable<ExportCell[][]>;
+
+// Every page of a paged report, one batch per page
+async function* allPages<T>(list: (page: number) => Promise<Paginated<T>>): AsyncGenerator<T[]> {
+  for (let page = 1; ; page++) {
+    const result = await list(page);
+    if (result.items.length > 0) {
+      yield result.items;
+    }
+    if (result.items.length < result.page_size || page * result.page_size >= result.total) {
+      return;
+    }
+  }
+}
+
+async function* mapBatches<T>(batches: AsyncIterable<T[]>, toRows: (batch: T[]) => ExportCell[][]): Rows {
+  for await (const batch of batches) {
+    yield toRows(batch);
+  }
+}
+
+async function* summaryRows(rows: ExportCell[][]): Rows {
+  yield rows;
+}
+
+const nameMap = (rows: { id: number; name: string }[]) => new Map(rows.map(row => [row.id, row.name]));
+
+// Names of the records a filter can point at; master data is small enough to read whole
+const loadNames = async () => {
+  const [categories, locations, suppliers, users] = await Promise.all([
+    db.select({ id: categoriesTable.id, name: categoriesTable.name }).from(categoriesTable).execute(),
+    db.select({ id: locationsTable.id, name: locationsTable.name }).from(locationsTable).execute(),
+    db.select({ id: suppliersTable.id, name: suppliersTable.name }).from(suppliersTable).execute(),
+    db.select({ id: usersTable.id, name: usersTable.username }).from(usersTable).execute()
+  ]);
+  return {
+    categories: nameMap(categories),
+    locations: nameMap(locations),
+    suppliers: nameMap(suppliers),
+    users: nameMap(users)
+  };
+};
+
+type Names = Awaited<ReturnType<typeof loadNames>>;
+
+const findItem = async (id: number) => {
+  const items = await db.select({ item_code: inventoryItemsTable.item_code, name: inventoryItemsTable.name })
+    .from(inventoryItemsTable)
+    .where(eq(inventoryItemsTable.id, id))
+    .execute();
+
+  return items[0] ?? null;
+};
+
+const lookup = (names: Map<number, string>, id: number | null | undefined) =>
+  id === null || id === undefined ? null : names.get(id) ?? `#${id}`;
+
+// The filters as a person would read them, in the order the report screen shows them
+const describeFilters = async (
+  filter: Partial<InventoryReportFilter & PurchaseReportFilter & LocationHistoryReportFilter>,
+  names: Names
+): Promise<[string, string][]> => {
+  const item = filter.item_id !== undefined ? await findItem(filter.item_id) : null;
+  const described: [string, string | null | undefined][] = [
+    ['Search', filter.search?.trim() || null],
+    ['Category', lookup(names.categories, filter.category_id)],
+    ['Location', lookup(names.locations, filter.location_id)],
+    ['Supplier', lookup(names.suppliers, filter.supplier_id)],
+    ['Item', item ? `${item.item_code} ${item.name}` : filter.item_id !== undefined ? `#${filter.item_id}` : null],
+    ['User', lookup(names.users, filter.user_id)],
+    ['Condition', filter.condition && CONDITION_LABELS[filter.condition]],
+    ['Status', filter.status && STATUS_LABELS[filter.status]],
+    ['Date from', filter.date_from && formatExportDate(filter.date_from)],
+    ['Date to', filter.date_to && formatExportDate(filter.date_to)]
+  ];
+  return described.filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '');
+};
+
+const column = (header: string, type: ExportColumn['type'], width: number): ExportColumn => ({ header, type, width });
+
+// Breakdowns become one row per group, followed by the report's totals
+const breakdownRows = (groups: [string, Record<string, ExportCell[]>][]): ExportCell[][] =>
+  groups.flatMap(([breakdown, values]) =>
+    Object.entries(values)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, cells]) => [breakdown, name, ...cells])
+  );
+
+const buildTable = async (input: ReportExportInput, locationIds: number[] | null): Promise<Omit<ExportTable, 'filters' | 'generated_at'>> => {
+  switch (input.report) {
+    case 'inventory':
+      return {
+        title: 'Inventory Report',
+        columns: [
+          column('Item Code', 'text', 14), column('Name', 'text', 28), column('Category', 'text', 16),
+          column('Location', 'text', 18), column('Condition', 'text', 10), column('Quantity', 'integer', 9),
+          column('Purchase Price', 'currency', 14), column('Total Value', 'currency', 14), column('Purchase Date', 'date', 12)
+        ],
+        rows: mapBatches(
+          allPages(page => generateInventoryReport({ ...input.filter, page, page_size: MAX_PAGE_SIZE }, locationIds)),
+          items => items.map(item => [
+            item.item_code, item.name, item.category_name, item.location_name, CONDITION_LABELS[item.condition],
+            item.quantity, item.purchase_price, item.quantity * item.purchase_price, item.purchase_date
+          ])
+        )
+      };
+
+    case 'purchases':
+      return {
+        title: 'Purchase Report',
+        columns: [
+          column('Purchase Date', 'date', 12), column('Item Code', 'text', 14), column('Item', 'text', 26),
+          column('Supplier', 'text', 20), column('Quantity', 'integer', 9), column('Unit Price', 'currency', 13),
+          column('Total Price', 'currency', 14), column('Notes', 'text', 26)
+        ],
+        rows: mapBatches(
+          allPages(page => generatePurchaseReport({ ...input.filter, page, page_size: MAX_PAGE_SIZE }, locationIds)),
+          purchases => purchases.map(purchase => [
+            purchase.purchase_date, purchase.item_code, purchase.item_name, purchase.supplier_name,
+            purchase.quantity, purchase.unit_price, purchase.total_price, purchase.notes
+          ])
+        )
+      };
+
+    case 'location_history':
+      return {
+        title: 'Transfer Report',
+        columns: [
+          column('Transfer Date', 'date', 12), column('Item Code', 'text', 14), column('Item', 'text', 22),
+          column('From', 'text', 16), column('To', 'text', 16), column('Quantity', 'integer', 8),
+          column('Status', 'text', 14), column('Recorded By', 'text', 14), column('Sender', 'text', 14),
+          column('Receiver', 'text', 14), column('Document No.', 'text', 16), column('Reason', 'text', 22)
+        ],
+        rows: mapBatches(
+          allPages(page => generateLocationHistoryReport({ ...input.filter, page, page_size: MAX_PAGE_SIZE }, locationIds)),
+          transfers => transfers.map(transfer => [
+            transfer.transfer_date, transfer.item_code, transfer.item_name, transfer.from_location_name, transfer.to_location_name,
+            transfer.quantity, STATUS_LABELS[transfer.status], transfer.recorded_by, transfer.sender_name, transfer.receiver_name,
+            transfer.handover_document_number, transfer.reason
+          ])
+        )
+      };
+
+    case 'inventory_summary': {
+      const summary = await generateInventorySummary(input.filter, locationIds);
+      const quantities = (groups: Record<string, number>) =>
+        Object.fromEntries(Object.entries(groups).map(([name, quantity]) => [name, [quantity, null]]));
+      return {
+        title: 'Inventory Summary',
+        columns: [column('Breakdown', 'text', 14), column('Group', 'text', 30), column('Quantity', 'integer', 12), column('Value', 'currency', 16)],
+        rows: summaryRows([
+          ...breakdownRows([
+            ['Category', quantities(summary.itemsByCategory)],
+            ['Location', quantities(summary.itemsByLocation)],
+            ['Condition', Object.fromEntries(Object.entries(summary.itemsByCondition).map(([condition, quantity]) =>
+              [CONDITION_LABELS[condition as ItemCondition] ?? condition, [quantity, null]]))]
+          ]),
+          ['Total', 'All items', summary.totalItems, summary.totalValue]
+        ])
+      };
+    }
+
+    case 'purchases_summary': {
+      const summary = await generatePurchaseSummary(input.filter, locationIds);
+      const totals = (groups: Record<string, { count: number; amount: number }>) =>
+        Object.fromEntries(Object.entries(groups).map(([name, group]) => [name, [group.count, group.amount]]));
+      return {
+        title: 'Purchase Summary',
+        columns: [column('Breakdown', 'text', 14), column('Group', 'text', 30), column('Purchases', 'integer', 12), column('Amount', 'currency', 16)],
+        rows: summaryRows([
+          ...breakdownRows([['Supplier', totals(summary.purchasesBySupplier)], ['Month', totals(summary.purchasesByMonth)]]),
+          ['Total', 'All purchases', summary.totalPurchases, summary.totalAmount]
+        ])
+      };
+    }
+
+    case 'location_history_summary': {
+      const summary = await generateLocationHistorySummary(input.filter, locationIds);
+      const counts = (groups: Record<string, number>) =>
+        Object.fromEntries(Object.entries(groups).map(([name, count]) => [name, [count]]));
+      return {
+        title: 'Transfer Summary',
+        columns: [column('Breakdown', 'text', 14), column('Group', 'text', 30), column('Transfers', 'integer', 12)],
+        rows: summaryRows([
+          ...breakdownRows([
+            ['Recorded by', counts(summary.transfersByUser)],
+            ['Sender', counts(summary.transfersBySender)],
+            ['Receiver', counts(summary.transfersByReceiver)],
+            ['Status', Object.fromEntries(Object.entries(summary.transfersByStatus).map(([status, count]) =>
+              [STATUS_LABELS[status as TransferStatus] ?? status, [count]]))]
+          ]),
+          ['Total', 'All transfers', summary.totalTransfers]
+        ])
+      };
+    }
+  }
+};
+
+// Summaries are computed here, so a failing query surfaces before the download starts;
+// detailed reports read their rows while the file is being written
+export async function createReportExport(input: ReportExportInput, locationIds: number[] | null = null, now = new Date()): Promise<ReportExport> {
+  try {
+    const names = await loadNames();
+    const table: ExportTable = {
+      ...await buildTable(input, locationIds),
+      filters: await describeFilters(input.filter, names),
+      generated_at: now
+    };
+    const format = FORMATS[input.format];
+    const stamp = formatExportDate(now).replace(/-/g, '');
+
+    return {
+      file_name: `${table.title.toLowerCase().replace(/\s+/g, '-')}-${stamp}.${format.extension}`,
+      content_type: format.content_type,
+      write: sink => format.writer(table, sink)
+    };
+  } catch (error) {
+    console.error('Report export failed:', error);
+    throw error;
+  }
+}
+
+export async function issueExportTicket(input: ReportExportInput, sessionId: string): Promise<{ ticket: string }> {
+  try {
+    const ticket = crypto.randomUUID();
+    await db.insert(exportTicketsTable)
+      .values({
+        id: ticket,
+        session_id: sessionId,
+        input,
+        expires_at: new Date(Date.now() + EXPORT_TICKET_SECONDS * 1000)
+      })
+      .execute();
+
+    return { ticket };
+  } catch (error) {
+    console.error('Export ticket creation failed:', error);
+    throw error;
+  }
+}
+
+// Each ticket works once; null when it is unknown, used or expired
+export async function redeemExportTicket(ticket: string): Promise<{ session_id: string; input: ReportExportInput } | null> {
+  try {
+    const redeemed = await db.delete(exportTicketsTable)
+      .where(eq(exportTicketsTable.id, ticket))
+      .returning()
+      .execute();
+
+    if (redeemed.length === 0 || redeemed[0].expires_at < new Date()) {
+      return null;
+    }
+
+    return { session_id: redeemed[0].session_id, input: reportExportInputSchema.parse(redeemed[0].input) };
+  } catch (error) {
+    console.error('Export ticket redemption failed:', error);
+    throw error;
+  }
+}
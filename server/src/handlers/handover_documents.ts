@@ -0,0 +1,230 @@
+import { db, type DbExecutor } from '../db';
+import {
+  documentSequencesTable,
+  locationHistoryTable,
+  transferManifestsTable,
+  inventoryItemsTable,
+  locationsTable,
+  usersTable
+} from '../db/schema';
+import { type HandoverDocument } from '../schema';
+import { eq, asc, inArray, sql } from 'drizzle-orm';
+import { isLocationAllowed } from './roles';
+import { recordAudit, type AuditActor } from './audit';
+import { TransferRuleError } from './location_history';
+
+type LocationRow = typeof locationsTable.$inferSelect;
+type TransferRow = typeof locationHistoryTable.$inferSelect;
+
+// Handovers that never happened do not get a document
+const UNPRINTABLE_STATUSES = ['pending_approval', 'rejected', 'cancelled'];
+
+// Numbers run per issuing branch and calendar year: JKT/2024/0001, JKT/2024/0002, ...
+const nextDocumentNumber = async (tx: DbExecutor, location: LocationRow, year: number): Promise<string> => {
+  const result = await tx.insert(documentSequencesTable)
+    .values({ location_id: location.id, year, last_number: 1 })
+    .onConflictDoUpdate({
+      target: [documentSequencesTable.location_id, documentSequencesTable.year],
+      set: { last_number: sql`${documentSequencesTable.last_number} + 1` }
+    })
+    .returning()
+    .execute();
+
+  return `${location.branch_code}/${year}/${String(result[0].last_number).padStart(4, '0')}`;
+};
+
+const findLocations = async (ids: (number | null)[]): Promise<Map<number, LocationRow>> => {
+  const locationIds = ids.filter((id): id is number => id !== null);
+  const locations = await db.select()
+    .from(locationsTable)
+    .where(inArray(locationsTable.id, locationIds))
+    .execute();
+
+  return new Map(locations.map(location => [location.id, location]));
+};
+
+const findUsername = async (userId: number | null): Promise<string | null> => {
+  if (userId === null) {
+    return null;
+  }
+
+  const users = await db.select({ username: usersTable.username })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  return users[0]?.username ?? null;
+};
+
+const describeLocation = (location: LocationRow) => ({
+  name: location.name,
+  branch_code: location.branch_code,
+  address: location.address
+});
+
+const describeItems = async (transfers: TransferRow[]): Promise<HandoverDocument['items']> => {
+  const items = await db.select()
+    .from(inventoryItemsTable)
+    .where(inArray(inventoryItemsTable.id, transfers.map(transfer => transfer.item_id)))
+    .execute();
+
+  return transfers.map(transfer => {
+    const item = items.find(item => item.id === transfer.item_id)!;
+    return {
+      item_code: item.item_code,
+      name: item.name,
+      condition: item.condition,
+      quantity: transfer.quantity ?? item.quantity,
+      receipt_status: transfer.receipt_status
+    };
+  });
+};
+
+// Returns the handover record for a single transfer, numbering it the first time it is printed
+export async function issueTransferHandoverDocument(transferId: number, locationIds: number[] | null = null, actor: AuditActor = null): Promise<HandoverDocument> {
+  try {
+    const transfers = await db.select()
+      .from(locationHistoryTable)
+      .where(eq(locationHistoryTable.id, transferId))
+      .execute();
+
+    const transfer = transfers[0];
+    if (!transfer || !(isLocationAllowed(locationIds, transfer.from_location_id) || isLocationAllowed(locationIds, transfer.to_location_id))) {
+      throw new Error(`Location history with ID ${transferId} does not exist`);
+    }
+
+    if (transfer.manifest_id !== null) {
+      throw new TransferRuleError(`Transfer ${transferId} belongs to manifest ${transfer.manifest_id}; print the manifest's handover document instead`);
+    }
+
+    if (UNPRINTABLE_STATUSES.includes(transfer.status)) {
+      throw new TransferRuleError(`Transfer ${transferId} is ${transfer.status} and has no handover document`);
+    }
+
+    const locations = await findLocations([transfer.from_location_id, transfer.to_location_id]);
+    let documentNumber = transfer.handover_document_number;
+
+    if (documentNumber === null) {
+      const issuer = locations.get(transfer.from_location_id ?? transfer.to_location_id)!;
+
+      documentNumber = await db.transaction(async (tx) => {
+        // Someone else may have printed it in the meantime
+        const locked = await tx.select()
+          .from(locationHistoryTable)
+          .where(eq(locationHistoryTable.id, transferId))
+          .for('update')
+          .execute();
+
+        if (locked[0].handover_document_number !== null) {
+          return locked[0].handover_document_number;
+        }
+
+        const number = await nextDocumentNumber(tx, issuer, new Date().getFullYear());
+        const result = await tx.update(locationHistoryTable)
+          .set({ handover_document_number: number, updated_at: new Date() })
+          .where(eq(locationHistoryTable.id, transferId))
+          .returning()
+          .execute();
+
+        await recordAudit({ actor, action: 'update', entity_type: 'location_history', entity_id: transferId, before: locked[0], after: result[0] }, tx);
+        return number;
+      });
+    }
+
+    return {
+      document_number: documentNumber,
+      source: 'transfer',
+      source_id: transfer.id,
+      transfer_date: transfer.transfer_date,
+      from_location: transfer.from_location_id !== null ? describeLocation(locations.get(transfer.from_location_id)!) : null,
+      to_location: describeLocation(locations.get(transfer.to_location_id)!),
+      sender: await findUsername(transfer.sender_id),
+      receiver: await findUsername(transfer.receiver_id),
+      reason: transfer.reason,
+      notes: transfer.notes,
+      courier: null,
+      tracking_number: null,
+      items: await describeItems([transfer])
+    };
+  } catch (error) {
+    console.error('Failed to issue transfer handover document:', error);
+    throw error;
+  }
+}
+
+// Returns one handover record covering every item shipped on a manifest
+export async function issueManifestHandoverDocument(manifestId: number, locationIds: number[] | null = null, actor: AuditActor = null): Promise<HandoverDocument> {
+  try {
+    const manifests = await db.select()
+      .from(transferManifestsTable)
+      .where(eq(transferManifestsTable.id, manifestId))
+      .execute();
+
+    const manifest = manifests[0];
+    if (!manifest || !(isLocationAllowed(locationIds, manifest.from_location_id) || isLocationAllowed(locationIds, manifest.to_location_id))) {
+      throw new Error(`Manifest with ID ${manifestId} does not exist`);
+    }
+
+    // Missing items stay on the record so the receipt shows what did not arrive
+    const transfers = (await db.select()
+      .from(locationHistoryTable)
+      .where(eq(locationHistoryTable.manifest_id, manifestId))
+      .orderBy(asc(locationHistoryTable.id))
+      .execute())
+      .filter(transfer => !UNPRINTABLE_STATUSES.includes(transfer.status) || transfer.receipt_status === 'missing');
+
+    if (manifest.status === 'cancelled' || transfers.length === 0) {
+      throw new TransferRuleError(`Manifest ${manifestId} has no items to hand over`);
+    }
+
+    const locations = await findLocations([manifest.from_location_id, manifest.to_location_id]);
+    let documentNumber = manifest.handover_document_number;
+
+    if (documentNumber === null) {
+      const issuer = locations.get(manifest.from_location_id)!;
+
+      documentNumber = await db.transaction(async (tx) => {
+        // Someone else may have printed it in the meantime
+        const locked = await tx.select()
+          .from(transferManifestsTable)
+          .where(eq(transferManifestsTable.id, manifestId))
+          .for('update')
+          .execute();
+
+        if (locked[0].handover_document_number !== null) {
+          return locked[0].handover_document_number;
+        }
+
+        const number = await nextDocumentNumber(tx, issuer, new Date().getFullYear());
+        const result = await tx.update(transferManifestsTable)
+          .set({ handover_document_number: number, updated_at: new Date() })
+          .where(eq(transferManifestsTable.id, manifestId))
+          .returning()
+          .execute();
+
+        await recordAudit({ actor, action: 'update', entity_type: 'transfer_manifest', entity_id: manifestId, before: locked[0], after: result[0] }, tx);
+        return number;
+      });
+    }
+
+    // Every line of a manifest shares the same handover parties
+    return {
+      document_number: documentNumber,
+      source: 'manifest',
+      source_id: manifest.id,
+      transfer_date: transfers[0].transfer_date,
+      from_location: describeLocation(locations.get(manifest.from_location_id)!),
+      to_location: describeLocation(locations.get(manifest.to_location_id)!),
+      sender: await findUsername(transfers[0].sender_id),
+      receiver: await findUsername(transfers[0].receiver_id),
+      reason: transfers[0].reason,
+      notes: manifest.notes,
+      courier: manifest.courier,
+      tracking_number: manifest.tracking_number,
+      items: await describeItems(transfers)
+    };
+  } catch (error) {
+    console.error('Failed to issue manifest handover document:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,107 @@
+import { db, type DbExecutor } from '../db';
+import { importJobsTable, usersTable } from '../db/schema';
+import {
+  type BatchImportMode,
+  type BatchImportMissingItem,
+  type BatchImportRowResult,
+  type ImportJob,
+  type ImportJobDetail,
+  type ImportJobFilter
+} from '../schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { type AuditActor } from './audit';
+
+interface ImportJobRecord {
+  mode: BatchImportMode;
+  file_name: string | null;
+  rolled_back: boolean;
+  rows: BatchImportRowResult[];
+  missing: BatchImportMissingItem[];
+}
+
+const countStatus = (rows: BatchImportRowResult[], status: BatchImportRowResult['status']) =>
+  rows.filter(row => row.status === status).length;
+
+// Pass the import's transaction as `executor` so the job is only kept with the changes it lists
+export async function recordImportJob(record: ImportJobRecord, actor: AuditActor, executor: DbExecutor = db): Promise<number> {
+  const result = await executor.insert(importJobsTable)
+    .values({
+      mode: record.mode,
+      file_name: record.file_name,
+      rolled_back: record.rolled_back,
+      created_count: countStatus(record.rows, 'created'),
+      updated_count: countStatus(record.rows, 'updated'),
+      unchanged_count: countStatus(record.rows, 'unchanged'),
+      skipped_count: countStatus(record.rows, 'skipped'),
+      error_count: countStatus(record.rows, 'error'),
+      missing_count: record.missing.length,
+      rows: record.rows,
+      missing: record.missing,
+      created_by_id: actor?.id ?? null
+    })
+    .returning({ id: importJobsTable.id })
+    .execute();
+
+  return result[0].id;
+}
+
+const jobColumns = {
+  id: importJobsTable.id,
+  mode: importJobsTable.mode,
+  file_name: importJobsTable.file_name,
+  rolled_back: importJobsTable.rolled_back,
+  created_count: importJobsTable.created_count,
+  updated_count: importJobsTable.updated_count,
+  unchanged_count: importJobsTable.unchanged_count,
+  skipped_count: importJobsTable.skipped_count,
+  error_count: importJobsTable.error_count,
+  missing_count: importJobsTable.missing_count,
+  created_by: usersTable.username,
+  created_at: importJobsTable.created_at
+};
+
+// Most recent first. Pass `createdById` to list only that user's imports.
+export async function getImportJobs(filter: ImportJobFilter, createdById: number | null = null): Promise<ImportJob[]> {
+  try {
+    return await db.select(jobColumns)
+      .from(importJobsTable)
+      .leftJoin(usersTable, eq(importJobsTable.created_by_id, usersTable.id))
+      .where(createdById !== null ? eq(importJobsTable.created_by_id, createdById) : undefined)
+      .orderBy(desc(importJobsTable.created_at), desc(importJobsTable.id))
+      .limit(filter.limit)
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch import jobs:', error);
+    throw error;
+  }
+}
+
+export async function getImportJobById(id: number, createdById: number | null = null): Promise<ImportJobDetail | null> {
+  try {
+    const results = await db.select({
+      ...jobColumns,
+      rows: importJobsTable.rows,
+      missing: importJobsTable.missing
+    })
+      .from(importJobsTable)
+      .leftJoin(usersTable, eq(importJobsTable.created_by_id, usersTable.id))
+      .where(and(
+        eq(importJobsTable.id, id),
+        createdById !== null ? eq(importJobsTable.created_by_id, createdById) : undefined
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return {
+      ...results[0],
+      rows: results[0].rows as BatchImportRowResult[],
+      missing: results[0].missing as BatchImportMissingItem[]
+    };
+  } catch (error) {
+    console.error('Failed to fetch import job:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { importTemplatesTable } from '../db/schema';
+import { type ImportTemplate, type SaveImportTemplateInput } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { recordAudit, type AuditActor } from './audit';
+
+export async function getImportTemplates(): Promise<ImportTemplate[]> {
+  try {
+    return await db.select()
+      .from(importTemplatesTable)
+      .orderBy(asc(importTemplatesTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch import templates:', error);
+    throw error;
+  }
+}
+
+// Saving under an existing name replaces that template's mapping
+export async function saveImportTemplate(input: SaveImportTemplateInput, actor: AuditActor = null): Promise<ImportTemplate> {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(importTemplatesTable)
+        .where(eq(importTemplatesTable.name, input.name))
+        .execute();
+
+      if (existing.length > 0) {
+        const result = await tx.update(importTemplatesTable)
+          .set({ mapping: input.mapping, updated_at: new Date() })
+          .where(eq(importTemplatesTable.id, existing[0].id))
+          .returning()
+          .execute();
+        await recordAudit({ actor, action: 'update', entity_type: 'import_template', entity_id: result[0].id, before: existing[0], after: result[0] }, tx);
+        return result[0];
+      }
+
+      const result = await tx.insert(importTemplatesTable)
+        .values({
+          name: input.name,
+          mapping: input.mapping,
+          created_by_id: actor?.id ?? null
+        })
+        .returning()
+        .execute();
+      await recordAudit({ actor, action: 'create', entity_type: 'import_template', entity_id: result[0].id, after: result[0] }, tx);
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Import template save failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteImportTemplate(id: number, actor: AuditActor = null): Promise<boolean> {
+  try {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(importTemplatesTable)
+        .where(eq(importTemplatesTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAudit({ actor, action: 'delete', entity_type: 'import_template', entity_id: id, before: result[0] }, tx);
+      }
+
+      return result.length > 0;
+    });
+  } catch (error) {
+    console.error('Import template deletion failed:', error);
+    throw error;
+  }
+}
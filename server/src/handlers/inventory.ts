@@ -1,13 +1,48 @@
 import { db } from '../db';
 import { inventoryItemsTable, categoriesTable, locationsTable } from '../db/schema';
-import { type InventoryItem, type CreateInventoryItemInput, type UpdateInventoryItemInput, type BatchImportInput } from '../schema';
-import { eq, and, SQL } from 'drizzle-orm';
-
-export async function getInventoryItems(): Promise<InventoryItem[]> {
+import {
+  type InventoryItem,
+  type ItemCondition,
+  type ItemStock,
+  type CreateInventoryItemInput,
+  type UpdateInventoryItemInput,
+  type BatchImportInput,
+  type BatchImportResult,
+  type BatchImportRowResult,
+  type BatchImportItem,
+  type BatchImportMissingItem,
+  type UnknownReference,
+  batchImportItemSchema,
+  type InventoryReportFilter,
+  type InventoryListInput,
+  type InventorySortField,
+  type Paginated
+} from '../schema';
+import { eq, ne, and, or, asc, gte, lte, ilike, count, inArray, sql, SQL, TransactionRollbackError, type AnyColumn } from 'drizzle-orm';
+import { isLocationAllowed } from './roles';
+import { newBranchCode } from './locations';
+import { pageWindow, emptyPage, sortOrder, containsPattern } from './pagination';
+import { recordAudit, type AuditActor } from './audit';
+import { recordImportJob } from './import_jobs';
+import { closestNames, type NameCandidate } from './name_matching';
+
+// `locationIds` restricts location-scoped callers to their assigned locations (null = unrestricted)
+
+export async function getInventoryItems(locationIds: number[] | null = null): Promise<InventoryItem[]> {
   try {
-    const results = await db.select()
+    if (locationIds !== null && locationIds.length === 0) {
+      return [];
+    }
+
+    const baseQuery = db.select()
       .from(inventoryItemsTable)
-      .execute();
+      .$dynamic();
+
+    const query = locationIds !== null
+      ? baseQuery.where(inArray(inventoryItemsTable.location_id, locationIds))
+      : baseQuery;
+
+    const results = await query.execute();
 
     return results.map(item => ({
       ...item,
@@ -19,14 +54,114 @@ export async function getInventoryItems(): Promise<InventoryItem[]> {
   }
 }
 
-export async function getInventoryItemById(id: number): Promise<InventoryItem | null> {
+// Shared by the inventory list, report and summary so they always agree on what a filter matches
+export const inventoryFilterConditions = (filter: InventoryReportFilter, locationIds: number[] | null): SQL<unknown>[] => {
+  const conditions: SQL<unknown>[] = [];
+
+  if (filter.search) {
+    const pattern = containsPattern(filter.search.trim());
+    conditions.push(or(ilike(inventoryItemsTable.item_code, pattern), ilike(inventoryItemsTable.name, pattern))!);
+  }
+
+  if (filter.category_id !== undefined) {
+    conditions.push(eq(inventoryItemsTable.category_id, filter.category_id));
+  }
+
+  if (filter.location_id !== undefined) {
+    conditions.push(eq(inventoryItemsTable.location_id, filter.location_id));
+  }
+
+  if (filter.condition !== undefined) {
+    conditions.push(eq(inventoryItemsTable.condition, filter.condition));
+  }
+
+  if (filter.date_from !== undefined) {
+    conditions.push(gte(inventoryItemsTable.purchase_date, filter.date_from));
+  }
+
+  if (filter.date_to !== undefined) {
+    conditions.push(lte(inventoryItemsTable.purchase_date, filter.date_to));
+  }
+
+  if (locationIds !== null) {
+    conditions.push(inArray(inventoryItemsTable.location_id, locationIds));
+  }
+
+  return conditions;
+};
+
+export const inventorySortColumns: Record<InventorySortField, AnyColumn> = {
+  item_code: inventoryItemsTable.item_code,
+  name: inventoryItemsTable.name,
+  category: categoriesTable.name,
+  location: locationsTable.name,
+  condition: inventoryItemsTable.condition,
+  quantity: inventoryItemsTable.quantity,
+  purchase_price: inventoryItemsTable.purchase_price,
+  purchase_date: inventoryItemsTable.purchase_date,
+  updated_at: inventoryItemsTable.updated_at
+};
+
+export async function listInventoryItems(input: InventoryListInput, locationIds: number[] | null = null): Promise<Paginated<InventoryItem>> {
+  try {
+    if (locationIds !== null && locationIds.length === 0) {
+      return emptyPage(input);
+    }
+
+    const { page, pageSize, offset } = pageWindow(input);
+    const where = and(...inventoryFilterConditions(input, locationIds));
+
+    const totals = await db.select({ count: count() })
+      .from(inventoryItemsTable)
+      .where(where)
+      .execute();
+
+    const results = await db.select({
+      id: inventoryItemsTable.id,
+      item_code: inventoryItemsTable.item_code,
+      name: inventoryItemsTable.name,
+      description: inventoryItemsTable.description,
+      category_id: inventoryItemsTable.category_id,
+      location_id: inventoryItemsTable.location_id,
+      condition: inventoryItemsTable.condition,
+      quantity: inventoryItemsTable.quantity,
+      purchase_price: inventoryItemsTable.purchase_price,
+      purchase_date: inventoryItemsTable.purchase_date,
+      created_at: inventoryItemsTable.created_at,
+      updated_at: inventoryItemsTable.updated_at
+    })
+      .from(inventoryItemsTable)
+      .innerJoin(categoriesTable, eq(inventoryItemsTable.category_id, categoriesTable.id))
+      .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+      .where(where)
+      .orderBy(...sortOrder(input.sort, inventorySortColumns, [asc(inventoryItemsTable.item_code), asc(inventoryItemsTable.id)]))
+      .limit(pageSize)
+      .offset(offset)
+      .execute();
+
+    return {
+      items: results.map(item => ({
+        ...item,
+        purchase_price: parseFloat(item.purchase_price)
+      })),
+      total: totals[0].count,
+      page,
+      page_size: pageSize
+    };
+  } catch (error) {
+    console.error('Failed to list inventory items:', error);
+    throw error;
+  }
+}
+
+export async function getInventoryItemById(id: number, locationIds: number[] | null = null): Promise<InventoryItem | null> {
   try {
     const results = await db.select()
       .from(inventoryItemsTable)
       .where(eq(inventoryItemsTable.id, id))
       .execute();
 
-    if (results.length === 0) {
+    if (results.length === 0 || !isLocationAllowed(locationIds, results[0].location_id)) {
       return null;
     }
 
@@ -41,18 +176,20 @@ export async function getInventoryItemById(id: number): Promise<InventoryItem |
   }
 }
 
-export async function getInventoryItemByCode(code: string): Promise<InventoryItem | null> {
+export async function getInventoryItemByCode(code: string, locationIds: number[] | null = null): Promise<InventoryItem | null> {
   try {
     const results = await db.select()
       .from(inventoryItemsTable)
       .where(eq(inventoryItemsTable.item_code, code))
+      .orderBy(asc(inventoryItemsTable.id))
       .execute();
 
-    if (results.length === 0) {
+    // A code split across locations has one row per location and condition; return the first the caller may see
+    const item = results.find(result => isLocationAllowed(locationIds, result.location_id));
+    if (!item) {
       return null;
     }
 
-    const item = results[0];
     return {
       ...item,
       purchase_price: parseFloat(item.purchase_price)
@@ -63,8 +200,53 @@ export async function getInventoryItemByCode(code: string): Promise<InventoryIte
   }
 }
 
-export async function createInventoryItem(input: CreateInventoryItemInput): Promise<InventoryItem> {
+export async function getItemStock(code: string, locationIds: number[] | null = null): Promise<ItemStock[]> {
+  try {
+    const results = await db.select({
+      item_id: inventoryItemsTable.id,
+      location_id: inventoryItemsTable.location_id,
+      location_name: locationsTable.name,
+      branch_code: locationsTable.branch_code,
+      condition: inventoryItemsTable.condition,
+      quantity: inventoryItemsTable.quantity
+    })
+      .from(inventoryItemsTable)
+      .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+      .where(eq(inventoryItemsTable.item_code, code))
+      .orderBy(asc(locationsTable.name))
+      .execute();
+
+    return results.filter(stock => isLocationAllowed(locationIds, stock.location_id));
+  } catch (error) {
+    console.error('Failed to fetch item stock:', error);
+    throw error;
+  }
+}
+
+// A location holds one row per item code and condition, which stock moves add to
+const ensureItemRowFree = async (itemCode: string, locationId: number, condition: ItemCondition, exceptId?: number) => {
+  const existing = await db.select({ location_name: locationsTable.name })
+    .from(inventoryItemsTable)
+    .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+    .where(and(
+      eq(inventoryItemsTable.item_code, itemCode),
+      eq(inventoryItemsTable.location_id, locationId),
+      eq(inventoryItemsTable.condition, condition),
+      exceptId !== undefined ? ne(inventoryItemsTable.id, exceptId) : undefined
+    ))
+    .execute();
+
+  if (existing.length > 0) {
+    throw new Error(`Item code "${itemCode}" already exists at ${existing[0].location_name} in ${condition} condition`);
+  }
+};
+
+export async function createInventoryItem(input: CreateInventoryItemInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<InventoryItem> {
   try {
+    if (!isLocationAllowed(locationIds, input.location_id)) {
+      throw new Error(`Location with ID ${input.location_id} is outside your assigned locations`);
+    }
+
     // Verify category exists
     const categoryExists = await db.select()
       .from(categoriesTable)
@@ -85,33 +267,39 @@ export async function createInventoryItem(input: CreateInventoryItemInput): Prom
       throw new Error(`Location with ID ${input.location_id} does not exist`);
     }
 
-    const results = await db.insert(inventoryItemsTable)
-      .values({
-        item_code: input.item_code,
-        name: input.name,
-        description: input.description,
-        category_id: input.category_id,
-        location_id: input.location_id,
-        condition: input.condition,
-        quantity: input.quantity,
-        purchase_price: input.purchase_price.toString(),
-        purchase_date: input.purchase_date
-      })
-      .returning()
-      .execute();
+    await ensureItemRowFree(input.item_code, input.location_id, input.condition);
+
+    return await db.transaction(async (tx) => {
+      const results = await tx.insert(inventoryItemsTable)
+        .values({
+          item_code: input.item_code,
+          name: input.name,
+          description: input.description,
+          category_id: input.category_id,
+          location_id: input.location_id,
+          condition: input.condition,
+          quantity: input.quantity,
+          purchase_price: input.purchase_price.toString(),
+          purchase_date: input.purchase_date
+        })
+        .returning()
+        .execute();
 
-    const item = results[0];
-    return {
-      ...item,
-      purchase_price: parseFloat(item.purchase_price)
-    };
+      await recordAudit({ actor, action: 'create', entity_type: 'inventory_item', entity_id: results[0].id, after: results[0] }, tx);
+
+      const item = results[0];
+      return {
+        ...item,
+        purchase_price: parseFloat(item.purchase_price)
+      };
+    });
   } catch (error) {
     console.error('Failed to create inventory item:', error);
     throw error;
   }
 }
 
-export async function updateInventoryItem(input: UpdateInventoryItemInput): Promise<InventoryItem> {
+export async function updateInventoryItem(input: UpdateInventoryItemInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<InventoryItem> {
   try {
     // Verify item exists
     const existingItem = await db.select()
@@ -119,10 +307,14 @@ export async function updateInventoryItem(input: UpdateInventoryItemInput): Prom
       .where(eq(inventoryItemsTable.id, input.id))
       .execute();
 
-    if (existingItem.length === 0) {
+    if (existingItem.length === 0 || !isLocationAllowed(locationIds, existingItem[0].location_id)) {
       throw new Error(`Inventory item with ID ${input.id} does not exist`);
     }
 
+    if (input.location_id !== undefined && !isLocationAllowed(locationIds, input.location_id)) {
+      throw new Error(`Location with ID ${input.location_id} is outside your assigned locations`);
+    }
+
     // Verify category exists if provided
     if (input.category_id !== undefined) {
       const categoryExists = await db.select()
@@ -147,6 +339,15 @@ export async function updateInventoryItem(input: UpdateInventoryItemInput): Prom
       }
     }
 
+    if (input.item_code !== undefined || input.location_id !== undefined || input.condition !== undefined) {
+      await ensureItemRowFree(
+        input.item_code ?? existingItem[0].item_code,
+        input.location_id ?? existingItem[0].location_id,
+        input.condition ?? existingItem[0].condition,
+        input.id
+      );
+    }
+
     // Build update values, excluding undefined fields
     const updateValues: any = {
       updated_at: new Date()
@@ -162,24 +363,28 @@ export async function updateInventoryItem(input: UpdateInventoryItemInput): Prom
     if (input.purchase_price !== undefined) updateValues.purchase_price = input.purchase_price.toString();
     if (input.purchase_date !== undefined) updateValues.purchase_date = input.purchase_date;
 
-    const results = await db.update(inventoryItemsTable)
-      .set(updateValues)
-      .where(eq(inventoryItemsTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const results = await tx.update(inventoryItemsTable)
+        .set(updateValues)
+        .where(eq(inventoryItemsTable.id, input.id))
+        .returning()
+        .execute();
 
-    const item = results[0];
-    return {
-      ...item,
-      purchase_price: parseFloat(item.purchase_price)
-    };
+      await recordAudit({ actor, action: 'update', entity_type: 'inventory_item', entity_id: input.id, before: existingItem[0], after: results[0] }, tx);
+
+      const item = results[0];
+      return {
+        ...item,
+        purchase_price: parseFloat(item.purchase_price)
+      };
+    });
   } catch (error) {
     console.error('Failed to update inventory item:', error);
     throw error;
   }
 }
 
-export async function deleteInventoryItem(id: number): Promise<boolean> {
+export async function deleteInventoryItem(id: number, locationIds: number[] | null = null, actor: AuditActor = null): Promise<boolean> {
   try {
     // Verify item exists
     const existingItem = await db.select()
@@ -187,94 +392,308 @@ export async function deleteInventoryItem(id: number): Promise<boolean> {
       .where(eq(inventoryItemsTable.id, id))
       .execute();
 
-    if (existingItem.length === 0) {
+    if (existingItem.length === 0 || !isLocationAllowed(locationIds, existingItem[0].location_id)) {
       throw new Error(`Inventory item with ID ${id} does not exist`);
     }
 
-    await db.delete(inventoryItemsTable)
-      .where(eq(inventoryItemsTable.id, id))
-      .execute();
+    return await db.transaction(async (tx) => {
+      await tx.delete(inventoryItemsTable)
+        .where(eq(inventoryItemsTable.id, id))
+        .execute();
+
+      await recordAudit({ actor, action: 'delete', entity_type: 'inventory_item', entity_id: id, before: existingItem[0] }, tx);
 
-    return true;
+      return true;
+    });
   } catch (error) {
     console.error('Failed to delete inventory item:', error);
     throw error;
   }
 }
 
-export async function batchImportItems(input: BatchImportInput): Promise<{ success: number; errors: string[] }> {
+type InventoryItemRow = typeof inventoryItemsTable.$inferSelect;
+
+// Fields of an existing item that an import row would change
+const importChanges = (existing: InventoryItemRow, item: BatchImportItem, categoryId: number): Partial<InventoryItemRow> => {
+  const changes: Partial<InventoryItemRow> = {};
+  if (existing.name !== item.name) changes.name = item.name;
+  if (existing.description !== item.description) changes.description = item.description;
+  if (existing.category_id !== categoryId) changes.category_id = categoryId;
+  if (existing.condition !== item.condition) changes.condition = item.condition;
+  if (existing.quantity !== item.quantity) changes.quantity = item.quantity;
+  if (parseFloat(existing.purchase_price) !== item.purchase_price) changes.purchase_price = item.purchase_price.toString();
+  if (existing.purchase_date.getTime() !== item.purchase_date.getTime()) changes.purchase_date = item.purchase_date;
+  return changes;
+};
+
+// Rows are matched to items on item code at the row's location; `mode` decides what happens to
+// matches and non-matches, and `on_unknown_reference` to category and location names that match
+// no record. Each row is validated and imported in its own savepoint, so a failing
+// row leaves nothing behind, not even the category or location it would have created. With
+// `all_or_nothing` any failure rolls back the batch, and a dry run always rolls back, reporting
+// what the import would have done. Committed runs are recorded as an import job.
+export async function batchImportItems(input: BatchImportInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<BatchImportResult> {
   try {
-    let successCount = 0;
-    const errors: string[] = [];
-
-    // Get all existing categories and locations
-    const categories = await db.select().from(categoriesTable).execute();
-    const locations = await db.select().from(locationsTable).execute();
-
-    const categoryMap = new Map(categories.map(c => [c.name.toLowerCase(), c.id]));
-    const locationMap = new Map(locations.map(l => [l.name.toLowerCase(), l.id]));
-
-    for (let i = 0; i < input.items.length; i++) {
-      const item = input.items[i];
-      try {
-        // Find or create category
-        let categoryId = categoryMap.get(item.category_name.toLowerCase());
-        if (!categoryId) {
-          const newCategory = await db.insert(categoriesTable)
-            .values({
-              name: item.category_name,
-              description: null
-            })
-            .returning()
-            .execute();
-          categoryId = newCategory[0].id;
-          categoryMap.set(item.category_name.toLowerCase(), categoryId);
+    const mode = input.mode ?? 'insert';
+    const onUnknown = input.on_unknown_reference ?? 'create';
+    const rows: BatchImportRowResult[] = [];
+    const unknownReferences = new Map<string, UnknownReference>();
+    let missing: BatchImportMissingItem[] = [];
+    let rolledBack = false;
+    let jobId: number | null = null;
+
+    try {
+      await db.transaction(async (tx) => {
+        // Get all existing categories and locations
+        const categories = await tx.select().from(categoriesTable).execute();
+        const locations = await tx.select().from(locationsTable).execute();
+
+        const categoryMap = new Map(categories.map(c => [c.name.toLowerCase(), c.id]));
+        const locationMap = new Map(locations.map(l => [l.name.toLowerCase(), l.id]));
+        const usedBranchCodes = new Set(locations.map(l => l.branch_code));
+
+        // Confirmed matches, keeping only ones that point at a record; reject mode accepts none
+        const confirmedMatches = (matches: Record<string, number> | undefined, records: { id: number }[]) => new Map(
+          Object.entries(onUnknown === 'reject' ? {} : matches ?? {})
+            .filter(([, id]) => records.some(record => record.id === id))
+            .map(([name, id]) => [name.toLowerCase(), id])
+        );
+        const categoryMatches = confirmedMatches(input.category_matches, categories);
+        const locationMatches = confirmedMatches(input.location_matches, locations);
+
+        const categoryCandidates: NameCandidate[] = categories.map(c => ({ id: c.id, name: c.name }));
+        const locationCandidates: NameCandidate[] = locations
+          .filter(l => isLocationAllowed(locationIds, l.id))
+          .map(l => ({ id: l.id, name: l.name, aliases: [l.branch_code] }));
+
+        const noteUnknown = (kind: UnknownReference['kind'], name: string, rowNumber: number) => {
+          const key = `${kind}:${name.toLowerCase()}`;
+          const known = unknownReferences.get(key);
+          if (known) {
+            known.rows.push(rowNumber);
+            return;
+          }
+          const suggestions = closestNames(name, kind === 'category' ? categoryCandidates : locationCandidates);
+          unknownReferences.set(key, { kind, name, rows: [rowNumber], suggestions: suggestions.map(({ id, name }) => ({ id, name })) });
+        };
+
+        const unknownError = (kind: UnknownReference['kind'], name: string) => {
+          const suggestions = unknownReferences.get(`${kind}:${name.toLowerCase()}`)?.suggestions ?? [];
+          const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.map(suggestion => `"${suggestion.name}"`).join(', ')}?)` : '';
+          return new Error(`Unknown ${kind} "${name}"${hint}`);
+        };
+        // Item codes per location that appear in the file, for finding what a sync leaves out
+        const listedCodes = new Map<number, Set<string>>();
+
+        for (let i = 0; i < input.items.length; i++) {
+          const rawCode = input.items[i]['item_code'];
+          const result: BatchImportRowResult = {
+            row: i + 1,
+            item_code: rawCode !== null && rawCode !== undefined ? String(rawCode).trim() || null : null,
+            item_id: null,
+            status: 'error',
+            errors: [],
+            changes: [],
+            new_category: null,
+            new_location: null
+          };
+          rows.push(result);
+
+          const parsed = batchImportItemSchema.safeParse(input.items[i]);
+          if (!parsed.success) {
+            result.errors = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+            continue;
+          }
+          const item = parsed.data;
+
+          // Names no record or confirmed match covers
+          if (!categoryMap.has(item.category_name.toLowerCase()) && !categoryMatches.has(item.category_name.toLowerCase())) {
+            noteUnknown('category', item.category_name, i + 1);
+          }
+          if (!locationMap.has(item.location_name.toLowerCase()) && !locationMatches.has(item.location_name.toLowerCase())) {
+            noteUnknown('location', item.location_name, i + 1);
+          }
+
+          try {
+            const imported = await tx.transaction(async (row) => {
+              let locationId = locationMap.get(item.location_name.toLowerCase()) ?? locationMatches.get(item.location_name.toLowerCase());
+              if (locationIds !== null && !isLocationAllowed(locationIds, locationId ?? null)) {
+                // Scoped users can only import into their existing assigned locations
+                throw new Error(`Location "${item.location_name}" is outside your assigned locations`);
+              }
+
+              const existing = locationId === undefined ? [] : await row.select()
+                .from(inventoryItemsTable)
+                .where(and(eq(inventoryItemsTable.item_code, item.item_code), eq(inventoryItemsTable.location_id, locationId)))
+                // A location may hold the code in several conditions; prefer the row in the file's condition
+                .orderBy(sql`${inventoryItemsTable.condition} <> ${item.condition}`, asc(inventoryItemsTable.id))
+                .execute();
+
+              if (existing.length > 0 && mode === 'insert') {
+                throw new Error(`Item code "${item.item_code}" already exists at ${item.location_name}`);
+              }
+              if (existing.length === 0 && mode === 'update') {
+                // Nothing to update, and this mode never creates items
+                return { status: 'skipped' as const, itemId: null, categoryId: null, locationId: locationId ?? null, branchCode: null };
+              }
+
+              // Find or create category
+              let categoryId = categoryMap.get(item.category_name.toLowerCase()) ?? categoryMatches.get(item.category_name.toLowerCase());
+              if (!categoryId) {
+                if (onUnknown !== 'create') {
+                  throw unknownError('category', item.category_name);
+                }
+                const newCategory = await row.insert(categoriesTable)
+                  .values({
+                    name: item.category_name,
+                    description: null
+                  })
+                  .returning()
+                  .execute();
+                categoryId = newCategory[0].id;
+                result.new_category = item.category_name;
+                await recordAudit({ actor, action: 'create', entity_type: 'category', entity_id: categoryId, after: newCategory[0] }, row);
+              }
+
+              if (existing.length > 0) {
+                const changes = importChanges(existing[0], item, categoryId);
+                result.changes = Object.keys(changes);
+                if (result.changes.length === 0) {
+                  return { status: 'unchanged' as const, itemId: existing[0].id, categoryId, locationId: existing[0].location_id, branchCode: null };
+                }
+
+                const updated = await row.update(inventoryItemsTable)
+                  .set({ ...changes, updated_at: new Date() })
+                  .where(eq(inventoryItemsTable.id, existing[0].id))
+                  .returning()
+                  .execute();
+                await recordAudit({ actor, action: 'update', entity_type: 'inventory_item', entity_id: existing[0].id, before: existing[0], after: updated[0] }, row);
+                return { status: 'updated' as const, itemId: existing[0].id, categoryId, locationId: existing[0].location_id, branchCode: null };
+              }
+
+              // Find or create location
+              let branchCode: string | null = null;
+              if (!locationId) {
+                if (onUnknown !== 'create') {
+                  throw unknownError('location', item.location_name);
+                }
+                branchCode = newBranchCode(item.location_name, usedBranchCodes);
+                const newLocation = await row.insert(locationsTable)
+                  .values({
+                    name: item.location_name,
+                    branch_code: branchCode,
+                    address: null
+                  })
+                  .returning()
+                  .execute();
+                locationId = newLocation[0].id;
+                result.new_location = item.location_name;
+                await recordAudit({ actor, action: 'create', entity_type: 'location', entity_id: locationId, after: newLocation[0] }, row);
+              }
+
+              // Create inventory item
+              const newItem = await row.insert(inventoryItemsTable)
+                .values({
+                  item_code: item.item_code,
+                  name: item.name,
+                  description: item.description,
+                  category_id: categoryId,
+                  location_id: locationId,
+                  condition: item.condition,
+                  quantity: item.quantity,
+                  purchase_price: item.purchase_price.toString(),
+                  purchase_date: item.purchase_date
+                })
+                .returning()
+                .execute();
+              await recordAudit({ actor, action: 'create', entity_type: 'inventory_item', entity_id: newItem[0].id, after: newItem[0] }, row);
+
+              return { status: 'created' as const, itemId: newItem[0].id, categoryId, locationId, branchCode };
+            });
+
+            // Only remember what the row created once it has been kept
+            if (imported.categoryId !== null) {
+              categoryMap.set(item.category_name.toLowerCase(), imported.categoryId);
+            }
+            if (imported.locationId !== null) {
+              locationMap.set(item.location_name.toLowerCase(), imported.locationId);
+            }
+            if (imported.branchCode !== null) {
+              usedBranchCodes.add(imported.branchCode);
+            }
+            result.status = imported.status;
+            result.item_id = imported.itemId;
+          } catch (itemError) {
+            result.new_category = null;
+            result.new_location = null;
+            result.changes = [];
+            result.errors = [itemError instanceof Error ? itemError.message : 'Unknown error'];
+          }
+
+          // Listed even when the row failed, so a sync does not report its item as missing
+          const listedLocationId = locationMap.get(item.location_name.toLowerCase());
+          if (listedLocationId !== undefined && isLocationAllowed(locationIds, listedLocationId)) {
+            listedCodes.set(listedLocationId, (listedCodes.get(listedLocationId) ?? new Set()).add(item.item_code));
+          }
         }
 
-        // Find or create location
-        let locationId = locationMap.get(item.location_name.toLowerCase());
-        if (!locationId) {
-          // Generate a simple branch code from location name
-          const branchCode = item.location_name.substring(0, 3).toUpperCase() + Math.floor(Math.random() * 100);
-          const newLocation = await db.insert(locationsTable)
-            .values({
-              name: item.location_name,
-              branch_code: branchCode,
-              address: null
-            })
-            .returning()
+        if (mode === 'sync' && listedCodes.size > 0) {
+          const stocked = await tx.select({
+            item_id: inventoryItemsTable.id,
+            item_code: inventoryItemsTable.item_code,
+            name: inventoryItemsTable.name,
+            location_id: inventoryItemsTable.location_id,
+            location_name: locationsTable.name
+          })
+            .from(inventoryItemsTable)
+            .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+            .where(inArray(inventoryItemsTable.location_id, [...listedCodes.keys()]))
+            .orderBy(asc(locationsTable.name), asc(inventoryItemsTable.item_code))
             .execute();
-          locationId = newLocation[0].id;
-          locationMap.set(item.location_name.toLowerCase(), locationId);
-        }
 
-        // Create inventory item
-        await db.insert(inventoryItemsTable)
-          .values({
-            item_code: item.item_code,
-            name: item.name,
-            description: item.description,
-            category_id: categoryId,
-            location_id: locationId,
-            condition: item.condition,
-            quantity: item.quantity,
-            purchase_price: item.purchase_price.toString(),
-            purchase_date: item.purchase_date
-          })
-          .execute();
+          missing = stocked
+            .filter(stock => !listedCodes.get(stock.location_id)!.has(stock.item_code))
+            .map(({ location_id, ...stock }) => stock);
+        }
 
-        successCount++;
-      } catch (itemError) {
-        errors.push(`Item ${i + 1} (${item.item_code}): ${itemError instanceof Error ? itemError.message : 'Unknown error'}`);
+        rolledBack = input.all_or_nothing === true && rows.some(result => result.status === 'error');
+        if (input.dry_run || rolledBack) {
+          // Items the rollback discards never existed
+          for (const result of rows.filter(result => result.status === 'created')) {
+            result.item_id = null;
+          }
+          tx.rollback();
+        }
+        jobId = await recordImportJob({ mode, file_name: input.file_name ?? null, rolled_back: false, rows, missing }, actor, tx);
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) {
+        throw error;
+      }
+      // Failed all-or-nothing imports are still recorded, with nothing kept
+      if (!input.dry_run) {
+        jobId = await recordImportJob({ mode, file_name: input.file_name ?? null, rolled_back: true, rows, missing }, actor);
       }
     }
 
+    const kept = rolledBack ? [] : rows;
+
     return {
-      success: successCount,
-      errors
+      dry_run: input.dry_run ?? false,
+      mode,
+      rolled_back: rolledBack,
+      success: kept.filter(result => result.status === 'created' || result.status === 'updated').length,
+      errors: rows.flatMap(result => result.errors.map(message =>
+        `Item ${result.row}${result.item_code !== null ? ` (${result.item_code})` : ''}: ${message}`)),
+      rows,
+      new_categories: kept.flatMap(result => result.new_category !== null ? [result.new_category] : []),
+      new_locations: kept.flatMap(result => result.new_location !== null ? [result.new_location] : []),
+      missing,
+      unknown_references: [...unknownReferences.values()],
+      job_id: jobId
     };
   } catch (error) {
     console.error('Failed to batch import items:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
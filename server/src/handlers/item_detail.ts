@@ -0,0 +1,190 @@
+import { db } from '../db';
+import { auditLogTable, categoriesTable, locationsTable, suppliersTable, usersTable, transferStatusChangesTable } from '../db/schema';
+import { type ItemDetail, type ItemTimelineEvent, type ItemCondition, type Permission } from '../schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { getInventoryItemById } from './inventory';
+import { getPurchasesByItem } from './purchases';
+import { getLocationHistoryByItem } from './location_history';
+
+const namesById = (rows: { id: number; name: string }[]) => new Map(rows.map(row => [row.id, row.name]));
+
+const locationNames = async (ids: number[]) => ids.length === 0 ? new Map<number, string>() : namesById(
+  await db.select({ id: locationsTable.id, name: locationsTable.name })
+    .from(locationsTable)
+    .where(inArray(locationsTable.id, ids))
+    .execute()
+);
+
+const usernames = async (ids: number[]) => ids.length === 0 ? new Map<number, string>() : namesById(
+  await db.select({ id: usersTable.id, name: usersTable.username })
+    .from(usersTable)
+    .where(inArray(usersTable.id, ids))
+    .execute()
+);
+
+const supplierNames = async (ids: number[]) => ids.length === 0 ? new Map<number, string>() : namesById(
+  await db.select({ id: suppliersTable.id, name: suppliersTable.name })
+    .from(suppliersTable)
+    .where(inArray(suppliersTable.id, ids))
+    .execute()
+);
+
+// Purchases and transfers only appear on the timeline, and purchases in the total cost, for callers
+// who may view them
+export async function getItemDetail(id: number, permissions: Permission[], locationIds: number[] | null = null): Promise<ItemDetail | null> {
+  try {
+    const item = await getInventoryItemById(id, locationIds);
+    if (item === null) {
+      return null;
+    }
+
+    const [purchases, transfers, itemAudit, category] = await Promise.all([
+      getPurchasesByItem(id),
+      getLocationHistoryByItem(id, locationIds),
+      db.select()
+        .from(auditLogTable)
+        .where(and(eq(auditLogTable.entity_type, 'inventory_item'), eq(auditLogTable.entity_id, String(id))))
+        .orderBy(asc(auditLogTable.created_at), asc(auditLogTable.id))
+        .execute(),
+      db.select({ name: categoriesTable.name })
+        .from(categoriesTable)
+        .where(eq(categoriesTable.id, item.category_id))
+        .execute()
+    ]);
+
+    const createEntry = itemAudit.find(entry => entry.action === 'create');
+    const conditionEntries = itemAudit.filter(entry => entry.action === 'update' && entry.after && 'condition' in entry.after);
+    const createdLocationId = typeof createEntry?.after?.['location_id'] === 'number' ? createEntry.after['location_id'] as number : item.location_id;
+
+    const transferIds = transfers.map(transfer => transfer.id);
+    const [locations, users, suppliers, purchaseAudit, completions] = await Promise.all([
+      locationNames([...new Set([
+        item.location_id,
+        createdLocationId,
+        ...transfers.flatMap(transfer => [transfer.from_location_id, transfer.to_location_id])
+      ].filter((locationId): locationId is number => locationId !== null))]),
+      usernames([...new Set(transfers.flatMap(transfer => [transfer.created_by_id, transfer.receiver_id])
+        .filter((userId): userId is number => userId !== null))]),
+      supplierNames([...new Set(purchases.map(purchase => purchase.supplier_id))]),
+      purchases.length === 0 ? [] : db.select({ entity_id: auditLogTable.entity_id, username: auditLogTable.username })
+        .from(auditLogTable)
+        .where(and(
+          eq(auditLogTable.entity_type, 'purchase'),
+          eq(auditLogTable.action, 'create'),
+          inArray(auditLogTable.entity_id, purchases.map(purchase => String(purchase.id)))
+        ))
+        .execute(),
+      transferIds.length === 0 ? [] : db.select()
+        .from(transferStatusChangesTable)
+        .where(and(
+          inArray(transferStatusChangesTable.transfer_id, transferIds),
+          eq(transferStatusChangesTable.to_status, 'completed')
+        ))
+        .execute()
+    ]);
+
+    const purchaseActors = new Map(purchaseAudit.map(entry => [entry.entity_id, entry.username]));
+    const completedAt = new Map(completions.map(change => [change.transfer_id, change.changed_at]));
+
+    const timeline: ItemTimelineEvent[] = [{
+      type: 'created',
+      occurred_at: item.created_at,
+      actor: createEntry?.username ?? null,
+      location_name: locations.get(createdLocationId) ?? '',
+      // The condition it was recorded in, which later changes may since have replaced
+      condition: (createEntry?.after?.['condition'] ?? conditionEntries[0]?.before?.['condition'] ?? item.condition) as ItemCondition
+    }];
+
+    if (permissions.includes('purchases.view')) {
+      for (const purchase of purchases) {
+        timeline.push({
+          type: 'purchase',
+          occurred_at: purchase.purchase_date,
+          actor: purchaseActors.get(String(purchase.id)) ?? null,
+          purchase_id: purchase.id,
+          supplier_name: suppliers.get(purchase.supplier_id) ?? '',
+          quantity: purchase.quantity,
+          total_price: purchase.total_price,
+          notes: purchase.notes
+        });
+      }
+    }
+
+    for (const entry of conditionEntries) {
+      timeline.push({
+        type: 'condition_change',
+        occurred_at: entry.created_at,
+        actor: entry.username,
+        from_condition: (entry.before?.['condition'] ?? null) as ItemCondition | null,
+        to_condition: entry.after!['condition'] as ItemCondition
+      });
+    }
+
+    // Custody passes to whoever received the latest completed transfer into the item's current location
+    let currentCustodian: string | null = null;
+    let latestCompletion: Date | null = null;
+
+    for (const transfer of transfers) {
+      const actor = transfer.created_by_id !== null ? users.get(transfer.created_by_id) ?? null : transfer.transferred_by;
+      if (permissions.includes('locationHistory.view')) {
+        timeline.push({
+          type: 'transfer',
+          occurred_at: transfer.transfer_date,
+          actor,
+          transfer_id: transfer.id,
+          from_location_name: transfer.from_location_id !== null ? locations.get(transfer.from_location_id) ?? null : null,
+          to_location_name: locations.get(transfer.to_location_id) ?? '',
+          quantity: transfer.quantity,
+          status: transfer.status,
+          reason: transfer.reason,
+          notes: transfer.notes
+        });
+      }
+
+      if (transfer.status !== 'completed') {
+        continue;
+      }
+
+      const completed = completedAt.get(transfer.id) ?? transfer.transfer_date;
+      if (latestCompletion === null || completed > latestCompletion) {
+        latestCompletion = completed;
+        currentCustodian = transfer.to_location_id === item.location_id && transfer.receiver_id !== null
+          ? users.get(transfer.receiver_id) ?? null
+          : null;
+      }
+
+      if (transfer.receiver_id !== null && permissions.includes('locationHistory.view')) {
+        timeline.push({
+          type: 'custodian_change',
+          occurred_at: completed,
+          actor,
+          transfer_id: transfer.id,
+          custodian: users.get(transfer.receiver_id) ?? '',
+          location_name: locations.get(transfer.to_location_id) ?? ''
+        });
+      }
+    }
+
+    // Array.sort is stable, so same-time events keep the order above (creation first)
+    timeline.sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime());
+
+    // Entered purchases include the one that acquired the item, so they replace its recorded value
+    // rather than add to it; the figure is only shown to callers who may view purchases
+    const purchasedTotal = purchases.reduce((sum, purchase) => sum + purchase.total_price, 0);
+    const totalCostOfOwnership = permissions.includes('purchases.view')
+      ? purchases.length > 0 ? purchasedTotal : item.purchase_price * item.quantity
+      : null;
+
+    return {
+      item,
+      category_name: category[0]?.name ?? '',
+      location_name: locations.get(item.location_id) ?? '',
+      current_custodian: currentCustodian,
+      total_cost_of_ownership: totalCostOfOwnership,
+      timeline
+    };
+  } catch (error) {
+    console.error('Failed to fetch item detail:', error);
+    throw error;
+  }
+}
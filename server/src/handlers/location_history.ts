@@ -1,12 +1,277 @@
-import { db } from '../db';
-import { locationHistoryTable, inventoryItemsTable, locationsTable } from '../db/schema';
-import { type LocationHistory, type CreateLocationHistoryInput, type UpdateLocationHistoryInput } from '../schema';
-import { eq, desc } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import {
+  locationHistoryTable,
+  inventoryItemsTable,
+  purchasesTable,
+  locationsTable,
+  usersTable,
+  transferStatusChangesTable,
+  transferApprovalsTable
+} from '../db/schema';
+import {
+  transferStatusTransitions,
+  type LocationHistory,
+  type CreateLocationHistoryInput,
+  type UpdateLocationHistoryInput,
+  type TransferStatus,
+  type TransferStatusChange,
+  type TransferApproval,
+  type ApprovalSide,
+  type ReceiptStatus,
+  type ItemCondition,
+  type ApproveTransferInput,
+  type RejectTransferInput,
+  type LocationHistoryReportFilter,
+  type LocationHistoryListInput,
+  type LocationHistorySortField,
+  type LocationHistoryListRow,
+  type Paginated
+} from '../schema';
+import { eq, asc, desc, or, and, gte, lte, ilike, count, inArray, sql, getTableColumns, type SQL, type AnyColumn } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { isLocationAllowed } from './roles';
+import { pageWindow, emptyPage, sortOrder, containsPattern } from './pagination';
+import { recordAudit, type AuditActor } from './audit';
+import { getRequiredApprovals } from './approval_rules';
 
-export async function getLocationHistory(): Promise<LocationHistory[]> {
+// Transfers are visible to location-scoped callers when either end is one of their locations
+export const transferScopeCondition = (locationIds: number[]): SQL<unknown> => {
+  return or(
+    inArray(locationHistoryTable.from_location_id, locationIds),
+    inArray(locationHistoryTable.to_location_id, locationIds)
+  )!;
+};
+
+// Transfer requests that conflict with the current state of the transfer or item
+export class TransferRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferRuleError';
+  }
+}
+
+export class InvalidTransferTransitionError extends TransferRuleError {
+  constructor(public readonly from: TransferStatus, public readonly to: TransferStatus) {
+    super(`Cannot change transfer status from ${from} to ${to}`);
+    this.name = 'InvalidTransferTransitionError';
+  }
+}
+
+export class TransferLocationMismatchError extends TransferRuleError {
+  constructor(public readonly itemId: number, public readonly expectedLocationId: number, public readonly actualLocationId: number | null) {
+    super(`Item with ID ${itemId} is at location ${expectedLocationId}, not ${actualLocationId ?? 'none'}`);
+    this.name = 'TransferLocationMismatchError';
+  }
+}
+
+export class TransferApprovalError extends TransferRuleError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferApprovalError';
+  }
+}
+
+export class InsufficientStockError extends TransferRuleError {
+  constructor(public readonly itemId: number, public readonly available: number, public readonly requested: number) {
+    super(`Item with ID ${itemId} has ${available} units left, cannot move ${requested}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+export const canTransitionTransfer = (from: TransferStatus, to: TransferStatus): boolean => {
+  return transferStatusTransitions[from].includes(to);
+};
+
+const recordStatusChange = async (tx: DbExecutor, transferId: number, from: TransferStatus | null, to: TransferStatus, actor: AuditActor): Promise<void> => {
+  await tx.insert(transferStatusChangesTable)
+    .values({
+      transfer_id: transferId,
+      from_status: from,
+      to_status: to,
+      changed_by_id: actor?.id ?? null
+    })
+    .execute();
+};
+
+type LocationHistoryRow = typeof locationHistoryTable.$inferSelect;
+
+// Moves units of an item row to another location within the caller's transaction, in the condition
+// they arrive in, and returns the row that now holds them. Units join the destination's row for the
+// same item code and condition; when there is none, a whole row just changes location and a part is
+// split off into a new row. A whole row joining another is folded into it, history and all, so
+// nothing is left behind at the source.
+const moveUnits = async (
+  tx: DbExecutor,
+  itemId: number,
+  toLocationId: number,
+  quantity: number | null,
+  actor: AuditActor,
+  condition?: ItemCondition
+): Promise<number> => {
+  const sources = await tx.select()
+    .from(inventoryItemsTable)
+    .where(eq(inventoryItemsTable.id, itemId))
+    .for('update')
+    .execute();
+
+  const source = sources[0];
+  const units = quantity ?? source.quantity;
+  const arrivingCondition = condition ?? source.condition;
+
+  if (units > source.quantity) {
+    throw new InsufficientStockError(itemId, source.quantity, units);
+  }
+
+  if (source.location_id === toLocationId && source.condition === arrivingCondition) {
+    return itemId;
+  }
+
+  const destinations = await tx.select()
+    .from(inventoryItemsTable)
+    .where(and(
+      eq(inventoryItemsTable.item_code, source.item_code),
+      eq(inventoryItemsTable.location_id, toLocationId),
+      eq(inventoryItemsTable.condition, arrivingCondition)
+    ))
+    .for('update')
+    .execute();
+
+  const destination = destinations[0];
+  const wholeRow = units === source.quantity;
+
+  if (wholeRow && !destination) {
+    const moved = await tx.update(inventoryItemsTable)
+      .set({ location_id: toLocationId, condition: arrivingCondition, updated_at: new Date() })
+      .where(eq(inventoryItemsTable.id, itemId))
+      .returning()
+      .execute();
+
+    await recordAudit({ actor, action: 'update', entity_type: 'inventory_item', entity_id: itemId, before: source, after: moved[0] }, tx);
+    return itemId;
+  }
+
+  if (wholeRow) {
+    await tx.update(locationHistoryTable)
+      .set({ item_id: destination.id })
+      .where(eq(locationHistoryTable.item_id, itemId))
+      .execute();
+
+    await tx.update(purchasesTable)
+      .set({ item_id: destination.id })
+      .where(eq(purchasesTable.item_id, itemId))
+      .execute();
+
+    await tx.delete(inventoryItemsTable)
+      .where(eq(inventoryItemsTable.id, itemId))
+      .execute();
+
+    await recordAudit({ actor, action: 'delete', entity_type: 'inventory_item', entity_id: itemId, before: source }, tx);
+  } else {
+    const remaining = await tx.update(inventoryItemsTable)
+      .set({ quantity: source.quantity - units, updated_at: new Date() })
+      .where(eq(inventoryItemsTable.id, itemId))
+      .returning()
+      .execute();
+
+    await recordAudit({ actor, action: 'update', entity_type: 'inventory_item', entity_id: itemId, before: source, after: remaining[0] }, tx);
+  }
+
+  if (destination) {
+    const stocked = await tx.update(inventoryItemsTable)
+      .set({ quantity: destination.quantity + units, updated_at: new Date() })
+      .where(eq(inventoryItemsTable.id, destination.id))
+      .returning()
+      .execute();
+
+    await recordAudit({ actor, action: 'update', entity_type: 'inventory_item', entity_id: destination.id, before: destination, after: stocked[0] }, tx);
+    return destination.id;
+  }
+
+  const { id: _id, created_at: _createdAt, updated_at: _updatedAt, ...attributes } = source;
+  const created = await tx.insert(inventoryItemsTable)
+    .values({ ...attributes, location_id: toLocationId, condition: arrivingCondition, quantity: units })
+    .returning()
+    .execute();
+
+  await recordAudit({ actor, action: 'create', entity_type: 'inventory_item', entity_id: created[0].id, after: created[0] }, tx);
+  return created[0].id;
+};
+
+// Moves a completed transfer's units and points the transfer at the row that now holds them
+const moveStock = async (
+  tx: DbExecutor,
+  transfer: LocationHistoryRow,
+  actor: AuditActor,
+  condition?: ItemCondition
+): Promise<LocationHistoryRow> => {
+  const itemId = await moveUnits(tx, transfer.item_id, transfer.to_location_id, transfer.quantity, actor, condition);
+  if (itemId === transfer.item_id) {
+    return transfer;
+  }
+
+  const moved = await tx.update(locationHistoryTable)
+    .set({ item_id: itemId })
+    .where(eq(locationHistoryTable.id, transfer.id))
+    .returning()
+    .execute();
+
+  return moved[0];
+};
+
+// Required sides that have not approved yet
+const pendingApprovalSides = (transfer: LocationHistoryRow, approvals: { side: ApprovalSide; decision: string }[]): ApprovalSide[] => {
+  const approved = approvals.filter(approval => approval.decision === 'approved').map(approval => approval.side);
+  const required: ApprovalSide[] = [
+    ...(transfer.requires_source_approval ? ['source' as const] : []),
+    ...(transfer.requires_destination_approval ? ['destination' as const] : [])
+  ];
+  return required.filter(side => !approved.includes(side));
+};
+
+// Sides a caller may decide on: their locations must include that end of the transfer,
+// and nobody signs off on a transfer they requested
+const decidableSides = (transfer: LocationHistoryRow, sides: ApprovalSide[], locationIds: number[] | null, actor: AuditActor): ApprovalSide[] => {
+  if (actor !== null && transfer.created_by_id === actor.id) {
+    return [];
+  }
+  return sides.filter(side =>
+    isLocationAllowed(locationIds, side === 'source' ? transfer.from_location_id : transfer.to_location_id));
+};
+
+const isTransferAllowed = (locationIds: number[] | null, record: { from_location_id: number | null; to_location_id: number }): boolean => {
+  return isLocationAllowed(locationIds, record.from_location_id) || isLocationAllowed(locationIds, record.to_location_id);
+};
+
+const ensureUserExists = async (tx: DbExecutor, userId: number | null | undefined): Promise<void> => {
+  if (userId === null || userId === undefined) {
+    return;
+  }
+
+  const users = await tx.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with ID ${userId} does not exist`);
+  }
+};
+
+export async function getLocationHistory(locationIds: number[] | null = null): Promise<LocationHistory[]> {
   try {
-    const results = await db.select()
+    if (locationIds !== null && locationIds.length === 0) {
+      return [];
+    }
+
+    const baseQuery = db.select()
       .from(locationHistoryTable)
+      .$dynamic();
+
+    const query = locationIds !== null
+      ? baseQuery.where(transferScopeCondition(locationIds))
+      : baseQuery;
+
+    const results = await query
       .orderBy(desc(locationHistoryTable.created_at), desc(locationHistoryTable.id))
       .execute();
 
@@ -22,14 +287,159 @@ export async function getLocationHistory(): Promise<LocationHistory[]> {
   }
 }
 
-export async function getLocationHistoryById(id: number): Promise<LocationHistory | null> {
+// A user takes part in a transfer by recording, sending or receiving it
+const transferUserCondition = (userId: number): SQL<unknown> => {
+  return or(
+    eq(locationHistoryTable.created_by_id, userId),
+    eq(locationHistoryTable.sender_id, userId),
+    eq(locationHistoryTable.receiver_id, userId)
+  )!;
+};
+
+// Shared by the transfer list, report and summary; searching expects the transferred item to be joined in
+export const transferFilterConditions = (filter: LocationHistoryReportFilter, locationIds: number[] | null): SQL<unknown>[] => {
+  const conditions: SQL<unknown>[] = [];
+
+  if (filter.search) {
+    const pattern = containsPattern(filter.search.trim());
+    conditions.push(or(ilike(inventoryItemsTable.item_code, pattern), ilike(inventoryItemsTable.name, pattern))!);
+  }
+
+  if (filter.item_id !== undefined) {
+    conditions.push(eq(locationHistoryTable.item_id, filter.item_id));
+  }
+
+  if (filter.location_id !== undefined) {
+    conditions.push(eq(locationHistoryTable.to_location_id, filter.location_id));
+  }
+
+  if (filter.status !== undefined) {
+    conditions.push(eq(locationHistoryTable.status, filter.status));
+  }
+
+  if (filter.user_id !== undefined) {
+    conditions.push(transferUserCondition(filter.user_id));
+  }
+
+  if (filter.date_from !== undefined) {
+    conditions.push(gte(locationHistoryTable.transfer_date, filter.date_from));
+  }
+
+  if (filter.date_to !== undefined) {
+    conditions.push(lte(locationHistoryTable.transfer_date, filter.date_to));
+  }
+
+  if (locationIds !== null) {
+    conditions.push(transferScopeCondition(locationIds));
+  }
+
+  return conditions;
+};
+
+export const transferSortColumns: Record<LocationHistorySortField, AnyColumn> = {
+  transfer_date: locationHistoryTable.transfer_date,
+  item: inventoryItemsTable.item_code,
+  to_location: locationsTable.name,
+  quantity: locationHistoryTable.quantity,
+  status: locationHistoryTable.status,
+  created_at: locationHistoryTable.created_at
+};
+
+const fromLocations = alias(locationsTable, 'from_locations');
+const creators = alias(usersTable, 'creators');
+const senders = alias(usersTable, 'senders');
+const receivers = alias(usersTable, 'receivers');
+
+// Names listed with a transfer. The query joins the item, the destination as locationsTable and
+// the aliases above.
+const transferNameColumns = {
+  item_code: inventoryItemsTable.item_code,
+  item_name: inventoryItemsTable.name,
+  from_location_name: fromLocations.name,
+  to_location_name: locationsTable.name,
+  created_by_name: creators.username,
+  sender_name: senders.username,
+  receiver_name: receivers.username
+};
+
+export async function listLocationHistory(input: LocationHistoryListInput, locationIds: number[] | null = null): Promise<Paginated<LocationHistoryListRow>> {
+  try {
+    if (locationIds !== null && locationIds.length === 0) {
+      return emptyPage(input);
+    }
+
+    const { page, pageSize, offset } = pageWindow(input);
+    const where = and(...transferFilterConditions(input, locationIds));
+
+    const totals = await db.select({ count: count() })
+      .from(locationHistoryTable)
+      .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
+      .where(where)
+      .execute();
+
+    const results = await db.select({
+      id: locationHistoryTable.id,
+      item_id: locationHistoryTable.item_id,
+      manifest_id: locationHistoryTable.manifest_id,
+      from_location_id: locationHistoryTable.from_location_id,
+      to_location_id: locationHistoryTable.to_location_id,
+      transfer_date: locationHistoryTable.transfer_date,
+      quantity: locationHistoryTable.quantity,
+      transferred_by: locationHistoryTable.transferred_by,
+      created_by_id: locationHistoryTable.created_by_id,
+      sender_id: locationHistoryTable.sender_id,
+      receiver_id: locationHistoryTable.receiver_id,
+      reason: locationHistoryTable.reason,
+      status: locationHistoryTable.status,
+      requires_source_approval: locationHistoryTable.requires_source_approval,
+      requires_destination_approval: locationHistoryTable.requires_destination_approval,
+      receipt_status: locationHistoryTable.receipt_status,
+      handover_document_number: locationHistoryTable.handover_document_number,
+      notes: locationHistoryTable.notes,
+      created_at: locationHistoryTable.created_at,
+      updated_at: locationHistoryTable.updated_at,
+      ...transferNameColumns
+    })
+      .from(locationHistoryTable)
+      .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
+      .innerJoin(locationsTable, eq(locationHistoryTable.to_location_id, locationsTable.id))
+      .leftJoin(fromLocations, eq(locationHistoryTable.from_location_id, fromLocations.id))
+      .leftJoin(creators, eq(locationHistoryTable.created_by_id, creators.id))
+      .leftJoin(senders, eq(locationHistoryTable.sender_id, senders.id))
+      .leftJoin(receivers, eq(locationHistoryTable.receiver_id, receivers.id))
+      .where(where)
+      .orderBy(...sortOrder(input.sort, transferSortColumns, [desc(locationHistoryTable.created_at), desc(locationHistoryTable.id)]))
+      .limit(pageSize)
+      .offset(offset)
+      .execute();
+
+    return {
+      items: results.map(({ created_by_name, ...record }) => ({
+        ...record,
+        // Unlinked legacy records keep the name that was typed in
+        recorded_by: created_by_name ?? record.transferred_by,
+        transfer_date: new Date(record.transfer_date),
+        created_at: new Date(record.created_at),
+        updated_at: new Date(record.updated_at)
+      })),
+      total: totals[0].count,
+      page,
+      page_size: pageSize
+    };
+  } catch (error) {
+    console.error('Failed to list location history:', error);
+    throw error;
+  }
+}
+
+export async function getLocationHistoryById(id: number, locationIds: number[] | null = null): Promise<LocationHistory | null> {
   try {
     const results = await db.select()
       .from(locationHistoryTable)
       .where(eq(locationHistoryTable.id, id))
       .execute();
 
-    if (results.length === 0) {
+    if (results.length === 0 || !isTransferAllowed(locationIds, results[0])) {
       return null;
     }
 
@@ -46,11 +456,16 @@ export async function getLocationHistoryById(id: number): Promise<LocationHistor
   }
 }
 
-export async function getLocationHistoryByItem(itemId: number): Promise<LocationHistory[]> {
+export async function getLocationHistoryByItem(itemId: number, locationIds: number[] | null = null): Promise<LocationHistory[]> {
   try {
+    if (locationIds !== null && locationIds.length === 0) {
+      return [];
+    }
+
+    const itemCondition = eq(locationHistoryTable.item_id, itemId);
     const results = await db.select()
       .from(locationHistoryTable)
-      .where(eq(locationHistoryTable.item_id, itemId))
+      .where(locationIds !== null ? and(itemCondition, transferScopeCondition(locationIds)) : itemCondition)
       .orderBy(desc(locationHistoryTable.transfer_date))
       .execute();
 
@@ -66,138 +481,420 @@ export async function getLocationHistoryByItem(itemId: number): Promise<Location
   }
 }
 
-export async function createLocationHistory(input: CreateLocationHistoryInput): Promise<LocationHistory> {
+export async function createLocationHistory(
+  input: CreateLocationHistoryInput,
+  locationIds: number[] | null = null,
+  actor: AuditActor = null,
+  manifestId: number | null = null,
+  executor: DbExecutor = db
+): Promise<LocationHistory> {
   try {
-    // Validate that the item exists
-    const itemExists = await db.select()
-      .from(inventoryItemsTable)
-      .where(eq(inventoryItemsTable.id, input.item_id))
-      .execute();
+    return await executor.transaction(async (tx) => {
+      // Validate that the item exists
+      const itemExists = await tx.select()
+        .from(inventoryItemsTable)
+        .where(eq(inventoryItemsTable.id, input.item_id))
+        .execute();
 
-    if (itemExists.length === 0) {
-      throw new Error(`Item with ID ${input.item_id} does not exist`);
-    }
+      if (itemExists.length === 0 || !isLocationAllowed(locationIds, itemExists[0].location_id)) {
+        throw new Error(`Item with ID ${input.item_id} does not exist`);
+      }
 
-    // Validate that the to_location exists
-    const toLocationExists = await db.select()
-      .from(locationsTable)
-      .where(eq(locationsTable.id, input.to_location_id))
-      .execute();
+      // Validate that the to_location exists
+      const toLocationExists = await tx.select()
+        .from(locationsTable)
+        .where(eq(locationsTable.id, input.to_location_id))
+        .execute();
 
-    if (toLocationExists.length === 0) {
-      throw new Error(`Location with ID ${input.to_location_id} does not exist`);
-    }
+      if (toLocationExists.length === 0) {
+        throw new Error(`Location with ID ${input.to_location_id} does not exist`);
+      }
+
+      // Every item already has a location, so a transfer without a source starts from it
+      const fromLocationId = input.from_location_id ?? itemExists[0].location_id;
 
-    // Validate from_location if provided
-    if (input.from_location_id !== null) {
-      const fromLocationExists = await db.select()
+      const fromLocationExists = await tx.select()
         .from(locationsTable)
-        .where(eq(locationsTable.id, input.from_location_id))
+        .where(eq(locationsTable.id, fromLocationId))
         .execute();
 
       if (fromLocationExists.length === 0) {
-        throw new Error(`Location with ID ${input.from_location_id} does not exist`);
+        throw new Error(`Location with ID ${fromLocationId} does not exist`);
+      }
+
+      // A transfer has to start where the item currently is
+      if (itemExists[0].location_id !== fromLocationId) {
+        throw new TransferLocationMismatchError(input.item_id, itemExists[0].location_id, fromLocationId);
+      }
+
+      await ensureUserExists(tx, input.sender_id);
+      await ensureUserExists(tx, input.receiver_id);
+
+      const item = itemExists[0];
+      const quantity = input.quantity ?? item.quantity;
+
+      if (quantity > item.quantity) {
+        throw new InsufficientStockError(input.item_id, item.quantity, quantity);
       }
+
+      const approvals = await getRequiredApprovals(
+        fromLocationId,
+        input.to_location_id,
+        parseFloat(item.purchase_price) * quantity,
+        tx
+      );
+      const needsApproval = approvals.source || approvals.destination;
+
+      if (needsApproval && input.status !== 'pending') {
+        throw new TransferApprovalError(`Transfer requires approval and cannot be created as ${input.status}`);
+      }
+
+      // Create the location history record
+      const result = await tx.insert(locationHistoryTable)
+        .values({
+          item_id: input.item_id,
+          manifest_id: manifestId,
+          from_location_id: fromLocationId,
+          to_location_id: input.to_location_id,
+          transfer_date: input.transfer_date,
+          quantity,
+          created_by_id: actor?.id ?? null,
+          sender_id: input.sender_id ?? null,
+          receiver_id: input.receiver_id ?? null,
+          reason: input.reason,
+          status: needsApproval ? 'pending_approval' : input.status,
+          requires_source_approval: approvals.source,
+          requires_destination_approval: approvals.destination,
+          notes: input.notes
+        })
+        .returning()
+        .execute();
+
+      // If status is 'completed', move the units to their new location
+      const record = input.status === 'completed' ? await moveStock(tx, result[0], actor) : result[0];
+
+      await recordStatusChange(tx, record.id, null, record.status, actor);
+      await recordAudit({ actor, action: 'create', entity_type: 'location_history', entity_id: record.id, after: record }, tx);
+
+      return {
+        ...record,
+        transfer_date: new Date(record.transfer_date),
+        created_at: new Date(record.created_at),
+        updated_at: new Date(record.updated_at)
+      };
+    });
+  } catch (error) {
+    console.error('Failed to create location history:', error);
+    throw error;
+  }
+}
+
+type TransferChanges = Omit<UpdateLocationHistoryInput, 'id'> & { receipt_status?: ReceiptStatus | null };
+
+// Applies changes to a transfer the caller has already loaded and may see, enforcing the status rules.
+// Completing a transfer moves the transferred units to the destination.
+export const applyTransferChanges = async (
+  current: LocationHistoryRow,
+  changes: TransferChanges,
+  actor: AuditActor,
+  executor: DbExecutor = db
+): Promise<LocationHistory> => {
+  return await executor.transaction(async (tx) => {
+    const statusChanged = changes.status !== undefined && changes.status !== current.status;
+
+    if (statusChanged && !canTransitionTransfer(current.status, changes.status!)) {
+      throw new InvalidTransferTransitionError(current.status, changes.status!);
+    }
+
+    // The item may have been moved by another transfer since this one was created
+    const item = await tx.select()
+      .from(inventoryItemsTable)
+      .where(eq(inventoryItemsTable.id, current.item_id))
+      .execute();
+
+    if (changes.status === 'completed' && statusChanged && item[0].location_id !== current.from_location_id) {
+      throw new TransferLocationMismatchError(current.item_id, item[0].location_id, current.from_location_id);
     }
 
-    // Create the location history record
-    const result = await db.insert(locationHistoryTable)
-      .values({
-        item_id: input.item_id,
-        from_location_id: input.from_location_id,
-        to_location_id: input.to_location_id,
-        transfer_date: input.transfer_date,
-        transferred_by: input.transferred_by,
-        reason: input.reason,
-        status: input.status,
-        notes: input.notes
+    // Other transfers may have drawn down the row since this one was created
+    if (changes.status === 'completed' && statusChanged && current.quantity !== null && current.quantity > item[0].quantity) {
+      throw new InsufficientStockError(current.item_id, item[0].quantity, current.quantity);
+    }
+
+    const result = await tx.update(locationHistoryTable)
+      .set({
+        status: changes.status,
+        sender_id: changes.sender_id,
+        receiver_id: changes.receiver_id,
+        notes: changes.notes,
+        receipt_status: changes.receipt_status,
+        updated_at: new Date()
       })
+      .where(eq(locationHistoryTable.id, current.id))
       .returning()
       .execute();
 
-    // If status is 'completed', update the item's current location
-    if (input.status === 'completed') {
-      await db.update(inventoryItemsTable)
-        .set({ 
-          location_id: input.to_location_id,
-          updated_at: new Date()
-        })
-        .where(eq(inventoryItemsTable.id, input.item_id))
-        .execute();
+    // Units received damaged are kept apart from the destination's intact stock
+    const record = changes.status === 'completed' && statusChanged
+      ? await moveStock(tx, result[0], actor, changes.receipt_status === 'damaged' ? 'damaged' : undefined)
+      : result[0];
+
+    if (statusChanged) {
+      await recordStatusChange(tx, current.id, current.status, changes.status!, actor);
     }
+    await recordAudit({ actor, action: 'update', entity_type: 'location_history', entity_id: current.id, before: current, after: record }, tx);
 
-    const record = result[0];
     return {
       ...record,
       transfer_date: new Date(record.transfer_date),
       created_at: new Date(record.created_at),
       updated_at: new Date(record.updated_at)
     };
+  });
+};
+
+export async function updateLocationHistory(input: UpdateLocationHistoryInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<LocationHistory> {
+  try {
+    return await db.transaction(async (tx) => {
+      const currentRecord = await tx.select()
+        .from(locationHistoryTable)
+        .where(eq(locationHistoryTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (currentRecord.length === 0 || !isTransferAllowed(locationIds, currentRecord[0])) {
+        throw new Error(`Location history with ID ${input.id} does not exist`);
+      }
+
+      const current = currentRecord[0];
+
+      // Shipments move through their statuses together
+      if (current.manifest_id !== null && input.status !== undefined && input.status !== current.status) {
+        throw new TransferRuleError(`Transfer ${input.id} belongs to manifest ${current.manifest_id}; change its status through the manifest`);
+      }
+
+      await ensureUserExists(tx, input.sender_id);
+      await ensureUserExists(tx, input.receiver_id);
+
+      return await applyTransferChanges(current, input, actor, tx);
+    });
   } catch (error) {
-    console.error('Failed to create location history:', error);
+    console.error('Failed to update location history:', error);
+    throw error;
+  }
+}
+
+export async function getTransferStatusChanges(transferId: number, locationIds: number[] | null = null): Promise<TransferStatusChange[]> {
+  try {
+    const transfer = await getLocationHistoryById(transferId, locationIds);
+    if (transfer === null) {
+      return [];
+    }
+
+    return await db.select()
+      .from(transferStatusChangesTable)
+      .where(eq(transferStatusChangesTable.transfer_id, transferId))
+      .orderBy(asc(transferStatusChangesTable.changed_at), asc(transferStatusChangesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch transfer status changes:', error);
+    throw error;
+  }
+}
+
+export async function getTransferApprovals(transferId: number, locationIds: number[] | null = null): Promise<TransferApproval[]> {
+  try {
+    const transfer = await getLocationHistoryById(transferId, locationIds);
+    if (transfer === null) {
+      return [];
+    }
+
+    return await db.select()
+      .from(transferApprovalsTable)
+      .where(eq(transferApprovalsTable.transfer_id, transferId))
+      .orderBy(asc(transferApprovalsTable.decided_at), asc(transferApprovalsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch transfer approvals:', error);
     throw error;
   }
 }
 
-export async function updateLocationHistory(input: UpdateLocationHistoryInput): Promise<LocationHistory> {
+// Transfers waiting on a decision the caller is allowed to make, oldest first
+export async function getTransfersAwaitingApproval(locationIds: number[] | null = null, actor: AuditActor = null): Promise<LocationHistoryListRow[]> {
   try {
-    // First, get the current record to check if status is changing
-    const currentRecord = await db.select()
+    if (locationIds !== null && locationIds.length === 0) {
+      return [];
+    }
+
+    const statusCondition = eq(locationHistoryTable.status, 'pending_approval');
+    const transfers = await db.select({ ...getTableColumns(locationHistoryTable), ...transferNameColumns })
       .from(locationHistoryTable)
-      .where(eq(locationHistoryTable.id, input.id))
+      .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
+      .innerJoin(locationsTable, eq(locationHistoryTable.to_location_id, locationsTable.id))
+      .leftJoin(fromLocations, eq(locationHistoryTable.from_location_id, fromLocations.id))
+      .leftJoin(creators, eq(locationHistoryTable.created_by_id, creators.id))
+      .leftJoin(senders, eq(locationHistoryTable.sender_id, senders.id))
+      .leftJoin(receivers, eq(locationHistoryTable.receiver_id, receivers.id))
+      .where(locationIds !== null ? and(statusCondition, transferScopeCondition(locationIds)) : statusCondition)
+      .orderBy(asc(locationHistoryTable.created_at), asc(locationHistoryTable.id))
       .execute();
 
-    if (currentRecord.length === 0) {
-      throw new Error(`Location history with ID ${input.id} does not exist`);
+    if (transfers.length === 0) {
+      return [];
     }
 
-    const current = currentRecord[0];
+    const approvals = await db.select()
+      .from(transferApprovalsTable)
+      .where(inArray(transferApprovalsTable.transfer_id, transfers.map(transfer => transfer.id)))
+      .execute();
 
-    // Update the location history record
-    const result = await db.update(locationHistoryTable)
-      .set({
-        status: input.status,
-        notes: input.notes,
-        updated_at: new Date()
+    return transfers
+      .filter(transfer => {
+        const pending = pendingApprovalSides(transfer, approvals.filter(approval => approval.transfer_id === transfer.id));
+        return decidableSides(transfer, pending, locationIds, actor).length > 0;
       })
-      .where(eq(locationHistoryTable.id, input.id))
-      .returning()
+      .map(({ created_by_name, ...record }) => ({
+        ...record,
+        recorded_by: created_by_name ?? record.transferred_by,
+        transfer_date: new Date(record.transfer_date),
+        created_at: new Date(record.created_at),
+        updated_at: new Date(record.updated_at)
+      }));
+  } catch (error) {
+    console.error('Failed to fetch transfers awaiting approval:', error);
+    throw error;
+  }
+}
+
+// Records the caller's decision for every pending side they cover. Approval moves the transfer
+// to pending once all required sides agree; a single rejection ends it.
+const decideTransfer = async (
+  id: number,
+  decision: 'approved' | 'rejected',
+  comment: string | null,
+  locationIds: number[] | null,
+  actor: AuditActor
+): Promise<LocationHistory> => {
+  return await db.transaction(async (tx) => {
+    const currentRecord = await tx.select()
+      .from(locationHistoryTable)
+      .where(eq(locationHistoryTable.id, id))
+      .for('update')
       .execute();
 
-    // If status changes to 'completed' and it wasn't already completed, update the item's location
-    if (input.status === 'completed' && current.status !== 'completed') {
-      await db.update(inventoryItemsTable)
-        .set({ 
-          location_id: current.to_location_id,
-          updated_at: new Date()
-        })
-        .where(eq(inventoryItemsTable.id, current.item_id))
+    if (currentRecord.length === 0 || !isTransferAllowed(locationIds, currentRecord[0])) {
+      throw new Error(`Location history with ID ${id} does not exist`);
+    }
+
+    const current = currentRecord[0];
+    const nextStatus: TransferStatus = decision === 'approved' ? 'pending' : 'rejected';
+
+    if (current.status !== 'pending_approval') {
+      throw new InvalidTransferTransitionError(current.status, nextStatus);
+    }
+
+    const approvals = await tx.select()
+      .from(transferApprovalsTable)
+      .where(eq(transferApprovalsTable.transfer_id, id))
+      .execute();
+
+    const pending = pendingApprovalSides(current, approvals);
+    const sides = decidableSides(current, pending, locationIds, actor);
+
+    if (sides.length === 0) {
+      throw new TransferApprovalError(current.created_by_id !== null && current.created_by_id === actor?.id
+        ? 'Transfers cannot be approved or rejected by the user who requested them'
+        : `No pending approval on transfer ${id} is assigned to your locations`);
+    }
+
+    await tx.insert(transferApprovalsTable)
+      .values(sides.map(side => ({
+        transfer_id: id,
+        side,
+        decision,
+        approver_id: actor?.id ?? null,
+        comment
+      })))
+      .execute();
+
+    // Still waiting on the other side
+    let record = current;
+    if (decision === 'rejected' || sides.length === pending.length) {
+      const result = await tx.update(locationHistoryTable)
+        .set({ status: nextStatus, updated_at: new Date() })
+        .where(eq(locationHistoryTable.id, id))
+        .returning()
         .execute();
+
+      await recordStatusChange(tx, id, current.status, nextStatus, actor);
+      await recordAudit({ actor, action: 'update', entity_type: 'location_history', entity_id: id, before: current, after: result[0] }, tx);
+      record = result[0];
     }
 
-    const record = result[0];
     return {
       ...record,
       transfer_date: new Date(record.transfer_date),
       created_at: new Date(record.created_at),
       updated_at: new Date(record.updated_at)
     };
+  });
+};
+
+export async function approveTransfer(input: ApproveTransferInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<LocationHistory> {
+  try {
+    return await decideTransfer(input.id, 'approved', input.comment ?? null, locationIds, actor);
   } catch (error) {
-    console.error('Failed to update location history:', error);
+    console.error('Failed to approve transfer:', error);
     throw error;
   }
 }
 
-export async function deleteLocationHistory(id: number): Promise<boolean> {
+export async function rejectTransfer(input: RejectTransferInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<LocationHistory> {
   try {
-    const result = await db.delete(locationHistoryTable)
-      .where(eq(locationHistoryTable.id, id))
-      .returning()
-      .execute();
+    return await decideTransfer(input.id, 'rejected', input.comment, locationIds, actor);
+  } catch (error) {
+    console.error('Failed to reject transfer:', error);
+    throw error;
+  }
+}
+
+export async function deleteLocationHistory(id: number, locationIds: number[] | null = null, actor: AuditActor = null): Promise<boolean> {
+  try {
+    const idCondition = eq(locationHistoryTable.id, id);
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(locationHistoryTable)
+        .where(locationIds !== null ? and(idCondition, transferScopeCondition(locationIds)) : idCondition)
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAudit({ actor, action: 'delete', entity_type: 'location_history', entity_id: id, before: result[0] }, tx);
+      }
 
-    return result.length > 0;
+      return result.length > 0;
+    });
   } catch (error) {
     console.error('Failed to delete location history:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// One-off upgrade for records from the free-text era: link `transferred_by` names that match a username
+export async function linkLegacyTransferUsers(): Promise<number> {
+  try {
+    const result = await db.execute(sql`
+      UPDATE ${locationHistoryTable}
+      SET created_by_id = ${usersTable.id}
+      FROM ${usersTable}
+      WHERE ${locationHistoryTable.created_by_id} IS NULL
+        AND ${locationHistoryTable.transferred_by} IS NOT NULL
+        AND lower(${usersTable.username}) = lower(trim(${locationHistoryTable.transferred_by}))
+    `);
+
+    return result.rowCount ?? 0;
+  } catch (error) {
+    console.error('Failed to link legacy transfer users:', error);
+    throw error;
+  }
+}
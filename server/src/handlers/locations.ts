@@ -2,6 +2,7 @@ import { db } from '../db';
 import { locationsTable } from '../db/schema';
 import { type Location, type CreateLocationInput, type UpdateLocationInput } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAudit, type AuditActor } from './audit';
 
 export async function getLocations(): Promise<Location[]> {
   try {
@@ -30,26 +31,63 @@ export async function getLocationById(id: number): Promise<Location | null> {
   }
 }
 
-export async function createLocation(input: CreateLocationInput): Promise<Location> {
+// Deterministic and unique: the name's first three letters or digits, numbered from 1 until free
+export const newBranchCode = (name: string, usedCodes: Set<string>) => {
+  const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3) || 'LOC';
+  let number = 1;
+  while (usedCodes.has(`${prefix}${number}`)) {
+    number++;
+  }
+  return `${prefix}${number}`;
+};
+
+// Branch codes number handover documents, so no two locations may share one
+const ensureBranchCodeFree = async (branchCode: string) => {
+  const existing = await db.select({ id: locationsTable.id })
+    .from(locationsTable)
+    .where(eq(locationsTable.branch_code, branchCode))
+    .execute();
+
+  if (existing.length > 0) {
+    throw new Error(`Branch code "${branchCode}" is already in use`);
+  }
+};
+
+export async function createLocation(input: CreateLocationInput, actor: AuditActor = null): Promise<Location> {
   try {
-    const result = await db.insert(locationsTable)
-      .values({
-        name: input.name,
-        branch_code: input.branch_code,
-        address: input.address
-      })
-      .returning()
-      .execute();
+    await ensureBranchCodeFree(input.branch_code);
 
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(locationsTable)
+        .values({
+          name: input.name,
+          branch_code: input.branch_code,
+          address: input.address
+        })
+        .returning()
+        .execute();
+
+      await recordAudit({ actor, action: 'create', entity_type: 'location', entity_id: result[0].id, after: result[0] }, tx);
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Location creation failed:', error);
     throw error;
   }
 }
 
-export async function updateLocation(input: UpdateLocationInput): Promise<Location> {
+export async function updateLocation(input: UpdateLocationInput, actor: AuditActor = null): Promise<Location> {
   try {
+    const existing = await db.select()
+      .from(locationsTable)
+      .where(eq(locationsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Location with ID ${input.id} not found`);
+    }
+
     // Build update values object only with provided fields
     const updateValues: any = {
       updated_at: new Date()
@@ -60,6 +98,9 @@ export async function updateLocation(input: UpdateLocationInput): Promise<Locati
     }
     
     if (input.branch_code !== undefined) {
+      if (input.branch_code !== existing[0].branch_code) {
+        await ensureBranchCodeFree(input.branch_code);
+      }
       updateValues.branch_code = input.branch_code;
     }
     
@@ -67,31 +108,41 @@ export async function updateLocation(input: UpdateLocationInput): Promise<Locati
       updateValues.address = input.address;
     }
 
-    const result = await db.update(locationsTable)
-      .set(updateValues)
-      .where(eq(locationsTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(locationsTable)
+        .set(updateValues)
+        .where(eq(locationsTable.id, input.id))
+        .returning()
+        .execute();
 
-    if (result.length === 0) {
-      throw new Error(`Location with ID ${input.id} not found`);
-    }
+      if (result.length === 0) {
+        throw new Error(`Location with ID ${input.id} not found`);
+      }
+
+      await recordAudit({ actor, action: 'update', entity_type: 'location', entity_id: input.id, before: existing[0], after: result[0] }, tx);
 
-    return result[0];
+      return result[0];
+    });
   } catch (error) {
     console.error('Location update failed:', error);
     throw error;
   }
 }
 
-export async function deleteLocation(id: number): Promise<boolean> {
+export async function deleteLocation(id: number, actor: AuditActor = null): Promise<boolean> {
   try {
-    const result = await db.delete(locationsTable)
-      .where(eq(locationsTable.id, id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(locationsTable)
+        .where(eq(locationsTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAudit({ actor, action: 'delete', entity_type: 'location', entity_id: id, before: result[0] }, tx);
+      }
 
-    return result.length > 0;
+      return result.length > 0;
+    });
   } catch (error) {
     console.error('Location deletion failed:', error);
     throw error;
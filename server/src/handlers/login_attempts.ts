@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { loginAttemptsTable } from '../db/schema';
+import { type LoginAttempt, type LoginAttemptFilter, type ClientInfo } from '../schema';
+import { eq, and, gte, desc, count, inArray, type SQL } from 'drizzle-orm';
+
+type LoginAttemptReason = LoginAttempt['reason'];
+
+export const recordLoginAttempt = async (
+  username: string,
+  userId: number | null,
+  client: ClientInfo,
+  reason: LoginAttemptReason
+): Promise<void> => {
+  await db.insert(loginAttemptsTable)
+    .values({
+      username,
+      user_id: userId,
+      ip_address: client.ip_address,
+      user_agent: client.user_agent,
+      success: reason === 'success',
+      reason
+    })
+    .execute();
+};
+
+// Only wrong guesses count: a correct password awaiting its second factor, or a retry turned
+// away by the throttle itself, would otherwise keep busy shared addresses blocked
+export const countRecentIpFailures = async (ipAddress: string, since: Date): Promise<number> => {
+  const result = await db.select({ count: count() })
+    .from(loginAttemptsTable)
+    .where(and(
+      eq(loginAttemptsTable.ip_address, ipAddress),
+      inArray(loginAttemptsTable.reason, ['invalid_credentials', 'invalid_mfa_code']),
+      gte(loginAttemptsTable.created_at, since)
+    ))
+    .execute();
+
+  return result[0]?.count || 0;
+};
+
+export const getLoginAttempts = async (filter: LoginAttemptFilter): Promise<LoginAttempt[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter.username !== undefined) {
+      conditions.push(eq(loginAttemptsTable.username, filter.username));
+    }
+
+    if (filter.ip_address !== undefined) {
+      conditions.push(eq(loginAttemptsTable.ip_address, filter.ip_address));
+    }
+
+    if (filter.success !== undefined) {
+      conditions.push(eq(loginAttemptsTable.success, filter.success));
+    }
+
+    const baseQuery = db.select()
+      .from(loginAttemptsTable)
+      .$dynamic();
+
+    const query = conditions.length > 0
+      ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
+      : baseQuery;
+
+    return await query
+      .orderBy(desc(loginAttemptsTable.created_at), desc(loginAttemptsTable.id))
+      .limit(filter.limit)
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch login attempts:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,301 @@
+import { db, type DbExecutor } from '../db';
+import { transferManifestsTable, locationHistoryTable, inventoryItemsTable, locationsTable } from '../db/schema';
+import {
+  type TransferManifest,
+  type TransferManifestDetails,
+  type CreateTransferManifestInput,
+  type DispatchManifestInput,
+  type ReceiveManifestInput,
+  type ManifestStatus
+} from '../schema';
+import { eq, asc, desc, or, inArray, getTableColumns } from 'drizzle-orm';
+import { isLocationAllowed } from './roles';
+import { recordAudit, type AuditActor } from './audit';
+import {
+  createLocationHistory,
+  applyTransferChanges,
+  canTransitionTransfer,
+  TransferRuleError,
+  TransferLocationMismatchError
+} from './location_history';
+
+type ManifestRow = typeof transferManifestsTable.$inferSelect;
+
+// Manifests are visible to location-scoped callers when either end is one of their locations
+const isManifestAllowed = (locationIds: number[] | null, manifest: ManifestRow): boolean => {
+  return isLocationAllowed(locationIds, manifest.from_location_id) || isLocationAllowed(locationIds, manifest.to_location_id);
+};
+
+const findManifest = async (tx: DbExecutor, id: number, locationIds: number[] | null): Promise<ManifestRow> => {
+  const manifests = await tx.select()
+    .from(transferManifestsTable)
+    .where(eq(transferManifestsTable.id, id))
+    .for('update')
+    .execute();
+
+  if (manifests.length === 0 || !isManifestAllowed(locationIds, manifests[0])) {
+    throw new Error(`Manifest with ID ${id} does not exist`);
+  }
+
+  return manifests[0];
+};
+
+const getManifestTransfers = (tx: DbExecutor, manifestId: number) => {
+  return tx.select()
+    .from(locationHistoryTable)
+    .where(eq(locationHistoryTable.manifest_id, manifestId))
+    .orderBy(asc(locationHistoryTable.id))
+    .execute();
+};
+
+const setManifestStatus = async (
+  tx: DbExecutor,
+  manifest: ManifestRow,
+  values: { status: ManifestStatus; dispatched_at?: Date; received_at?: Date },
+  actor: AuditActor
+): Promise<void> => {
+  const result = await tx.update(transferManifestsTable)
+    .set({ ...values, updated_at: new Date() })
+    .where(eq(transferManifestsTable.id, manifest.id))
+    .returning()
+    .execute();
+
+  await recordAudit({ actor, action: 'update', entity_type: 'transfer_manifest', entity_id: manifest.id, before: manifest, after: result[0] }, tx);
+};
+
+export async function getManifests(locationIds: number[] | null = null): Promise<TransferManifest[]> {
+  try {
+    if (locationIds !== null && locationIds.length === 0) {
+      return [];
+    }
+
+    const baseQuery = db.select()
+      .from(transferManifestsTable)
+      .$dynamic();
+
+    const query = locationIds !== null
+      ? baseQuery.where(or(
+          inArray(transferManifestsTable.from_location_id, locationIds),
+          inArray(transferManifestsTable.to_location_id, locationIds)
+        ))
+      : baseQuery;
+
+    return await query
+      .orderBy(desc(transferManifestsTable.created_at), desc(transferManifestsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch manifests:', error);
+    throw error;
+  }
+}
+
+export async function getManifestById(id: number, locationIds: number[] | null = null): Promise<TransferManifestDetails | null> {
+  try {
+    const manifests = await db.select()
+      .from(transferManifestsTable)
+      .where(eq(transferManifestsTable.id, id))
+      .execute();
+
+    if (manifests.length === 0 || !isManifestAllowed(locationIds, manifests[0])) {
+      return null;
+    }
+
+    const transfers = await db.select({
+      ...getTableColumns(locationHistoryTable),
+      item_code: inventoryItemsTable.item_code,
+      item_name: inventoryItemsTable.name
+    })
+      .from(locationHistoryTable)
+      .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
+      .where(eq(locationHistoryTable.manifest_id, id))
+      .orderBy(asc(locationHistoryTable.id))
+      .execute();
+
+    return { ...manifests[0], transfers };
+  } catch (error) {
+    console.error('Failed to fetch manifest by ID:', error);
+    throw error;
+  }
+}
+
+// Creates the manifest and one pending transfer per item; each transfer goes through the
+// usual checks and approval rules
+export async function createManifest(input: CreateTransferManifestInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<TransferManifestDetails> {
+  try {
+    if (input.from_location_id === input.to_location_id) {
+      throw new Error('A manifest must move items between two different locations');
+    }
+
+    for (const locationId of [input.from_location_id, input.to_location_id]) {
+      const locations = await db.select({ id: locationsTable.id })
+        .from(locationsTable)
+        .where(eq(locationsTable.id, locationId))
+        .execute();
+
+      if (locations.length === 0) {
+        throw new Error(`Location with ID ${locationId} does not exist`);
+      }
+    }
+
+    // Check every item up front so the caller gets one clear error before anything is written
+    const itemIds = [...new Set(input.item_ids)];
+    const items = await db.select()
+      .from(inventoryItemsTable)
+      .where(inArray(inventoryItemsTable.id, itemIds))
+      .execute();
+
+    for (const itemId of itemIds) {
+      const item = items.find(item => item.id === itemId);
+      if (!item || !isLocationAllowed(locationIds, item.location_id)) {
+        throw new Error(`Item with ID ${itemId} does not exist`);
+      }
+      if (item.location_id !== input.from_location_id) {
+        throw new TransferLocationMismatchError(itemId, item.location_id, input.from_location_id);
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(transferManifestsTable)
+        .values({
+          from_location_id: input.from_location_id,
+          to_location_id: input.to_location_id,
+          courier: input.courier,
+          tracking_number: input.tracking_number,
+          created_by_id: actor?.id ?? null,
+          notes: input.notes
+        })
+        .returning()
+        .execute();
+
+      const manifest = result[0];
+      await recordAudit({ actor, action: 'create', entity_type: 'transfer_manifest', entity_id: manifest.id, after: manifest }, tx);
+
+      const transfers = [];
+      for (const itemId of itemIds) {
+        const transfer = await createLocationHistory({
+          item_id: itemId,
+          from_location_id: input.from_location_id,
+          to_location_id: input.to_location_id,
+          transfer_date: input.transfer_date,
+          sender_id: input.sender_id,
+          receiver_id: input.receiver_id,
+          reason: input.reason,
+          status: 'pending',
+          notes: null
+        }, locationIds, actor, manifest.id, tx);
+        // Every item was checked above
+        const item = items.find(item => item.id === itemId)!;
+        transfers.push({ ...transfer, item_code: item.item_code, item_name: item.name });
+      }
+
+      return { ...manifest, transfers };
+    });
+  } catch (error) {
+    console.error('Manifest creation failed:', error);
+    throw error;
+  }
+}
+
+// Sends every ready transfer on its way; nothing leaves while an approval is outstanding
+export async function dispatchManifest(input: DispatchManifestInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<TransferManifestDetails> {
+  try {
+    await db.transaction(async (tx) => {
+      const manifest = await findManifest(tx, input.id, locationIds);
+
+      if (manifest.status !== 'pending') {
+        throw new TransferRuleError(`Manifest ${input.id} is ${manifest.status} and cannot be dispatched`);
+      }
+
+      const transfers = await getManifestTransfers(tx, input.id);
+
+      if (transfers.some(transfer => transfer.status === 'pending_approval')) {
+        throw new TransferRuleError(`Manifest ${input.id} still has transfers awaiting approval`);
+      }
+
+      const ready = transfers.filter(transfer => transfer.status === 'pending');
+      if (ready.length === 0) {
+        throw new TransferRuleError(`Manifest ${input.id} has no transfers ready to dispatch`);
+      }
+
+      for (const transfer of ready) {
+        await applyTransferChanges(transfer, { status: 'in_transit' }, actor, tx);
+      }
+
+      await setManifestStatus(tx, manifest, { status: 'in_transit', dispatched_at: input.dispatched_at ?? new Date() }, actor);
+    });
+
+    return (await getManifestById(input.id))!;
+  } catch (error) {
+    console.error('Manifest dispatch failed:', error);
+    throw error;
+  }
+}
+
+// Completes the transfers that arrived and cancels the missing ones. Damaged items still move
+// but arrive as damaged stock, apart from the destination's intact units.
+export async function receiveManifest(input: ReceiveManifestInput, locationIds: number[] | null = null, actor: AuditActor = null): Promise<TransferManifestDetails> {
+  try {
+    await db.transaction(async (tx) => {
+      const manifest = await findManifest(tx, input.id, locationIds);
+
+      if (manifest.status !== 'in_transit') {
+        throw new TransferRuleError(`Manifest ${input.id} is ${manifest.status} and cannot be received`);
+      }
+
+      const transfers = (await getManifestTransfers(tx, input.id)).filter(transfer => transfer.status === 'in_transit');
+
+      for (const line of input.lines) {
+        if (!transfers.some(transfer => transfer.id === line.transfer_id)) {
+          throw new Error(`Transfer ${line.transfer_id} is not in transit on manifest ${input.id}`);
+        }
+      }
+
+      let complete = true;
+      for (const transfer of transfers) {
+        const line = input.lines.find(line => line.transfer_id === transfer.id);
+        const outcome = line?.outcome ?? 'received';
+        complete = complete && outcome === 'received';
+
+        await applyTransferChanges(transfer, {
+          status: outcome === 'missing' ? 'cancelled' : 'completed',
+          receipt_status: outcome,
+          notes: line?.notes ?? undefined
+        }, actor, tx);
+      }
+
+      await setManifestStatus(tx, manifest, {
+        status: complete ? 'received' : 'partially_received',
+        received_at: input.received_at ?? new Date()
+      }, actor);
+    });
+
+    return (await getManifestById(input.id))!;
+  } catch (error) {
+    console.error('Manifest receipt failed:', error);
+    throw error;
+  }
+}
+
+export async function cancelManifest(id: number, locationIds: number[] | null = null, actor: AuditActor = null): Promise<TransferManifestDetails> {
+  try {
+    await db.transaction(async (tx) => {
+      const manifest = await findManifest(tx, id, locationIds);
+
+      if (manifest.status !== 'pending' && manifest.status !== 'in_transit') {
+        throw new TransferRuleError(`Manifest ${id} is ${manifest.status} and cannot be cancelled`);
+      }
+
+      const transfers = await getManifestTransfers(tx, id);
+      for (const transfer of transfers.filter(transfer => canTransitionTransfer(transfer.status, 'cancelled'))) {
+        await applyTransferChanges(transfer, { status: 'cancelled' }, actor, tx);
+      }
+
+      await setManifestStatus(tx, manifest, { status: 'cancelled' }, actor);
+    });
+
+    return (await getManifestById(id))!;
+  } catch (error) {
+    console.error('Manifest cancellation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,232 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  type MfaSetupResponse,
+  type MfaCodeInput,
+  type DisableMfaInput,
+  type RecoveryCodesResponse
+} from '../schema';
+import { verifyPassword } from '../helpers/password';
+import {
+  generateTotpSecret,
+  buildProvisioningUri,
+  verifyTotp,
+  generateRecoveryCodes,
+  hashRecoveryCode
+} from '../helpers/totp';
+import { getSecuritySettings } from './settings';
+import { recordAudit, type AuditActor } from './audit';
+
+const TOTP_ISSUER = process.env['TOTP_ISSUER'] || 'Totalindo IT Inventory';
+
+type UserRow = typeof usersTable.$inferSelect;
+
+const getUserRow = async (userId: number): Promise<UserRow> => {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with ID ${userId} does not exist`);
+  }
+
+  return users[0];
+};
+
+// Self-service changes are made by the signed-in user on their own account
+const selfActor = (user: UserRow): AuditActor => ({ id: user.id, username: user.username });
+
+// Checks a TOTP code or, failing that, consumes a matching recovery code
+export const verifySecondFactor = async (user: UserRow, code: string): Promise<boolean> => {
+  if (!user.totp_enabled || !user.totp_secret) {
+    return false;
+  }
+
+  if (verifyTotp(user.totp_secret, code)) {
+    return true;
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  if (user.totp_recovery_code_hashes.includes(codeHash)) {
+    await db.update(usersTable)
+      .set({
+        totp_recovery_code_hashes: user.totp_recovery_code_hashes.filter(hash => hash !== codeHash)
+      })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+    return true;
+  }
+
+  return false;
+};
+
+// True when the security policy requires this user to enroll before using the app
+export const isMfaSetupRequired = async (user: { role: string; totp_enabled: boolean }): Promise<boolean> => {
+  if (user.role !== 'admin' || user.totp_enabled) {
+    return false;
+  }
+
+  const settings = await getSecuritySettings();
+  return settings.require_admin_mfa;
+};
+
+export const setupMfa = async (userId: number): Promise<MfaSetupResponse> => {
+  try {
+    const user = await getUserRow(userId);
+    if (user.totp_enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // Stored as pending until the user proves their authenticator produces valid codes
+    const secret = generateTotpSecret();
+    await db.update(usersTable)
+      .set({ totp_secret: secret, updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    return {
+      secret,
+      provisioning_uri: buildProvisioningUri(secret, user.username, TOTP_ISSUER)
+    };
+  } catch (error) {
+    console.error('Two-factor setup failed:', error);
+    throw error;
+  }
+};
+
+export const enableMfa = async (userId: number, input: MfaCodeInput): Promise<RecoveryCodesResponse> => {
+  try {
+    const user = await getUserRow(userId);
+    if (user.totp_enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+    if (!user.totp_secret) {
+      throw new Error('Two-factor setup has not been started');
+    }
+    if (!verifyTotp(user.totp_secret, input.code)) {
+      throw new Error('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({
+          totp_enabled: true,
+          totp_recovery_code_hashes: recoveryCodes.map(hashRecoveryCode),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+
+      await recordAudit({ actor: selfActor(user), action: 'update', entity_type: 'user', entity_id: userId, before: user, after: result[0] }, tx);
+    });
+
+    return { recovery_codes: recoveryCodes };
+  } catch (error) {
+    console.error('Enabling two-factor authentication failed:', error);
+    throw error;
+  }
+};
+
+export const disableMfa = async (userId: number, input: DisableMfaInput): Promise<{ success: boolean }> => {
+  try {
+    const user = await getUserRow(userId);
+
+    if (!await verifyPassword(input.password, user.password_hash)) {
+      throw new Error('Password is incorrect');
+    }
+
+    if (user.role === 'admin' && (await getSecuritySettings()).require_admin_mfa) {
+      throw new Error('Two-factor authentication is required for administrators');
+    }
+
+    await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({
+          totp_enabled: false,
+          totp_secret: null,
+          totp_recovery_code_hashes: [],
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+
+      await recordAudit({ actor: selfActor(user), action: 'update', entity_type: 'user', entity_id: userId, before: user, after: result[0] }, tx);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Disabling two-factor authentication failed:', error);
+    throw error;
+  }
+};
+
+export const regenerateRecoveryCodes = async (userId: number, input: MfaCodeInput): Promise<RecoveryCodesResponse> => {
+  try {
+    const user = await getUserRow(userId);
+    if (!user.totp_enabled || !user.totp_secret) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+    if (!verifyTotp(user.totp_secret, input.code)) {
+      throw new Error('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db.transaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({
+          totp_recovery_code_hashes: recoveryCodes.map(hashRecoveryCode),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      // The codes themselves are never logged, so mark the change explicitly
+      await recordAudit({
+        actor: selfActor(user),
+        action: 'update',
+        entity_type: 'user',
+        entity_id: userId,
+        before: {},
+        after: { recovery_codes: 'regenerated' }
+      }, tx);
+    });
+
+    return { recovery_codes: recoveryCodes };
+  } catch (error) {
+    console.error('Regenerating recovery codes failed:', error);
+    throw error;
+  }
+};
+
+// Admin action for users who lost their authenticator and recovery codes
+export const resetUserMfa = async (userId: number, actor: AuditActor = null): Promise<{ success: boolean }> => {
+  try {
+    const user = await getUserRow(userId);
+
+    await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({
+          totp_enabled: false,
+          totp_secret: null,
+          totp_recovery_code_hashes: [],
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+
+      // Nothing is recorded when two-factor was already off
+      await recordAudit({ actor, action: 'update', entity_type: 'user', entity_id: userId, before: user, after: result[0] }, tx);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Two-factor reset failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+// Fuzzy matching of names typed into spreadsheets against existing records, so a typo such as
+// "Jakrta" can be offered as "Jakarta" instead of becoming a new record.
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for names that only differ in case, spacing or punctuation, falling towards 0
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === '' || right === '') {
+    return 0;
+  }
+
+  const score = 1 - editDistance(left, right) / Math.max(left.length, right.length);
+  // "Jakarta" for "Jakarta Pusat": one name shortened from the other
+  const contained = Math.min(left.length, right.length) >= 3 && (left.includes(right) || right.includes(left));
+  return contained ? Math.max(score, 0.8) : score;
+};
+
+export interface NameCandidate {
+  id: number;
+  name: string;
+  // Other names the record is known by, such as a branch code
+  aliases?: string[];
+}
+
+const MIN_SIMILARITY = 0.5;
+
+// The closest candidates, best first
+export const closestNames = (name: string, candidates: NameCandidate[], limit = 3): NameCandidate[] =>
+  candidates
+    .map(candidate => ({
+      candidate,
+      score: Math.max(...[candidate.name, ...(candidate.aliases ?? [])].map(alias => nameSimilarity(name, alias)))
+    }))
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score || a.candidate.name.localeCompare(b.candidate.name))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
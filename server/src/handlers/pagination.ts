@@ -0,0 +1,35 @@
+import { asc, desc, type AnyColumn, type SQL } from 'drizzle-orm';
+import { DEFAULT_PAGE_SIZE, type Paginated, type SortDirection } from '../schema';
+
+export interface PageRequest<F extends string> {
+  page?: number;
+  page_size?: number;
+  sort?: { field: F; direction: SortDirection }[];
+}
+
+export const pageWindow = (request: PageRequest<string>) => {
+  const page = request.page ?? 1;
+  const pageSize = request.page_size ?? DEFAULT_PAGE_SIZE;
+  return { page, pageSize, offset: (page - 1) * pageSize };
+};
+
+export const emptyPage = <T>(request: PageRequest<string>): Paginated<T> => {
+  const { page, pageSize } = pageWindow(request);
+  return { items: [], total: 0, page, page_size: pageSize };
+};
+
+// Requested sort first, then the list's default order. Defaults must end on a unique column
+// so that rows with equal sort keys keep their place between pages.
+export const sortOrder = <F extends string>(
+  sort: PageRequest<F>['sort'],
+  columns: Record<F, AnyColumn>,
+  defaults: SQL[]
+): SQL[] => {
+  const requested = (sort ?? []).map(({ field, direction }) =>
+    direction === 'desc' ? desc(columns[field]) : asc(columns[field])
+  );
+  return [...requested, ...defaults];
+};
+
+// ILIKE pattern matching `term` anywhere, with its own wildcards taken literally
+export const containsPattern = (term: string) => `%${term.replace(/[\\%_]/g, char => `\\${char}`)}%`;
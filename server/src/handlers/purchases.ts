@@ -1,7 +1,18 @@
 import { db } from '../db';
 import { purchasesTable, inventoryItemsTable, suppliersTable } from '../db/schema';
-import { type Purchase, type CreatePurchaseInput, type UpdatePurchaseInput } from '../schema';
-import { eq } from 'drizzle-orm';
+import {
+  type Purchase,
+  type CreatePurchaseInput,
+  type UpdatePurchaseInput,
+  type PurchaseReportFilter,
+  type PurchaseListInput,
+  type PurchaseSortField,
+  type PurchaseListRow,
+  type Paginated
+} from '../schema';
+import { eq, and, or, desc, gte, lte, ilike, count, inArray, type SQL, type AnyColumn } from 'drizzle-orm';
+import { recordAudit, type AuditActor } from './audit';
+import { pageWindow, emptyPage, sortOrder, containsPattern } from './pagination';
 
 export async function getPurchases(): Promise<Purchase[]> {
   try {
@@ -20,6 +31,103 @@ export async function getPurchases(): Promise<Purchase[]> {
   }
 }
 
+// Shared by the purchase list, report and summary; expects the purchased item to be joined in
+export const purchaseFilterConditions = (filter: PurchaseReportFilter, locationIds: number[] | null): SQL<unknown>[] => {
+  const conditions: SQL<unknown>[] = [];
+
+  if (filter.search) {
+    const pattern = containsPattern(filter.search.trim());
+    conditions.push(or(ilike(inventoryItemsTable.item_code, pattern), ilike(inventoryItemsTable.name, pattern))!);
+  }
+
+  if (filter.supplier_id !== undefined) {
+    conditions.push(eq(purchasesTable.supplier_id, filter.supplier_id));
+  }
+
+  if (filter.item_id !== undefined) {
+    conditions.push(eq(purchasesTable.item_id, filter.item_id));
+  }
+
+  if (filter.date_from !== undefined) {
+    conditions.push(gte(purchasesTable.purchase_date, filter.date_from));
+  }
+
+  if (filter.date_to !== undefined) {
+    conditions.push(lte(purchasesTable.purchase_date, filter.date_to));
+  }
+
+  // Purchases are scoped by the current location of the purchased item
+  if (locationIds !== null) {
+    conditions.push(inArray(inventoryItemsTable.location_id, locationIds));
+  }
+
+  return conditions;
+};
+
+export const purchaseSortColumns: Record<PurchaseSortField, AnyColumn> = {
+  purchase_date: purchasesTable.purchase_date,
+  item: inventoryItemsTable.item_code,
+  supplier: suppliersTable.name,
+  quantity: purchasesTable.quantity,
+  unit_price: purchasesTable.unit_price,
+  total_price: purchasesTable.total_price
+};
+
+export async function listPurchases(input: PurchaseListInput, locationIds: number[] | null = null): Promise<Paginated<PurchaseListRow>> {
+  try {
+    if (locationIds !== null && locationIds.length === 0) {
+      return emptyPage(input);
+    }
+
+    const { page, pageSize, offset } = pageWindow(input);
+    const where = and(...purchaseFilterConditions(input, locationIds));
+
+    const totals = await db.select({ count: count() })
+      .from(purchasesTable)
+      .innerJoin(inventoryItemsTable, eq(purchasesTable.item_id, inventoryItemsTable.id))
+      .where(where)
+      .execute();
+
+    const results = await db.select({
+      id: purchasesTable.id,
+      item_id: purchasesTable.item_id,
+      supplier_id: purchasesTable.supplier_id,
+      quantity: purchasesTable.quantity,
+      unit_price: purchasesTable.unit_price,
+      total_price: purchasesTable.total_price,
+      purchase_date: purchasesTable.purchase_date,
+      notes: purchasesTable.notes,
+      created_at: purchasesTable.created_at,
+      updated_at: purchasesTable.updated_at,
+      item_code: inventoryItemsTable.item_code,
+      item_name: inventoryItemsTable.name,
+      supplier_name: suppliersTable.name
+    })
+      .from(purchasesTable)
+      .innerJoin(inventoryItemsTable, eq(purchasesTable.item_id, inventoryItemsTable.id))
+      .innerJoin(suppliersTable, eq(purchasesTable.supplier_id, suppliersTable.id))
+      .where(where)
+      .orderBy(...sortOrder(input.sort, purchaseSortColumns, [desc(purchasesTable.purchase_date), desc(purchasesTable.id)]))
+      .limit(pageSize)
+      .offset(offset)
+      .execute();
+
+    return {
+      items: results.map(purchase => ({
+        ...purchase,
+        unit_price: parseFloat(purchase.unit_price),
+        total_price: parseFloat(purchase.total_price)
+      })),
+      total: totals[0].count,
+      page,
+      page_size: pageSize
+    };
+  } catch (error) {
+    console.error('Failed to list purchases:', error);
+    throw error;
+  }
+}
+
 export async function getPurchaseById(id: number): Promise<Purchase | null> {
   try {
     const results = await db.select()
@@ -79,58 +187,62 @@ export async function getPurchasesBySupplier(supplierId: number): Promise<Purcha
   }
 }
 
-export async function createPurchase(input: CreatePurchaseInput): Promise<Purchase> {
+export async function createPurchase(input: CreatePurchaseInput, actor: AuditActor = null): Promise<Purchase> {
   try {
-    // Calculate total price
-    const totalPrice = input.quantity * input.unit_price;
+    return await db.transaction(async (tx) => {
+      // Calculate total price
+      const totalPrice = input.quantity * input.unit_price;
 
-    // Verify item exists
-    const itemExists = await db.select()
-      .from(inventoryItemsTable)
-      .where(eq(inventoryItemsTable.id, input.item_id))
-      .execute();
+      // Verify item exists
+      const itemExists = await tx.select()
+        .from(inventoryItemsTable)
+        .where(eq(inventoryItemsTable.id, input.item_id))
+        .execute();
 
-    if (itemExists.length === 0) {
-      throw new Error(`Inventory item with ID ${input.item_id} does not exist`);
-    }
+      if (itemExists.length === 0) {
+        throw new Error(`Inventory item with ID ${input.item_id} does not exist`);
+      }
 
-    // Verify supplier exists
-    const supplierExists = await db.select()
-      .from(suppliersTable)
-      .where(eq(suppliersTable.id, input.supplier_id))
-      .execute();
+      // Verify supplier exists
+      const supplierExists = await tx.select()
+        .from(suppliersTable)
+        .where(eq(suppliersTable.id, input.supplier_id))
+        .execute();
 
-    if (supplierExists.length === 0) {
-      throw new Error(`Supplier with ID ${input.supplier_id} does not exist`);
-    }
+      if (supplierExists.length === 0) {
+        throw new Error(`Supplier with ID ${input.supplier_id} does not exist`);
+      }
 
-    // Create purchase record
-    const results = await db.insert(purchasesTable)
-      .values({
-        item_id: input.item_id,
-        supplier_id: input.supplier_id,
-        quantity: input.quantity,
-        unit_price: input.unit_price.toString(),
-        total_price: totalPrice.toString(),
-        purchase_date: input.purchase_date,
-        notes: input.notes
-      })
-      .returning()
-      .execute();
+      // Create purchase record
+      const results = await tx.insert(purchasesTable)
+        .values({
+          item_id: input.item_id,
+          supplier_id: input.supplier_id,
+          quantity: input.quantity,
+          unit_price: input.unit_price.toString(),
+          total_price: totalPrice.toString(),
+          purchase_date: input.purchase_date,
+          notes: input.notes
+        })
+        .returning()
+        .execute();
 
-    const purchase = results[0];
-    return {
-      ...purchase,
-      unit_price: parseFloat(purchase.unit_price),
-      total_price: parseFloat(purchase.total_price)
-    };
+      await recordAudit({ actor, action: 'create', entity_type: 'purchase', entity_id: results[0].id, after: results[0] }, tx);
+
+      const purchase = results[0];
+      return {
+        ...purchase,
+        unit_price: parseFloat(purchase.unit_price),
+        total_price: parseFloat(purchase.total_price)
+      };
+    });
   } catch (error) {
     console.error('Failed to create purchase:', error);
     throw error;
   }
 }
 
-export async function updatePurchase(input: UpdatePurchaseInput): Promise<Purchase> {
+export async function updatePurchase(input: UpdatePurchaseInput, actor: AuditActor = null): Promise<Purchase> {
   try {
     // Check if purchase exists
     const existing = await db.select()
@@ -190,26 +302,30 @@ export async function updatePurchase(input: UpdatePurchaseInput): Promise<Purcha
       updateValues.total_price = totalPrice.toString();
     }
 
-    // Update purchase record
-    const results = await db.update(purchasesTable)
-      .set(updateValues)
-      .where(eq(purchasesTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      // Update purchase record
+      const results = await tx.update(purchasesTable)
+        .set(updateValues)
+        .where(eq(purchasesTable.id, input.id))
+        .returning()
+        .execute();
 
-    const purchase = results[0];
-    return {
-      ...purchase,
-      unit_price: parseFloat(purchase.unit_price),
-      total_price: parseFloat(purchase.total_price)
-    };
+      await recordAudit({ actor, action: 'update', entity_type: 'purchase', entity_id: input.id, before: currentPurchase, after: results[0] }, tx);
+
+      const purchase = results[0];
+      return {
+        ...purchase,
+        unit_price: parseFloat(purchase.unit_price),
+        total_price: parseFloat(purchase.total_price)
+      };
+    });
   } catch (error) {
     console.error('Failed to update purchase:', error);
     throw error;
   }
 }
 
-export async function deletePurchase(id: number): Promise<boolean> {
+export async function deletePurchase(id: number, actor: AuditActor = null): Promise<boolean> {
   try {
     // Check if purchase exists
     const existing = await db.select()
@@ -221,12 +337,16 @@ export async function deletePurchase(id: number): Promise<boolean> {
       return false;
     }
 
-    // Delete purchase record
-    await db.delete(purchasesTable)
-      .where(eq(purchasesTable.id, id))
-      .execute();
+    return await db.transaction(async (tx) => {
+      // Delete purchase record
+      await tx.delete(purchasesTable)
+        .where(eq(purchasesTable.id, id))
+        .execute();
+
+      await recordAudit({ actor, action: 'delete', entity_type: 'purchase', entity_id: id, before: existing[0] }, tx);
 
-    return true;
+      return true;
+    });
   } catch (error) {
     console.error('Failed to delete purchase:', error);
     throw error;
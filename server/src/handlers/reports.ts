@@ -5,45 +5,106 @@ import {
   locationHistoryTable,
   categoriesTable,
   locationsTable,
-  suppliersTable
+  suppliersTable,
+  usersTable
 } from '../db/schema';
 import { 
-  type InventoryItem, 
-  type Purchase, 
-  type LocationHistory,
   type InventoryReportFilter,
   type PurchaseReportFilter,
-  type LocationHistoryReportFilter
+  type LocationHistoryReportFilter,
+  type InventoryReportInput,
+  type PurchaseReportInput,
+  type LocationHistoryReportInput,
+  type InventoryReportGroupBy,
+  type PurchaseReportGroupBy,
+  type LocationHistoryReportGroupBy,
+  type InventoryReportRow,
+  type PurchaseReportRow,
+  type LocationHistoryReportRow,
+  type InventorySummary,
+  type PurchaseSummary,
+  type LocationHistorySummary,
+  type ReportGroup,
+  type ReportPage
 } from '../schema';
-import { eq, and, gte, lte, SQL } from 'drizzle-orm';
+import { eq, and, asc, desc, count, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { inventoryFilterConditions, inventorySortColumns } from './inventory';
+import { purchaseFilterConditions, purchaseSortColumns } from './purchases';
+import { transferFilterConditions, transferSortColumns } from './location_history';
+import { pageWindow, emptyPage, sortOrder } from './pagination';
+
+// Report tables are the paged lists joined with the names they reference, gated by the reports
+// permission instead of each resource's own
+
+interface Grouping {
+  key: SQL<string>;
+  label: SQL<string>;
+}
 
-export async function generateInventoryReport(filter: InventoryReportFilter): Promise<InventoryItem[]> {
+const monthGrouping = (column: AnyColumn): Grouping => {
+  const month = sql<string>`to_char(${column}, 'YYYY-MM')`;
+  return { key: month, label: month };
+};
+
+const locationGrouping = (locations: typeof locationsTable): Grouping => ({
+  key: sql<string>`${locations.id}::text`,
+  label: sql<string>`${locations.name} || ' (' || ${locations.branch_code} || ')'`
+});
+
+const categoryGrouping: Grouping = {
+  key: sql<string>`${categoriesTable.id}::text`,
+  label: sql<string>`${categoriesTable.name}`
+};
+
+const inventoryGroupings: Record<InventoryReportGroupBy, Grouping> = {
+  category: categoryGrouping,
+  location: locationGrouping(locationsTable),
+  month: monthGrouping(inventoryItemsTable.purchase_date)
+};
+
+const purchaseGroupings: Record<PurchaseReportGroupBy, Grouping> = {
+  supplier: { key: sql<string>`${suppliersTable.id}::text`, label: sql<string>`${suppliersTable.name}` },
+  category: categoryGrouping,
+  location: locationGrouping(locationsTable),
+  month: monthGrouping(purchasesTable.purchase_date)
+};
+
+const transferGroupings: Record<LocationHistoryReportGroupBy, Grouping> = {
+  location: locationGrouping(locationsTable),
+  month: monthGrouping(locationHistoryTable.transfer_date)
+};
+
+// Groups come first so that each group's rows stay together from page to page
+const groupOrder = (grouping: Grouping | null): SQL[] => grouping ? [asc(grouping.label), asc(grouping.key)] : [];
+
+const groupKey = (grouping: Grouping | null) => sql<string | null>`${grouping ? grouping.key : sql`null`}`;
+
+const toGroups = (rows: { key: string; label: string; count: number; quantity: string | null; amount: string | null }[]): ReportGroup[] =>
+  rows.map(row => ({
+    key: row.key,
+    label: row.label,
+    count: row.count,
+    quantity: row.quantity === null ? null : parseInt(row.quantity),
+    amount: row.amount === null ? null : parseFloat(row.amount)
+  }));
+
+export async function generateInventoryReport(input: InventoryReportInput, locationIds: number[] | null = null): Promise<ReportPage<InventoryReportRow>> {
   try {
-    // Build conditions array for filtering
-    const conditions: SQL<unknown>[] = [];
-
-    if (filter.category_id !== undefined) {
-      conditions.push(eq(inventoryItemsTable.category_id, filter.category_id));
-    }
-
-    if (filter.location_id !== undefined) {
-      conditions.push(eq(inventoryItemsTable.location_id, filter.location_id));
+    if (locationIds !== null && locationIds.length === 0) {
+      return { ...emptyPage(input), groups: [] };
     }
 
-    if (filter.condition !== undefined) {
-      conditions.push(eq(inventoryItemsTable.condition, filter.condition));
-    }
-
-    if (filter.date_from !== undefined) {
-      conditions.push(gte(inventoryItemsTable.purchase_date, filter.date_from));
-    }
+    const { page, pageSize, offset } = pageWindow(input);
+    const where = and(...inventoryFilterConditions(input, locationIds));
+    const grouping = input.group_by ? inventoryGroupings[input.group_by] : null;
 
-    if (filter.date_to !== undefined) {
-      conditions.push(lte(inventoryItemsTable.purchase_date, filter.date_to));
-    }
+    const totals = await db.select({ count: count() })
+      .from(inventoryItemsTable)
+      .where(where)
+      .execute();
 
-    // Build query with joins and conditional where clause
-    const baseQuery = db.select({
+    const results = await db.select({
       id: inventoryItemsTable.id,
       item_code: inventoryItemsTable.item_code,
       name: inventoryItemsTable.name,
@@ -55,48 +116,72 @@ export async function generateInventoryReport(filter: InventoryReportFilter): Pr
       purchase_price: inventoryItemsTable.purchase_price,
       purchase_date: inventoryItemsTable.purchase_date,
       created_at: inventoryItemsTable.created_at,
-      updated_at: inventoryItemsTable.updated_at
+      updated_at: inventoryItemsTable.updated_at,
+      category_name: categoriesTable.name,
+      location_name: locationsTable.name,
+      location_branch_code: locationsTable.branch_code,
+      group_key: groupKey(grouping)
     })
-    .from(inventoryItemsTable)
-    .innerJoin(categoriesTable, eq(inventoryItemsTable.category_id, categoriesTable.id))
-    .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id));
-
-    const query = conditions.length > 0 
-      ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : baseQuery;
-
-    const results = await query.execute();
+      .from(inventoryItemsTable)
+      .innerJoin(categoriesTable, eq(inventoryItemsTable.category_id, categoriesTable.id))
+      .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+      .where(where)
+      .orderBy(
+        ...groupOrder(grouping),
+        ...sortOrder(input.sort, inventorySortColumns, [asc(inventoryItemsTable.item_code), asc(inventoryItemsTable.id)])
+      )
+      .limit(pageSize)
+      .offset(offset)
+      .execute();
+
+    const groups = grouping === null ? [] : await db.select({
+      key: grouping.key,
+      label: grouping.label,
+      count: count(),
+      quantity: sql<string>`coalesce(sum(${inventoryItemsTable.quantity}), 0)`,
+      amount: sql<string>`coalesce(sum(${inventoryItemsTable.quantity} * ${inventoryItemsTable.purchase_price}), 0)`
+    })
+      .from(inventoryItemsTable)
+      .innerJoin(categoriesTable, eq(inventoryItemsTable.category_id, categoriesTable.id))
+      .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+      .where(where)
+      .groupBy(grouping.key, grouping.label)
+      .orderBy(...groupOrder(grouping))
+      .execute();
 
-    // Convert numeric fields back to numbers
-    return results.map(item => ({
-      ...item,
-      purchase_price: parseFloat(item.purchase_price)
-    }));
+    return {
+      items: results.map(item => ({
+        ...item,
+        purchase_price: parseFloat(item.purchase_price)
+      })),
+      total: totals[0].count,
+      page,
+      page_size: pageSize,
+      groups: toGroups(groups)
+    };
   } catch (error) {
     console.error('Inventory report generation failed:', error);
     throw error;
   }
 }
 
-export async function generatePurchaseReport(filter: PurchaseReportFilter): Promise<Purchase[]> {
+export async function generatePurchaseReport(input: PurchaseReportInput, locationIds: number[] | null = null): Promise<ReportPage<PurchaseReportRow>> {
   try {
-    // Build conditions array for filtering
-    const conditions: SQL<unknown>[] = [];
-
-    if (filter.supplier_id !== undefined) {
-      conditions.push(eq(purchasesTable.supplier_id, filter.supplier_id));
+    if (locationIds !== null && locationIds.length === 0) {
+      return { ...emptyPage(input), groups: [] };
     }
 
-    if (filter.date_from !== undefined) {
-      conditions.push(gte(purchasesTable.purchase_date, filter.date_from));
-    }
+    const { page, pageSize, offset } = pageWindow(input);
+    const where = and(...purchaseFilterConditions(input, locationIds));
+    const grouping = input.group_by ? purchaseGroupings[input.group_by] : null;
 
-    if (filter.date_to !== undefined) {
-      conditions.push(lte(purchasesTable.purchase_date, filter.date_to));
-    }
+    const totals = await db.select({ count: count() })
+      .from(purchasesTable)
+      .innerJoin(inventoryItemsTable, eq(purchasesTable.item_id, inventoryItemsTable.id))
+      .where(where)
+      .execute();
 
-    // Build query with joins and conditional where clause
-    const baseQuery = db.select({
+    const results = await db.select({
       id: purchasesTable.id,
       item_id: purchasesTable.item_id,
       supplier_id: purchasesTable.supplier_id,
@@ -106,116 +191,170 @@ export async function generatePurchaseReport(filter: PurchaseReportFilter): Prom
       purchase_date: purchasesTable.purchase_date,
       notes: purchasesTable.notes,
       created_at: purchasesTable.created_at,
-      updated_at: purchasesTable.updated_at
+      updated_at: purchasesTable.updated_at,
+      item_code: inventoryItemsTable.item_code,
+      item_name: inventoryItemsTable.name,
+      category_name: categoriesTable.name,
+      location_name: locationsTable.name,
+      location_branch_code: locationsTable.branch_code,
+      supplier_name: suppliersTable.name,
+      group_key: groupKey(grouping)
     })
-    .from(purchasesTable)
-    .innerJoin(inventoryItemsTable, eq(purchasesTable.item_id, inventoryItemsTable.id))
-    .innerJoin(suppliersTable, eq(purchasesTable.supplier_id, suppliersTable.id));
-
-    const query = conditions.length > 0 
-      ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : baseQuery;
-
-    const results = await query.execute();
+      .from(purchasesTable)
+      .innerJoin(inventoryItemsTable, eq(purchasesTable.item_id, inventoryItemsTable.id))
+      .innerJoin(categoriesTable, eq(inventoryItemsTable.category_id, categoriesTable.id))
+      .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+      .innerJoin(suppliersTable, eq(purchasesTable.supplier_id, suppliersTable.id))
+      .where(where)
+      .orderBy(
+        ...groupOrder(grouping),
+        ...sortOrder(input.sort, purchaseSortColumns, [desc(purchasesTable.purchase_date), desc(purchasesTable.id)])
+      )
+      .limit(pageSize)
+      .offset(offset)
+      .execute();
+
+    const groups = grouping === null ? [] : await db.select({
+      key: grouping.key,
+      label: grouping.label,
+      count: count(),
+      quantity: sql<string>`coalesce(sum(${purchasesTable.quantity}), 0)`,
+      amount: sql<string>`coalesce(sum(${purchasesTable.total_price}), 0)`
+    })
+      .from(purchasesTable)
+      .innerJoin(inventoryItemsTable, eq(purchasesTable.item_id, inventoryItemsTable.id))
+      .innerJoin(categoriesTable, eq(inventoryItemsTable.category_id, categoriesTable.id))
+      .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+      .innerJoin(suppliersTable, eq(purchasesTable.supplier_id, suppliersTable.id))
+      .where(where)
+      .groupBy(grouping.key, grouping.label)
+      .orderBy(...groupOrder(grouping))
+      .execute();
 
-    // Convert numeric fields back to numbers
-    return results.map(purchase => ({
-      ...purchase,
-      unit_price: parseFloat(purchase.unit_price),
-      total_price: parseFloat(purchase.total_price)
-    }));
+    return {
+      items: results.map(purchase => ({
+        ...purchase,
+        unit_price: parseFloat(purchase.unit_price),
+        total_price: parseFloat(purchase.total_price)
+      })),
+      total: totals[0].count,
+      page,
+      page_size: pageSize,
+      groups: toGroups(groups)
+    };
   } catch (error) {
     console.error('Purchase report generation failed:', error);
     throw error;
   }
 }
 
-export async function generateLocationHistoryReport(filter: LocationHistoryReportFilter): Promise<LocationHistory[]> {
+export async function generateLocationHistoryReport(input: LocationHistoryReportInput, locationIds: number[] | null = null): Promise<ReportPage<LocationHistoryReportRow>> {
   try {
-    // Build conditions array for filtering
-    const conditions: SQL<unknown>[] = [];
-
-    if (filter.item_id !== undefined) {
-      conditions.push(eq(locationHistoryTable.item_id, filter.item_id));
+    if (locationIds !== null && locationIds.length === 0) {
+      return { ...emptyPage(input), groups: [] };
     }
 
-    if (filter.location_id !== undefined) {
-      conditions.push(eq(locationHistoryTable.to_location_id, filter.location_id));
-    }
+    const { page, pageSize, offset } = pageWindow(input);
+    const where = and(...transferFilterConditions(input, locationIds));
+    const grouping = input.group_by ? transferGroupings[input.group_by] : null;
 
-    if (filter.status !== undefined) {
-      conditions.push(eq(locationHistoryTable.status, filter.status));
-    }
+    const fromLocations = alias(locationsTable, 'from_locations');
+    const creators = alias(usersTable, 'creators');
+    const senders = alias(usersTable, 'senders');
+    const receivers = alias(usersTable, 'receivers');
 
-    if (filter.date_from !== undefined) {
-      conditions.push(gte(locationHistoryTable.transfer_date, filter.date_from));
-    }
+    const totals = await db.select({ count: count() })
+      .from(locationHistoryTable)
+      .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
+      .where(where)
+      .execute();
 
-    if (filter.date_to !== undefined) {
-      conditions.push(lte(locationHistoryTable.transfer_date, filter.date_to));
-    }
-
-    // Build query with joins and conditional where clause
-    const baseQuery = db.select({
+    const results = await db.select({
       id: locationHistoryTable.id,
       item_id: locationHistoryTable.item_id,
+      manifest_id: locationHistoryTable.manifest_id,
       from_location_id: locationHistoryTable.from_location_id,
       to_location_id: locationHistoryTable.to_location_id,
       transfer_date: locationHistoryTable.transfer_date,
+      quantity: locationHistoryTable.quantity,
       transferred_by: locationHistoryTable.transferred_by,
+      created_by_id: locationHistoryTable.created_by_id,
+      sender_id: locationHistoryTable.sender_id,
+      receiver_id: locationHistoryTable.receiver_id,
       reason: locationHistoryTable.reason,
       status: locationHistoryTable.status,
+      requires_source_approval: locationHistoryTable.requires_source_approval,
+      requires_destination_approval: locationHistoryTable.requires_destination_approval,
+      receipt_status: locationHistoryTable.receipt_status,
+      handover_document_number: locationHistoryTable.handover_document_number,
       notes: locationHistoryTable.notes,
       created_at: locationHistoryTable.created_at,
-      updated_at: locationHistoryTable.updated_at
+      updated_at: locationHistoryTable.updated_at,
+      item_code: inventoryItemsTable.item_code,
+      item_name: inventoryItemsTable.name,
+      from_location_name: fromLocations.name,
+      to_location_name: locationsTable.name,
+      created_by_name: creators.username,
+      sender_name: senders.username,
+      receiver_name: receivers.username,
+      group_key: groupKey(grouping)
     })
-    .from(locationHistoryTable)
-    .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
-    .innerJoin(locationsTable, eq(locationHistoryTable.to_location_id, locationsTable.id));
-
-    const query = conditions.length > 0 
-      ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : baseQuery;
-
-    const results = await query.execute();
+      .from(locationHistoryTable)
+      .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
+      .innerJoin(locationsTable, eq(locationHistoryTable.to_location_id, locationsTable.id))
+      .leftJoin(fromLocations, eq(locationHistoryTable.from_location_id, fromLocations.id))
+      .leftJoin(creators, eq(locationHistoryTable.created_by_id, creators.id))
+      .leftJoin(senders, eq(locationHistoryTable.sender_id, senders.id))
+      .leftJoin(receivers, eq(locationHistoryTable.receiver_id, receivers.id))
+      .where(where)
+      .orderBy(
+        ...groupOrder(grouping),
+        ...sortOrder(input.sort, transferSortColumns, [desc(locationHistoryTable.created_at), desc(locationHistoryTable.id)])
+      )
+      .limit(pageSize)
+      .offset(offset)
+      .execute();
+
+    // Units moved; transfers recorded before quantities were tracked moved a whole row of unknown
+    // size and add none
+    const groups = grouping === null ? [] : await db.select({
+      key: grouping.key,
+      label: grouping.label,
+      count: count(),
+      quantity: sql<string>`coalesce(sum(coalesce(${locationHistoryTable.quantity}, 0)), 0)`,
+      amount: sql<string | null>`null`
+    })
+      .from(locationHistoryTable)
+      .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
+      .innerJoin(locationsTable, eq(locationHistoryTable.to_location_id, locationsTable.id))
+      .where(where)
+      .groupBy(grouping.key, grouping.label)
+      .orderBy(...groupOrder(grouping))
+      .execute();
 
-    return results;
+    return {
+      items: results.map(({ created_by_name, ...record }) => ({
+        ...record,
+        // Unlinked legacy records keep the name that was typed in
+        recorded_by: created_by_name ?? record.transferred_by,
+        transfer_date: new Date(record.transfer_date),
+        created_at: new Date(record.created_at),
+        updated_at: new Date(record.updated_at)
+      })),
+      total: totals[0].count,
+      page,
+      page_size: pageSize,
+      groups: toGroups(groups)
+    };
   } catch (error) {
     console.error('Location history report generation failed:', error);
     throw error;
   }
 }
 
-export async function generateInventorySummary(filter: InventoryReportFilter): Promise<{
-  totalItems: number;
-  totalValue: number;
-  itemsByCategory: Record<string, number>;
-  itemsByLocation: Record<string, number>;
-  itemsByCondition: Record<string, number>;
-}> {
+export async function generateInventorySummary(filter: InventoryReportFilter, locationIds: number[] | null = null): Promise<InventorySummary> {
   try {
-    // Build conditions array for filtering
-    const conditions: SQL<unknown>[] = [];
-
-    if (filter.category_id !== undefined) {
-      conditions.push(eq(inventoryItemsTable.category_id, filter.category_id));
-    }
-
-    if (filter.location_id !== undefined) {
-      conditions.push(eq(inventoryItemsTable.location_id, filter.location_id));
-    }
-
-    if (filter.condition !== undefined) {
-      conditions.push(eq(inventoryItemsTable.condition, filter.condition));
-    }
-
-    if (filter.date_from !== undefined) {
-      conditions.push(gte(inventoryItemsTable.purchase_date, filter.date_from));
-    }
-
-    if (filter.date_to !== undefined) {
-      conditions.push(lte(inventoryItemsTable.purchase_date, filter.date_to));
-    }
+    const conditions = inventoryFilterConditions(filter, locationIds);
 
     // Build query with joins and conditional where clause
     const baseQuery = db.select({
@@ -274,27 +413,9 @@ export async function generateInventorySummary(filter: InventoryReportFilter): P
   }
 }
 
-export async function generatePurchaseSummary(filter: PurchaseReportFilter): Promise<{
-  totalPurchases: number;
-  totalAmount: number;
-  purchasesBySupplier: Record<string, { count: number; amount: number }>;
-  purchasesByMonth: Record<string, { count: number; amount: number }>;
-}> {
+export async function generatePurchaseSummary(filter: PurchaseReportFilter, locationIds: number[] | null = null): Promise<PurchaseSummary> {
   try {
-    // Build conditions array for filtering
-    const conditions: SQL<unknown>[] = [];
-
-    if (filter.supplier_id !== undefined) {
-      conditions.push(eq(purchasesTable.supplier_id, filter.supplier_id));
-    }
-
-    if (filter.date_from !== undefined) {
-      conditions.push(gte(purchasesTable.purchase_date, filter.date_from));
-    }
-
-    if (filter.date_to !== undefined) {
-      conditions.push(lte(purchasesTable.purchase_date, filter.date_to));
-    }
+    const conditions = purchaseFilterConditions(filter, locationIds);
 
     // Build query with joins and conditional where clause
     const baseQuery = db.select({
@@ -304,6 +425,7 @@ export async function generatePurchaseSummary(filter: PurchaseReportFilter): Pro
       supplier_name: suppliersTable.name
     })
     .from(purchasesTable)
+    .innerJoin(inventoryItemsTable, eq(purchasesTable.item_id, inventoryItemsTable.id))
     .innerJoin(suppliersTable, eq(purchasesTable.supplier_id, suppliersTable.id));
 
     const query = conditions.length > 0 
@@ -349,4 +471,65 @@ export async function generatePurchaseSummary(filter: PurchaseReportFilter): Pro
     console.error('Purchase summary generation failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function generateLocationHistorySummary(filter: LocationHistoryReportFilter, locationIds: number[] | null = null): Promise<LocationHistorySummary> {
+  try {
+    const conditions = transferFilterConditions(filter, locationIds);
+
+    const creators = alias(usersTable, 'creators');
+    const senders = alias(usersTable, 'senders');
+    const receivers = alias(usersTable, 'receivers');
+
+    const baseQuery = db.select({
+      status: locationHistoryTable.status,
+      transferred_by: locationHistoryTable.transferred_by,
+      created_by_name: creators.username,
+      sender_name: senders.username,
+      receiver_name: receivers.username
+    })
+    .from(locationHistoryTable)
+    .innerJoin(inventoryItemsTable, eq(locationHistoryTable.item_id, inventoryItemsTable.id))
+    .leftJoin(creators, eq(locationHistoryTable.created_by_id, creators.id))
+    .leftJoin(senders, eq(locationHistoryTable.sender_id, senders.id))
+    .leftJoin(receivers, eq(locationHistoryTable.receiver_id, receivers.id));
+
+    const query = conditions.length > 0 
+      ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
+      : baseQuery;
+
+    const results = await query.execute();
+
+    const transfersByUser: Record<string, number> = {};
+    const transfersBySender: Record<string, number> = {};
+    const transfersByReceiver: Record<string, number> = {};
+    const transfersByStatus: Record<string, number> = {};
+
+    results.forEach(transfer => {
+      // Unlinked legacy records still group under the name that was typed in
+      const creator = transfer.created_by_name ?? transfer.transferred_by ?? 'Unknown';
+      transfersByUser[creator] = (transfersByUser[creator] || 0) + 1;
+
+      if (transfer.sender_name) {
+        transfersBySender[transfer.sender_name] = (transfersBySender[transfer.sender_name] || 0) + 1;
+      }
+
+      if (transfer.receiver_name) {
+        transfersByReceiver[transfer.receiver_name] = (transfersByReceiver[transfer.receiver_name] || 0) + 1;
+      }
+
+      transfersByStatus[transfer.status] = (transfersByStatus[transfer.status] || 0) + 1;
+    });
+
+    return {
+      totalTransfers: results.length,
+      transfersByUser,
+      transfersBySender,
+      transfersByReceiver,
+      transfersByStatus
+    };
+  } catch (error) {
+    console.error('Location history summary generation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,207 @@
+import { db } from '../db';
+import { rolePermissionsTable, userLocationsTable, usersTable, locationsTable } from '../db/schema';
+import {
+  permissionEnum,
+  userRoleEnum,
+  type Permission,
+  type UserRole,
+  type RolePermissions,
+  type UpdateRolePermissionsInput,
+  type SetUserLocationsInput,
+  type AccessScope
+} from '../schema';
+import { eq, inArray } from 'drizzle-orm';
+import { recordAudit, type AuditActor } from './audit';
+
+const ALL_PERMISSIONS: Permission[] = [...permissionEnum.options];
+const VIEW_PERMISSIONS = ALL_PERMISSIONS.filter(permission => permission.endsWith('.view'));
+
+// Built-in matrix, used until an admin saves changes for a role
+const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, { permissions: Permission[]; location_scoped: boolean }> = {
+  admin: { permissions: ALL_PERMISSIONS, location_scoped: false },
+  // Original role: full access to inventory data, no user management
+  user: { permissions: ALL_PERMISSIONS, location_scoped: false },
+  auditor: { permissions: VIEW_PERMISSIONS, location_scoped: false },
+  branch_manager: {
+    permissions: [
+      'dashboard.view', 'locations.view', 'categories.view', 'suppliers.view',
+      'inventory.view', 'inventory.create', 'inventory.update', 'inventory.updateCondition', 'inventory.delete',
+      'locationHistory.view', 'locationHistory.create', 'locationHistory.update', 'locationHistory.approve',
+      'reports.view'
+    ],
+    location_scoped: true
+  },
+  procurement: {
+    permissions: [
+      'dashboard.view', 'locations.view', 'categories.view', 'inventory.view',
+      'suppliers.view', 'suppliers.create', 'suppliers.update', 'suppliers.delete',
+      'purchases.view', 'purchases.create', 'purchases.update', 'purchases.delete',
+      'reports.view'
+    ],
+    location_scoped: false
+  },
+  technician: {
+    permissions: [
+      'dashboard.view', 'locations.view', 'categories.view',
+      'inventory.view', 'inventory.updateCondition',
+      'locationHistory.view', 'locationHistory.create', 'locationHistory.update'
+    ],
+    location_scoped: true
+  }
+};
+
+// The matrix is consulted on every permission check, so keep it in memory
+let cachedRolePermissions: RolePermissions[] | null = null;
+
+export const getRolePermissions = async (): Promise<RolePermissions[]> => {
+  try {
+    if (cachedRolePermissions) {
+      return cachedRolePermissions;
+    }
+
+    const rows = await db.select().from(rolePermissionsTable).execute();
+    const stored = new Map(rows.map(row => [row.role, row]));
+
+    cachedRolePermissions = userRoleEnum.options.map(role => {
+      const row = stored.get(role);
+      if (role === 'admin' || !row) {
+        return { role, ...DEFAULT_ROLE_PERMISSIONS[role], updated_at: row?.updated_at ?? new Date(0) };
+      }
+      return {
+        role,
+        // Drop keys that are no longer part of the API
+        permissions: row.permissions.filter((permission): permission is Permission =>
+          (ALL_PERMISSIONS as string[]).includes(permission)),
+        location_scoped: row.location_scoped,
+        updated_at: row.updated_at
+      };
+    });
+
+    return cachedRolePermissions;
+  } catch (error) {
+    console.error('Failed to fetch role permissions:', error);
+    throw error;
+  }
+};
+
+export const updateRolePermissions = async (input: UpdateRolePermissionsInput, actor: AuditActor = null): Promise<RolePermissions> => {
+  try {
+    const permissions = [...new Set(input.permissions)];
+    const previous = (await getRolePermissions()).find(role => role.role === input.role)!;
+
+    await db.transaction(async (tx) => {
+      await tx.insert(rolePermissionsTable)
+        .values({
+          role: input.role,
+          permissions,
+          location_scoped: input.location_scoped,
+          updated_at: new Date()
+        })
+        .onConflictDoUpdate({
+          target: rolePermissionsTable.role,
+          set: { permissions, location_scoped: input.location_scoped, updated_at: new Date() }
+        })
+        .execute();
+
+      await recordAudit({
+        actor,
+        action: 'update',
+        entity_type: 'role',
+        entity_id: input.role,
+        before: previous,
+        after: { ...previous, permissions, location_scoped: input.location_scoped }
+      }, tx);
+    });
+
+    cachedRolePermissions = null;
+    const roles = await getRolePermissions();
+    return roles.find(role => role.role === input.role)!;
+  } catch (error) {
+    console.error('Failed to update role permissions:', error);
+    throw error;
+  }
+};
+
+export const getUserLocationIds = async (userId: number): Promise<number[]> => {
+  try {
+    const rows = await db.select({ location_id: userLocationsTable.location_id })
+      .from(userLocationsTable)
+      .where(eq(userLocationsTable.user_id, userId))
+      .execute();
+
+    return rows.map(row => row.location_id);
+  } catch (error) {
+    console.error('Failed to fetch user locations:', error);
+    throw error;
+  }
+};
+
+export const setUserLocations = async (input: SetUserLocationsInput, actor: AuditActor = null): Promise<number[]> => {
+  try {
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const locationIds = [...new Set(input.location_ids)];
+    if (locationIds.length > 0) {
+      const locations = await db.select({ id: locationsTable.id })
+        .from(locationsTable)
+        .where(inArray(locationsTable.id, locationIds))
+        .execute();
+
+      const missing = locationIds.filter(id => !locations.some(location => location.id === id));
+      if (missing.length > 0) {
+        throw new Error(`Location with ID ${missing[0]} does not exist`);
+      }
+    }
+
+    const previousLocationIds = await getUserLocationIds(input.user_id);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(userLocationsTable)
+        .where(eq(userLocationsTable.user_id, input.user_id))
+        .execute();
+
+      if (locationIds.length > 0) {
+        await tx.insert(userLocationsTable)
+          .values(locationIds.map(location_id => ({ user_id: input.user_id, location_id })))
+          .execute();
+      }
+
+      await recordAudit({
+        actor,
+        action: 'update',
+        entity_type: 'user',
+        entity_id: input.user_id,
+        before: { location_ids: [...previousLocationIds].sort((a, b) => a - b) },
+        after: { location_ids: [...locationIds].sort((a, b) => a - b) }
+      }, tx);
+    });
+
+    return locationIds;
+  } catch (error) {
+    console.error('Failed to set user locations:', error);
+    throw error;
+  }
+};
+
+export const getAccessScope = async (user: { id: number; role: UserRole }): Promise<AccessScope> => {
+  const roles = await getRolePermissions();
+  const definition = roles.find(role => role.role === user.role)!;
+
+  return {
+    role: user.role,
+    permissions: definition.permissions,
+    location_ids: definition.location_scoped ? await getUserLocationIds(user.id) : null
+  };
+};
+
+// Location filter shared by handlers: null means every location is visible
+export const isLocationAllowed = (locationIds: number[] | null, locationId: number | null): boolean => {
+  return locationIds === null || (locationId !== null && locationIds.includes(locationId));
+};
@@ -0,0 +1,167 @@
+import { db } from '../db';
+import { inventoryItemsTable, purchasesTable, suppliersTable, locationsTable, searchDocument, searchText } from '../db/schema';
+import { type GlobalSearchInput, type SearchResult, type Permission } from '../schema';
+import { and, asc, desc, eq, ilike, inArray, or, sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { containsPattern } from './pagination';
+
+const DEFAULT_LIMIT = 10;
+
+// Every word typed must start a word of the record, so "lap del" finds "Laptop Dell".
+// Only letters and digits reach the tsquery, which keeps its operators out of user input.
+export const toPrefixQuery = (text: string): string | null => {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return terms ? terms.map(term => `${term}:*`).join(' & ') : null;
+};
+
+// Word matches, plus the text as typed anywhere in the record: the word index splits codes such as
+// "LT-001" into "lt" and "-001", which the words typed no longer match
+const matchesSearch = (columns: AnyPgColumn[], query: SQL, pattern: string) =>
+  or(sql`${searchDocument(...columns)} @@ ${query}`, ilike(searchText(...columns), pattern));
+
+// An exact code match outranks any text match
+const rankOf = (document: SQL, query: SQL, exactMatch?: SQL) =>
+  (exactMatch
+    ? sql`ts_rank(${document}, ${query}) + (case when ${exactMatch} then 1 else 0 end)`
+    : sql`ts_rank(${document}, ${query})`
+  ).mapWith(Number);
+
+export async function globalSearch(input: GlobalSearchInput, permissions: Permission[], locationIds: number[] | null = null): Promise<SearchResult[]> {
+  try {
+    const prefixQuery = toPrefixQuery(input.query);
+    if (prefixQuery === null) {
+      return [];
+    }
+
+    const limit = input.limit ?? DEFAULT_LIMIT;
+    const query = sql`to_tsquery('simple', ${prefixQuery})`;
+    const typed = input.query.trim().toLowerCase();
+    const pattern = containsPattern(typed);
+    const searches: Promise<SearchResult[]>[] = [];
+
+    if (permissions.includes('inventory.view') && (locationIds === null || locationIds.length > 0)) {
+      const columns = [inventoryItemsTable.item_code, inventoryItemsTable.name, inventoryItemsTable.description];
+      const document = searchDocument(...columns);
+      const rank = rankOf(document, query, sql`lower(${inventoryItemsTable.item_code}) = ${typed}`);
+      searches.push(
+        db.select({
+          id: inventoryItemsTable.id,
+          item_code: inventoryItemsTable.item_code,
+          name: inventoryItemsTable.name,
+          location_name: locationsTable.name,
+          rank
+        })
+          .from(inventoryItemsTable)
+          .innerJoin(locationsTable, eq(inventoryItemsTable.location_id, locationsTable.id))
+          .where(and(
+            matchesSearch(columns, query, pattern),
+            locationIds !== null ? inArray(inventoryItemsTable.location_id, locationIds) : undefined
+          ))
+          .orderBy(desc(rank), asc(inventoryItemsTable.id))
+          .limit(limit)
+          .execute()
+          .then(rows => rows.map(row => ({
+            type: 'inventory_item' as const,
+            id: row.id,
+            title: `${row.item_code} - ${row.name}`,
+            subtitle: row.location_name,
+            code: row.item_code,
+            rank: row.rank
+          })))
+      );
+    }
+
+    if (permissions.includes('purchases.view')) {
+      const columns = [purchasesTable.notes];
+      const document = searchDocument(...columns);
+      const rank = rankOf(document, query);
+      searches.push(
+        db.select({
+          id: purchasesTable.id,
+          item_code: inventoryItemsTable.item_code,
+          supplier_name: suppliersTable.name,
+          notes: purchasesTable.notes,
+          rank
+        })
+          .from(purchasesTable)
+          .innerJoin(inventoryItemsTable, eq(purchasesTable.item_id, inventoryItemsTable.id))
+          .innerJoin(suppliersTable, eq(purchasesTable.supplier_id, suppliersTable.id))
+          .where(matchesSearch(columns, query, pattern))
+          .orderBy(desc(rank), asc(purchasesTable.id))
+          .limit(limit)
+          .execute()
+          .then(rows => rows.map(row => ({
+            type: 'purchase' as const,
+            id: row.id,
+            title: `${row.item_code} - ${row.supplier_name}`,
+            subtitle: row.notes,
+            code: row.item_code,
+            rank: row.rank
+          })))
+      );
+    }
+
+    if (permissions.includes('suppliers.view')) {
+      const columns = [suppliersTable.name, suppliersTable.contact_person];
+      const document = searchDocument(...columns);
+      const rank = rankOf(document, query, sql`lower(${suppliersTable.name}) = ${typed}`);
+      searches.push(
+        db.select({
+          id: suppliersTable.id,
+          name: suppliersTable.name,
+          contact_person: suppliersTable.contact_person,
+          rank
+        })
+          .from(suppliersTable)
+          .where(matchesSearch(columns, query, pattern))
+          .orderBy(desc(rank), asc(suppliersTable.id))
+          .limit(limit)
+          .execute()
+          .then(rows => rows.map(row => ({
+            type: 'supplier' as const,
+            id: row.id,
+            title: row.name,
+            subtitle: row.contact_person,
+            code: null,
+            rank: row.rank
+          })))
+      );
+    }
+
+    if (permissions.includes('locations.view')) {
+      const columns = [locationsTable.name, locationsTable.branch_code, locationsTable.address];
+      const document = searchDocument(...columns);
+      const rank = rankOf(document, query, sql`lower(${locationsTable.branch_code}) = ${typed}`);
+      searches.push(
+        db.select({
+          id: locationsTable.id,
+          name: locationsTable.name,
+          branch_code: locationsTable.branch_code,
+          address: locationsTable.address,
+          rank
+        })
+          .from(locationsTable)
+          .where(matchesSearch(columns, query, pattern))
+          .orderBy(desc(rank), asc(locationsTable.id))
+          .limit(limit)
+          .execute()
+          .then(rows => rows.map(row => ({
+            type: 'location' as const,
+            id: row.id,
+            title: `${row.name} (${row.branch_code})`,
+            subtitle: row.address,
+            code: row.branch_code,
+            rank: row.rank
+          })))
+      );
+    }
+
+    const results = (await Promise.all(searches)).flat();
+    return results
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Global search failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,138 @@
+import { db } from '../db';
+import { usersTable, sessionsTable, mfaChallengesTable, exportTicketsTable } from '../db/schema';
+import { eq, and, gt, lt, desc } from 'drizzle-orm';
+import { type SessionInfo } from '../schema';
+
+// Sessions expire after this much inactivity; every authenticated request pushes the expiry forward
+const SESSION_IDLE_TIMEOUT_MINUTES = parseInt(process.env['SESSION_IDLE_TIMEOUT_MINUTES'] || '480', 10);
+
+// Avoid a write on every request: last_seen_at is only refreshed once this much time has passed
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+export const getSessionExpiry = (from: Date = new Date()): Date => {
+  return new Date(from.getTime() + SESSION_IDLE_TIMEOUT_MINUTES * 60 * 1000);
+};
+
+export const shouldTouchSession = (lastSeenAt: Date, now: Date = new Date()): boolean => {
+  return now.getTime() - lastSeenAt.getTime() >= SESSION_TOUCH_INTERVAL_MS;
+};
+
+const sessionInfoColumns = {
+  id: sessionsTable.id,
+  public_id: sessionsTable.public_id,
+  user_id: sessionsTable.user_id,
+  username: usersTable.username,
+  ip_address: sessionsTable.ip_address,
+  user_agent: sessionsTable.user_agent,
+  expires_at: sessionsTable.expires_at,
+  last_seen_at: sessionsTable.last_seen_at,
+  created_at: sessionsTable.created_at
+};
+
+export const getMySessions = async (userId: number, currentSessionId: string): Promise<SessionInfo[]> => {
+  try {
+    const results = await db.select(sessionInfoColumns)
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(sessionsTable.last_seen_at))
+      .execute();
+
+    return results.map(({ id, ...session }) => ({
+      ...session,
+      is_current: id === currentSessionId
+    }));
+  } catch (error) {
+    console.error('Failed to fetch user sessions:', error);
+    throw error;
+  }
+};
+
+export const revokeMySession = async (userId: number, publicId: string): Promise<{ success: boolean }> => {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(and(
+        eq(sessionsTable.public_id, publicId),
+        eq(sessionsTable.user_id, userId)
+      ))
+      .returning()
+      .execute();
+
+    return { success: result.length > 0 };
+  } catch (error) {
+    console.error('Failed to revoke session:', error);
+    throw error;
+  }
+};
+
+export const getActiveSessions = async (currentSessionId: string): Promise<SessionInfo[]> => {
+  try {
+    const results = await db.select(sessionInfoColumns)
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(gt(sessionsTable.expires_at, new Date()))
+      .orderBy(desc(sessionsTable.last_seen_at))
+      .execute();
+
+    return results.map(({ id, ...session }) => ({
+      ...session,
+      is_current: id === currentSessionId
+    }));
+  } catch (error) {
+    console.error('Failed to fetch active sessions:', error);
+    throw error;
+  }
+};
+
+export const revokeSession = async (publicId: string): Promise<{ success: boolean }> => {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.public_id, publicId))
+      .returning()
+      .execute();
+
+    return { success: result.length > 0 };
+  } catch (error) {
+    console.error('Failed to revoke session:', error);
+    throw error;
+  }
+};
+
+export const revokeUserSessions = async (userId: number): Promise<{ revoked: number }> => {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .returning()
+      .execute();
+
+    return { revoked: result.length };
+  } catch (error) {
+    console.error('Failed to revoke user sessions:', error);
+    throw error;
+  }
+};
+
+export const purgeExpiredSessions = async (): Promise<number> => {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(lt(sessionsTable.expires_at, new Date()))
+      .returning()
+      .execute();
+
+    // Abandoned two-factor prompts and export downloads expire on the same schedule
+    await db.delete(mfaChallengesTable)
+      .where(lt(mfaChallengesTable.expires_at, new Date()))
+      .execute();
+    await db.delete(exportTicketsTable)
+      .where(lt(exportTicketsTable.expires_at, new Date()))
+      .execute();
+
+    return result.length;
+  } catch (error) {
+    console.error('Failed to purge expired sessions:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { appSettingsTable } from '../db/schema';
+import { type SecuritySettings, type UpdateSecuritySettingsInput } from '../schema';
+import { inArray } from 'drizzle-orm';
+import { recordAudit, type AuditActor } from './audit';
+
+const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  require_admin_mfa: false
+};
+
+// Settings are read on every authenticated request, so keep the last known values in memory
+let cachedSecuritySettings: SecuritySettings | null = null;
+
+export const getSecuritySettings = async (): Promise<SecuritySettings> => {
+  try {
+    if (cachedSecuritySettings) {
+      return cachedSecuritySettings;
+    }
+
+    const rows = await db.select()
+      .from(appSettingsTable)
+      .where(inArray(appSettingsTable.key, Object.keys(DEFAULT_SECURITY_SETTINGS)))
+      .execute();
+
+    const stored = Object.fromEntries(rows.map(row => [row.key, row.value]));
+    cachedSecuritySettings = {
+      require_admin_mfa: stored['require_admin_mfa'] !== undefined
+        ? stored['require_admin_mfa'] === 'true'
+        : DEFAULT_SECURITY_SETTINGS.require_admin_mfa
+    };
+
+    return cachedSecuritySettings;
+  } catch (error) {
+    console.error('Failed to fetch security settings:', error);
+    throw error;
+  }
+};
+
+export const updateSecuritySettings = async (input: UpdateSecuritySettingsInput, actor: AuditActor = null): Promise<SecuritySettings> => {
+  try {
+    const previous = await getSecuritySettings();
+    const changes = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+
+    await db.transaction(async (tx) => {
+      for (const [key, value] of Object.entries(changes)) {
+        await tx.insert(appSettingsTable)
+          .values({ key, value: String(value), updated_at: new Date() })
+          .onConflictDoUpdate({
+            target: appSettingsTable.key,
+            set: { value: String(value), updated_at: new Date() }
+          })
+          .execute();
+      }
+
+      await recordAudit({ actor, action: 'update', entity_type: 'settings', entity_id: 'security', before: previous, after: { ...previous, ...changes } }, tx);
+    });
+
+    cachedSecuritySettings = null;
+    return await getSecuritySettings();
+  } catch (error) {
+    console.error('Failed to update security settings:', error);
+    throw error;
+  }
+};
@@ -2,6 +2,7 @@ import { db } from '../db';
 import { suppliersTable } from '../db/schema';
 import { type Supplier, type CreateSupplierInput, type UpdateSupplierInput } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAudit, type AuditActor } from './audit';
 
 export async function getSuppliers(): Promise<Supplier[]> {
   try {
@@ -30,27 +31,40 @@ export async function getSupplierById(id: number): Promise<Supplier | null> {
   }
 }
 
-export async function createSupplier(input: CreateSupplierInput): Promise<Supplier> {
+export async function createSupplier(input: CreateSupplierInput, actor: AuditActor = null): Promise<Supplier> {
   try {
-    const result = await db.insert(suppliersTable)
-      .values({
-        name: input.name,
-        contact_person: input.contact_person,
-        phone_number: input.phone_number,
-        address: input.address
-      })
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(suppliersTable)
+        .values({
+          name: input.name,
+          contact_person: input.contact_person,
+          phone_number: input.phone_number,
+          address: input.address
+        })
+        .returning()
+        .execute();
+
+      await recordAudit({ actor, action: 'create', entity_type: 'supplier', entity_id: result[0].id, after: result[0] }, tx);
 
-    return result[0];
+      return result[0];
+    });
   } catch (error) {
     console.error('Failed to create supplier:', error);
     throw error;
   }
 }
 
-export async function updateSupplier(input: UpdateSupplierInput): Promise<Supplier> {
+export async function updateSupplier(input: UpdateSupplierInput, actor: AuditActor = null): Promise<Supplier> {
   try {
+    const existing = await db.select()
+      .from(suppliersTable)
+      .where(eq(suppliersTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Supplier with ID ${input.id} not found`);
+    }
+
     // Build update object with only provided fields
     const updateData: Partial<typeof suppliersTable.$inferInsert> = {};
     
@@ -70,31 +84,41 @@ export async function updateSupplier(input: UpdateSupplierInput): Promise<Suppli
     // Add updated timestamp
     updateData.updated_at = new Date();
 
-    const result = await db.update(suppliersTable)
-      .set(updateData)
-      .where(eq(suppliersTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(suppliersTable)
+        .set(updateData)
+        .where(eq(suppliersTable.id, input.id))
+        .returning()
+        .execute();
 
-    if (result.length === 0) {
-      throw new Error(`Supplier with ID ${input.id} not found`);
-    }
+      if (result.length === 0) {
+        throw new Error(`Supplier with ID ${input.id} not found`);
+      }
 
-    return result[0];
+      await recordAudit({ actor, action: 'update', entity_type: 'supplier', entity_id: input.id, before: existing[0], after: result[0] }, tx);
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Failed to update supplier:', error);
     throw error;
   }
 }
 
-export async function deleteSupplier(id: number): Promise<boolean> {
+export async function deleteSupplier(id: number, actor: AuditActor = null): Promise<boolean> {
   try {
-    const result = await db.delete(suppliersTable)
-      .where(eq(suppliersTable.id, id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(suppliersTable)
+        .where(eq(suppliersTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAudit({ actor, action: 'delete', entity_type: 'supplier', entity_id: id, before: result[0] }, tx);
+      }
 
-    return result.length > 0;
+      return result.length > 0;
+    });
   } catch (error) {
     console.error('Failed to delete supplier:', error);
     throw error;
@@ -1,27 +1,47 @@
 import { db } from '../db';
 import { usersTable, sessionsTable } from '../db/schema';
-import { eq, ne } from 'drizzle-orm';
-import { type CreateUserInput, type User } from '../schema';
-
-// Simple password hashing using built-in crypto (same as auth.ts)
-const hashPassword = async (password: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password + 'salt_key_totalindo');
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+import { eq, ne, and, count, asc } from 'drizzle-orm';
+import { type CreateUserInput, type UpdateUserInput, type User, type ResetPasswordResponse, type UserDirectoryEntry } from '../schema';
+import { hashPassword } from '../helpers/password';
+import { randomBytes } from 'node:crypto';
+import { recordAudit, type AuditActor } from './audit';
+
+const safeUserColumns = {
+  id: usersTable.id,
+  username: usersTable.username,
+  role: usersTable.role,
+  is_active: usersTable.is_active,
+  must_change_password: usersTable.must_change_password,
+  failed_login_count: usersTable.failed_login_count,
+  locked_until: usersTable.locked_until,
+  totp_enabled: usersTable.totp_enabled,
+  created_at: usersTable.created_at,
+  updated_at: usersTable.updated_at
+};
+
+// Active admins other than the given user; used to keep at least one admin able to log in
+const countOtherActiveAdmins = async (excludeUserId: number): Promise<number> => {
+  const result = await db.select({ count: count() })
+    .from(usersTable)
+    .where(and(
+      eq(usersTable.role, 'admin'),
+      eq(usersTable.is_active, true),
+      ne(usersTable.id, excludeUserId)
+    ))
+    .execute();
+
+  return result[0]?.count || 0;
+};
+
+const ensureNotLastAdmin = async (user: User, message: string): Promise<void> => {
+  if (user.role === 'admin' && user.is_active && await countOtherActiveAdmins(user.id) === 0) {
+    throw new Error(message);
+  }
 };
 
 export const getUsers = async (): Promise<User[]> => {
   try {
-    const users = await db.select({
-        id: usersTable.id,
-        username: usersTable.username,
-        role: usersTable.role,
-        is_active: usersTable.is_active,
-        created_at: usersTable.created_at,
-        updated_at: usersTable.updated_at
-      })
+    const users = await db.select(safeUserColumns)
       .from(usersTable)
       .execute();
 
@@ -34,14 +54,7 @@ export const getUsers = async (): Promise<User[]> => {
 
 export const getUserById = async (id: number): Promise<User | null> => {
   try {
-    const users = await db.select({
-        id: usersTable.id,
-        username: usersTable.username,
-        role: usersTable.role,
-        is_active: usersTable.is_active,
-        created_at: usersTable.created_at,
-        updated_at: usersTable.updated_at
-      })
+    const users = await db.select(safeUserColumns)
       .from(usersTable)
       .where(eq(usersTable.id, id))
       .execute();
@@ -53,7 +66,21 @@ export const getUserById = async (id: number): Promise<User | null> => {
   }
 };
 
-export const createUser = async (input: CreateUserInput): Promise<User> => {
+// Active users by name, for picking senders and receivers of transfers
+export const getUserDirectory = async (): Promise<UserDirectoryEntry[]> => {
+  try {
+    return await db.select({ id: usersTable.id, username: usersTable.username })
+      .from(usersTable)
+      .where(eq(usersTable.is_active, true))
+      .orderBy(asc(usersTable.username))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get user directory:', error);
+    throw error;
+  }
+};
+
+export const createUser = async (input: CreateUserInput, actor: AuditActor = null): Promise<User> => {
   try {
     // Check if username already exists
     const existingUsers = await db.select()
@@ -68,52 +95,239 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
     // Hash password
     const hashedPassword = await hashPassword(input.password);
 
-    // Insert user
-    const result = await db.insert(usersTable)
-      .values({
-        username: input.username,
-        password_hash: hashedPassword,
-        role: input.role,
-        is_active: true
-      })
-      .returning({
-        id: usersTable.id,
-        username: usersTable.username,
-        role: usersTable.role,
-        is_active: usersTable.is_active,
-        created_at: usersTable.created_at,
-        updated_at: usersTable.updated_at
-      })
-      .execute();
+    return await db.transaction(async (tx) => {
+      // Insert user
+      const result = await tx.insert(usersTable)
+        .values({
+          username: input.username,
+          password_hash: hashedPassword,
+          role: input.role,
+          is_active: true
+        })
+        .returning(safeUserColumns)
+        .execute();
+
+      await recordAudit({ actor, action: 'create', entity_type: 'user', entity_id: result[0].id, after: result[0] }, tx);
 
-    return result[0];
+      return result[0];
+    });
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
   }
 };
 
-export const deleteUser = async (id: number): Promise<{ success: boolean }> => {
+export const updateUser = async (input: UpdateUserInput, actor: AuditActor = null): Promise<User> => {
+  try {
+    const user = await getUserById(input.id);
+    if (!user) {
+      throw new Error(`User with ID ${input.id} does not exist`);
+    }
+
+    if (input.username !== undefined && input.username !== user.username) {
+      const existingUsers = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.username, input.username))
+        .execute();
+
+      if (existingUsers.length > 0) {
+        throw new Error('Username already exists');
+      }
+    }
+
+    if (input.role !== undefined && input.role !== 'admin') {
+      await ensureNotLastAdmin(user, 'Cannot demote the last active administrator');
+    }
+
+    const updateData: Partial<typeof usersTable.$inferInsert> = {};
+
+    if (input.username !== undefined) {
+      updateData.username = input.username;
+    }
+    if (input.role !== undefined) {
+      updateData.role = input.role;
+    }
+
+    updateData.updated_at = new Date();
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set(updateData)
+        .where(eq(usersTable.id, input.id))
+        .returning(safeUserColumns)
+        .execute();
+
+      await recordAudit({ actor, action: 'update', entity_type: 'user', entity_id: input.id, before: user, after: result[0] }, tx);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('User update failed:', error);
+    throw error;
+  }
+};
+
+export const deactivateUser = async (id: number, actor: AuditActor = null): Promise<User> => {
   try {
-    // Don't allow deletion of admin user
     const user = await getUserById(id);
-    if (user && user.username === 'admin') {
-      throw new Error('Cannot delete the admin user');
+    if (!user) {
+      throw new Error(`User with ID ${id} does not exist`);
     }
 
-    // Delete all user sessions first
-    await db.delete(sessionsTable)
-      .where(eq(sessionsTable.user_id, id))
-      .execute();
+    await ensureNotLastAdmin(user, 'Cannot deactivate the last active administrator');
 
-    // Delete the user
-    await db.delete(usersTable)
-      .where(eq(usersTable.id, id))
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({ is_active: false, updated_at: new Date() })
+        .where(eq(usersTable.id, id))
+        .returning(safeUserColumns)
+        .execute();
 
-    return { success: true };
+      // Revoke every open session so the user is signed out immediately
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, id))
+        .execute();
+
+      await recordAudit({ actor, action: 'update', entity_type: 'user', entity_id: id, before: user, after: result[0] }, tx);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('User deactivation failed:', error);
+    throw error;
+  }
+};
+
+export const reactivateUser = async (id: number, actor: AuditActor = null): Promise<User> => {
+  try {
+    const user = await getUserById(id);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({ is_active: true, updated_at: new Date() })
+        .where(eq(usersTable.id, id))
+        .returning(safeUserColumns)
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`User with ID ${id} does not exist`);
+      }
+
+      await recordAudit({ actor, action: 'update', entity_type: 'user', entity_id: id, before: user, after: result[0] }, tx);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('User reactivation failed:', error);
+    throw error;
+  }
+};
+
+export const unlockUser = async (id: number, actor: AuditActor = null): Promise<User> => {
+  try {
+    const user = await getUserById(id);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({
+          failed_login_count: 0,
+          lockout_count: 0,
+          locked_until: null,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, id))
+        .returning(safeUserColumns)
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`User with ID ${id} does not exist`);
+      }
+
+      await recordAudit({ actor, action: 'update', entity_type: 'user', entity_id: id, before: user, after: result[0] }, tx);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('User unlock failed:', error);
+    throw error;
+  }
+};
+
+export const deleteUser = async (id: number, actor: AuditActor = null): Promise<{ success: boolean }> => {
+  try {
+    // Don't allow deletion of the last active admin
+    const user = await getUserById(id);
+    if (user) {
+      await ensureNotLastAdmin(user, 'Cannot delete the last active administrator');
+    }
+
+    return await db.transaction(async (tx) => {
+      // Delete all user sessions first
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, id))
+        .execute();
+
+      // Delete the user
+      await tx.delete(usersTable)
+        .where(eq(usersTable.id, id))
+        .execute();
+
+      if (user) {
+        await recordAudit({ actor, action: 'delete', entity_type: 'user', entity_id: id, before: user }, tx);
+      }
+
+      return { success: true };
+    });
   } catch (error) {
     console.error('User deletion failed:', error);
     throw error;
   }
+};
+
+export const resetPassword = async (id: number, actor: AuditActor = null): Promise<ResetPasswordResponse> => {
+  try {
+    const user = await getUserById(id);
+    if (!user) {
+      throw new Error(`User with ID ${id} does not exist`);
+    }
+
+    // One-time password the user has to replace on next login
+    const temporaryPassword = randomBytes(9).toString('base64url');
+    const passwordHash = await hashPassword(temporaryPassword);
+
+    await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({
+          password_hash: passwordHash,
+          must_change_password: true,
+          failed_login_count: 0,
+          lockout_count: 0,
+          locked_until: null,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, id))
+        .returning(safeUserColumns)
+        .execute();
+
+      // The hash itself is never logged, so mark the reset explicitly
+      await recordAudit({
+        actor,
+        action: 'update',
+        entity_type: 'user',
+        entity_id: id,
+        before: user,
+        after: { ...result[0], password: 'reset' }
+      }, tx);
+
+      // Existing sessions must not outlive the reset
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, id))
+        .execute();
+    });
+
+    return { temporary_password: temporaryPassword };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
 };
\ No newline at end of file
@@ -0,0 +1,76 @@
+// A report as it is exported: a title block, typed columns and rows that arrive in batches, so
+// writers can stream a file of any length without holding it in memory.
+
+export type ExportColumnType = 'text' | 'integer' | 'currency' | 'date';
+
+export interface ExportColumn {
+  header: string;
+  type: ExportColumnType;
+  // Roughly in characters; spreadsheets use it as is and PDFs share the page width by it
+  width: number;
+}
+
+export type ExportCell = string | number | Date | null;
+
+export interface ExportTable {
+  title: string;
+  // Filters the rows were selected by, already described for people, e.g. ['Location', 'Jakarta']
+  filters: [string, string][];
+  generated_at: Date;
+  columns: ExportColumn[];
+  rows: AsyncIterable<ExportCell[][]>;
+}
+
+// Resolves once the chunk has been taken, so writers never run ahead of a slow download
+export type ExportSink = (chunk: string | Uint8Array) => Promise<void>;
+
+export type ExportWriter = (table: ExportTable, write: ExportSink) => Promise<void>;
+
+export const formatExportDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const formatExportTimestamp = (date: Date) => `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+export const formatCurrency = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Text as it reads on screen, for formats without cell types
+export const formatExportCell = (value: ExportCell, type: ExportColumnType): string => {
+  if (value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatExportDate(value);
+  }
+  if (typeof value === 'number') {
+    return type === 'currency' ? formatCurrency(value) : value.toLocaleString('en-US');
+  }
+  return value;
+};
+
+// Spreadsheet programs run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvField = (value: ExportCell, type: ExportColumnType): string => {
+  let text: string;
+  if (value === null) {
+    text = '';
+  } else if (value instanceof Date) {
+    text = formatExportDate(value);
+  } else if (typeof value === 'number') {
+    text = type === 'currency' ? value.toFixed(2) : String(value);
+  } else {
+    text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Plain data with one header line, so the file can be imported again; the byte order mark makes
+// Excel read it as UTF-8
+export const writeCsv: ExportWriter = async (table, write) => {
+  const line = (cells: ExportCell[]) => cells.map((cell, index) => csvField(cell, table.columns[index].type)).join(',') + '\r\n';
+
+  await write('\uFEFF' + line(table.columns.map(column => column.header)));
+  for await (const batch of table.rows) {
+    await write(batch.map(line).join(''));
+  }
+};
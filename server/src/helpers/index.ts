@@ -2,6 +2,7 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { prepareDatabase } from '../db/prepare';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -10,6 +11,7 @@ export const resetDB = async () => {
 };
 
 export const createDB = async () => {
+  await prepareDatabase();
   const migrationStatements = await generateMigration(
     generateDrizzleJson({}),
     generateDrizzleJson({ ...schema })
@@ -0,0 +1,84 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash } from 'node:crypto';
+
+// Stored format: scrypt$N=<cost>,r=<blockSize>,p=<parallelization>$<salt base64>$<hash base64>
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Hashes produced before per-user salts were introduced (SHA-256 with a fixed salt)
+const LEGACY_SALT = 'salt_key_totalindo';
+const LEGACY_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+type ScryptParams = typeof SCRYPT_PARAMS;
+
+const deriveKey = (password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { ...params, maxmem: 128 * params.N * params.r * 2 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+};
+
+const parseHash = (hash: string): { params: ScryptParams; salt: Buffer; key: Buffer } | null => {
+  const parts = hash.split('$');
+  if (parts.length !== 4 || parts[0] !== 'scrypt') {
+    return null;
+  }
+
+  const params: Record<string, number> = {};
+  for (const pair of parts[1].split(',')) {
+    const [name, value] = pair.split('=');
+    params[name] = parseInt(value, 10);
+  }
+
+  const { N, r, p } = params;
+  if (!Number.isInteger(N) || !Number.isInteger(r) || !Number.isInteger(p)) {
+    return null;
+  }
+
+  return {
+    params: { N, r, p },
+    salt: Buffer.from(parts[2], 'base64'),
+    key: Buffer.from(parts[3], 'base64')
+  };
+};
+
+const hashLegacy = (password: string): string => {
+  return createHash('sha256').update(password + LEGACY_SALT).digest('hex');
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS, KEY_LENGTH);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `scrypt$N=${N},r=${r},p=${p}$${salt.toString('base64')}$${key.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
+  if (LEGACY_HASH_PATTERN.test(hash)) {
+    const candidate = Buffer.from(hashLegacy(password), 'hex');
+    return timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+  }
+
+  const parsed = parseHash(hash);
+  if (!parsed) {
+    return false;
+  }
+
+  const candidate = await deriveKey(password, parsed.salt, parsed.params, parsed.key.length);
+  return timingSafeEqual(candidate, parsed.key);
+};
+
+// True when the stored hash uses a legacy format or weaker parameters than the current ones
+export const needsRehash = (hash: string): boolean => {
+  const parsed = parseHash(hash);
+  if (!parsed) {
+    return true;
+  }
+
+  return parsed.params.N < SCRYPT_PARAMS.N
+    || parsed.params.r < SCRYPT_PARAMS.r
+    || parsed.params.p < SCRYPT_PARAMS.p
+    || parsed.key.length < KEY_LENGTH;
+};
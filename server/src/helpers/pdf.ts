@@ -0,0 +1,144 @@
+import {
+  formatExportCell,
+  formatExportTimestamp,
+  type ExportCell,
+  type ExportSink,
+  type ExportWriter
+} from './export_table';
+import { encodeText, fitText, formatNumber, textWidth, wrapText } from './pdf_text';
+
+// Just enough of a PDF writer for report exports: landscape A4 pages of tabular text in the
+// built-in Helvetica fonts, written page by page. Coordinates are in points from the top-left.
+
+const PAGE_WIDTH = 841.89;
+const PAGE_HEIGHT = 595.28;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 12;
+const CELL_PADDING = 3;
+
+const textCommand = (x: number, y: number, value: string, size: number, bold = false, align: 'left' | 'right' = 'left') => {
+  const left = align === 'right' ? x - textWidth(value, size, bold) : x;
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y)} Td (${encodeText(value)}) Tj ET`;
+};
+
+const lineCommand = (x1: number, y1: number, x2: number, y2: number) =>
+  `0.5 w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`;
+
+// Objects are numbered up front: 1 catalog, 2 page tree, 3 and 4 fonts, then a content stream and
+// a page for each page. The page tree goes last, once every page is known. Everything written is
+// ASCII, so string lengths double as byte offsets for the xref table.
+const createPdfStream = (write: ExportSink) => {
+  const offsets: number[] = [];
+  const pageObjects: number[] = [];
+  let position = 0;
+
+  const emit = async (text: string) => {
+    position += text.length;
+    await write(text);
+  };
+
+  const writeObject = async (number: number, body: string) => {
+    offsets[number - 1] = position;
+    await emit(`${number} 0 obj\n${body}\nendobj\n`);
+  };
+
+  const start = async () => {
+    await emit('%PDF-1.4\n');
+    await writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    await writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    await writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  };
+
+  const addPage = async (commands: string[]) => {
+    const content = commands.join('\n');
+    const contentObject = 5 + pageObjects.length * 2;
+    await writeObject(contentObject, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    await writeObject(contentObject + 1,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentObject} 0 R >>`);
+    pageObjects.push(contentObject + 1);
+  };
+
+  const finish = async () => {
+    await writeObject(2, `<< /Type /Pages /Kids [${pageObjects.map(page => `${page} 0 R`).join(' ')}] /Count ${pageObjects.length} >>`);
+    const xref = position;
+    await emit(
+      `xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n` +
+      offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+      `trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`
+    );
+  };
+
+  return { start, addPage, finish };
+};
+
+// Every page repeats the title, generation time, filters and column headers, and is numbered
+export const writePdf: ExportWriter = async (table, write) => {
+  const pdf = createPdfStream(write);
+  const usableWidth = PAGE_WIDTH - MARGIN * 2;
+  const totalWidth = table.columns.reduce((total, column) => total + column.width, 0);
+  const widths = table.columns.map(column => usableWidth * column.width / totalWidth);
+  const lefts = widths.map((_, index) => MARGIN + widths.slice(0, index).reduce((total, width) => total + width, 0));
+
+  const filterText = table.filters.length > 0
+    ? `Filters: ${table.filters.map(([label, value]) => `${label}: ${value}`).join('; ')}`
+    : 'Filters: none';
+  const filterLines = wrapText(filterText, FONT_SIZE, usableWidth);
+  const tableTop = MARGIN + 22 + filterLines.length * ROW_HEIGHT + 8;
+  const rowsPerPage = Math.floor((PAGE_HEIGHT - MARGIN - 20 - tableTop - ROW_HEIGHT) / ROW_HEIGHT);
+
+  const cellCommand = (index: number, y: number, value: string, bold = false) => {
+    const column = table.columns[index];
+    const text = fitText(value, FONT_SIZE, widths[index] - CELL_PADDING * 2, bold);
+    return column.type === 'text' || column.type === 'date'
+      ? textCommand(lefts[index] + CELL_PADDING, y, text, FONT_SIZE, bold)
+      : textCommand(lefts[index] + widths[index] - CELL_PADDING, y, text, FONT_SIZE, bold, 'right');
+  };
+
+  let pageNumber = 0;
+  let commands: string[] = [];
+  let rowsOnPage = 0;
+
+  const beginPage = () => {
+    pageNumber++;
+    rowsOnPage = 0;
+    commands = [
+      textCommand(MARGIN, MARGIN + 10, table.title, 14, true),
+      textCommand(PAGE_WIDTH - MARGIN, MARGIN + 10, `Generated ${formatExportTimestamp(table.generated_at)}`, FONT_SIZE, false, 'right'),
+      ...filterLines.map((line, index) => textCommand(MARGIN, MARGIN + 28 + index * ROW_HEIGHT, line, FONT_SIZE)),
+      ...table.columns.map((column, index) => cellCommand(index, tableTop + 9, column.header, true)),
+      lineCommand(MARGIN, tableTop, PAGE_WIDTH - MARGIN, tableTop),
+      lineCommand(MARGIN, tableTop + ROW_HEIGHT, PAGE_WIDTH - MARGIN, tableTop + ROW_HEIGHT),
+      textCommand(PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 10, `Page ${pageNumber}`, FONT_SIZE, false, 'right')
+    ];
+  };
+
+  const addRow = async (cells: ExportCell[]) => {
+    if (rowsOnPage === rowsPerPage) {
+      await pdf.addPage(commands);
+      beginPage();
+    }
+    const y = tableTop + ROW_HEIGHT * (rowsOnPage + 1) + 9;
+    cells.forEach((cell, index) => {
+      const text = formatExportCell(cell, table.columns[index].type);
+      if (text !== '') {
+        commands.push(cellCommand(index, y, text));
+      }
+    });
+    rowsOnPage++;
+  };
+
+  await pdf.start();
+  beginPage();
+  for await (const batch of table.rows) {
+    for (const cells of batch) {
+      await addRow(cells);
+    }
+  }
+  if (pageNumber === 1 && rowsOnPage === 0) {
+    commands.push(textCommand(MARGIN + CELL_PADDING, tableTop + ROW_HEIGHT + 9, 'No data found for the selected criteria.', FONT_SIZE));
+  }
+  await pdf.addPage(commands);
+  await pdf.finish();
+};
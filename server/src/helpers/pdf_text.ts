@@ -0,0 +1,58 @@
+// Text handling shared by the PDF writers here and in the client: the two built-in Helvetica
+// fonts, which need no embedding.
+
+// Built-in fonts carry no metrics, so widths are averaged; good enough for wrapping and fitting
+const AVERAGE_CHAR_WIDTH = 0.5;
+const AVERAGE_BOLD_CHAR_WIDTH = 0.55;
+
+export const textWidth = (text: string, size: number, bold = false) =>
+  text.length * size * (bold ? AVERAGE_BOLD_CHAR_WIDTH : AVERAGE_CHAR_WIDTH);
+
+// Cut to a width, marking the cut
+export const fitText = (text: string, size: number, maxWidth: number, bold = false) => {
+  if (textWidth(text, size, bold) <= maxWidth) {
+    return text;
+  }
+  const fitting = Math.max(0, Math.floor(maxWidth / textWidth('x', size, bold)) - 3);
+  return `${text.slice(0, fitting).trimEnd()}...`;
+};
+
+export const wrapText = (text: string, size: number, maxWidth: number, bold = false) => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+};
+
+export const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+// Standard fonts use WinAnsiEncoding, which matches Latin-1 for the characters we print
+export const encodeText = (text: string) => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code >= 0x20 && code <= 0x7e) {
+      encoded += char;
+    } else if (code >= 0xa0 && code <= 0xff) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += '?';
+    }
+  }
+  return encoded;
+};
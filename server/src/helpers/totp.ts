@@ -0,0 +1,117 @@
+import { createHmac, randomBytes, createHash, timingSafeEqual } from 'node:crypto';
+
+// RFC 6238 defaults understood by every authenticator app
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Accept the previous and next time step to tolerate clock drift
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(output);
+};
+
+// RFC 4226 HOTP value for a counter
+export const generateHotp = (secret: string, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+export const generateTotp = (secret: string, time: number = Date.now()): string => {
+  return generateHotp(secret, Math.floor(time / 1000 / TOTP_PERIOD_SECONDS));
+};
+
+export const verifyTotp = (secret: string, code: string, time: number = Date.now()): boolean => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return false;
+  }
+
+  const counter = Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+  for (let step = -TOTP_WINDOW; step <= TOTP_WINDOW; step++) {
+    const candidate = generateHotp(secret, counter + step);
+    if (timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+export const generateTotpSecret = (): string => {
+  return base32Encode(randomBytes(20));
+};
+
+// otpauth:// URI that authenticator apps import from a QR code
+export const buildProvisioningUri = (secret: string, username: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Recovery codes are random and long enough that a plain SHA-256 is sufficient for storage
+export const generateRecoveryCodes = (count: number = 10): string[] => {
+  return Array.from({ length: count }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+};
+
+export const hashRecoveryCode = (code: string): string => {
+  return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+};
@@ -0,0 +1,239 @@
+import {
+  formatExportTimestamp,
+  type ExportCell,
+  type ExportColumnType,
+  type ExportSink,
+  type ExportWriter
+} from './export_table';
+
+// Just enough of an .xlsx writer for report exports: one worksheet of inline strings, numbers and
+// dates, streamed into a zip archive whose entries are stored rather than compressed.
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const updateCrc = (crc: number, data: Uint8Array) => {
+  let value = crc ^ 0xffffffff;
+  for (const byte of data) {
+    value = CRC_TABLE[(value ^ byte) & 0xff] ^ (value >>> 8);
+  }
+  return (value ^ 0xffffffff) >>> 0;
+};
+
+const encoder = new TextEncoder();
+
+// Zip headers store local time to the two-second
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const header = (fields: [number, 2 | 4][], name?: Uint8Array) => {
+  const size = fields.reduce((total, [, bytes]) => total + bytes, 0);
+  const buffer = new Uint8Array(size + (name?.length ?? 0));
+  const view = new DataView(buffer.buffer);
+  let offset = 0;
+  for (const [value, bytes] of fields) {
+    if (bytes === 2) {
+      view.setUint16(offset, value, true);
+    } else {
+      view.setUint32(offset, value, true);
+    }
+    offset += bytes;
+  }
+  if (name) {
+    buffer.set(name, offset);
+  }
+  return buffer;
+};
+
+// Sizes and checksums follow each entry's data (general purpose flag bit 3), so an entry can be
+// written before its length is known. Bit 11 marks the names as UTF-8.
+const ZIP_FLAGS = 0x0808;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+const createZipStream = (write: ExportSink, modified: Date) => {
+  const entries: ZipEntry[] = [];
+  const stamp = dosDateTime(modified);
+  let position = 0;
+
+  const emit = async (chunk: Uint8Array) => {
+    position += chunk.length;
+    await write(chunk);
+  };
+
+  const addEntry = async (path: string, content: AsyncIterable<string> | string) => {
+    const entry: ZipEntry = { name: encoder.encode(path), crc: 0, size: 0, offset: position };
+    await emit(header([
+      [0x04034b50, 4], [20, 2], [ZIP_FLAGS, 2], [0, 2], [stamp.time, 2], [stamp.date, 2],
+      [0, 4], [0, 4], [0, 4], [entry.name.length, 2], [0, 2]
+    ], entry.name));
+
+    const chunks = typeof content === 'string' ? [content] : content;
+    for await (const chunk of chunks) {
+      const data = encoder.encode(chunk);
+      entry.crc = updateCrc(entry.crc, data);
+      entry.size += data.length;
+      await emit(data);
+    }
+
+    await emit(header([[0x08074b50, 4], [entry.crc, 4], [entry.size, 4], [entry.size, 4]]));
+    entries.push(entry);
+  };
+
+  const finish = async () => {
+    const directoryOffset = position;
+    for (const entry of entries) {
+      await emit(header([
+        [0x02014b50, 4], [20, 2], [20, 2], [ZIP_FLAGS, 2], [0, 2], [stamp.time, 2], [stamp.date, 2],
+        [entry.crc, 4], [entry.size, 4], [entry.size, 4], [entry.name.length, 2], [0, 2], [0, 2],
+        [0, 2], [0, 2], [0, 4], [entry.offset, 4]
+      ], entry.name));
+    }
+    await emit(header([
+      [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2],
+      [position - directoryOffset, 4], [directoryOffset, 4], [0, 2]
+    ]));
+  };
+
+  return { addEntry, finish };
+};
+
+// XML 1.0 has no way to write most control characters, so they are left out
+const escapeXml = (text: string) => text
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES = XML_DECLARATION +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const PACKAGE_RELATIONSHIPS = XML_DECLARATION +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_RELATIONSHIPS = XML_DECLARATION +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+// Cell styles by index: 0 plain, 1 bold, 2 date, 3 currency, 4 whole number
+const STYLES = XML_DECLARATION +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="&quot;$&quot;#,##0.00"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="5">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+const BOLD_STYLE = 1;
+const TYPE_STYLES: Record<ExportColumnType, number> = { text: 0, date: 2, currency: 3, integer: 4 };
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const sheetName = (title: string) => title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Report';
+
+const columnLetters = (index: number) => {
+  let letters = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    letters = String.fromCharCode(65 + (remaining - 1) % 26) + letters;
+  }
+  return letters;
+};
+
+// Days since 1899-12-30, the inverse of how spreadsheets show a serial number as a date
+const dateSerial = (date: Date) => date.getTime() / 86400000 + 25569;
+
+const cellXml = (reference: string, value: ExportCell, style: number) => {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  if (value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return `<c r="${reference}"${styleAttribute}><v>${dateSerial(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const rowXml = (rowNumber: number, cells: ExportCell[], styles: number[]) =>
+  `<row r="${rowNumber}">${cells.map((cell, index) => cellXml(`${columnLetters(index)}${rowNumber}`, cell, styles[index])).join('')}</row>`;
+
+// The title block sits above the column headers, which stay in view while scrolling
+export const writeXlsx: ExportWriter = async (table, write) => {
+  const zip = createZipStream(write, table.generated_at);
+  const name = escapeXml(sheetName(table.title));
+
+  await zip.addEntry('[Content_Types].xml', CONTENT_TYPES);
+  await zip.addEntry('_rels/.rels', PACKAGE_RELATIONSHIPS);
+  await zip.addEntry('xl/workbook.xml', XML_DECLARATION +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  await zip.addEntry('xl/_rels/workbook.xml.rels', WORKBOOK_RELATIONSHIPS);
+  await zip.addEntry('xl/styles.xml', STYLES);
+
+  async function* sheet() {
+    const titleRows: ExportCell[][] = [
+      [table.title],
+      [`Generated ${formatExportTimestamp(table.generated_at)}`],
+      ...table.filters.map(([label, value]) => [`${label}: ${value}`]),
+      []
+    ];
+    const headerRow = titleRows.length + 1;
+    const columns = table.columns.map((column, index) =>
+      `<col min="${index + 1}" max="${index + 1}" width="${column.width + 2}" customWidth="1"/>`
+    ).join('');
+
+    yield XML_DECLARATION +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0">' +
+      `<pane ySplit="${headerRow}" topLeftCell="A${headerRow + 1}" activePane="bottomLeft" state="frozen"/>` +
+      '</sheetView></sheetViews>' +
+      `<cols>${columns}</cols><sheetData>` +
+      titleRows.map((cells, index) => rowXml(index + 1, cells, [index === 0 ? BOLD_STYLE : 0])).join('') +
+      rowXml(headerRow, table.columns.map(column => column.header), table.columns.map(() => BOLD_STYLE));
+
+    const styles = table.columns.map(column => TYPE_STYLES[column.type]);
+    let rowNumber = headerRow;
+    for await (const batch of table.rows) {
+      yield batch.map(cells => rowXml(++rowNumber, cells, styles)).join('');
+    }
+    yield '</sheetData></worksheet>';
+  }
+
+  await zip.addEntry('xl/worksheets/sheet1.xml', sheet());
+  await zip.finish();
+};
@@ -1,5 +1,6 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import type { IncomingMessage, ServerResponse } from 'node:http';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -9,6 +10,16 @@ import { z } from 'zod';
 import {
   loginInputSchema,
   createUserInputSchema,
+  updateUserInputSchema,
+  changePasswordInputSchema,
+  loginAttemptFilterSchema,
+  verifyMfaInputSchema,
+  mfaCodeInputSchema,
+  disableMfaInputSchema,
+  updateSecuritySettingsInputSchema,
+  updateRolePermissionsInputSchema,
+  setUserLocationsInputSchema,
+  auditLogFilterSchema,
   createLocationInputSchema,
   updateLocationInputSchema,
   createCategoryInputSchema,
@@ -18,18 +29,74 @@ import {
   createInventoryItemInputSchema,
   updateInventoryItemInputSchema,
   batchImportInputSchema,
+  saveImportTemplateInputSchema,
+  importJobFilterSchema,
   createPurchaseInputSchema,
   updatePurchaseInputSchema,
   createLocationHistoryInputSchema,
   updateLocationHistoryInputSchema,
+  approveTransferInputSchema,
+  rejectTransferInputSchema,
+  createTransferManifestInputSchema,
+  dispatchManifestInputSchema,
+  receiveManifestInputSchema,
+  createTransferApprovalRuleInputSchema,
+  updateTransferApprovalRuleInputSchema,
   inventoryReportFilterSchema,
   purchaseReportFilterSchema,
   locationHistoryReportFilterSchema,
+  inventoryListInputSchema,
+  purchaseListInputSchema,
+  locationHistoryListInputSchema,
+  globalSearchInputSchema,
+  inventoryReportInputSchema,
+  purchaseReportInputSchema,
+  locationHistoryReportInputSchema,
+  reportExportInputSchema,
+  type ClientInfo,
+  type Permission,
 } from './schema';
 
 // Import handlers
-import { login, logout, validateSession, initializeDefaultUser } from './handlers/auth';
-import { getUsers, getUserById, createUser, deleteUser } from './handlers/users';
+import { login, verifyMfa, logout, validateSession, changePassword, initializeDefaultUser } from './handlers/auth';
+import {
+  setupMfa,
+  enableMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+  resetUserMfa,
+  isMfaSetupRequired,
+} from './handlers/mfa';
+import { getSecuritySettings, updateSecuritySettings } from './handlers/settings';
+import {
+  getRolePermissions,
+  updateRolePermissions,
+  getUserLocationIds,
+  setUserLocations,
+  getAccessScope,
+} from './handlers/roles';
+import {
+  getUsers,
+  getUserById,
+  createUser,
+  updateUser,
+  deactivateUser,
+  reactivateUser,
+  unlockUser,
+  deleteUser,
+  resetPassword,
+  getUserDirectory,
+} from './handlers/users';
+import {
+  getMySessions,
+  revokeMySession,
+  getActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  purgeExpiredSessions,
+} from './handlers/sessions';
+import { getLoginAttempts } from './handlers/login_attempts';
+import { getAuditLog } from './handlers/audit';
 import { getDashboardStats } from './handlers/dashboard';
 import {
   getLocations,
@@ -54,15 +121,27 @@ import {
 } from './handlers/suppliers';
 import {
   getInventoryItems,
+  listInventoryItems,
   getInventoryItemById,
   getInventoryItemByCode,
+  getItemStock,
   createInventoryItem,
   updateInventoryItem,
   deleteInventoryItem,
   batchImportItems,
 } from './handlers/inventory';
+import {
+  getImportTemplates,
+  saveImportTemplate,
+  deleteImportTemplate,
+} from './handlers/import_templates';
+import {
+  getImportJobs,
+  getImportJobById,
+} from './handlers/import_jobs';
 import {
   getPurchases,
+  listPurchases,
   getPurchaseById,
   getPurchasesByItem,
   getPurchasesBySupplier,
@@ -72,27 +151,139 @@ import {
 } from './handlers/purchases';
 import {
   getLocationHistory,
+  listLocationHistory,
   getLocationHistoryById,
   getLocationHistoryByItem,
   createLocationHistory,
   updateLocationHistory,
   deleteLocationHistory,
+  getTransferStatusChanges,
+  getTransferApprovals,
+  getTransfersAwaitingApproval,
+  approveTransfer,
+  rejectTransfer,
+  linkLegacyTransferUsers,
+  TransferRuleError,
 } from './handlers/location_history';
+import {
+  getManifests,
+  getManifestById,
+  createManifest,
+  dispatchManifest,
+  receiveManifest,
+  cancelManifest,
+} from './handlers/manifests';
+import { issueTransferHandoverDocument, issueManifestHandoverDocument } from './handlers/handover_documents';
+import {
+  getApprovalRules,
+  createApprovalRule,
+  updateApprovalRule,
+  deleteApprovalRule,
+} from './handlers/approval_rules';
 import {
   generateInventoryReport,
   generatePurchaseReport,
   generateLocationHistoryReport,
   generateInventorySummary,
   generatePurchaseSummary,
+  generateLocationHistorySummary,
 } from './handlers/reports';
+import { createReportExport, issueExportTicket, redeemExportTicket } from './handlers/exports';
+import { globalSearch } from './handlers/search';
+import { getItemDetail } from './handlers/item_detail';
+
+// Only the reverse proxy in front of the server may say who the client is; Caddy runs on the same
+// host and overwrites X-Forwarded-For. Anyone reaching the port directly gets their socket address.
+const TRUSTED_PROXIES = new Set(
+  (process.env['TRUSTED_PROXIES'] || '127.0.0.1,::1,::ffff:127.0.0.1').split(',').map(address => address.trim()).filter(Boolean)
+);
+
+const getClientIp = (req: IncomingMessage): string | null => {
+  const remoteAddress = req.socket.remoteAddress || null;
+  if (!remoteAddress || !TRUSTED_PROXIES.has(remoteAddress)) {
+    return remoteAddress;
+  }
+  // The last entry is the one our proxy added; anything before it came from the client
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const forwardedIp = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor)?.split(',').pop()?.trim();
+  return forwardedIp || remoteAddress;
+};
 
-const t = initTRPC.create({
+// Resolve the caller from the session id sent by the client
+// (`Authorization: Bearer <sessionId>`)
+const resolveCaller = async (req: IncomingMessage) => {
+  const client: ClientInfo = {
+    ip_address: getClientIp(req),
+    user_agent: req.headers['user-agent'] || null
+  };
+
+  const header = req.headers['authorization'];
+  const sessionId = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+
+  if (!sessionId) {
+    return { sessionId: null, user: null, client };
+  }
+
+  const { user } = await validateSession(sessionId);
+  return { sessionId: user ? sessionId : null, user, client };
+};
+
+const createContext = ({ req }: CreateHTTPContextOptions) => resolveCaller(req);
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
-const publicProcedure = t.procedure;
+// Workflow rule violations reach clients as conflicts instead of internal errors
+const baseProcedure = t.procedure.use(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && result.error.cause instanceof TransferRuleError) {
+    throw new TRPCError({ code: 'CONFLICT', message: result.error.cause.message, cause: result.error.cause });
+  }
+  return result;
+});
+
+const publicProcedure = baseProcedure;
 const router = t.router;
 
+// Requires a valid session, even one whose user still has to change their password
+const sessionProcedure = baseProcedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.sessionId) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user, sessionId: ctx.sessionId } });
+});
+
+// Requires a valid session with no pending forced password change or two-factor enrollment
+const protectedProcedure = sessionProcedure.use(async ({ ctx, next }) => {
+  if (ctx.user.must_change_password) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Password change required' });
+  }
+  if (await isMfaSetupRequired(ctx.user)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication setup required' });
+  }
+  return next();
+});
+
+// Requires a valid session belonging to an admin
+const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'admin') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Administrator access required' });
+  }
+  return next();
+});
+
+// Requires at least one of the given permissions; exposes the caller's location scope as ctx.access
+const permittedProcedure = (...permissions: Permission[]) => protectedProcedure.use(async ({ ctx, next }) => {
+  const access = await getAccessScope(ctx.user);
+  if (!permissions.some(permission => access.permissions.includes(permission))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Missing permission: ${permissions.join(' or ')}` });
+  }
+  return next({ ctx: { ...ctx, access } });
+});
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
@@ -103,189 +294,487 @@ const appRouter = router({
   auth: router({
     login: publicProcedure
       .input(loginInputSchema)
-      .mutation(({ input }) => login(input)),
+      .mutation(({ ctx, input }) => login(input, ctx.client)),
+    verifyMfa: publicProcedure
+      .input(verifyMfaInputSchema)
+      .mutation(({ ctx, input }) => verifyMfa(input, ctx.client)),
     logout: publicProcedure
       .input(z.object({ sessionId: z.string() }))
       .mutation(({ input }) => logout(input.sessionId)),
     validateSession: publicProcedure
       .input(z.object({ sessionId: z.string() }))
       .query(({ input }) => validateSession(input.sessionId)),
+    changePassword: sessionProcedure
+      .input(changePasswordInputSchema)
+      .mutation(({ ctx, input }) => changePassword(ctx.user.id, ctx.sessionId, input)),
+    getMyAccess: protectedProcedure.query(({ ctx }) => getAccessScope(ctx.user)),
   }),
 
   // User Management
   users: router({
-    getAll: publicProcedure.query(() => getUsers()),
-    getById: publicProcedure
+    getAll: adminProcedure.query(() => getUsers()),
+    directory: permittedProcedure('locationHistory.view', 'reports.view').query(() => getUserDirectory()),
+    getById: adminProcedure
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getUserById(input.id)),
-    create: publicProcedure
+    create: adminProcedure
       .input(createUserInputSchema)
-      .mutation(({ input }) => createUser(input)),
-    delete: publicProcedure
+      .mutation(({ ctx, input }) => createUser(input, ctx.user)),
+    update: adminProcedure
+      .input(updateUserInputSchema)
+      .mutation(({ ctx, input }) => updateUser(input, ctx.user)),
+    deactivate: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => deactivateUser(input.id, ctx.user)),
+    reactivate: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => reactivateUser(input.id, ctx.user)),
+    unlock: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => unlockUser(input.id, ctx.user)),
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => deleteUser(input.id, ctx.user)),
+    resetPassword: adminProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteUser(input.id)),
+      .mutation(({ ctx, input }) => resetPassword(input.id, ctx.user)),
+    resetMfa: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => resetUserMfa(input.id, ctx.user)),
+    getLocations: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .query(({ input }) => getUserLocationIds(input.id)),
+    setLocations: adminProcedure
+      .input(setUserLocationsInputSchema)
+      .mutation(({ ctx, input }) => setUserLocations(input, ctx.user)),
+  }),
+
+  // Role permission matrix
+  roles: router({
+    getAll: adminProcedure.query(() => getRolePermissions()),
+    update: adminProcedure
+      .input(updateRolePermissionsInputSchema)
+      .mutation(({ ctx, input }) => updateRolePermissions(input, ctx.user)),
+  }),
+
+  // Two-factor authentication for the signed-in user
+  mfa: router({
+    setup: sessionProcedure.mutation(({ ctx }) => setupMfa(ctx.user.id)),
+    enable: sessionProcedure
+      .input(mfaCodeInputSchema)
+      .mutation(({ ctx, input }) => enableMfa(ctx.user.id, input)),
+    disable: sessionProcedure
+      .input(disableMfaInputSchema)
+      .mutation(({ ctx, input }) => disableMfa(ctx.user.id, input)),
+    regenerateRecoveryCodes: sessionProcedure
+      .input(mfaCodeInputSchema)
+      .mutation(({ ctx, input }) => regenerateRecoveryCodes(ctx.user.id, input)),
+  }),
+
+  // Application settings
+  settings: router({
+    getSecurity: sessionProcedure.query(() => getSecuritySettings()),
+    updateSecurity: adminProcedure
+      .input(updateSecuritySettingsInputSchema)
+      .mutation(({ ctx, input }) => updateSecuritySettings(input, ctx.user)),
+  }),
+
+  // Sessions
+  sessions: router({
+    getMine: sessionProcedure.query(({ ctx }) => getMySessions(ctx.user.id, ctx.sessionId)),
+    revokeMine: sessionProcedure
+      .input(z.object({ publicId: z.string().uuid() }))
+      .mutation(({ ctx, input }) => revokeMySession(ctx.user.id, input.publicId)),
+    getAll: adminProcedure.query(({ ctx }) => getActiveSessions(ctx.sessionId)),
+    revoke: adminProcedure
+      .input(z.object({ publicId: z.string().uuid() }))
+      .mutation(({ input }) => revokeSession(input.publicId)),
+    revokeUser: adminProcedure
+      .input(z.object({ userId: z.number() }))
+      .mutation(({ input }) => revokeUserSessions(input.userId)),
+  }),
+
+  // Login activity
+  loginAttempts: router({
+    getAll: adminProcedure
+      .input(loginAttemptFilterSchema)
+      .query(({ input }) => getLoginAttempts(input)),
+  }),
+
+  // Audit trail of data changes
+  audit: router({
+    query: permittedProcedure('audit.view')
+      .input(auditLogFilterSchema)
+      .query(({ input }) => getAuditLog(input)),
   }),
 
   // Dashboard
   dashboard: router({
-    getStats: publicProcedure.query(() => getDashboardStats()),
+    getStats: permittedProcedure('dashboard.view').query(() => getDashboardStats()),
   }),
 
   // Locations
   locations: router({
-    getAll: publicProcedure.query(() => getLocations()),
-    getById: publicProcedure
+    getAll: permittedProcedure('locations.view').query(() => getLocations()),
+    getById: permittedProcedure('locations.view')
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getLocationById(input.id)),
-    create: publicProcedure
+    create: permittedProcedure('locations.create')
       .input(createLocationInputSchema)
-      .mutation(({ input }) => createLocation(input)),
-    update: publicProcedure
+      .mutation(({ ctx, input }) => createLocation(input, ctx.user)),
+    update: permittedProcedure('locations.update')
       .input(updateLocationInputSchema)
-      .mutation(({ input }) => updateLocation(input)),
-    delete: publicProcedure
+      .mutation(({ ctx, input }) => updateLocation(input, ctx.user)),
+    delete: permittedProcedure('locations.delete')
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteLocation(input.id)),
+      .mutation(({ ctx, input }) => deleteLocation(input.id, ctx.user)),
   }),
 
   // Categories
   categories: router({
-    getAll: publicProcedure.query(() => getCategories()),
-    getById: publicProcedure
+    getAll: permittedProcedure('categories.view').query(() => getCategories()),
+    getById: permittedProcedure('categories.view')
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getCategoryById(input.id)),
-    create: publicProcedure
+    create: permittedProcedure('categories.create')
       .input(createCategoryInputSchema)
-      .mutation(({ input }) => createCategory(input)),
-    update: publicProcedure
+      .mutation(({ ctx, input }) => createCategory(input, ctx.user)),
+    update: permittedProcedure('categories.update')
       .input(updateCategoryInputSchema)
-      .mutation(({ input }) => updateCategory(input)),
-    delete: publicProcedure
+      .mutation(({ ctx, input }) => updateCategory(input, ctx.user)),
+    delete: permittedProcedure('categories.delete')
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteCategory(input.id)),
+      .mutation(({ ctx, input }) => deleteCategory(input.id, ctx.user)),
   }),
 
   // Suppliers
   suppliers: router({
-    getAll: publicProcedure.query(() => getSuppliers()),
-    getById: publicProcedure
+    getAll: permittedProcedure('suppliers.view').query(() => getSuppliers()),
+    getById: permittedProcedure('suppliers.view')
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getSupplierById(input.id)),
-    create: publicProcedure
+    create: permittedProcedure('suppliers.create')
       .input(createSupplierInputSchema)
-      .mutation(({ input }) => createSupplier(input)),
-    update: publicProcedure
+      .mutation(({ ctx, input }) => createSupplier(input, ctx.user)),
+    update: permittedProcedure('suppliers.update')
       .input(updateSupplierInputSchema)
-      .mutation(({ input }) => updateSupplier(input)),
-    delete: publicProcedure
+      .mutation(({ ctx, input }) => updateSupplier(input, ctx.user)),
+    delete: permittedProcedure('suppliers.delete')
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteSupplier(input.id)),
+      .mutation(({ ctx, input }) => deleteSupplier(input.id, ctx.user)),
   }),
 
   // Inventory Items
   inventory: router({
-    getAll: publicProcedure.query(() => getInventoryItems()),
-    getById: publicProcedure
+    getAll: permittedProcedure('inventory.view').query(({ ctx }) => getInventoryItems(ctx.access.location_ids)),
+    list: permittedProcedure('inventory.view')
+      .input(inventoryListInputSchema)
+      .query(({ ctx, input }) => listInventoryItems(input, ctx.access.location_ids)),
+    getById: permittedProcedure('inventory.view')
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getInventoryItemById(input.id)),
-    getByCode: publicProcedure
+      .query(({ ctx, input }) => getInventoryItemById(input.id, ctx.access.location_ids)),
+    getDetail: permittedProcedure('inventory.view')
+      .input(z.object({ id: z.number() }))
+      .query(({ ctx, input }) => getItemDetail(input.id, ctx.access.permissions, ctx.access.location_ids)),
+    getByCode: permittedProcedure('inventory.view')
+      .input(z.object({ code: z.string() }))
+      .query(({ ctx, input }) => getInventoryItemByCode(input.code, ctx.access.location_ids)),
+    getStock: permittedProcedure('inventory.view')
       .input(z.object({ code: z.string() }))
-      .query(({ input }) => getInventoryItemByCode(input.code)),
-    create: publicProcedure
+      .query(({ ctx, input }) => getItemStock(input.code, ctx.access.location_ids)),
+    create: permittedProcedure('inventory.create')
       .input(createInventoryItemInputSchema)
-      .mutation(({ input }) => createInventoryItem(input)),
-    update: publicProcedure
+      .mutation(({ ctx, input }) => createInventoryItem(input, ctx.access.location_ids, ctx.user)),
+    update: permittedProcedure('inventory.update', 'inventory.updateCondition')
       .input(updateInventoryItemInputSchema)
-      .mutation(({ input }) => updateInventoryItem(input)),
-    delete: publicProcedure
+      .mutation(({ ctx, input }) => {
+        // Condition-only access (e.g. technicians) may not change any other field
+        const changesOtherFields = Object.entries(input)
+          .some(([key, value]) => key !== 'id' && key !== 'condition' && value !== undefined);
+        if (changesOtherFields && !ctx.access.permissions.includes('inventory.update')) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Missing permission: inventory.update' });
+        }
+        return updateInventoryItem(input, ctx.access.location_ids, ctx.user);
+      }),
+    delete: permittedProcedure('inventory.delete')
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteInventoryItem(input.id)),
-    batchImport: publicProcedure
+      .mutation(({ ctx, input }) => deleteInventoryItem(input.id, ctx.access.location_ids, ctx.user)),
+    batchImport: permittedProcedure('inventory.import')
       .input(batchImportInputSchema)
-      .mutation(({ input }) => batchImportItems(input)),
+      .mutation(({ ctx, input }) => batchImportItems(input, ctx.access.location_ids, ctx.user)),
+  }),
+
+  // Saved spreadsheet column mappings for batch import
+  importTemplates: router({
+    getAll: permittedProcedure('inventory.import').query(() => getImportTemplates()),
+    save: permittedProcedure('inventory.import')
+      .input(saveImportTemplateInputSchema)
+      .mutation(({ ctx, input }) => saveImportTemplate(input, ctx.user)),
+    delete: permittedProcedure('inventory.import')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => deleteImportTemplate(input.id, ctx.user)),
+  }),
+
+  // Committed batch imports, for reviewing what each one changed.
+  // Location-scoped users only see the imports they ran themselves.
+  importJobs: router({
+    getAll: permittedProcedure('inventory.import')
+      .input(importJobFilterSchema)
+      .query(({ ctx, input }) => getImportJobs(input, ctx.access.location_ids !== null ? ctx.user.id : null)),
+    getById: permittedProcedure('inventory.import')
+      .input(z.object({ id: z.number() }))
+      .query(({ ctx, input }) => getImportJobById(input.id, ctx.access.location_ids !== null ? ctx.user.id : null)),
   }),
 
   // Purchases
   purchases: router({
-    getAll: publicProcedure.query(() => getPurchases()),
-    getById: publicProcedure
+    getAll: permittedProcedure('purchases.view').query(() => getPurchases()),
+    list: permittedProcedure('purchases.view')
+      .input(purchaseListInputSchema)
+      .query(({ input }) => listPurchases(input)),
+    getById: permittedProcedure('purchases.view')
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getPurchaseById(input.id)),
-    getByItem: publicProcedure
+    getByItem: permittedProcedure('purchases.view')
       .input(z.object({ itemId: z.number() }))
       .query(({ input }) => getPurchasesByItem(input.itemId)),
-    getBySupplier: publicProcedure
+    getBySupplier: permittedProcedure('purchases.view')
       .input(z.object({ supplierId: z.number() }))
       .query(({ input }) => getPurchasesBySupplier(input.supplierId)),
-    create: publicProcedure
+    create: permittedProcedure('purchases.create')
       .input(createPurchaseInputSchema)
-      .mutation(({ input }) => createPurchase(input)),
-    update: publicProcedure
+      .mutation(({ ctx, input }) => createPurchase(input, ctx.user)),
+    update: permittedProcedure('purchases.update')
       .input(updatePurchaseInputSchema)
-      .mutation(({ input }) => updatePurchase(input)),
-    delete: publicProcedure
+      .mutation(({ ctx, input }) => updatePurchase(input, ctx.user)),
+    delete: permittedProcedure('purchases.delete')
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deletePurchase(input.id)),
+      .mutation(({ ctx, input }) => deletePurchase(input.id, ctx.user)),
   }),
 
   // Location History
   locationHistory: router({
-    getAll: publicProcedure.query(() => getLocationHistory()),
-    getById: publicProcedure
+    getAll: permittedProcedure('locationHistory.view').query(({ ctx }) => getLocationHistory(ctx.access.location_ids)),
+    list: permittedProcedure('locationHistory.view')
+      .input(locationHistoryListInputSchema)
+      .query(({ ctx, input }) => listLocationHistory(input, ctx.access.location_ids)),
+    getById: permittedProcedure('locationHistory.view')
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getLocationHistoryById(input.id)),
-    getByItem: publicProcedure
+      .query(({ ctx, input }) => getLocationHistoryById(input.id, ctx.access.location_ids)),
+    getByItem: permittedProcedure('locationHistory.view')
       .input(z.object({ itemId: z.number() }))
-      .query(({ input }) => getLocationHistoryByItem(input.itemId)),
-    create: publicProcedure
+      .query(({ ctx, input }) => getLocationHistoryByItem(input.itemId, ctx.access.location_ids)),
+    create: permittedProcedure('locationHistory.create')
       .input(createLocationHistoryInputSchema)
-      .mutation(({ input }) => createLocationHistory(input)),
-    update: publicProcedure
+      .mutation(({ ctx, input }) => createLocationHistory(input, ctx.access.location_ids, ctx.user)),
+    update: permittedProcedure('locationHistory.update')
       .input(updateLocationHistoryInputSchema)
-      .mutation(({ input }) => updateLocationHistory(input)),
-    delete: publicProcedure
+      .mutation(({ ctx, input }) => updateLocationHistory(input, ctx.access.location_ids, ctx.user)),
+    delete: permittedProcedure('locationHistory.delete')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => deleteLocationHistory(input.id, ctx.access.location_ids, ctx.user)),
+    getStatusChanges: permittedProcedure('locationHistory.view')
+      .input(z.object({ id: z.number() }))
+      .query(({ ctx, input }) => getTransferStatusChanges(input.id, ctx.access.location_ids)),
+    getApprovals: permittedProcedure('locationHistory.view')
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteLocationHistory(input.id)),
+      .query(({ ctx, input }) => getTransferApprovals(input.id, ctx.access.location_ids)),
+    // Assigns the document number on first use, so this is a mutation
+    handoverDocument: permittedProcedure('locationHistory.view')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => issueTransferHandoverDocument(input.id, ctx.access.location_ids, ctx.user)),
+    awaitingApproval: permittedProcedure('locationHistory.approve')
+      .query(({ ctx }) => getTransfersAwaitingApproval(ctx.access.location_ids, ctx.user)),
+    approve: permittedProcedure('locationHistory.approve')
+      .input(approveTransferInputSchema)
+      .mutation(({ ctx, input }) => approveTransfer(input, ctx.access.location_ids, ctx.user)),
+    reject: permittedProcedure('locationHistory.approve')
+      .input(rejectTransferInputSchema)
+      .mutation(({ ctx, input }) => rejectTransfer(input, ctx.access.location_ids, ctx.user)),
+  }),
+
+  // Multi-item shipments
+  manifests: router({
+    getAll: permittedProcedure('locationHistory.view').query(({ ctx }) => getManifests(ctx.access.location_ids)),
+    getById: permittedProcedure('locationHistory.view')
+      .input(z.object({ id: z.number() }))
+      .query(({ ctx, input }) => getManifestById(input.id, ctx.access.location_ids)),
+    create: permittedProcedure('locationHistory.create')
+      .input(createTransferManifestInputSchema)
+      .mutation(({ ctx, input }) => createManifest(input, ctx.access.location_ids, ctx.user)),
+    dispatch: permittedProcedure('locationHistory.update')
+      .input(dispatchManifestInputSchema)
+      .mutation(({ ctx, input }) => dispatchManifest(input, ctx.access.location_ids, ctx.user)),
+    receive: permittedProcedure('locationHistory.update')
+      .input(receiveManifestInputSchema)
+      .mutation(({ ctx, input }) => receiveManifest(input, ctx.access.location_ids, ctx.user)),
+    cancel: permittedProcedure('locationHistory.update')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => cancelManifest(input.id, ctx.access.location_ids, ctx.user)),
+    handoverDocument: permittedProcedure('locationHistory.view')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => issueManifestHandoverDocument(input.id, ctx.access.location_ids, ctx.user)),
+  }),
+
+  // Rules deciding which transfers need approval
+  approvalRules: router({
+    getAll: adminProcedure.query(() => getApprovalRules()),
+    create: adminProcedure
+      .input(createTransferApprovalRuleInputSchema)
+      .mutation(({ ctx, input }) => createApprovalRule(input, ctx.user)),
+    update: adminProcedure
+      .input(updateTransferApprovalRuleInputSchema)
+      .mutation(({ ctx, input }) => updateApprovalRule(input, ctx.user)),
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => deleteApprovalRule(input.id, ctx.user)),
+  }),
+
+  // Search
+  search: router({
+    // Each kind of record is only searched when the caller may view it
+    global: permittedProcedure('inventory.view', 'purchases.view', 'suppliers.view', 'locations.view')
+      .input(globalSearchInputSchema)
+      .query(({ ctx, input }) => globalSearch(input, ctx.access.permissions, ctx.access.location_ids)),
   }),
 
   // Reports
   reports: router({
-    inventory: publicProcedure
-      .input(inventoryReportFilterSchema)
-      .query(({ input }) => generateInventoryReport(input)),
-    inventorySummary: publicProcedure
+    // A one-time link for the browser to download the file from, see handleExport
+    prepareExport: permittedProcedure('reports.view')
+      .input(reportExportInputSchema)
+      .mutation(({ ctx, input }) => issueExportTicket(input, ctx.sessionId)),
+    inventory: permittedProcedure('reports.view')
+      .input(inventoryReportInputSchema)
+      .query(({ ctx, input }) => generateInventoryReport(input, ctx.access.location_ids)),
+    inventorySummary: permittedProcedure('reports.view')
       .input(inventoryReportFilterSchema)
-      .query(({ input }) => generateInventorySummary(input)),
-    purchases: publicProcedure
-      .input(purchaseReportFilterSchema)
-      .query(({ input }) => generatePurchaseReport(input)),
-    purchasesSummary: publicProcedure
+      .query(({ ctx, input }) => generateInventorySummary(input, ctx.access.location_ids)),
+    purchases: permittedProcedure('reports.view')
+      .input(purchaseReportInputSchema)
+      .query(({ ctx, input }) => generatePurchaseReport(input, ctx.access.location_ids)),
+    purchasesSummary: permittedProcedure('reports.view')
       .input(purchaseReportFilterSchema)
-      .query(({ input }) => generatePurchaseSummary(input)),
-    locationHistory: publicProcedure
+      .query(({ ctx, input }) => generatePurchaseSummary(input, ctx.access.location_ids)),
+    locationHistory: permittedProcedure('reports.view')
+      .input(locationHistoryReportInputSchema)
+      .query(({ ctx, input }) => generateLocationHistoryReport(input, ctx.access.location_ids)),
+    locationHistorySummary: permittedProcedure('reports.view')
       .input(locationHistoryReportFilterSchema)
-      .query(({ input }) => generateLocationHistoryReport(input)),
+      .query(({ ctx, input }) => generateLocationHistorySummary(input, ctx.access.location_ids)),
   }),
 });
 
 export type AppRouter = typeof appRouter;
 
+// Report downloads bypass tRPC so large files stream out a page of rows at a time instead of
+// being built up as one response. The browser downloads the file itself, so it streams to disk
+// too: GET /export?ticket=<ticket from reports.prepareExport>
+const EXPORT_PATH = '/export';
+
+const sendError = (res: ServerResponse, status: number, message: string) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: message }));
+};
+
+// Resolves once the chunk is buffered, waiting for the client to catch up when it is not
+const writeChunk = (res: ServerResponse, chunk: string | Uint8Array) => new Promise<void>((resolve, reject) => {
+  if (res.destroyed) {
+    reject(new Error('Export download was cancelled'));
+    return;
+  }
+  if (res.write(chunk)) {
+    resolve();
+    return;
+  }
+  const onDrain = () => {
+    res.off('close', onClose);
+    resolve();
+  };
+  const onClose = () => {
+    res.off('drain', onDrain);
+    reject(new Error('Export download was cancelled'));
+  };
+  res.once('drain', onDrain);
+  res.once('close', onClose);
+});
+
+// The ticket stands in for the session that asked for it, which gets the same checks as
+// permittedProcedure('reports.view')
+const handleExport = async (req: IncomingMessage, res: ServerResponse) => {
+  const ticket = new URL(req.url ?? '', 'http://localhost').searchParams.get('ticket');
+  const redeemed = ticket ? await redeemExportTicket(ticket) : null;
+  if (!redeemed) {
+    return sendError(res, 404, 'Export link is invalid or has expired');
+  }
+
+  const { user } = await validateSession(redeemed.session_id);
+  if (!user) {
+    return sendError(res, 401, 'Authentication required');
+  }
+  if (user.must_change_password) {
+    return sendError(res, 403, 'Password change required');
+  }
+  if (await isMfaSetupRequired(user)) {
+    return sendError(res, 403, 'Two-factor authentication setup required');
+  }
+  const access = await getAccessScope(user);
+  if (!access.permissions.includes('reports.view')) {
+    return sendError(res, 403, 'Missing permission: reports.view');
+  }
+
+  const report = await createReportExport(redeemed.input, access.location_ids);
+  res.writeHead(200, {
+    'Content-Type': report.content_type,
+    'Content-Disposition': `attachment; filename="${report.file_name}"`,
+    'Cache-Control': 'no-store'
+  });
+  await report.write(chunk => writeChunk(res, chunk));
+  res.end();
+};
+
 async function start() {
   // Initialize default admin user on startup
   await initializeDefaultUser();
+
+  const linkedTransfers = await linkLegacyTransferUsers();
+  if (linkedTransfers > 0) {
+    console.log(`Linked ${linkedTransfers} transfer records to user accounts`);
+  }
   
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        if (req.method !== 'GET' || req.url?.split('?')[0] !== EXPORT_PATH) {
+          next();
+          return;
+        }
+        handleExport(req, res).catch((error: unknown) => {
+          console.error('Export request failed:', error);
+          if (res.headersSent) {
+            res.destroy();
+          } else {
+            sendError(res, 500, 'Export failed');
+          }
+        });
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Periodically purge sessions that expired without being used again
+  const sweepMinutes = parseInt(process.env['SESSION_SWEEP_INTERVAL_MINUTES'] || '15', 10);
+  setInterval(() => {
+    purgeExpiredSessions()
+      .then((purged) => {
+        if (purged > 0) console.log(`Purged ${purged} expired session(s)`);
+      })
+      .catch(() => {});
+  }, sweepMinutes * 60 * 1000);
 }
 
 start();
\ No newline at end of file
@@ -2,8 +2,26 @@ import { z } from 'zod';
 
 // Enums
 export const itemConditionEnum = z.enum(['excellent', 'good', 'fair', 'poor', 'damaged']);
-export const transferStatusEnum = z.enum(['pending', 'in_transit', 'completed', 'cancelled']);
-export const userRoleEnum = z.enum(['admin', 'user']);
+export const transferStatusEnum = z.enum(['pending_approval', 'rejected', 'pending', 'in_transit', 'completed', 'cancelled']);
+export const approvalSideEnum = z.enum(['source', 'destination']);
+export const approvalDecisionEnum = z.enum(['approved', 'rejected']);
+export const approvalScopeEnum = z.enum(['source', 'destination', 'both']);
+export const manifestStatusEnum = z.enum(['pending', 'in_transit', 'received', 'partially_received', 'cancelled']);
+export const receiptStatusEnum = z.enum(['received', 'damaged', 'missing']);
+export const userRoleEnum = z.enum(['admin', 'user', 'auditor', 'branch_manager', 'procurement', 'technician']);
+// Permission keys follow the router.action naming of the API
+export const permissionEnum = z.enum([
+  'dashboard.view',
+  'locations.view', 'locations.create', 'locations.update', 'locations.delete',
+  'categories.view', 'categories.create', 'categories.update', 'categories.delete',
+  'suppliers.view', 'suppliers.create', 'suppliers.update', 'suppliers.delete',
+  'inventory.view', 'inventory.create', 'inventory.update', 'inventory.updateCondition', 'inventory.delete', 'inventory.import',
+  'purchases.view', 'purchases.create', 'purchases.update', 'purchases.delete',
+  'locationHistory.view', 'locationHistory.create', 'locationHistory.update', 'locationHistory.delete', 'locationHistory.approve',
+  'reports.view',
+  'audit.view'
+]);
+export const loginAttemptReasonEnum = z.enum(['success', 'invalid_credentials', 'account_locked', 'ip_blocked', 'mfa_required', 'invalid_mfa_code']);
 
 // Users schema
 export const userSchema = z.object({
@@ -11,6 +29,10 @@ export const userSchema = z.object({
   username: z.string(),
   role: userRoleEnum,
   is_active: z.boolean(),
+  must_change_password: z.boolean(),
+  failed_login_count: z.number().int(),
+  locked_until: z.coerce.date().nullable(),
+  totp_enabled: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -28,11 +50,23 @@ export const loginResponseSchema = z.object({
   success: z.boolean(),
   sessionId: z.string().optional(),
   user: userSchema.optional(),
-  message: z.string().optional()
+  message: z.string().optional(),
+  reason: loginAttemptReasonEnum.optional(),
+  locked_until: z.coerce.date().optional(),
+  // Set when the password was correct but a second factor is still needed
+  mfa_required: z.boolean().optional(),
+  mfa_token: z.string().optional()
 });
 
 export type LoginResponse = z.infer<typeof loginResponseSchema>;
 
+export const verifyMfaInputSchema = z.object({
+  mfa_token: z.string().min(1),
+  code: z.string().min(1, "Code is required")
+});
+
+export type VerifyMfaInput = z.infer<typeof verifyMfaInputSchema>;
+
 export const createUserInputSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(6, "Password must be at least 6 characters"),
@@ -41,15 +75,202 @@ export const createUserInputSchema = z.object({
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+export const updateUserInputSchema = z.object({
+  id: z.number(),
+  username: z.string().min(1).optional(),
+  role: userRoleEnum.optional()
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
+
+// Minimal user listing for pickers available to non-admins
+export const userDirectoryEntrySchema = z.object({
+  id: z.number(),
+  username: z.string()
+});
+
+export type UserDirectoryEntry = z.infer<typeof userDirectoryEntrySchema>;
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string().min(1, "Current password is required"),
+  new_password: z.string().min(6, "Password must be at least 6 characters")
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const resetPasswordResponseSchema = z.object({
+  temporary_password: z.string()
+});
+
+export type ResetPasswordResponse = z.infer<typeof resetPasswordResponseSchema>;
+
 export const sessionSchema = z.object({
   id: z.string(),
+  public_id: z.string(),
   user_id: z.number(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
   expires_at: z.coerce.date(),
+  last_seen_at: z.coerce.date(),
   created_at: z.coerce.date()
 });
 
 export type Session = z.infer<typeof sessionSchema>;
 
+// Session as shown in session lists; never includes the session token itself
+export const sessionInfoSchema = z.object({
+  public_id: z.string(),
+  user_id: z.number(),
+  username: z.string(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  expires_at: z.coerce.date(),
+  last_seen_at: z.coerce.date(),
+  created_at: z.coerce.date(),
+  is_current: z.boolean()
+});
+
+export type SessionInfo = z.infer<typeof sessionInfoSchema>;
+
+export const clientInfoSchema = z.object({
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type ClientInfo = z.infer<typeof clientInfoSchema>;
+
+// Two-factor authentication schema
+export const mfaSetupResponseSchema = z.object({
+  secret: z.string(),
+  provisioning_uri: z.string()
+});
+
+export type MfaSetupResponse = z.infer<typeof mfaSetupResponseSchema>;
+
+export const mfaCodeInputSchema = z.object({
+  code: z.string().min(1, "Code is required")
+});
+
+export type MfaCodeInput = z.infer<typeof mfaCodeInputSchema>;
+
+export const disableMfaInputSchema = z.object({
+  password: z.string().min(1, "Password is required")
+});
+
+export type DisableMfaInput = z.infer<typeof disableMfaInputSchema>;
+
+export const recoveryCodesResponseSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodesResponse = z.infer<typeof recoveryCodesResponseSchema>;
+
+// Security settings schema
+export const securitySettingsSchema = z.object({
+  require_admin_mfa: z.boolean()
+});
+
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+
+export const updateSecuritySettingsInputSchema = securitySettingsSchema.partial();
+
+export type UpdateSecuritySettingsInput = z.infer<typeof updateSecuritySettingsInputSchema>;
+
+// Roles and permissions schema
+export type UserRole = z.infer<typeof userRoleEnum>;
+export type Permission = z.infer<typeof permissionEnum>;
+
+export const rolePermissionsSchema = z.object({
+  role: userRoleEnum,
+  permissions: z.array(permissionEnum),
+  location_scoped: z.boolean(),
+  updated_at: z.coerce.date()
+});
+
+export type RolePermissions = z.infer<typeof rolePermissionsSchema>;
+
+export const updateRolePermissionsInputSchema = z.object({
+  role: userRoleEnum.exclude(['admin']),
+  permissions: z.array(permissionEnum),
+  location_scoped: z.boolean()
+});
+
+export type UpdateRolePermissionsInput = z.infer<typeof updateRolePermissionsInputSchema>;
+
+export const setUserLocationsInputSchema = z.object({
+  user_id: z.number(),
+  location_ids: z.array(z.number().int())
+});
+
+export type SetUserLocationsInput = z.infer<typeof setUserLocationsInputSchema>;
+
+// What the signed-in user may do; location_ids is null when not restricted to locations
+export const accessScopeSchema = z.object({
+  role: userRoleEnum,
+  permissions: z.array(permissionEnum),
+  location_ids: z.array(z.number()).nullable()
+});
+
+export type AccessScope = z.infer<typeof accessScopeSchema>;
+
+// Login attempts schema
+export const loginAttemptSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  user_id: z.number().nullable(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  success: z.boolean(),
+  reason: loginAttemptReasonEnum,
+  created_at: z.coerce.date()
+});
+
+export type LoginAttempt = z.infer<typeof loginAttemptSchema>;
+
+export const loginAttemptFilterSchema = z.object({
+  username: z.string().optional(),
+  ip_address: z.string().optional(),
+  success: z.boolean().optional(),
+  limit: z.number().int().positive().max(500).default(100)
+});
+
+export type LoginAttemptFilter = z.infer<typeof loginAttemptFilterSchema>;
+
+// Audit log schema
+export const auditActionEnum = z.enum(['create', 'update', 'delete']);
+export const auditEntityTypeEnum = z.enum([
+  'inventory_item', 'location', 'category', 'supplier', 'purchase', 'location_history',
+  'user', 'role', 'settings', 'approval_rule', 'transfer_manifest', 'import_template'
+]);
+
+export const auditLogSchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  username: z.string().nullable(),
+  action: auditActionEnum,
+  entity_type: auditEntityTypeEnum,
+  entity_id: z.string(),
+  before: z.record(z.string(), z.unknown()).nullable(),
+  after: z.record(z.string(), z.unknown()).nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLog = z.infer<typeof auditLogSchema>;
+export type AuditAction = z.infer<typeof auditActionEnum>;
+export type AuditEntityType = z.infer<typeof auditEntityTypeEnum>;
+
+export const auditLogFilterSchema = z.object({
+  entity_type: auditEntityTypeEnum.optional(),
+  entity_id: z.string().optional(),
+  user_id: z.number().optional(),
+  action: auditActionEnum.optional(),
+  date_from: z.coerce.date().optional(),
+  date_to: z.coerce.date().optional(),
+  limit: z.number().int().positive().max(500).default(100)
+});
+
+export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
+
 // Locations schema
 export const locationSchema = z.object({
   id: z.number(),
@@ -154,6 +375,19 @@ export const inventoryItemSchema = z.object({
 });
 
 export type InventoryItem = z.infer<typeof inventoryItemSchema>;
+export type ItemCondition = z.infer<typeof itemConditionEnum>;
+
+// How much of one item code each location holds
+export const itemStockSchema = z.object({
+  item_id: z.number(),
+  location_id: z.number(),
+  location_name: z.string(),
+  branch_code: z.string(),
+  condition: itemConditionEnum,
+  quantity: z.number().int()
+});
+
+export type ItemStock = z.infer<typeof itemStockSchema>;
 
 export const createInventoryItemInputSchema = z.object({
   item_code: z.string().min(1, "Item code is required"),
@@ -185,26 +419,195 @@ export const updateInventoryItemInputSchema = z.object({
 export type UpdateInventoryItemInput = z.infer<typeof updateInventoryItemInputSchema>;
 
 // Batch import schema
+// Rows come straight from uploaded spreadsheets, so cells are read leniently: text is trimmed,
+// blank cells count as missing, and numbers and conditions may arrive as text
+const cellValue = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return value ?? undefined;
+  }
+  const text = value.trim();
+  return text === '' ? undefined : text;
+};
+
+const cellNumber = (value: unknown) => {
+  const cell = cellValue(value);
+  return typeof cell === 'string' ? Number(cell) : cell;
+};
+
+const cellCondition = (value: unknown) => {
+  const cell = cellValue(value);
+  return typeof cell === 'string' ? cell.toLowerCase() : cell;
+};
+
 export const batchImportItemSchema = z.object({
-  item_code: z.string().min(1),
-  name: z.string().min(1),
-  description: z.string().nullable(),
-  category_name: z.string().min(1),
-  location_name: z.string().min(1),
-  condition: itemConditionEnum,
-  quantity: z.number().int().nonnegative(),
-  purchase_price: z.number().nonnegative(),
-  purchase_date: z.coerce.date()
+  item_code: z.preprocess(cellValue, z.string().min(1)),
+  name: z.preprocess(cellValue, z.string().min(1)),
+  description: z.preprocess(value => cellValue(value) ?? null, z.string().nullable()),
+  category_name: z.preprocess(cellValue, z.string().min(1)),
+  location_name: z.preprocess(cellValue, z.string().min(1)),
+  condition: z.preprocess(cellCondition, itemConditionEnum),
+  quantity: z.preprocess(cellNumber, z.number().int().nonnegative()),
+  purchase_price: z.preprocess(cellNumber, z.number().nonnegative()),
+  purchase_date: z.preprocess(cellValue, z.coerce.date())
 });
 
 export type BatchImportItem = z.infer<typeof batchImportItemSchema>;
 
+// The columns a spreadsheet can be mapped onto
+export const batchImportFieldEnum = batchImportItemSchema.keyof();
+
+export type BatchImportField = z.infer<typeof batchImportFieldEnum>;
+
+// One spreadsheet row, validated row by row by the import so each row gets its own errors
+export const batchImportRowSchema = z.record(z.string(), z.union([z.string(), z.number(), z.date()]).nullable());
+
+export type BatchImportRow = z.infer<typeof batchImportRowSchema>;
+
+// insert: only new items, an existing item code is an error; update: only existing items,
+// unknown ones are skipped; upsert: both; sync: upsert, and flag items at the file's locations
+// that the file leaves out. Items are matched on item code at the row's location.
+export const batchImportModeEnum = z.enum(['insert', 'update', 'upsert', 'sync']);
+
+export type BatchImportMode = z.infer<typeof batchImportModeEnum>;
+
+// What to do with a category or location name that matches no existing record (names are compared
+// case-insensitively): reject the row; map it, which only accepts names the caller has confirmed a
+// match for; or create the record
+export const unknownReferenceActionEnum = z.enum(['reject', 'map', 'create']);
+
+export type UnknownReferenceAction = z.infer<typeof unknownReferenceActionEnum>;
+
 export const batchImportInputSchema = z.object({
-  items: z.array(batchImportItemSchema)
+  items: z.array(batchImportRowSchema),
+  mode: batchImportModeEnum.optional(),
+  // Defaults to create
+  on_unknown_reference: unknownReferenceActionEnum.optional(),
+  // Confirmed matches for unknown names, from the name as written in the file to a record ID
+  category_matches: z.record(z.string(), z.number()).optional(),
+  location_matches: z.record(z.string(), z.number()).optional(),
+  // Roll back the whole batch when any row fails; otherwise the good rows are kept
+  all_or_nothing: z.boolean().optional(),
+  // Validate and report what would be changed without keeping anything
+  dry_run: z.boolean().optional(),
+  // Recorded with the import job
+  file_name: z.string().nullable().optional()
 });
 
 export type BatchImportInput = z.infer<typeof batchImportInputSchema>;
 
+export const batchImportRowStatusEnum = z.enum(['created', 'updated', 'unchanged', 'skipped', 'error']);
+
+export type BatchImportRowStatus = z.infer<typeof batchImportRowStatusEnum>;
+
+export const batchImportRowResultSchema = z.object({
+  // Position in the submitted rows, counting from 1
+  row: z.number().int(),
+  item_code: z.string().nullable(),
+  item_id: z.number().nullable(),
+  status: batchImportRowStatusEnum,
+  errors: z.array(z.string()),
+  // Fields an update changed
+  changes: z.array(z.string()),
+  new_category: z.string().nullable(),
+  new_location: z.string().nullable()
+});
+
+export type BatchImportRowResult = z.infer<typeof batchImportRowResultSchema>;
+
+// An item a sync import found at one of the file's locations but not in the file
+export const batchImportMissingItemSchema = z.object({
+  item_id: z.number(),
+  item_code: z.string(),
+  name: z.string(),
+  location_name: z.string()
+});
+
+export type BatchImportMissingItem = z.infer<typeof batchImportMissingItemSchema>;
+
+// A category or location name in the file that matches no existing record
+export const unknownReferenceSchema = z.object({
+  kind: z.enum(['category', 'location']),
+  name: z.string(),
+  // Rows using the name, counting from 1
+  rows: z.array(z.number().int()),
+  // Existing records with similar names, closest first
+  suggestions: z.array(z.object({ id: z.number(), name: z.string() }))
+});
+
+export type UnknownReference = z.infer<typeof unknownReferenceSchema>;
+
+export const batchImportResultSchema = z.object({
+  dry_run: z.boolean(),
+  mode: batchImportModeEnum,
+  // An all-or-nothing import with failing rows keeps nothing, whatever the rows report
+  rolled_back: z.boolean(),
+  // Rows created or updated
+  success: z.number().int(),
+  errors: z.array(z.string()),
+  rows: z.array(batchImportRowResultSchema),
+  // Names the import created (or, in a dry run, would create) because no existing record matched
+  new_categories: z.array(z.string()),
+  new_locations: z.array(z.string()),
+  missing: z.array(batchImportMissingItemSchema),
+  // Names that needed a confirmed match, or a new record
+  unknown_references: z.array(unknownReferenceSchema),
+  // The import job recording this run; dry runs are not recorded
+  job_id: z.number().nullable()
+});
+
+export type BatchImportResult = z.infer<typeof batchImportResultSchema>;
+
+// Import jobs: one record per committed batch import, for reviewing what it changed
+export const importJobSchema = z.object({
+  id: z.number(),
+  mode: batchImportModeEnum,
+  file_name: z.string().nullable(),
+  rolled_back: z.boolean(),
+  created_count: z.number().int(),
+  updated_count: z.number().int(),
+  unchanged_count: z.number().int(),
+  skipped_count: z.number().int(),
+  error_count: z.number().int(),
+  missing_count: z.number().int(),
+  created_by: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ImportJob = z.infer<typeof importJobSchema>;
+
+export const importJobDetailSchema = importJobSchema.extend({
+  rows: z.array(batchImportRowResultSchema),
+  missing: z.array(batchImportMissingItemSchema)
+});
+
+export type ImportJobDetail = z.infer<typeof importJobDetailSchema>;
+
+export const importJobFilterSchema = z.object({
+  limit: z.number().int().positive().max(500).default(50)
+});
+
+export type ImportJobFilter = z.infer<typeof importJobFilterSchema>;
+
+// Saved column mappings for importing spreadsheets that always share a layout
+export const importTemplateSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  // Import field to spreadsheet column header
+  mapping: z.record(batchImportFieldEnum, z.string()),
+  created_by_id: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ImportTemplate = z.infer<typeof importTemplateSchema>;
+
+export const saveImportTemplateInputSchema = z.object({
+  name: z.string().trim().min(1),
+  mapping: z.record(batchImportFieldEnum, z.string())
+});
+
+export type SaveImportTemplateInput = z.infer<typeof saveImportTemplateInputSchema>;
+
 // Purchases schema
 export const purchaseSchema = z.object({
   id: z.number(),
@@ -248,12 +651,21 @@ export type UpdatePurchaseInput = z.infer<typeof updatePurchaseInputSchema>;
 export const locationHistorySchema = z.object({
   id: z.number(),
   item_id: z.number(),
+  manifest_id: z.number().nullable(),
   from_location_id: z.number().nullable(),
   to_location_id: z.number(),
   transfer_date: z.coerce.date(),
-  transferred_by: z.string(),
+  quantity: z.number().int().nullable(),
+  transferred_by: z.string().nullable(),
+  created_by_id: z.number().nullable(),
+  sender_id: z.number().nullable(),
+  receiver_id: z.number().nullable(),
   reason: z.string().nullable(),
   status: transferStatusEnum,
+  requires_source_approval: z.boolean(),
+  requires_destination_approval: z.boolean(),
+  receipt_status: receiptStatusEnum.nullable(),
+  handover_document_number: z.string().nullable(),
   notes: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -261,14 +673,42 @@ export const locationHistorySchema = z.object({
 
 export type LocationHistory = z.infer<typeof locationHistorySchema>;
 
+export type TransferStatus = z.infer<typeof transferStatusEnum>;
+
+// Legal status changes through updates; completed, cancelled and rejected transfers are final.
+// Approval decisions move pending_approval to pending or rejected.
+export const transferStatusTransitions: Record<TransferStatus, TransferStatus[]> = {
+  pending_approval: ['cancelled'],
+  rejected: [],
+  pending: ['in_transit', 'cancelled'],
+  in_transit: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+export const transferStatusChangeSchema = z.object({
+  id: z.number(),
+  transfer_id: z.number(),
+  from_status: transferStatusEnum.nullable(),
+  to_status: transferStatusEnum,
+  changed_by_id: z.number().nullable(),
+  changed_at: z.coerce.date()
+});
+
+export type TransferStatusChange = z.infer<typeof transferStatusChangeSchema>;
+
 export const createLocationHistoryInputSchema = z.object({
   item_id: z.number(),
   from_location_id: z.number().nullable(),
   to_location_id: z.number(),
   transfer_date: z.coerce.date(),
-  transferred_by: z.string().min(1, "Transferred by is required"),
+  // Units to move out of a bulk row; defaults to the whole row
+  quantity: z.number().int().positive().optional(),
+  sender_id: z.number().nullable().optional(),
+  receiver_id: z.number().nullable().optional(),
   reason: z.string().nullable(),
-  status: transferStatusEnum,
+  // Transfers that need approval are stored as pending_approval instead
+  status: transferStatusEnum.exclude(['pending_approval', 'rejected']),
   notes: z.string().nullable()
 });
 
@@ -277,11 +717,261 @@ export type CreateLocationHistoryInput = z.infer<typeof createLocationHistoryInp
 export const updateLocationHistoryInputSchema = z.object({
   id: z.number(),
   status: transferStatusEnum.optional(),
+  sender_id: z.number().nullable().optional(),
+  receiver_id: z.number().nullable().optional(),
   notes: z.string().nullable().optional()
 });
 
 export type UpdateLocationHistoryInput = z.infer<typeof updateLocationHistoryInputSchema>;
 
+// Transfer manifests schema
+export type ManifestStatus = z.infer<typeof manifestStatusEnum>;
+export type ReceiptStatus = z.infer<typeof receiptStatusEnum>;
+
+export const transferManifestSchema = z.object({
+  id: z.number(),
+  from_location_id: z.number(),
+  to_location_id: z.number(),
+  courier: z.string().nullable(),
+  tracking_number: z.string().nullable(),
+  status: manifestStatusEnum,
+  dispatched_at: z.coerce.date().nullable(),
+  received_at: z.coerce.date().nullable(),
+  handover_document_number: z.string().nullable(),
+  created_by_id: z.number().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TransferManifest = z.infer<typeof transferManifestSchema>;
+
+export const transferManifestDetailsSchema = transferManifestSchema.extend({
+  transfers: z.array(locationHistorySchema.extend({
+    item_code: z.string(),
+    item_name: z.string()
+  }))
+});
+
+export type TransferManifestDetails = z.infer<typeof transferManifestDetailsSchema>;
+
+export const createTransferManifestInputSchema = z.object({
+  from_location_id: z.number(),
+  to_location_id: z.number(),
+  item_ids: z.array(z.number()).min(1, 'A manifest needs at least one item'),
+  courier: z.string().nullable(),
+  tracking_number: z.string().nullable(),
+  transfer_date: z.coerce.date(),
+  sender_id: z.number().nullable().optional(),
+  receiver_id: z.number().nullable().optional(),
+  reason: z.string().nullable(),
+  notes: z.string().nullable()
+});
+
+export type CreateTransferManifestInput = z.infer<typeof createTransferManifestInputSchema>;
+
+export const dispatchManifestInputSchema = z.object({
+  id: z.number(),
+  dispatched_at: z.coerce.date().optional()
+});
+
+export type DispatchManifestInput = z.infer<typeof dispatchManifestInputSchema>;
+
+export const receiveManifestInputSchema = z.object({
+  id: z.number(),
+  received_at: z.coerce.date().optional(),
+  // Items not listed are taken as received in good order
+  lines: z.array(z.object({
+    transfer_id: z.number(),
+    outcome: receiptStatusEnum,
+    notes: z.string().nullable().optional()
+  })).default([])
+});
+
+export type ReceiveManifestInput = z.infer<typeof receiveManifestInputSchema>;
+
+// Handover document (BAST) schema: everything needed to print the record
+const handoverLocationSchema = z.object({
+  name: z.string(),
+  branch_code: z.string(),
+  address: z.string().nullable()
+});
+
+export const handoverDocumentSchema = z.object({
+  document_number: z.string(),
+  source: z.enum(['transfer', 'manifest']),
+  source_id: z.number(),
+  transfer_date: z.coerce.date(),
+  from_location: handoverLocationSchema.nullable(),
+  to_location: handoverLocationSchema,
+  sender: z.string().nullable(),
+  receiver: z.string().nullable(),
+  reason: z.string().nullable(),
+  notes: z.string().nullable(),
+  courier: z.string().nullable(),
+  tracking_number: z.string().nullable(),
+  items: z.array(z.object({
+    item_code: z.string(),
+    name: z.string(),
+    condition: itemConditionEnum,
+    quantity: z.number(),
+    receipt_status: receiptStatusEnum.nullable()
+  }))
+});
+
+export type HandoverDocument = z.infer<typeof handoverDocumentSchema>;
+
+// Transfer approvals schema
+export type ApprovalSide = z.infer<typeof approvalSideEnum>;
+
+export const transferApprovalSchema = z.object({
+  id: z.number(),
+  transfer_id: z.number(),
+  side: approvalSideEnum,
+  decision: approvalDecisionEnum,
+  approver_id: z.number().nullable(),
+  comment: z.string().nullable(),
+  decided_at: z.coerce.date()
+});
+
+export type TransferApproval = z.infer<typeof transferApprovalSchema>;
+
+export const approveTransferInputSchema = z.object({
+  id: z.number(),
+  comment: z.string().nullable().optional()
+});
+
+export type ApproveTransferInput = z.infer<typeof approveTransferInputSchema>;
+
+export const rejectTransferInputSchema = z.object({
+  id: z.number(),
+  comment: z.string().trim().min(1, 'A reason is required when rejecting a transfer')
+});
+
+export type RejectTransferInput = z.infer<typeof rejectTransferInputSchema>;
+
+export const transferApprovalRuleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  from_location_id: z.number().nullable(),
+  to_location_id: z.number().nullable(),
+  min_item_value: z.number().nullable(),
+  approver: approvalScopeEnum,
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TransferApprovalRule = z.infer<typeof transferApprovalRuleSchema>;
+
+export const createTransferApprovalRuleInputSchema = z.object({
+  name: z.string().min(1),
+  from_location_id: z.number().nullable(),
+  to_location_id: z.number().nullable(),
+  min_item_value: z.number().nonnegative().nullable(),
+  approver: approvalScopeEnum,
+  is_active: z.boolean().default(true)
+});
+
+export type CreateTransferApprovalRuleInput = z.infer<typeof createTransferApprovalRuleInputSchema>;
+
+export const updateTransferApprovalRuleInputSchema = createTransferApprovalRuleInputSchema.partial().extend({
+  id: z.number()
+});
+
+export type UpdateTransferApprovalRuleInput = z.infer<typeof updateTransferApprovalRuleInputSchema>;
+
+// Item detail schema: one asset with everything that happened to it as a timeline
+const timelineEventBase = {
+  occurred_at: z.coerce.date(),
+  // Who recorded the event, when known
+  actor: z.string().nullable()
+};
+
+export const itemTimelineEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...timelineEventBase,
+    type: z.literal('created'),
+    location_name: z.string(),
+    condition: itemConditionEnum
+  }),
+  z.object({
+    ...timelineEventBase,
+    type: z.literal('purchase'),
+    purchase_id: z.number(),
+    supplier_name: z.string(),
+    quantity: z.number().int(),
+    total_price: z.number(),
+    notes: z.string().nullable()
+  }),
+  z.object({
+    ...timelineEventBase,
+    type: z.literal('transfer'),
+    transfer_id: z.number(),
+    from_location_name: z.string().nullable(),
+    to_location_name: z.string(),
+    quantity: z.number().int().nullable(),
+    status: transferStatusEnum,
+    reason: z.string().nullable(),
+    notes: z.string().nullable()
+  }),
+  z.object({
+    ...timelineEventBase,
+    type: z.literal('condition_change'),
+    from_condition: itemConditionEnum.nullable(),
+    to_condition: itemConditionEnum
+  }),
+  // The receiver of a completed transfer takes custody of the item
+  z.object({
+    ...timelineEventBase,
+    type: z.literal('custodian_change'),
+    transfer_id: z.number(),
+    custodian: z.string(),
+    location_name: z.string()
+  })
+]);
+
+export type ItemTimelineEvent = z.infer<typeof itemTimelineEventSchema>;
+export type ItemTimelineEventType = ItemTimelineEvent['type'];
+
+export const itemDetailSchema = z.object({
+  item: inventoryItemSchema,
+  category_name: z.string(),
+  location_name: z.string(),
+  current_custodian: z.string().nullable(),
+  // Everything paid for the item: its purchases, or its recorded value when none were entered;
+  // null for callers who may not view purchases
+  total_cost_of_ownership: z.number().nullable(),
+  // Oldest first
+  timeline: z.array(itemTimelineEventSchema)
+});
+
+export type ItemDetail = z.infer<typeof itemDetailSchema>;
+
+// Global search schema
+export const searchResultTypeEnum = z.enum(['inventory_item', 'purchase', 'supplier', 'location']);
+
+export type SearchResultType = z.infer<typeof searchResultTypeEnum>;
+
+export const globalSearchInputSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  limit: z.number().int().positive().max(50).optional()
+});
+
+export type GlobalSearchInput = z.infer<typeof globalSearchInputSchema>;
+
+export const searchResultSchema = z.object({
+  type: searchResultTypeEnum,
+  id: z.number(),
+  title: z.string(),
+  subtitle: z.string().nullable(),
+  // Item code for assets and purchases, branch code for locations; lets the client open the record
+  code: z.string().nullable(),
+  rank: z.number()
+});
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
 // Dashboard Statistics schema
 export const dashboardStatsSchema = z.object({
   total_items: z.number(),
@@ -296,8 +986,35 @@ export const dashboardStatsSchema = z.object({
 
 export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
 
+// Paged lists: offset pagination and multi-column sorting on whitelisted fields
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export const sortDirectionEnum = z.enum(['asc', 'desc']);
+
+export type SortDirection = z.infer<typeof sortDirectionEnum>;
+
+const listQuerySchema = <T extends [string, ...string[]]>(sortFields: z.ZodEnum<T>) => z.object({
+  page: z.number().int().positive().optional(),
+  page_size: z.number().int().positive().max(MAX_PAGE_SIZE).optional(),
+  // Applied in order; later entries break ties of earlier ones
+  sort: z.array(z.object({
+    field: sortFields,
+    direction: sortDirectionEnum
+  })).max(5).optional()
+});
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
 // Reports schema
 export const inventoryReportFilterSchema = z.object({
+  // Matches item code or name
+  search: z.string().optional(),
   category_id: z.number().optional(),
   location_id: z.number().optional(),
   condition: itemConditionEnum.optional(),
@@ -308,7 +1025,10 @@ export const inventoryReportFilterSchema = z.object({
 export type InventoryReportFilter = z.infer<typeof inventoryReportFilterSchema>;
 
 export const purchaseReportFilterSchema = z.object({
+  // Matches the purchased item's code or name
+  search: z.string().optional(),
   supplier_id: z.number().optional(),
+  item_id: z.number().optional(),
   date_from: z.coerce.date().optional(),
   date_to: z.coerce.date().optional()
 });
@@ -316,11 +1036,191 @@ export const purchaseReportFilterSchema = z.object({
 export type PurchaseReportFilter = z.infer<typeof purchaseReportFilterSchema>;
 
 export const locationHistoryReportFilterSchema = z.object({
+  // Matches the transferred item's code or name
+  search: z.string().optional(),
   item_id: z.number().optional(),
   location_id: z.number().optional(),
+  // Matches transfers the user recorded, sent or received
+  user_id: z.number().optional(),
   date_from: z.coerce.date().optional(),
   date_to: z.coerce.date().optional(),
   status: transferStatusEnum.optional()
 });
 
-export type LocationHistoryReportFilter = z.infer<typeof locationHistoryReportFilterSchema>;
\ No newline at end of file
+export type LocationHistoryReportFilter = z.infer<typeof locationHistoryReportFilterSchema>;
+
+export const inventorySortFieldEnum = z.enum([
+  'item_code', 'name', 'category', 'location', 'condition', 'quantity', 'purchase_price', 'purchase_date', 'updated_at'
+]);
+
+export type InventorySortField = z.infer<typeof inventorySortFieldEnum>;
+
+export const inventoryListInputSchema = inventoryReportFilterSchema.merge(listQuerySchema(inventorySortFieldEnum));
+
+export type InventoryListInput = z.infer<typeof inventoryListInputSchema>;
+
+export const purchaseSortFieldEnum = z.enum(['purchase_date', 'item', 'supplier', 'quantity', 'unit_price', 'total_price']);
+
+export type PurchaseSortField = z.infer<typeof purchaseSortFieldEnum>;
+
+export const purchaseListInputSchema = purchaseReportFilterSchema.merge(listQuerySchema(purchaseSortFieldEnum));
+
+export type PurchaseListInput = z.infer<typeof purchaseListInputSchema>;
+
+// Listed purchases carry the names of what they reference
+export const purchaseListRowSchema = purchaseSchema.extend({
+  item_code: z.string(),
+  item_name: z.string(),
+  supplier_name: z.string()
+});
+
+export type PurchaseListRow = z.infer<typeof purchaseListRowSchema>;
+
+export const locationHistorySortFieldEnum = z.enum(['transfer_date', 'item', 'to_location', 'quantity', 'status', 'created_at']);
+
+export type LocationHistorySortField = z.infer<typeof locationHistorySortFieldEnum>;
+
+export const locationHistoryListInputSchema = locationHistoryReportFilterSchema.merge(listQuerySchema(locationHistorySortFieldEnum));
+
+export type LocationHistoryListInput = z.infer<typeof locationHistoryListInputSchema>;
+
+export const locationHistoryListRowSchema = locationHistorySchema.extend({
+  item_code: z.string(),
+  item_name: z.string(),
+  from_location_name: z.string().nullable(),
+  to_location_name: z.string(),
+  // The linked user, or for legacy records the name that was typed in
+  recorded_by: z.string().nullable(),
+  sender_name: z.string().nullable(),
+  receiver_name: z.string().nullable()
+});
+
+export type LocationHistoryListRow = z.infer<typeof locationHistoryListRowSchema>;
+
+// Detailed report rows carry the names of what they reference. Grouped reports keep each group's
+// rows together and add subtotals computed over every matching row, not just the page.
+export const reportGroupSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  count: z.number().int(),
+  // Null where the report has nothing of the kind to add up
+  quantity: z.number().int().nullable(),
+  amount: z.number().nullable()
+});
+
+export type ReportGroup = z.infer<typeof reportGroupSchema>;
+
+export interface ReportPage<T> extends Paginated<T> {
+  // Empty unless the report is grouped
+  groups: ReportGroup[];
+}
+
+export const inventoryReportGroupByEnum = z.enum(['category', 'location', 'month']);
+
+export type InventoryReportGroupBy = z.infer<typeof inventoryReportGroupByEnum>;
+
+export const inventoryReportInputSchema = inventoryListInputSchema.extend({
+  group_by: inventoryReportGroupByEnum.optional()
+});
+
+export type InventoryReportInput = z.infer<typeof inventoryReportInputSchema>;
+
+export const inventoryReportRowSchema = inventoryItemSchema.extend({
+  category_name: z.string(),
+  location_name: z.string(),
+  location_branch_code: z.string(),
+  // Matches a ReportGroup key when the report is grouped
+  group_key: z.string().nullable()
+});
+
+export type InventoryReportRow = z.infer<typeof inventoryReportRowSchema>;
+
+// Category and location are those of the purchased item
+export const purchaseReportGroupByEnum = z.enum(['supplier', 'category', 'location', 'month']);
+
+export type PurchaseReportGroupBy = z.infer<typeof purchaseReportGroupByEnum>;
+
+export const purchaseReportInputSchema = purchaseListInputSchema.extend({
+  group_by: purchaseReportGroupByEnum.optional()
+});
+
+export type PurchaseReportInput = z.infer<typeof purchaseReportInputSchema>;
+
+export const purchaseReportRowSchema = purchaseListRowSchema.extend({
+  category_name: z.string(),
+  location_name: z.string(),
+  location_branch_code: z.string(),
+  group_key: z.string().nullable()
+});
+
+export type PurchaseReportRow = z.infer<typeof purchaseReportRowSchema>;
+
+// Location is the destination of the transfer
+export const locationHistoryReportGroupByEnum = z.enum(['location', 'month']);
+
+export type LocationHistoryReportGroupBy = z.infer<typeof locationHistoryReportGroupByEnum>;
+
+export const locationHistoryReportInputSchema = locationHistoryListInputSchema.extend({
+  group_by: locationHistoryReportGroupByEnum.optional()
+});
+
+export type LocationHistoryReportInput = z.infer<typeof locationHistoryReportInputSchema>;
+
+export const locationHistoryReportRowSchema = locationHistoryListRowSchema.extend({
+  group_key: z.string().nullable()
+});
+
+export type LocationHistoryReportRow = z.infer<typeof locationHistoryReportRowSchema>;
+
+export const inventorySummarySchema = z.object({
+  totalItems: z.number().int(),
+  totalValue: z.number(),
+  itemsByCategory: z.record(z.string(), z.number().int()),
+  itemsByLocation: z.record(z.string(), z.number().int()),
+  itemsByCondition: z.record(z.string(), z.number().int())
+});
+
+export type InventorySummary = z.infer<typeof inventorySummarySchema>;
+
+const purchaseTotalsSchema = z.object({
+  count: z.number().int(),
+  amount: z.number()
+});
+
+export const purchaseSummarySchema = z.object({
+  totalPurchases: z.number().int(),
+  totalAmount: z.number(),
+  purchasesBySupplier: z.record(z.string(), purchaseTotalsSchema),
+  // Keyed by yyyy-mm
+  purchasesByMonth: z.record(z.string(), purchaseTotalsSchema)
+});
+
+export type PurchaseSummary = z.infer<typeof purchaseSummarySchema>;
+
+export const locationHistorySummarySchema = z.object({
+  totalTransfers: z.number().int(),
+  transfersByUser: z.record(z.string(), z.number().int()),
+  transfersBySender: z.record(z.string(), z.number().int()),
+  transfersByReceiver: z.record(z.string(), z.number().int()),
+  transfersByStatus: z.record(z.string(), z.number().int())
+});
+
+export type LocationHistorySummary = z.infer<typeof locationHistorySummarySchema>;
+
+// Report downloads: the detailed reports export every page of their filtered, sorted rows
+export const exportFormatEnum = z.enum(['csv', 'xlsx', 'pdf']);
+
+export type ExportFormat = z.infer<typeof exportFormatEnum>;
+
+export const reportExportInputSchema = z.discriminatedUnion('report', [
+  z.object({ report: z.literal('inventory'), format: exportFormatEnum, filter: inventoryListInputSchema }),
+  z.object({ report: z.literal('inventory_summary'), format: exportFormatEnum, filter: inventoryReportFilterSchema }),
+  z.object({ report: z.literal('purchases'), format: exportFormatEnum, filter: purchaseListInputSchema }),
+  z.object({ report: z.literal('purchases_summary'), format: exportFormatEnum, filter: purchaseReportFilterSchema }),
+  z.object({ report: z.literal('location_history'), format: exportFormatEnum, filter: locationHistoryListInputSchema }),
+  z.object({ report: z.literal('location_history_summary'), format: exportFormatEnum, filter: locationHistoryReportFilterSchema })
+]);
+
+export type ReportExportInput = z.infer<typeof reportExportInputSchema>;
+
+export type ExportReport = ReportExportInput['report'];
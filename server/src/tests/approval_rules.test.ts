@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { locationsTable } from '../db/schema';
+import {
+  getApprovalRules,
+  createApprovalRule,
+  updateApprovalRule,
+  deleteApprovalRule,
+  getRequiredApprovals
+} from '../handlers/approval_rules';
+
+describe('approval rules', () => {
+  let jakartaId: number;
+  let surabayaId: number;
+  let bandungId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const locations = await db.insert(locationsTable)
+      .values([
+        { name: 'Jakarta', branch_code: 'JKT' },
+        { name: 'Surabaya', branch_code: 'SBY' },
+        { name: 'Bandung', branch_code: 'BDG' }
+      ])
+      .returning()
+      .execute();
+    [jakartaId, surabayaId, bandungId] = locations.map(location => location.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should create, update and delete rules', async () => {
+    const rule = await createApprovalRule({
+      name: 'Expensive items',
+      from_location_id: null,
+      to_location_id: null,
+      min_item_value: 5000,
+      approver: 'source',
+      is_active: true
+    });
+    expect(rule.min_item_value).toBe(5000);
+    expect(typeof rule.min_item_value).toBe('number');
+
+    const updated = await updateApprovalRule({ id: rule.id, min_item_value: null, is_active: false });
+    expect(updated.min_item_value).toBeNull();
+    expect(updated.is_active).toBe(false);
+    expect(updated.approver).toBe('source');
+
+    expect(await deleteApprovalRule(rule.id)).toBe(true);
+    expect(await getApprovalRules()).toHaveLength(0);
+  });
+
+  it('should reject rules for unknown locations', async () => {
+    expect(createApprovalRule({
+      name: 'Broken',
+      from_location_id: 999,
+      to_location_id: null,
+      min_item_value: null,
+      approver: 'both',
+      is_active: true
+    })).rejects.toThrow(/Location with ID 999 does not exist/);
+  });
+
+  it('should combine the approvers of every matching active rule', async () => {
+    await createApprovalRule({
+      name: 'Leaving Jakarta',
+      from_location_id: jakartaId,
+      to_location_id: null,
+      min_item_value: null,
+      approver: 'source',
+      is_active: true
+    });
+    await createApprovalRule({
+      name: 'Expensive into Surabaya',
+      from_location_id: null,
+      to_location_id: surabayaId,
+      min_item_value: 1000,
+      approver: 'destination',
+      is_active: true
+    });
+    await createApprovalRule({
+      name: 'Disabled',
+      from_location_id: bandungId,
+      to_location_id: null,
+      min_item_value: null,
+      approver: 'both',
+      is_active: false
+    });
+
+    expect(await getRequiredApprovals(jakartaId, surabayaId, 500)).toEqual({ source: true, destination: false });
+    expect(await getRequiredApprovals(jakartaId, surabayaId, 1000)).toEqual({ source: true, destination: true });
+    expect(await getRequiredApprovals(bandungId, jakartaId, 99999)).toEqual({ source: false, destination: false });
+  });
+
+  it('should never require approval for moves within a branch', async () => {
+    await createApprovalRule({
+      name: 'Everything',
+      from_location_id: null,
+      to_location_id: null,
+      min_item_value: null,
+      approver: 'both',
+      is_active: true
+    });
+
+    expect(await getRequiredApprovals(jakartaId, jakartaId, 100)).toEqual({ source: false, destination: false });
+  });
+});
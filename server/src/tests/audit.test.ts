@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, auditLogTable, suppliersTable } from '../db/schema';
+import { recordAudit, getAuditLog, type AuditActor } from '../handlers/audit';
+import { createSupplier, updateSupplier, deleteSupplier } from '../handlers/suppliers';
+import { createLocation } from '../handlers/locations';
+import { createCategory } from '../handlers/categories';
+import { createInventoryItem } from '../handlers/inventory';
+import { createLocationHistory, updateLocationHistory } from '../handlers/location_history';
+import { resetPassword } from '../handlers/users';
+import { changePassword } from '../handlers/auth';
+import { setupMfa, enableMfa, disableMfa, resetUserMfa } from '../handlers/mfa';
+import { hashPassword } from '../helpers/password';
+import { generateTotp } from '../helpers/totp';
+import { eq, sql } from 'drizzle-orm';
+
+describe('audit log', () => {
+  let actor: AuditActor;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'auditor', password_hash: 'x', role: 'admin' })
+      .returning()
+      .execute();
+    actor = { id: user[0].id, username: user[0].username };
+  });
+
+  afterEach(resetDB);
+
+  describe('recordAudit', () => {
+    it('should only keep changed fields for updates', async () => {
+      await recordAudit({
+        actor,
+        action: 'update',
+        entity_type: 'supplier',
+        entity_id: 1,
+        before: { name: 'Old', phone_number: '123', updated_at: new Date(0) },
+        after: { name: 'New', phone_number: '123', updated_at: new Date() }
+      });
+
+      const entries = await db.select().from(auditLogTable).execute();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].before).toEqual({ name: 'Old' });
+      expect(entries[0].after).toEqual({ name: 'New' });
+      expect(entries[0].user_id).toEqual(actor!.id);
+      expect(entries[0].username).toEqual('auditor');
+      expect(entries[0].entity_id).toEqual('1');
+    });
+
+    it('should skip updates that change nothing', async () => {
+      await recordAudit({
+        actor,
+        action: 'update',
+        entity_type: 'supplier',
+        entity_id: 1,
+        before: { name: 'Same' },
+        after: { name: 'Same' }
+      });
+
+      const entries = await db.select().from(auditLogTable).execute();
+      expect(entries).toHaveLength(0);
+    });
+
+    it('should never store password hashes', async () => {
+      await recordAudit({
+        actor: null,
+        action: 'create',
+        entity_type: 'user',
+        entity_id: 5,
+        after: { username: 'someone', password_hash: 'secret' }
+      });
+
+      const entries = await db.select().from(auditLogTable).execute();
+      expect(entries[0].after).toEqual({ username: 'someone' });
+      expect(entries[0].user_id).toBeNull();
+    });
+  });
+
+  describe('handlers', () => {
+    it('should record create, update and delete of a supplier', async () => {
+      const supplier = await createSupplier({ name: 'Acme', contact_person: null, phone_number: null, address: null }, actor);
+      await updateSupplier({ id: supplier.id, phone_number: '555' }, actor);
+      await deleteSupplier(supplier.id, actor);
+
+      const entries = await getAuditLog({ entity_type: 'supplier', entity_id: String(supplier.id), limit: 100 });
+      expect(entries.map(entry => entry.action)).toEqual(['delete', 'update', 'create']);
+      expect(entries[1].before).toEqual({ phone_number: null });
+      expect(entries[1].after).toEqual({ phone_number: '555' });
+      expect(entries[0].before?.['name']).toEqual('Acme');
+      expect(entries[2].after?.['name']).toEqual('Acme');
+    });
+
+    it('should record the item move when a transfer is completed', async () => {
+      const from = await createLocation({ name: 'Jakarta', branch_code: 'JKT', address: null });
+      const to = await createLocation({ name: 'Surabaya', branch_code: 'SBY', address: null });
+      const category = await createCategory({ name: 'Laptops', description: null });
+      const item = await createInventoryItem({
+        item_code: 'LT-001',
+        name: 'Laptop',
+        description: null,
+        category_id: category.id,
+        location_id: from.id,
+        condition: 'good',
+        quantity: 1,
+        purchase_price: 1000,
+        purchase_date: new Date()
+      });
+
+      const transfer = await createLocationHistory({
+        item_id: item.id,
+        from_location_id: from.id,
+        to_location_id: to.id,
+        transfer_date: new Date(),
+        reason: null,
+        status: 'in_transit',
+        notes: null
+      }, null, actor);
+      await updateLocationHistory({ id: transfer.id, status: 'completed' }, null, actor);
+
+      const transferEntries = await getAuditLog({ entity_type: 'location_history', entity_id: String(transfer.id), limit: 100 });
+      expect(transferEntries[0].before).toEqual({ status: 'in_transit' });
+      expect(transferEntries[0].after).toEqual({ status: 'completed' });
+      expect(transferEntries[0].username).toEqual('auditor');
+
+      const itemEntries = await getAuditLog({ entity_type: 'inventory_item', entity_id: String(item.id), action: 'update', limit: 100 });
+      expect(itemEntries).toHaveLength(1);
+      expect(itemEntries[0].before).toEqual({ location_id: from.id });
+      expect(itemEntries[0].after).toEqual({ location_id: to.id });
+    });
+
+    it('should mark password resets without logging the password', async () => {
+      await resetPassword(actor!.id, actor);
+
+      const entries = await getAuditLog({ entity_type: 'user', limit: 100 });
+      expect(entries).toHaveLength(1);
+      expect(entries[0].after?.['password']).toEqual('reset');
+      expect(JSON.stringify(entries[0])).not.toContain('password_hash');
+    });
+
+    it('should roll back a change whose audit entry cannot be written', async () => {
+      const supplier = await createSupplier({ name: 'Acme', contact_person: null, phone_number: null, address: null }, actor);
+      await db.execute(sql`drop table ${auditLogTable}`);
+
+      await expect(updateSupplier({ id: supplier.id, name: 'Renamed' }, actor)).rejects.toThrow();
+
+      const suppliers = await db.select().from(suppliersTable).where(eq(suppliersTable.id, supplier.id)).execute();
+      expect(suppliers[0].name).toEqual('Acme');
+    });
+
+    it('should record password changes and two-factor changes made by the user', async () => {
+      await db.update(usersTable)
+        .set({ password_hash: await hashPassword('old-password') })
+        .where(eq(usersTable.id, actor!.id))
+        .execute();
+
+      await changePassword(actor!.id, 'session', { current_password: 'old-password', new_password: 'new-password' });
+      const { secret } = await setupMfa(actor!.id);
+      await enableMfa(actor!.id, { code: generateTotp(secret) });
+      await disableMfa(actor!.id, { password: 'new-password' });
+
+      const entries = await getAuditLog({ entity_type: 'user', entity_id: String(actor!.id), limit: 100 });
+      expect(entries.map(entry => entry.after)).toEqual([
+        { totp_enabled: false },
+        { totp_enabled: true },
+        { password: 'changed' }
+      ]);
+      expect(entries.every(entry => entry.user_id === actor!.id)).toBe(true);
+    });
+
+    it('should not record a two-factor reset for a user without two-factor', async () => {
+      await resetUserMfa(actor!.id, actor);
+
+      const entries = await getAuditLog({ entity_type: 'user', limit: 100 });
+      expect(entries).toHaveLength(0);
+    });
+  });
+
+  describe('getAuditLog', () => {
+    it('should filter by actor and limit results', async () => {
+      await createSupplier({ name: 'One', contact_person: null, phone_number: null, address: null }, actor);
+      await createSupplier({ name: 'Two', contact_person: null, phone_number: null, address: null }, actor);
+      await createSupplier({ name: 'Three', contact_person: null, phone_number: null, address: null });
+
+      expect(await getAuditLog({ user_id: actor!.id, limit: 100 })).toHaveLength(2);
+      expect(await getAuditLog({ limit: 1 })).toHaveLength(1);
+      expect(await getAuditLog({ action: 'delete', limit: 100 })).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, loginAttemptsTable, sessionsTable } from '../db/schema';
+import { type ClientInfo } from '../schema';
+import { login, verifyMfa, initializeDefaultUser } from '../handlers/auth';
+import { setupMfa, enableMfa } from '../handlers/mfa';
+import { recordLoginAttempt } from '../handlers/login_attempts';
+import { hashPassword } from '../helpers/password';
+import { generateTotp } from '../helpers/totp';
+import { eq } from 'drizzle-orm';
+
+const client: ClientInfo = { ip_address: '10.0.0.1', user_agent: 'bun-test' };
+
+describe('auth handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const result = await db.insert(usersTable)
+      .values({
+        username: 'john',
+        password_hash: await hashPassword('correct-password'),
+        role: 'user'
+      })
+      .returning()
+      .execute();
+    userId = result[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('login', () => {
+    it('should log in with valid credentials and record the attempt', async () => {
+      const result = await login({ username: 'john', password: 'correct-password' }, client);
+
+      expect(result.success).toBe(true);
+      expect(result.sessionId).toBeDefined();
+      expect(result.user?.username).toEqual('john');
+
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts).toHaveLength(1);
+      expect(attempts[0].success).toBe(true);
+      expect(attempts[0].ip_address).toEqual('10.0.0.1');
+    });
+
+    it('should count failed attempts and reset them on success', async () => {
+      await login({ username: 'john', password: 'wrong' }, client);
+      await login({ username: 'john', password: 'wrong' }, client);
+
+      let users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].failed_login_count).toEqual(2);
+
+      await login({ username: 'john', password: 'correct-password' }, client);
+
+      users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].failed_login_count).toEqual(0);
+    });
+
+    it('should lock the account after too many failures', async () => {
+      for (let i = 0; i < 5; i++) {
+        const result = await login({ username: 'john', password: 'wrong' }, client);
+        expect(result.reason).toEqual('invalid_credentials');
+      }
+
+      const result = await login({ username: 'john', password: 'correct-password' }, client);
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toEqual('account_locked');
+      expect(result.locked_until).toBeInstanceOf(Date);
+      expect(result.locked_until!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not check more passwords than the limit allows when guesses arrive together', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 12 }, () => login({ username: 'john', password: 'wrong' }, client))
+      );
+
+      expect(results.filter(result => result.reason === 'invalid_credentials')).toHaveLength(5);
+      expect(results.filter(result => result.reason === 'account_locked')).toHaveLength(7);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].locked_until!.getTime()).toBeGreaterThan(Date.now());
+      expect(users[0].lockout_count).toEqual(1);
+    });
+
+    it('should block an address after too many failures across usernames', async () => {
+      for (let i = 0; i < 20; i++) {
+        await login({ username: `unknown-${i}`, password: 'wrong' }, client);
+      }
+
+      const result = await login({ username: 'john', password: 'correct-password' }, client);
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toEqual('ip_blocked');
+
+      // Other addresses are not affected
+      const other = await login({ username: 'john', password: 'correct-password' }, { ...client, ip_address: '10.0.0.2' });
+      expect(other.success).toBe(true);
+    });
+
+    it('should only count wrong guesses towards blocking an address', async () => {
+      for (let i = 0; i < 20; i++) {
+        await recordLoginAttempt(`user-${i}`, null, client, 'mfa_required');
+        await recordLoginAttempt(`user-${i}`, null, client, 'ip_blocked');
+      }
+
+      const result = await login({ username: 'john', password: 'correct-password' }, client);
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('verifyMfa', () => {
+    let recoveryCodes: string[];
+    let secret: string;
+
+    beforeEach(async () => {
+      const setup = await setupMfa(userId);
+      secret = setup.secret;
+      recoveryCodes = (await enableMfa(userId, { code: generateTotp(secret) })).recovery_codes;
+    });
+
+    it('should require a second step before creating a session', async () => {
+      const result = await login({ username: 'john', password: 'correct-password' }, client);
+
+      expect(result.success).toBe(false);
+      expect(result.mfa_required).toBe(true);
+      expect(result.mfa_token).toBeDefined();
+      expect(result.sessionId).toBeUndefined();
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should create a session for a valid code', async () => {
+      const challenge = await login({ username: 'john', password: 'correct-password' }, client);
+      const result = await verifyMfa({ mfa_token: challenge.mfa_token!, code: generateTotp(secret) }, client);
+
+      expect(result.success).toBe(true);
+      expect(result.sessionId).toBeDefined();
+      expect(result.user?.totp_enabled).toBe(true);
+
+      // The challenge cannot be reused
+      const replay = await verifyMfa({ mfa_token: challenge.mfa_token!, code: generateTotp(secret) }, client);
+      expect(replay.success).toBe(false);
+    });
+
+    it('should accept each recovery code only once', async () => {
+      let challenge = await login({ username: 'john', password: 'correct-password' }, client);
+      const first = await verifyMfa({ mfa_token: challenge.mfa_token!, code: recoveryCodes[0] }, client);
+      expect(first.success).toBe(true);
+
+      challenge = await login({ username: 'john', password: 'correct-password' }, client);
+      const second = await verifyMfa({ mfa_token: challenge.mfa_token!, code: recoveryCodes[0] }, client);
+      expect(second.success).toBe(false);
+      expect(second.reason).toEqual('invalid_mfa_code');
+    });
+
+    it('should discard the challenge after too many invalid codes', async () => {
+      const challenge = await login({ username: 'john', password: 'correct-password' }, client);
+
+      for (let i = 0; i < 4; i++) {
+        const result = await verifyMfa({ mfa_token: challenge.mfa_token!, code: 'not-a-code' }, client);
+        expect(result.mfa_required).toBe(true);
+      }
+
+      const last = await verifyMfa({ mfa_token: challenge.mfa_token!, code: 'not-a-code' }, client);
+      expect(last.mfa_required).toBeUndefined();
+
+      const result = await verifyMfa({ mfa_token: challenge.mfa_token!, code: generateTotp(secret) }, client);
+      expect(result.success).toBe(false);
+    });
+
+    it('should not check more codes than the limit allows when they arrive together', async () => {
+      const challenge = await login({ username: 'john', password: 'correct-password' }, client);
+
+      const results = await Promise.all(
+        Array.from({ length: 8 }, () => verifyMfa({ mfa_token: challenge.mfa_token!, code: 'not-a-code' }, client))
+      );
+
+      const checked = await db.select().from(loginAttemptsTable).where(eq(loginAttemptsTable.reason, 'invalid_mfa_code')).execute();
+      expect(checked).toHaveLength(5);
+      expect(results.every(result => !result.success)).toBe(true);
+    });
+  });
+
+  describe('initializeDefaultUser', () => {
+    it('should seed the admin with a forced password change', async () => {
+      await initializeDefaultUser();
+
+      const admins = await db.select().from(usersTable).where(eq(usersTable.username, 'admin')).execute();
+      expect(admins).toHaveLength(1);
+      expect(admins[0].must_change_password).toBe(true);
+    });
+
+    it('should force an existing admin still on the default password to change it', async () => {
+      await db.insert(usersTable)
+        .values({ username: 'admin', password_hash: await hashPassword('TotalindO465'), role: 'admin' })
+        .execute();
+
+      await initializeDefaultUser();
+
+      const admins = await db.select().from(usersTable).where(eq(usersTable.username, 'admin')).execute();
+      expect(admins[0].must_change_password).toBe(true);
+    });
+
+    it('should leave an admin with their own password alone', async () => {
+      await db.insert(usersTable)
+        .values({ username: 'admin', password_hash: await hashPassword('a-better-password'), role: 'admin' })
+        .execute();
+
+      await initializeDefaultUser();
+
+      const admins = await db.select().from(usersTable).where(eq(usersTable.username, 'admin')).execute();
+      expect(admins[0].must_change_password).toBe(false);
+    });
+  });
+});
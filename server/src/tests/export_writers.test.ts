@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'bun:test';
+import { writeCsv, type ExportCell, type ExportTable, type ExportWriter } from '../helpers/export_table';
+import { writeXlsx } from '../helpers/xlsx';
+import { writePdf } from '../helpers/pdf';
+
+async function* batches(rows: ExportCell[][], size = 2) {
+  for (let index = 0; index < rows.length; index += size) {
+    yield rows.slice(index, index + size);
+  }
+}
+
+const testTable = (rows: ExportCell[][]): ExportTable => ({
+  title: 'Inventory Report',
+  filters: [['Location', 'Jakarta']],
+  generated_at: new Date('2024-03-01T08:30:00Z'),
+  columns: [
+    { header: 'Name', type: 'text', width: 20 },
+    { header: 'Quantity', type: 'integer', width: 8 },
+    { header: 'Price', type: 'currency', width: 12 },
+    { header: 'Purchased', type: 'date', width: 12 }
+  ],
+  rows: batches(rows)
+});
+
+const collect = async (writer: ExportWriter, table: ExportTable) => {
+  const chunks: Uint8Array[] = [];
+  const encoder = new TextEncoder();
+  await writer(table, async chunk => {
+    chunks.push(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+  });
+  return Buffer.concat(chunks);
+};
+
+// Entries of a zip written with stored entries, read through its central directory
+const readStoredZip = (data: Buffer) => {
+  const end = data.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const entries = new Map<string, string>();
+
+  for (let index = 0; index < count; index++) {
+    const size = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString();
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    entries.set(name, data.subarray(start, start + size).toString());
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('export writers', () => {
+  it('should write CSV with quoting and defused formulas', async () => {
+    const csv = (await collect(writeCsv, testTable([
+      ['Laptop, 14"', 3, 1250.5, new Date('2024-01-15T00:00:00Z')],
+      ['=HYPERLINK("x")', 1, null, null]
+    ]))).toString();
+
+    expect(csv).toBe(
+      '\uFEFFName,Quantity,Price,Purchased\r\n' +
+      '"Laptop, 14""",3,1250.50,2024-01-15\r\n' +
+      '"\'=HYPERLINK(""x"")",1,,\r\n'
+    );
+  });
+
+  it('should write a workbook with typed cells', async () => {
+    const entries = readStoredZip(await collect(writeXlsx, testTable([
+      ['Laptop & dock', 3, 1250.5, new Date('2024-01-15T00:00:00Z')]
+    ])));
+
+    expect([...entries.keys()]).toContain('xl/workbook.xml');
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Inventory Report"');
+    expect(entries.get('xl/styles.xml')).toContain('formatCode="&quot;$&quot;#,##0.00"');
+
+    const sheet = entries.get('xl/worksheets/sheet1.xml')!;
+    expect(sheet).toContain('Location: Jakarta');
+    expect(sheet).toContain('<t xml:space="preserve">Laptop &amp; dock</t>');
+    // Title, generated, one filter and a blank row sit above the header on row 5
+    expect(sheet).toContain('<c r="B6" s="4"><v>3</v></c>');
+    expect(sheet).toContain('<c r="C6" s="3"><v>1250.5</v></c>');
+    expect(sheet).toContain('<c r="D6" s="2"><v>45306</v></c>');
+  });
+
+  it('should paginate a PDF and keep its xref offsets exact', async () => {
+    const rows = Array.from({ length: 80 }, (_, index): ExportCell[] => [`Item ${index + 1}`, index, 10, null]);
+    const pdf = (await collect(writePdf, testTable(rows))).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 3');
+    expect(pdf).toContain('(Page 3)');
+    expect(pdf).toContain('(Filters: Location: Jakarta)');
+    expect(pdf).toContain('(Generated 2024-03-01 08:30 UTC)');
+    expect(pdf).toContain('($10.00)');
+
+    const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  locationsTable,
+  categoriesTable,
+  suppliersTable,
+  inventoryItemsTable,
+  purchasesTable,
+  usersTable,
+  sessionsTable,
+  exportTicketsTable
+} from '../db/schema';
+import { createReportExport, issueExportTicket, redeemExportTicket } from '../handlers/exports';
+import { type ReportExportInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const exportText = async (input: ReportExportInput, locationIds: number[] | null = null) => {
+  const report = await createReportExport(input, locationIds, new Date('2024-03-01T08:30:00Z'));
+  let text = '';
+  await report.write(async chunk => {
+    text += typeof chunk === 'string' ? chunk : new TextDecoder().decode(chunk);
+  });
+  return { report, text };
+};
+
+describe('Report exports', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let locationId: number;
+  let categoryId: number;
+
+  beforeEach(async () => {
+    const location = await db.insert(locationsTable)
+      .values({ name: 'Jakarta', branch_code: 'JKT', address: 'Jl. Sudirman' })
+      .returning()
+      .execute();
+    locationId = location[0].id;
+
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Laptops', description: null })
+      .returning()
+      .execute();
+    categoryId = category[0].id;
+
+    const supplier = await db.insert(suppliersTable)
+      .values({ name: 'PT Sumber', contact_person: null, phone_number: null, address: null })
+      .returning()
+      .execute();
+
+    const items = await db.insert(inventoryItemsTable)
+      .values([1, 2, 3].map(number => ({
+        item_code: `LAP-00${number}`,
+        name: `Laptop ${number}`,
+        category_id: categoryId,
+        location_id: locationId,
+        condition: 'good' as const,
+        quantity: number,
+        purchase_price: '1000.00',
+        purchase_date: new Date('2024-01-15')
+      })))
+      .returning()
+      .execute();
+
+    await db.insert(purchasesTable)
+      .values({
+        item_id: items[0].id,
+        supplier_id: supplier[0].id,
+        quantity: 1,
+        unit_price: '1000.00',
+        total_price: '1000.00',
+        purchase_date: new Date('2024-01-15')
+      })
+      .execute();
+  });
+
+  it('should export every row of the detailed report with names', async () => {
+    const { report, text } = await exportText({
+      report: 'inventory',
+      format: 'csv',
+      filter: { sort: [{ field: 'item_code', direction: 'desc' }] }
+    });
+
+    expect(report.file_name).toBe('inventory-report-20240301.csv');
+    expect(report.content_type).toContain('text/csv');
+    const lines = text.trim().split('\r\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toBe('LAP-003,Laptop 3,Laptops,Jakarta,Good,3,1000.00,3000.00,2024-01-15');
+  });
+
+  it('should describe the filters in the document', async () => {
+    const { text } = await exportText({
+      report: 'inventory',
+      format: 'pdf',
+      filter: { category_id: categoryId, condition: 'good', date_from: new Date('2024-01-01') }
+    });
+
+    expect(text).toContain('(Filters: Category: Laptops; Condition: Good; Date from: 2024-01-01)');
+    expect(text).toContain('(Generated 2024-03-01 08:30 UTC)');
+  });
+
+  it('should export summaries with their totals', async () => {
+    const { report, text } = await exportText({ report: 'purchases_summary', format: 'xlsx', filter: {} });
+
+    expect(report.file_name).toBe('purchase-summary-20240301.xlsx');
+    expect(text).toContain('<t xml:space="preserve">PT Sumber</t>');
+    expect(text).toContain('<t xml:space="preserve">All purchases</t>');
+  });
+
+  it('should only export rows from the caller\'s locations', async () => {
+    const { text } = await exportText({ report: 'inventory', format: 'csv', filter: {} }, []);
+
+    expect(text.trim().split('\r\n')).toHaveLength(1);
+  });
+
+  describe('tickets', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+      const user = await db.insert(usersTable)
+        .values({ username: 'clerk', password_hash: 'x' })
+        .returning()
+        .execute();
+      sessionId = crypto.randomUUID();
+      await db.insert(sessionsTable)
+        .values({ id: sessionId, user_id: user[0].id, expires_at: new Date(Date.now() + 60 * 60 * 1000) })
+        .execute();
+    });
+
+    it('should hand back the export request once', async () => {
+      const input: ReportExportInput = { report: 'inventory', format: 'pdf', filter: { date_from: new Date('2024-01-01') } };
+      const { ticket } = await issueExportTicket(input, sessionId);
+
+      expect(await redeemExportTicket(ticket)).toEqual({ session_id: sessionId, input });
+      expect(await redeemExportTicket(ticket)).toBeNull();
+    });
+
+    it('should refuse expired and unknown tickets', async () => {
+      const { ticket } = await issueExportTicket({ report: 'inventory', format: 'csv', filter: {} }, sessionId);
+      await db.update(exportTicketsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(exportTicketsTable.id, ticket))
+        .execute();
+
+      expect(await redeemExportTicket(ticket)).toBeNull();
+      expect(await redeemExportTicket(crypto.randomUUID())).toBeNull();
+    });
+
+    it('should drop tickets when their session ends', async () => {
+      const { ticket } = await issueExportTicket({ report: 'inventory', format: 'csv', filter: {} }, sessionId);
+      await db.delete(sessionsTable).where(eq(sessionsTable.id, sessionId)).execute();
+
+      expect(await redeemExportTicket(ticket)).toBeNull();
+    });
+  });
+});
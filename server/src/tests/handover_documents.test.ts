@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  locationsTable,
+  categoriesTable,
+  inventoryItemsTable,
+  locationHistoryTable,
+  transferApprovalRulesTable
+} from '../db/schema';
+import { issueTransferHandoverDocument, issueManifestHandoverDocument } from '../handlers/handover_documents';
+import { createLocationHistory, TransferRuleError } from '../handlers/location_history';
+import { createManifest, dispatchManifest, receiveManifest } from '../handlers/manifests';
+import { eq } from 'drizzle-orm';
+
+describe('handover documents', () => {
+  let fromId: number;
+  let toId: number;
+  let itemIds: number[];
+  const year = new Date().getFullYear();
+
+  // Transfers that need approval can only be requested as pending
+  const transfer = (itemId: number, status: 'pending' | 'in_transit' = 'in_transit') => createLocationHistory({
+    item_id: itemId,
+    from_location_id: fromId,
+    to_location_id: toId,
+    transfer_date: new Date('2024-03-01'),
+    reason: 'relocation',
+    status,
+    notes: null
+  });
+
+  beforeEach(async () => {
+    await createDB();
+
+    const locations = await db.insert(locationsTable)
+      .values([
+        { name: 'Jakarta', branch_code: 'JKT' },
+        { name: 'Surabaya', branch_code: 'SBY' }
+      ])
+      .returning()
+      .execute();
+    [fromId, toId] = locations.map(location => location.id);
+
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Laptops' })
+      .returning()
+      .execute();
+
+    const items = await db.insert(inventoryItemsTable)
+      .values([1, 2, 3].map(n => ({
+        item_code: `LT-00${n}`,
+        name: `Laptop ${n}`,
+        category_id: category[0].id,
+        location_id: fromId,
+        condition: 'good' as const,
+        quantity: 1,
+        purchase_price: '1000.00',
+        purchase_date: new Date('2024-01-01')
+      })))
+      .returning()
+      .execute();
+    itemIds = items.map(item => item.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should number documents per sending branch and year', async () => {
+    const first = await transfer(itemIds[0]);
+    const second = await transfer(itemIds[1]);
+
+    const firstDocument = await issueTransferHandoverDocument(first.id);
+    const secondDocument = await issueTransferHandoverDocument(second.id);
+
+    expect(firstDocument.document_number).toBe(`JKT/${year}/0001`);
+    expect(secondDocument.document_number).toBe(`JKT/${year}/0002`);
+    expect(firstDocument.from_location!.branch_code).toBe('JKT');
+    expect(firstDocument.to_location.branch_code).toBe('SBY');
+    expect(firstDocument.items).toEqual([
+      { item_code: 'LT-001', name: 'Laptop 1', condition: 'good', quantity: 1, receipt_status: null }
+    ]);
+
+    const stored = await db.select()
+      .from(locationHistoryTable)
+      .where(eq(locationHistoryTable.id, first.id))
+      .execute();
+    expect(stored[0].handover_document_number).toBe(`JKT/${year}/0001`);
+  });
+
+  it('should keep the number when the document is printed again', async () => {
+    const record = await transfer(itemIds[0]);
+
+    const first = await issueTransferHandoverDocument(record.id);
+    const again = await issueTransferHandoverDocument(record.id);
+
+    expect(again.document_number).toBe(first.document_number);
+    expect((await issueTransferHandoverDocument((await transfer(itemIds[1])).id)).document_number).toBe(`JKT/${year}/0002`);
+  });
+
+  it('should list every manifest item on one document', async () => {
+    const manifest = await createManifest({
+      from_location_id: fromId,
+      to_location_id: toId,
+      item_ids: itemIds,
+      courier: 'JNE',
+      tracking_number: 'JNE-0001',
+      transfer_date: new Date('2024-03-01'),
+      reason: 'relocation',
+      notes: null
+    });
+    await dispatchManifest({ id: manifest.id });
+    await receiveManifest({ id: manifest.id, lines: [{ transfer_id: manifest.transfers[2].id, outcome: 'missing' }] });
+
+    const document = await issueManifestHandoverDocument(manifest.id);
+
+    expect(document.document_number).toBe(`JKT/${year}/0001`);
+    expect(document.source).toBe('manifest');
+    expect(document.courier).toBe('JNE');
+    expect(document.items.map(item => item.item_code)).toEqual(['LT-001', 'LT-002', 'LT-003']);
+    expect(document.items[2].receipt_status).toBe('missing');
+    expect(issueTransferHandoverDocument(manifest.transfers[0].id)).rejects.toThrow(TransferRuleError);
+  });
+
+  it('should refuse transfers that have not been approved', async () => {
+    await db.insert(transferApprovalRulesTable)
+      .values({ name: 'All branch transfers', approver: 'both' })
+      .execute();
+
+    const record = await transfer(itemIds[0], 'pending');
+    expect(record.status).toBe('pending_approval');
+    await expect(issueTransferHandoverDocument(record.id)).rejects.toThrow(TransferRuleError);
+    await expect(issueTransferHandoverDocument(record.id, [999])).rejects.toThrow(/does not exist/);
+  });
+});
@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import {
+  getImportTemplates,
+  saveImportTemplate,
+  deleteImportTemplate
+} from '../handlers/import_templates';
+
+describe('import templates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should replace the mapping when saving under an existing name', async () => {
+    const first = await saveImportTemplate({ name: 'Supplier sheet', mapping: { item_code: 'SKU', name: 'Description' } });
+    const second = await saveImportTemplate({ name: 'Supplier sheet', mapping: { item_code: 'Part No' } });
+
+    expect(second.id).toBe(first.id);
+    const templates = await getImportTemplates();
+    expect(templates).toHaveLength(1);
+    expect(templates[0].mapping).toEqual({ item_code: 'Part No' });
+  });
+
+  it('should delete templates', async () => {
+    const template = await saveImportTemplate({ name: 'Stocktake', mapping: { item_code: 'Code' } });
+
+    expect(await deleteImportTemplate(template.id)).toBe(true);
+    expect(await deleteImportTemplate(template.id)).toBe(false);
+    expect(await getImportTemplates()).toHaveLength(0);
+  });
+});
@@ -7,12 +7,15 @@ import {
   getInventoryItems, 
   getInventoryItemById, 
   getInventoryItemByCode,
+  getItemStock,
+  listInventoryItems,
   createInventoryItem, 
   updateInventoryItem, 
   deleteInventoryItem,
   batchImportItems
 } from '../handlers/inventory';
-import { eq } from 'drizzle-orm';
+import { getImportJobs, getImportJobById } from '../handlers/import_jobs';
+import { eq, inArray } from 'drizzle-orm';
 
 // Test data
 const testCategory = {
@@ -89,6 +92,27 @@ describe('inventory handlers', () => {
       expect(result[0].quantity).toBe(5);
       expect(result[0].condition).toBe('excellent');
     });
+
+    it('should only return items in the given locations', async () => {
+      const otherLocation = await db.insert(locationsTable)
+        .values({ name: 'Branch Office', branch_code: 'BR001', address: null })
+        .returning()
+        .execute();
+
+      await db.insert(inventoryItemsTable)
+        .values([
+          { ...testInventoryItemInput, purchase_price: '1200.00' },
+          { ...testInventoryItemInput, item_code: 'ELC002', location_id: otherLocation[0].id, purchase_price: '800.00' }
+        ])
+        .execute();
+
+      const scoped = await getInventoryItems([otherLocation[0].id]);
+      expect(scoped).toHaveLength(1);
+      expect(scoped[0].item_code).toBe('ELC002');
+
+      expect(await getInventoryItems([])).toHaveLength(0);
+      expect(await getInventoryItems(null)).toHaveLength(2);
+    });
   });
 
   describe('getInventoryItemById', () => {
@@ -143,6 +167,72 @@ describe('inventory handlers', () => {
     });
   });
 
+  describe('getItemStock', () => {
+    it('should list the quantity held at each location', async () => {
+      const branch = await db.insert(locationsTable)
+        .values({ name: 'Branch Office', branch_code: 'BO001' })
+        .returning()
+        .execute();
+
+      await db.insert(inventoryItemsTable)
+        .values([
+          { ...testInventoryItemInput, quantity: 15, purchase_price: '1200.00' },
+          { ...testInventoryItemInput, location_id: branch[0].id, quantity: 5, purchase_price: '1200.00' }
+        ])
+        .execute();
+
+      const stock = await getItemStock('ELC001');
+      expect(stock.map(row => [row.branch_code, row.quantity])).toEqual([['BO001', 5], ['MW001', 15]]);
+      expect(await getItemStock('ELC001', [locationId])).toHaveLength(1);
+      expect((await getInventoryItemByCode('ELC001', [branch[0].id]))!.quantity).toBe(5);
+    });
+  });
+
+  describe('listInventoryItems', () => {
+    beforeEach(async () => {
+      await db.insert(inventoryItemsTable)
+        .values([
+          { ...testInventoryItemInput, item_code: 'ELC003', name: 'Monitor', quantity: 2, purchase_price: '300.00' },
+          { ...testInventoryItemInput, item_code: 'ELC001', name: 'Laptop', quantity: 2, purchase_price: '1200.00' },
+          { ...testInventoryItemInput, item_code: 'ELC002', name: 'Docking 100%', quantity: 7, purchase_price: '150.00' },
+          { ...testInventoryItemInput, item_code: 'NET001', name: 'Router', condition: 'poor', quantity: 1, purchase_price: '90.00' }
+        ])
+        .execute();
+    });
+
+    it('should page through items ordered by item code with a total count', async () => {
+      const first = await listInventoryItems({ page: 1, page_size: 3 });
+      expect(first.total).toBe(4);
+      expect(first.items.map(item => item.item_code)).toEqual(['ELC001', 'ELC002', 'ELC003']);
+      expect(typeof first.items[0].purchase_price).toBe('number');
+
+      const second = await listInventoryItems({ page: 2, page_size: 3 });
+      expect(second.page).toBe(2);
+      expect(second.items.map(item => item.item_code)).toEqual(['NET001']);
+    });
+
+    it('should sort on several columns in order', async () => {
+      const result = await listInventoryItems({
+        sort: [{ field: 'quantity', direction: 'desc' }, { field: 'purchase_price', direction: 'asc' }]
+      });
+      expect(result.items.map(item => item.item_code)).toEqual(['ELC002', 'ELC003', 'ELC001', 'NET001']);
+    });
+
+    it('should filter and count only the matching items', async () => {
+      const poor = await listInventoryItems({ condition: 'poor' });
+      expect(poor.total).toBe(1);
+      expect(poor.items[0].item_code).toBe('NET001');
+
+      // Wildcards typed into the search box are matched literally
+      const search = await listInventoryItems({ search: '100%' });
+      expect(search.items.map(item => item.item_code)).toEqual(['ELC002']);
+      expect((await listInventoryItems({ search: 'elc' })).total).toBe(3);
+
+      const scoped = await listInventoryItems({}, []);
+      expect(scoped.total).toBe(0);
+    });
+  });
+
   describe('createInventoryItem', () => {
     it('should create inventory item with all fields', async () => {
       const result = await createInventoryItem(testInventoryItemInput);
@@ -188,6 +278,17 @@ describe('inventory handlers', () => {
       await expect(createInventoryItem(invalidInput))
         .rejects.toThrow(/Location with ID 999 does not exist/);
     });
+
+    it('should reject a second row for the same code, location and condition', async () => {
+      await createInventoryItem(testInventoryItemInput);
+
+      await expect(createInventoryItem(testInventoryItemInput))
+        .rejects.toThrow('Item code "ELC001" already exists at Main Warehouse in excellent condition');
+
+      // The same code in another condition is a separate row
+      const damaged = await createInventoryItem({ ...testInventoryItemInput, condition: 'damaged' });
+      expect(damaged.condition).toBe('damaged');
+    });
   });
 
   describe('updateInventoryItem', () => {
@@ -204,6 +305,17 @@ describe('inventory handlers', () => {
       itemId = result[0].id;
     });
 
+    it('should reject an update onto another row\'s code, location and condition', async () => {
+      await createInventoryItem({ ...testInventoryItemInput, condition: 'damaged' });
+
+      await expect(updateInventoryItem({ id: itemId, condition: 'damaged' }))
+        .rejects.toThrow('Item code "ELC001" already exists at Main Warehouse in damaged condition');
+
+      // Saving a row without moving it onto another is fine
+      const renamed = await updateInventoryItem({ id: itemId, name: 'Renamed', condition: 'excellent' });
+      expect(renamed.name).toBe('Renamed');
+    });
+
     it('should update inventory item fields', async () => {
       const updateInput: UpdateInventoryItemInput = {
         id: itemId,
@@ -304,6 +416,17 @@ describe('inventory handlers', () => {
       await expect(deleteInventoryItem(999))
         .rejects.toThrow(/Inventory item with ID 999 does not exist/);
     });
+
+    it('should not delete items outside the given locations', async () => {
+      await expect(deleteInventoryItem(itemId, [locationId + 1]))
+        .rejects.toThrow(/does not exist/);
+
+      const dbItems = await db.select()
+        .from(inventoryItemsTable)
+        .where(eq(inventoryItemsTable.id, itemId))
+        .execute();
+      expect(dbItems).toHaveLength(1);
+    });
   });
 
   describe('batchImportItems', () => {
@@ -439,5 +562,216 @@ describe('inventory handlers', () => {
       expect(result.success).toBe(0);
       expect(result.errors).toHaveLength(0);
     });
+
+    it('should read spreadsheet text cells and report invalid rows', async () => {
+      const result = await batchImportItems({
+        items: [
+          {
+            item_code: ' CSV001 ',
+            name: 'Spreadsheet Item',
+            description: '',
+            category_name: 'Electronics',
+            location_name: 'Main Warehouse',
+            condition: 'Excellent',
+            quantity: '4',
+            purchase_price: '99.50',
+            purchase_date: '2024-02-01'
+          },
+          {
+            item_code: 'CSV002',
+            name: '',
+            description: null,
+            category_name: 'Electronics',
+            location_name: 'Main Warehouse',
+            condition: 'broken-ish',
+            quantity: 'two',
+            purchase_price: '10',
+            purchase_date: '2024-02-01'
+          }
+        ]
+      });
+
+      expect(result.success).toBe(1);
+      expect(result.rows[0]).toMatchObject({ row: 1, item_code: 'CSV001', status: 'created', errors: [] });
+      expect(result.rows[1].status).toBe('error');
+      expect(result.rows[1].errors.map(error => error.split(':')[0]).sort()).toEqual(['condition', 'name', 'quantity']);
+
+      const dbItems = await db.select().from(inventoryItemsTable).execute();
+      expect(dbItems).toHaveLength(1);
+      expect(dbItems[0]).toMatchObject({ item_code: 'CSV001', description: null, condition: 'excellent', quantity: 4 });
+    });
+
+    it('should preview a dry run without keeping anything', async () => {
+      const result = await batchImportItems({
+        dry_run: true,
+        items: [
+          {
+            item_code: 'DRY001',
+            name: 'Dry Run Item',
+            description: null,
+            category_name: 'Furniture',
+            location_name: 'Branch Office',
+            condition: 'good',
+            quantity: 1,
+            purchase_price: 50,
+            purchase_date: new Date('2024-02-02')
+          },
+          {
+            item_code: 'DRY002',
+            name: 'Second Dry Run Item',
+            description: null,
+            category_name: 'furniture',
+            location_name: 'Main Warehouse',
+            condition: 'good',
+            quantity: 1,
+            purchase_price: 50,
+            purchase_date: new Date('2024-02-02')
+          }
+        ]
+      });
+
+      expect(result.dry_run).toBe(true);
+      expect(result.success).toBe(2);
+      // The second row reuses the category the first would create
+      expect(result.new_categories).toEqual(['Furniture']);
+      expect(result.new_locations).toEqual(['Branch Office']);
+
+      expect(await db.select().from(inventoryItemsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(categoriesTable).where(eq(categoriesTable.name, 'Furniture')).execute()).toHaveLength(0);
+      expect(await db.select().from(locationsTable).where(eq(locationsTable.name, 'Branch Office')).execute()).toHaveLength(0);
+    });
+
+    describe('import modes', () => {
+      // The existing item as a spreadsheet row
+      const existingRow = {
+        item_code: 'ELC001',
+        name: 'Laptop Computer',
+        description: 'High-performance business laptop',
+        category_name: 'Electronics',
+        location_name: 'Main Warehouse',
+        condition: 'excellent',
+        quantity: 5,
+        purchase_price: 1200,
+        purchase_date: new Date('2024-01-15')
+      };
+      const newRow = { ...existingRow, item_code: 'ELC002', name: 'Monitor' };
+
+      beforeEach(async () => {
+        await createInventoryItem(testInventoryItemInput);
+        await createInventoryItem({ ...testInventoryItemInput, item_code: 'ELC003', name: 'Old Printer' });
+      });
+
+      it('should update, leave alone and create items when upserting', async () => {
+        const result = await batchImportItems({
+          mode: 'upsert',
+          file_name: 'stock.csv',
+          items: [existingRow, { ...existingRow, item_code: 'ELC003', name: 'Old Printer', quantity: 2 }, newRow]
+        });
+
+        expect(result.rows.map(row => row.status)).toEqual(['unchanged', 'updated', 'created']);
+        expect(result.rows[1].changes).toEqual(['quantity']);
+        expect(result.success).toBe(2);
+
+        const printer = await getInventoryItemByCode('ELC003');
+        expect(printer!.quantity).toBe(2);
+
+        // Recorded as one job that can be reviewed later
+        const jobs = await getImportJobs({ limit: 50 });
+        expect(jobs).toHaveLength(1);
+        expect(jobs[0]).toMatchObject({ id: result.job_id!, mode: 'upsert', file_name: 'stock.csv', created_count: 1, updated_count: 1, unchanged_count: 1 });
+        const job = await getImportJobById(result.job_id!);
+        expect(job!.rows.map(row => row.status)).toEqual(['unchanged', 'updated', 'created']);
+      });
+
+      it('should skip unknown items in update mode', async () => {
+        const result = await batchImportItems({ mode: 'update', items: [{ ...existingRow, condition: 'fair' }, newRow] });
+
+        expect(result.rows.map(row => row.status)).toEqual(['updated', 'skipped']);
+        expect(await getInventoryItemByCode('ELC002')).toBeNull();
+      });
+
+      it('should flag items the file leaves out when syncing', async () => {
+        const result = await batchImportItems({ mode: 'sync', items: [existingRow] });
+
+        expect(result.missing).toEqual([
+          expect.objectContaining({ item_code: 'ELC003', name: 'Old Printer', location_name: 'Main Warehouse' })
+        ]);
+        // Flagged, not removed
+        expect(await getInventoryItemByCode('ELC003')).not.toBeNull();
+      });
+
+      it('should not record dry runs', async () => {
+        const result = await batchImportItems({ mode: 'upsert', dry_run: true, items: [newRow] });
+
+        expect(result.job_id).toBeNull();
+        expect(await getImportJobs({ limit: 50 })).toHaveLength(0);
+      });
+    });
+
+    describe('unknown references', () => {
+      const row = (location_name: string, category_name = 'Electronics', item_code = 'REF001') => ({
+        item_code,
+        name: 'Projector',
+        description: null,
+        category_name,
+        location_name,
+        condition: 'good',
+        quantity: 1,
+        purchase_price: 300,
+        purchase_date: new Date('2024-03-01')
+      });
+
+      it('should reject unknown names and suggest close matches', async () => {
+        const result = await batchImportItems({
+          on_unknown_reference: 'reject',
+          items: [row('Main Warehose'), row('Main Warehouse', 'Furniture', 'REF002')]
+        });
+
+        expect(result.rows.map(result => result.status)).toEqual(['error', 'error']);
+        expect(result.rows[0].errors[0]).toBe('Unknown location "Main Warehose" (did you mean "Main Warehouse"?)');
+        expect(result.unknown_references).toEqual([
+          { kind: 'location', name: 'Main Warehose', rows: [1], suggestions: [{ id: locationId, name: 'Main Warehouse' }] },
+          { kind: 'category', name: 'Furniture', rows: [2], suggestions: [] }
+        ]);
+        expect(await db.select().from(locationsTable).execute()).toHaveLength(1);
+      });
+
+      it('should use confirmed matches for unknown names', async () => {
+        const result = await batchImportItems({
+          on_unknown_reference: 'map',
+          location_matches: { 'main warehose': locationId },
+          items: [row('Main Warehose'), row('Annex', 'Electronics', 'REF002')]
+        });
+
+        expect(result.rows.map(result => result.status)).toEqual(['created', 'error']);
+        expect((await getInventoryItemByCode('REF001'))!.location_id).toBe(locationId);
+        expect(result.unknown_references.map(reference => reference.name)).toEqual(['Annex']);
+      });
+
+      it('should only accept confirmed matches in map mode', async () => {
+        const input = { location_matches: { 'main warehose': locationId }, items: [row('Main Warehose')] };
+
+        const rejected = await batchImportItems({ ...input, on_unknown_reference: 'reject' });
+        expect(rejected.rows[0].status).toBe('error');
+        expect(rejected.unknown_references.map(reference => reference.name)).toEqual(['Main Warehose']);
+
+        const mapped = await batchImportItems({ ...input, on_unknown_reference: 'map' });
+        expect(mapped.rows[0].status).toBe('created');
+        expect(mapped.unknown_references).toEqual([]);
+      });
+
+      it('should give created locations unique branch codes', async () => {
+        await db.insert(locationsTable).values({ name: 'Jakarta Barat', branch_code: 'JAK1' }).execute();
+
+        const result = await batchImportItems({
+          on_unknown_reference: 'create',
+          items: [row('Jakarta Timur'), row('Jakarta Selatan', 'Electronics', 'REF002')]
+        });
+
+        expect(result.new_locations).toEqual(['Jakarta Timur', 'Jakarta Selatan']);
+        const created = await db.select().from(locationsTable).where(inArray(locationsTable.name, result.new_locations)).execute();
+        expect(created.map(location => location.branch_code).sort()).toEqual(['JAK2', 'JAK3']);
+      });
+    });
   });
 });
\ No newline at end of file
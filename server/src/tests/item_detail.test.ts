@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { locationsTable, categoriesTable, suppliersTable, usersTable } from '../db/schema';
+import { type Permission } from '../schema';
+import { getItemDetail } from '../handlers/item_detail';
+import { createInventoryItem, updateInventoryItem } from '../handlers/inventory';
+import { createPurchase } from '../handlers/purchases';
+import { createLocationHistory, updateLocationHistory } from '../handlers/location_history';
+
+const ALL: Permission[] = ['inventory.view', 'purchases.view', 'locationHistory.view'];
+
+describe('getItemDetail', () => {
+  let jakartaId: number;
+  let surabayaId: number;
+  let itemId: number;
+  let receiverId: number;
+  const clerk = { id: 0, username: 'clerk' };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const locations = await db.insert(locationsTable)
+      .values([
+        { name: 'Jakarta', branch_code: 'JKT', address: null },
+        { name: 'Surabaya', branch_code: 'SBY', address: null }
+      ])
+      .returning()
+      .execute();
+    [jakartaId, surabayaId] = locations.map(location => location.id);
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'clerk', password_hash: 'x' },
+        { username: 'receiver', password_hash: 'x' }
+      ])
+      .returning()
+      .execute();
+    clerk.id = users[0].id;
+    receiverId = users[1].id;
+
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Laptops' })
+      .returning()
+      .execute();
+
+    const item = await createInventoryItem({
+      item_code: 'LT-001',
+      name: 'Laptop',
+      description: null,
+      category_id: category[0].id,
+      location_id: jakartaId,
+      condition: 'excellent',
+      quantity: 1,
+      purchase_price: 1000,
+      purchase_date: new Date('2024-01-01')
+    }, null, clerk);
+    itemId = item.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return null for items outside the caller\'s locations', async () => {
+    expect(await getItemDetail(itemId, ALL, [surabayaId])).toBeNull();
+    expect(await getItemDetail(itemId + 100, ALL)).toBeNull();
+  });
+
+  it('should start the timeline with the item being recorded', async () => {
+    const detail = await getItemDetail(itemId, ALL);
+
+    expect(detail!.location_name).toBe('Jakarta');
+    expect(detail!.category_name).toBe('Laptops');
+    expect(detail!.current_custodian).toBeNull();
+    // No purchases entered, so the recorded value is all it cost
+    expect(detail!.total_cost_of_ownership).toBe(1000);
+    expect(detail!.timeline).toEqual([
+      expect.objectContaining({ type: 'created', actor: 'clerk', location_name: 'Jakarta', condition: 'excellent' })
+    ]);
+  });
+
+  it('should combine purchases, condition changes and transfers in order', async () => {
+    const supplier = await db.insert(suppliersTable)
+      .values({ name: 'Dell Indonesia' })
+      .returning()
+      .execute();
+
+    await createPurchase({
+      item_id: itemId,
+      supplier_id: supplier[0].id,
+      quantity: 1,
+      unit_price: 1200,
+      purchase_date: new Date('2023-12-20'),
+      notes: 'Warranty included'
+    }, clerk);
+    await updateInventoryItem({ id: itemId, condition: 'fair' }, null, clerk);
+
+    const transfer = await createLocationHistory({
+      item_id: itemId,
+      from_location_id: jakartaId,
+      to_location_id: surabayaId,
+      transfer_date: new Date(),
+      receiver_id: receiverId,
+      reason: 'Branch opening',
+      status: 'in_transit',
+      notes: null
+    }, null, clerk);
+    await updateLocationHistory({ id: transfer.id, status: 'completed' }, null, clerk);
+
+    const detail = await getItemDetail(itemId, ALL);
+
+    expect(detail!.timeline.map(event => event.type)).toEqual([
+      'purchase', 'created', 'condition_change', 'transfer', 'custodian_change'
+    ]);
+    expect(detail!.timeline[0]).toMatchObject({ supplier_name: 'Dell Indonesia', total_price: 1200, actor: 'clerk', notes: 'Warranty included' });
+    expect(detail!.timeline[2]).toMatchObject({ from_condition: 'excellent', to_condition: 'fair', actor: 'clerk' });
+    expect(detail!.timeline[3]).toMatchObject({ from_location_name: 'Jakarta', to_location_name: 'Surabaya', status: 'completed' });
+    expect(detail!.timeline[4]).toMatchObject({ custodian: 'receiver', location_name: 'Surabaya' });
+    expect(detail!.location_name).toBe('Surabaya');
+    expect(detail!.current_custodian).toBe('receiver');
+    // The purchase that acquired the item, not counted again through its recorded value
+    expect(detail!.total_cost_of_ownership).toBe(1200);
+  });
+
+  it('should leave out what the caller may not view', async () => {
+    const supplier = await db.insert(suppliersTable)
+      .values({ name: 'Dell Indonesia' })
+      .returning()
+      .execute();
+    await createPurchase({
+      item_id: itemId,
+      supplier_id: supplier[0].id,
+      quantity: 1,
+      unit_price: 1200,
+      purchase_date: new Date('2023-12-20'),
+      notes: null
+    }, clerk);
+
+    const detail = await getItemDetail(itemId, ['inventory.view']);
+    expect(detail!.timeline.map(event => event.type)).toEqual(['created']);
+    expect(detail!.total_cost_of_ownership).toBeNull();
+  });
+});
@@ -1,17 +1,36 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { locationHistoryTable, inventoryItemsTable, locationsTable, categoriesTable } from '../db/schema';
-import { type CreateLocationHistoryInput, type UpdateLocationHistoryInput } from '../schema';
+import {
+  locationHistoryTable,
+  inventoryItemsTable,
+  locationsTable,
+  categoriesTable,
+  usersTable,
+  transferStatusChangesTable,
+  transferApprovalRulesTable
+} from '../db/schema';
+import { type CreateLocationHistoryInput, type UpdateLocationHistoryInput, type ItemCondition } from '../schema';
 import {
   getLocationHistory,
+  listLocationHistory,
   getLocationHistoryById,
   getLocationHistoryByItem,
   createLocationHistory,
   updateLocationHistory,
-  deleteLocationHistory
+  deleteLocationHistory,
+  getTransferStatusChanges,
+  getTransferApprovals,
+  getTransfersAwaitingApproval,
+  approveTransfer,
+  rejectTransfer,
+  linkLegacyTransferUsers,
+  InvalidTransferTransitionError,
+  TransferLocationMismatchError,
+  TransferApprovalError,
+  InsufficientStockError
 } from '../handlers/location_history';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 
 // Test data
 const testLocation1 = {
@@ -46,7 +65,6 @@ const testTransferInput: CreateLocationHistoryInput = {
   from_location_id: 1, // Will be set dynamically
   to_location_id: 2, // Will be set dynamically
   transfer_date: new Date('2024-01-20'),
-  transferred_by: 'John Doe',
   reason: 'Relocation',
   status: 'pending',
   notes: 'Moving for reorganization'
@@ -142,6 +160,63 @@ describe('Location History Handlers', () => {
     });
   });
 
+  describe('listLocationHistory', () => {
+    it('should filter, sort and page transfers with a total count', async () => {
+      await db.insert(locationHistoryTable)
+        .values([
+          { item_id: itemId, from_location_id: locationId1, to_location_id: locationId2, transfer_date: new Date('2024-01-20'), status: 'completed' as const },
+          { item_id: itemId, from_location_id: locationId2, to_location_id: locationId1, transfer_date: new Date('2024-01-22'), status: 'completed' as const },
+          { item_id: itemId, from_location_id: locationId1, to_location_id: locationId2, transfer_date: new Date('2024-01-21'), status: 'pending' as const }
+        ])
+        .execute();
+
+      const completed = await listLocationHistory({
+        status: 'completed',
+        sort: [{ field: 'transfer_date', direction: 'asc' }],
+        page_size: 1
+      });
+      expect(completed.total).toBe(2);
+      expect(completed.items).toHaveLength(1);
+      expect(completed.items[0].transfer_date).toEqual(new Date('2024-01-20'));
+
+      const byDestination = await listLocationHistory({ sort: [{ field: 'to_location', direction: 'desc' }, { field: 'transfer_date', direction: 'desc' }] });
+      expect(byDestination.items.map(transfer => transfer.transfer_date.toISOString().slice(0, 10)))
+        .toEqual(['2024-01-21', '2024-01-20', '2024-01-22']);
+
+      expect((await listLocationHistory({ search: 'laptop' })).total).toBe(3);
+      expect((await listLocationHistory({ search: 'monitor' })).total).toBe(0);
+    });
+
+    it('should return the names of the item, locations and users', async () => {
+      const users = await db.insert(usersTable)
+        .values([
+          { username: 'clerk', password_hash: 'x' },
+          { username: 'receiver', password_hash: 'x' }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(locationHistoryTable)
+        .values([
+          { item_id: itemId, from_location_id: locationId1, to_location_id: locationId2, transfer_date: new Date('2024-01-20'), created_by_id: users[0].id, receiver_id: users[1].id, status: 'pending' as const },
+          { item_id: itemId, from_location_id: null, to_location_id: locationId1, transfer_date: new Date('2024-01-10'), transferred_by: 'Old Clerk', status: 'completed' as const }
+        ])
+        .execute();
+
+      const { items } = await listLocationHistory({ sort: [{ field: 'transfer_date', direction: 'desc' }] });
+      expect(items[0]).toMatchObject({
+        item_code: 'LAPTOP001',
+        item_name: 'Test Laptop',
+        from_location_name: 'Warehouse A',
+        to_location_name: 'Warehouse B',
+        recorded_by: 'clerk',
+        sender_name: null,
+        receiver_name: 'receiver'
+      });
+      expect(items[1]).toMatchObject({ from_location_name: null, to_location_name: 'Warehouse A', recorded_by: 'Old Clerk' });
+    });
+  });
+
   describe('getLocationHistoryById', () => {
     it('should return null when history record does not exist', async () => {
       const result = await getLocationHistoryById(999);
@@ -240,7 +315,10 @@ describe('Location History Handlers', () => {
       expect(result.item_id).toBe(itemId);
       expect(result.from_location_id).toBe(locationId1);
       expect(result.to_location_id).toBe(locationId2);
-      expect(result.transferred_by).toBe('John Doe');
+      expect(result.transferred_by).toBeNull();
+      expect(result.created_by_id).toBeNull();
+      expect(result.sender_id).toBeNull();
+      expect(result.receiver_id).toBeNull();
       expect(result.status).toBe('pending');
       expect(result.reason).toBe('Relocation');
       expect(result.notes).toBe('Moving for reorganization');
@@ -277,20 +355,18 @@ describe('Location History Handlers', () => {
       expect(item[0].location_id).toBe(locationId2);
     });
 
-    it('should create location history with null from_location_id', async () => {
+    it('should start a transfer without a source from the item\'s current location', async () => {
       const input: CreateLocationHistoryInput = {
         ...testTransferInput,
         item_id: itemId,
         from_location_id: null,
-        to_location_id: locationId2,
-        reason: 'Initial placement'
+        to_location_id: locationId2
       };
 
       const result = await createLocationHistory(input);
 
-      expect(result.from_location_id).toBeNull();
+      expect(result.from_location_id).toBe(locationId1);
       expect(result.to_location_id).toBe(locationId2);
-      expect(result.reason).toBe('Initial placement');
     });
 
     it('should throw error when item does not exist', async () => {
@@ -315,6 +391,34 @@ describe('Location History Handlers', () => {
       expect(createLocationHistory(input)).rejects.toThrow(/Location with ID 999 does not exist/i);
     });
 
+    it('should throw error when from_location is not the item location', async () => {
+      const input: CreateLocationHistoryInput = {
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId2,
+        to_location_id: locationId1
+      };
+
+      expect(createLocationHistory(input)).rejects.toThrow(TransferLocationMismatchError);
+    });
+
+    it('should record the initial status', async () => {
+      const result = await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2
+      });
+
+      const changes = await db.select()
+        .from(transferStatusChangesTable)
+        .where(eq(transferStatusChangesTable.transfer_id, result.id))
+        .execute();
+      expect(changes).toHaveLength(1);
+      expect(changes[0].from_status).toBeNull();
+      expect(changes[0].to_status).toBe('pending');
+    });
+
     it('should throw error when from_location does not exist', async () => {
       const input: CreateLocationHistoryInput = {
         ...testTransferInput,
@@ -325,6 +429,42 @@ describe('Location History Handlers', () => {
 
       expect(createLocationHistory(input)).rejects.toThrow(/Location with ID 999 does not exist/i);
     });
+
+    it('should record the creating user and handover users', async () => {
+      const users = await db.insert(usersTable)
+        .values([
+          { username: 'clerk', password_hash: 'x' },
+          { username: 'sender', password_hash: 'x' },
+          { username: 'receiver', password_hash: 'x' }
+        ])
+        .returning()
+        .execute();
+
+      const result = await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        sender_id: users[1].id,
+        receiver_id: users[2].id
+      }, null, { id: users[0].id, username: users[0].username });
+
+      expect(result.created_by_id).toBe(users[0].id);
+      expect(result.sender_id).toBe(users[1].id);
+      expect(result.receiver_id).toBe(users[2].id);
+    });
+
+    it('should throw error when receiver does not exist', async () => {
+      const input: CreateLocationHistoryInput = {
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        receiver_id: 999
+      };
+
+      expect(createLocationHistory(input)).rejects.toThrow(/User with ID 999 does not exist/i);
+    });
   });
 
   describe('updateLocationHistory', () => {
@@ -370,6 +510,8 @@ describe('Location History Handlers', () => {
     });
 
     it('should update status to completed and update item location', async () => {
+      await updateLocationHistory({ id: historyId, status: 'in_transit' });
+
       const input: UpdateLocationHistoryInput = {
         id: historyId,
         status: 'completed',
@@ -429,6 +571,73 @@ describe('Location History Handlers', () => {
 
       expect(updateLocationHistory(input)).rejects.toThrow(/Location history with ID 999 does not exist/i);
     });
+
+    it('should reject completing a transfer that is not in transit', async () => {
+      expect(updateLocationHistory({ id: historyId, status: 'completed' })).rejects.toThrow(InvalidTransferTransitionError);
+
+      const item = await db.select()
+        .from(inventoryItemsTable)
+        .where(eq(inventoryItemsTable.id, itemId))
+        .execute();
+      expect(item[0].location_id).toBe(locationId1);
+    });
+
+    it('should treat completed and cancelled transfers as final', async () => {
+      await updateLocationHistory({ id: historyId, status: 'in_transit' });
+      await updateLocationHistory({ id: historyId, status: 'completed' });
+      expect(updateLocationHistory({ id: historyId, status: 'pending' })).rejects.toThrow(/from completed to pending/);
+
+      await db.update(locationHistoryTable)
+        .set({ status: 'cancelled' })
+        .where(eq(locationHistoryTable.id, historyId))
+        .execute();
+      expect(updateLocationHistory({ id: historyId, status: 'completed' })).rejects.toThrow(/from cancelled to completed/);
+    });
+
+    it('should reject completion when the item has moved since the transfer was created', async () => {
+      await updateLocationHistory({ id: historyId, status: 'in_transit' });
+      await db.update(inventoryItemsTable)
+        .set({ location_id: locationId2 })
+        .where(eq(inventoryItemsTable.id, itemId))
+        .execute();
+
+      expect(updateLocationHistory({ id: historyId, status: 'completed' })).rejects.toThrow(TransferLocationMismatchError);
+    });
+
+    it('should not complete a transfer without a source', async () => {
+      const legacy = await db.insert(locationHistoryTable)
+        .values({
+          item_id: itemId,
+          from_location_id: null,
+          to_location_id: locationId2,
+          transfer_date: new Date(),
+          status: 'in_transit'
+        })
+        .returning()
+        .execute();
+
+      await expect(updateLocationHistory({ id: legacy[0].id, status: 'completed' })).rejects.toThrow(TransferLocationMismatchError);
+    });
+
+    it('should record each status change with its actor', async () => {
+      const user = await db.insert(usersTable)
+        .values({ username: 'courier', password_hash: 'x', role: 'user' })
+        .returning()
+        .execute();
+      const actor = { id: user[0].id, username: user[0].username };
+
+      await updateLocationHistory({ id: historyId, status: 'in_transit' }, null, actor);
+      await updateLocationHistory({ id: historyId, notes: 'Still moving' }, null, actor);
+      await updateLocationHistory({ id: historyId, status: 'cancelled' }, null, actor);
+
+      const changes = await getTransferStatusChanges(historyId);
+      expect(changes.map(change => [change.from_status, change.to_status])).toEqual([
+        ['pending', 'in_transit'],
+        ['in_transit', 'cancelled']
+      ]);
+      expect(changes.every(change => change.changed_by_id === actor.id)).toBe(true);
+      expect(changes[0].changed_at).toBeInstanceOf(Date);
+    });
   });
 
   describe('deleteLocationHistory', () => {
@@ -465,4 +674,355 @@ describe('Location History Handlers', () => {
       expect(result).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('linkLegacyTransferUsers', () => {
+    it('should link free-text names to matching usernames', async () => {
+      const user = await db.insert(usersTable)
+        .values({ username: 'budi', password_hash: 'x' })
+        .returning()
+        .execute();
+
+      await db.insert(locationHistoryTable)
+        .values([
+          {
+            item_id: itemId,
+            from_location_id: locationId1,
+            to_location_id: locationId2,
+            transfer_date: new Date('2024-01-20'),
+            transferred_by: ' Budi ',
+            status: 'completed'
+          },
+          {
+            item_id: itemId,
+            from_location_id: locationId2,
+            to_location_id: locationId1,
+            transfer_date: new Date('2024-01-21'),
+            transferred_by: 'Someone Else',
+            status: 'completed'
+          }
+        ])
+        .execute();
+
+      expect(await linkLegacyTransferUsers()).toBe(1);
+
+      const records = await db.select().from(locationHistoryTable).execute();
+      const linked = records.find(record => record.transferred_by === ' Budi ')!;
+      const unlinked = records.find(record => record.transferred_by === 'Someone Else')!;
+      expect(linked.created_by_id).toBe(user[0].id);
+      expect(unlinked.created_by_id).toBeNull();
+
+      // Running again changes nothing
+      expect(await linkLegacyTransferUsers()).toBe(0);
+    });
+  });
+
+  describe('transfer approvals', () => {
+    let requester: { id: number; username: string };
+    let sourceManager: { id: number; username: string };
+    let destinationManager: { id: number; username: string };
+
+    const createUser = async (username: string) => {
+      const user = await db.insert(usersTable)
+        .values({ username, password_hash: 'x', role: 'branch_manager' })
+        .returning()
+        .execute();
+      return { id: user[0].id, username: user[0].username };
+    };
+
+    const requestTransfer = () => createLocationHistory({
+      ...testTransferInput,
+      item_id: itemId,
+      from_location_id: locationId1,
+      to_location_id: locationId2
+    }, null, requester);
+
+    beforeEach(async () => {
+      requester = await createUser('requester');
+      sourceManager = await createUser('source-manager');
+      destinationManager = await createUser('destination-manager');
+
+      await db.insert(transferApprovalRulesTable)
+        .values({ name: 'All branch transfers', approver: 'both' })
+        .execute();
+    });
+
+    it('should hold transfers that match a rule for approval', async () => {
+      const transfer = await requestTransfer();
+
+      expect(transfer.status).toBe('pending_approval');
+      expect(transfer.requires_source_approval).toBe(true);
+      expect(transfer.requires_destination_approval).toBe(true);
+      expect(updateLocationHistory({ id: transfer.id, status: 'in_transit' })).rejects.toThrow(InvalidTransferTransitionError);
+    });
+
+    it('should refuse to create a completed transfer that needs approval', async () => {
+      const input: CreateLocationHistoryInput = {
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        status: 'completed'
+      };
+
+      expect(createLocationHistory(input, null, requester)).rejects.toThrow(TransferApprovalError);
+    });
+
+    it('should hold transfers without a source for approval like any other', async () => {
+      const transfer = await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: null,
+        to_location_id: locationId2
+      }, null, requester);
+
+      expect(transfer.status).toBe('pending_approval');
+      await expect(createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: null,
+        to_location_id: locationId2,
+        status: 'completed'
+      }, null, requester)).rejects.toThrow(TransferApprovalError);
+
+      const item = await db.select().from(inventoryItemsTable).where(eq(inventoryItemsTable.id, itemId)).execute();
+      expect(item[0].location_id).toBe(locationId1);
+    });
+
+    it('should release the transfer once both sides approve', async () => {
+      const transfer = await requestTransfer();
+
+      const afterSource = await approveTransfer({ id: transfer.id, comment: 'OK to send' }, [locationId1], sourceManager);
+      expect(afterSource.status).toBe('pending_approval');
+
+      const afterDestination = await approveTransfer({ id: transfer.id }, [locationId2], destinationManager);
+      expect(afterDestination.status).toBe('pending');
+
+      const approvals = await getTransferApprovals(transfer.id);
+      expect(approvals.map(approval => [approval.side, approval.approver_id])).toEqual([
+        ['source', sourceManager.id],
+        ['destination', destinationManager.id]
+      ]);
+      expect(approvals[0].comment).toBe('OK to send');
+
+      const moving = await updateLocationHistory({ id: transfer.id, status: 'in_transit' });
+      expect(moving.status).toBe('in_transit');
+    });
+
+    it('should only queue transfers the caller can decide on', async () => {
+      const transfer = await requestTransfer();
+
+      const queue = await getTransfersAwaitingApproval([locationId1], sourceManager);
+      expect(queue.map(t => t.id)).toEqual([transfer.id]);
+      expect(queue[0]).toMatchObject({ item_code: 'LAPTOP001', to_location_name: 'Warehouse B', recorded_by: 'requester' });
+      expect(await getTransfersAwaitingApproval(null, requester)).toHaveLength(0);
+
+      await approveTransfer({ id: transfer.id }, [locationId1], sourceManager);
+      expect(await getTransfersAwaitingApproval([locationId1], sourceManager)).toHaveLength(0);
+      expect(await getTransfersAwaitingApproval([locationId2], destinationManager)).toHaveLength(1);
+    });
+
+    it('should not let requesters approve their own transfer', async () => {
+      const transfer = await requestTransfer();
+
+      expect(approveTransfer({ id: transfer.id }, null, requester)).rejects.toThrow(/user who requested them/);
+    });
+
+    it('should end the transfer on rejection', async () => {
+      const transfer = await requestTransfer();
+
+      const rejected = await rejectTransfer({ id: transfer.id, comment: 'Not budgeted' }, [locationId2], destinationManager);
+      expect(rejected.status).toBe('rejected');
+
+      const changes = await getTransferStatusChanges(transfer.id);
+      expect(changes.map(change => change.to_status)).toEqual(['pending_approval', 'rejected']);
+      expect(approveTransfer({ id: transfer.id }, [locationId1], sourceManager)).rejects.toThrow(InvalidTransferTransitionError);
+    });
+  });
+
+  describe('partial quantities', () => {
+    const stockAt = async (locationId: number) => {
+      const rows = await db.select()
+        .from(inventoryItemsTable)
+        .where(and(eq(inventoryItemsTable.item_code, testItem.item_code), eq(inventoryItemsTable.location_id, locationId)))
+        .execute();
+      return rows[0];
+    };
+
+    beforeEach(async () => {
+      await db.update(inventoryItemsTable)
+        .set({ quantity: 20 })
+        .where(eq(inventoryItemsTable.id, itemId))
+        .execute();
+    });
+
+    it('should split the moved units into a new row at the destination', async () => {
+      const transfer = await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        quantity: 5,
+        status: 'completed'
+      });
+
+      expect(transfer.quantity).toBe(5);
+      expect((await stockAt(locationId1)).quantity).toBe(15);
+
+      const destination = await stockAt(locationId2);
+      expect(destination.id).not.toBe(itemId);
+      expect(destination.quantity).toBe(5);
+      expect(destination.purchase_price).toBe('999.99');
+
+      // The transfer follows its units to the new row
+      expect(transfer.item_id).toBe(destination.id);
+      expect((await getLocationHistoryById(transfer.id))!.item_id).toBe(destination.id);
+    });
+
+    const stockDestination = async (quantity: number, condition: ItemCondition = testItem.condition) => {
+      const existing = await db.insert(inventoryItemsTable)
+        .values({
+          ...testItem,
+          category_id: categoryId,
+          location_id: locationId2,
+          condition,
+          quantity,
+          purchase_price: testItem.purchase_price.toString()
+        })
+        .returning()
+        .execute();
+      return existing[0];
+    };
+
+    it('should add to the existing row when the destination already stocks the item', async () => {
+      const existing = await stockDestination(3);
+
+      const transfer = await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        quantity: 5,
+        status: 'completed'
+      });
+
+      expect((await stockAt(locationId1)).quantity).toBe(15);
+      const destination = await stockAt(locationId2);
+      expect(destination.id).toBe(existing.id);
+      expect(destination.quantity).toBe(8);
+      expect(transfer.item_id).toBe(existing.id);
+      expect((await getLocationHistoryById(transfer.id))!.item_id).toBe(existing.id);
+    });
+
+    it('should point a transfer completed later at the row holding its units', async () => {
+      const existing = await stockDestination(3);
+      const pending = await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        quantity: 5,
+        status: 'in_transit'
+      });
+      expect(pending.item_id).toBe(itemId);
+
+      const completed = await updateLocationHistory({ id: pending.id, status: 'completed' });
+
+      expect(completed.item_id).toBe(existing.id);
+      expect((await getLocationHistoryById(pending.id))!.item_id).toBe(existing.id);
+    });
+
+    it('should only add to a destination row in the same condition', async () => {
+      const existing = await stockDestination(3, 'fair');
+
+      await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        quantity: 5,
+        status: 'completed'
+      });
+
+      const rows = await db.select()
+        .from(inventoryItemsTable)
+        .where(eq(inventoryItemsTable.location_id, locationId2))
+        .execute();
+      expect(rows.map(row => [row.condition, row.quantity]).sort()).toEqual([['excellent', 5], ['fair', 3]]);
+      expect(rows.find(row => row.condition === 'fair')!.id).toBe(existing.id);
+    });
+
+    it('should fold a whole row into the destination row without leaving an empty row behind', async () => {
+      const existing = await stockDestination(3);
+
+      const transfer = await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        quantity: 20,
+        status: 'completed'
+      });
+
+      expect(await stockAt(locationId1)).toBeUndefined();
+      const rows = await db.select()
+        .from(inventoryItemsTable)
+        .where(eq(inventoryItemsTable.item_code, testItem.item_code))
+        .execute();
+      expect(rows.map(row => [row.id, row.location_id, row.quantity])).toEqual([[existing.id, locationId2, 23]]);
+
+      // The folded row's history follows its units
+      expect(transfer.item_id).toBe(existing.id);
+      const history = await db.select()
+        .from(locationHistoryTable)
+        .where(eq(locationHistoryTable.id, transfer.id))
+        .execute();
+      expect(history[0].item_id).toBe(existing.id);
+    });
+
+    it('should move a whole row as it is when the destination holds none of it', async () => {
+      await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        quantity: 20,
+        status: 'completed'
+      });
+
+      expect(await stockAt(locationId1)).toBeUndefined();
+      expect(await stockAt(locationId2)).toMatchObject({ id: itemId, quantity: 20 });
+    });
+
+    it('should default to moving the whole row', async () => {
+      const transfer = await createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        status: 'completed'
+      });
+
+      expect(transfer.quantity).toBe(20);
+      expect(await stockAt(locationId1)).toBeUndefined();
+      expect((await stockAt(locationId2)).id).toBe(itemId);
+    });
+
+    it('should refuse to move more units than the row holds', async () => {
+      await expect(createLocationHistory({
+        ...testTransferInput,
+        item_id: itemId,
+        from_location_id: locationId1,
+        to_location_id: locationId2,
+        quantity: 21
+      })).rejects.toThrow(InsufficientStockError);
+
+      const first = await createLocationHistory({ ...testTransferInput, item_id: itemId, from_location_id: locationId1, to_location_id: locationId2, quantity: 15, status: 'in_transit' });
+      const second = await createLocationHistory({ ...testTransferInput, item_id: itemId, from_location_id: locationId1, to_location_id: locationId2, quantity: 10, status: 'in_transit' });
+
+      await updateLocationHistory({ id: first.id, status: 'completed' });
+      await expect(updateLocationHistory({ id: second.id, status: 'completed' })).rejects.toThrow(InsufficientStockError);
+      expect((await stockAt(locationId1)).quantity).toBe(5);
+      expect((await stockAt(locationId2)).quantity).toBe(15);
+    });
+  });
+});
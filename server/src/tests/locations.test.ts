@@ -10,7 +10,8 @@ import {
   updateLocation, 
   deleteLocation 
 } from '../handlers/locations';
-import { eq } from 'drizzle-orm';
+import { prepareDatabase } from '../db/prepare';
+import { asc, eq, sql } from 'drizzle-orm';
 
 // Test inputs
 const testLocationInput: CreateLocationInput = {
@@ -53,6 +54,13 @@ describe('Location Handlers', () => {
       expect(result.updated_at).toBeInstanceOf(Date);
     });
 
+    it('should reject a branch code that is already in use', async () => {
+      await createLocation(testLocationInput);
+
+      expect(createLocation({ ...testLocationInput, name: 'Another Location' }))
+        .rejects.toThrow(/Branch code "TL001" is already in use/);
+    });
+
     it('should save location to database', async () => {
       const result = await createLocation(testLocationInput);
 
@@ -235,5 +243,28 @@ describe('Location Handlers', () => {
     });
   });
 
+  describe('prepareDatabase', () => {
+    it('should renumber locations sharing a branch code, keeping the oldest', async () => {
+      // As in databases from before branch codes were unique
+      await db.execute(sql`alter table locations drop constraint locations_branch_code_unique`);
+      await db.insert(locationsTable)
+        .values([
+          { name: 'Jakarta', branch_code: 'JKT', address: null },
+          { name: 'Jakarta Timur', branch_code: 'JKT', address: null },
+          { name: 'Jakarta Barat', branch_code: 'JKT', address: null },
+          { name: 'Jakarta Utara', branch_code: 'JAK1', address: null }
+        ])
+        .execute();
+
+      await prepareDatabase();
+
+      const locations = await db.select()
+        .from(locationsTable)
+        .orderBy(asc(locationsTable.id))
+        .execute();
+      expect(locations.map(location => location.branch_code)).toEqual(['JKT', 'JAK2', 'JAK3', 'JAK1']);
+    });
+  });
+
 
 });
\ No newline at end of file
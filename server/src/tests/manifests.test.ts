@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  locationsTable,
+  categoriesTable,
+  inventoryItemsTable,
+  transferManifestsTable,
+  transferApprovalRulesTable
+} from '../db/schema';
+import { type CreateTransferManifestInput } from '../schema';
+import {
+  getManifests,
+  getManifestById,
+  createManifest,
+  dispatchManifest,
+  receiveManifest,
+  cancelManifest
+} from '../handlers/manifests';
+import { updateLocationHistory, TransferRuleError, TransferLocationMismatchError } from '../handlers/location_history';
+import { inArray } from 'drizzle-orm';
+
+describe('transfer manifests', () => {
+  let fromId: number;
+  let toId: number;
+  let itemIds: number[];
+
+  const manifestInput = (): CreateTransferManifestInput => ({
+    from_location_id: fromId,
+    to_location_id: toId,
+    item_ids: itemIds,
+    courier: 'JNE',
+    tracking_number: 'JNE-0001',
+    transfer_date: new Date('2024-03-01'),
+    reason: 'relocation',
+    notes: null
+  });
+
+  const itemsById = async () => {
+    const items = await db.select()
+      .from(inventoryItemsTable)
+      .where(inArray(inventoryItemsTable.id, itemIds))
+      .execute();
+    return new Map(items.map(item => [item.id, item]));
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const locations = await db.insert(locationsTable)
+      .values([
+        { name: 'Jakarta', branch_code: 'JKT' },
+        { name: 'Surabaya', branch_code: 'SBY' }
+      ])
+      .returning()
+      .execute();
+    [fromId, toId] = locations.map(location => location.id);
+
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Laptops' })
+      .returning()
+      .execute();
+
+    const items = await db.insert(inventoryItemsTable)
+      .values([1, 2, 3].map(n => ({
+        item_code: `LT-00${n}`,
+        name: `Laptop ${n}`,
+        category_id: category[0].id,
+        location_id: fromId,
+        condition: 'good' as const,
+        quantity: 1,
+        purchase_price: '1000.00',
+        purchase_date: new Date('2024-01-01')
+      })))
+      .returning()
+      .execute();
+    itemIds = items.map(item => item.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should create one pending transfer per item', async () => {
+    const manifest = await createManifest(manifestInput());
+
+    expect(manifest.status).toBe('pending');
+    expect(manifest.courier).toBe('JNE');
+    expect(manifest.transfers).toHaveLength(3);
+    expect(manifest.transfers.every(transfer => transfer.manifest_id === manifest.id && transfer.status === 'pending')).toBe(true);
+    expect(await getManifests()).toHaveLength(1);
+    expect(await getManifests([toId])).toHaveLength(1);
+    expect(await getManifestById(manifest.id, [999])).toBeNull();
+    expect(manifest.transfers.map(transfer => transfer.item_code)).toEqual(['LT-001', 'LT-002', 'LT-003']);
+    expect((await getManifestById(manifest.id))!.transfers.map(transfer => transfer.item_name)).toEqual(['Laptop 1', 'Laptop 2', 'Laptop 3']);
+  });
+
+  it('should not create anything when an item is elsewhere', async () => {
+    await db.update(inventoryItemsTable)
+      .set({ location_id: toId })
+      .where(inArray(inventoryItemsTable.id, [itemIds[2]]))
+      .execute();
+
+    expect(createManifest(manifestInput())).rejects.toThrow(TransferLocationMismatchError);
+    expect(await db.select().from(transferManifestsTable).execute()).toHaveLength(0);
+  });
+
+  it('should move the whole shipment through its statuses together', async () => {
+    const manifest = await createManifest(manifestInput());
+
+    expect(updateLocationHistory({ id: manifest.transfers[0].id, status: 'in_transit' })).rejects.toThrow(TransferRuleError);
+
+    const dispatched = await dispatchManifest({ id: manifest.id });
+    expect(dispatched.status).toBe('in_transit');
+    expect(dispatched.dispatched_at).toBeInstanceOf(Date);
+    expect(dispatched.transfers.every(transfer => transfer.status === 'in_transit')).toBe(true);
+
+    const received = await receiveManifest({ id: manifest.id, lines: [] });
+    expect(received.status).toBe('received');
+    expect(received.received_at).toBeInstanceOf(Date);
+    expect(received.transfers.every(transfer => transfer.status === 'completed' && transfer.receipt_status === 'received')).toBe(true);
+
+    const items = await itemsById();
+    expect(itemIds.every(id => items.get(id)!.location_id === toId)).toBe(true);
+  });
+
+  it('should record damaged and missing items on partial receipt', async () => {
+    const manifest = await createManifest(manifestInput());
+    await dispatchManifest({ id: manifest.id });
+
+    const [intact, damaged, missing] = manifest.transfers;
+    const received = await receiveManifest({
+      id: manifest.id,
+      lines: [
+        { transfer_id: damaged.id, outcome: 'damaged', notes: 'Cracked screen' },
+        { transfer_id: missing.id, outcome: 'missing' }
+      ]
+    });
+
+    expect(received.status).toBe('partially_received');
+    const byId = new Map(received.transfers.map(transfer => [transfer.id, transfer]));
+    expect(byId.get(intact.id)!.status).toBe('completed');
+    expect(byId.get(damaged.id)!.status).toBe('completed');
+    expect(byId.get(damaged.id)!.receipt_status).toBe('damaged');
+    expect(byId.get(damaged.id)!.notes).toBe('Cracked screen');
+    expect(byId.get(missing.id)!.status).toBe('cancelled');
+    expect(byId.get(missing.id)!.receipt_status).toBe('missing');
+
+    const items = await itemsById();
+    expect(items.get(damaged.item_id)!.location_id).toBe(toId);
+    expect(items.get(damaged.item_id)!.condition).toBe('damaged');
+    expect(items.get(missing.item_id)!.location_id).toBe(fromId);
+  });
+
+  it('should keep damaged units apart from intact stock at the destination', async () => {
+    await db.update(inventoryItemsTable)
+      .set({ quantity: 2 })
+      .where(inArray(inventoryItemsTable.id, [itemIds[0]]))
+      .execute();
+    const stocked = await db.insert(inventoryItemsTable)
+      .values({
+        item_code: 'LT-001',
+        name: 'Laptop 1',
+        category_id: (await itemsById()).get(itemIds[0])!.category_id,
+        location_id: toId,
+        condition: 'good',
+        quantity: 18,
+        purchase_price: '1000.00',
+        purchase_date: new Date('2024-01-01')
+      })
+      .returning()
+      .execute();
+
+    const manifest = await createManifest({ ...manifestInput(), item_ids: [itemIds[0]] });
+    await dispatchManifest({ id: manifest.id });
+    await receiveManifest({ id: manifest.id, lines: [{ transfer_id: manifest.transfers[0].id, outcome: 'damaged' }] });
+
+    const rows = await db.select()
+      .from(inventoryItemsTable)
+      .where(inArray(inventoryItemsTable.id, [itemIds[0], stocked[0].id]))
+      .execute();
+    const byId = new Map(rows.map(row => [row.id, row]));
+    expect(byId.get(stocked[0].id)).toMatchObject({ location_id: toId, quantity: 18, condition: 'good' });
+    expect(byId.get(itemIds[0])).toMatchObject({ location_id: toId, quantity: 2, condition: 'damaged' });
+  });
+
+  it('should reject receipt lines that are not on the manifest', async () => {
+    const manifest = await createManifest(manifestInput());
+    await dispatchManifest({ id: manifest.id });
+
+    expect(receiveManifest({ id: manifest.id, lines: [{ transfer_id: 999, outcome: 'missing' }] }))
+      .rejects.toThrow(/Transfer 999 is not in transit/);
+  });
+
+  it('should hold dispatch until approvals are settled', async () => {
+    await db.insert(transferApprovalRulesTable)
+      .values({ name: 'All branch transfers', approver: 'both' })
+      .execute();
+
+    const manifest = await createManifest(manifestInput());
+    expect(manifest.transfers.every(transfer => transfer.status === 'pending_approval')).toBe(true);
+    expect(dispatchManifest({ id: manifest.id })).rejects.toThrow(/awaiting approval/);
+  });
+
+  it('should cancel every open transfer with the manifest', async () => {
+    const manifest = await createManifest(manifestInput());
+    await dispatchManifest({ id: manifest.id });
+
+    const cancelled = await cancelManifest(manifest.id);
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.transfers.every(transfer => transfer.status === 'cancelled')).toBe(true);
+    expect(dispatchManifest({ id: manifest.id })).rejects.toThrow(TransferRuleError);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'bun:test';
+import { nameSimilarity, closestNames } from '../handlers/name_matching';
+
+describe('name matching', () => {
+  it('should ignore case, spacing and punctuation', () => {
+    expect(nameSimilarity('Main-Warehouse', 'main warehouse')).toBe(1);
+  });
+
+  it('should score typos and shortened names highly', () => {
+    expect(nameSimilarity('Jakrta', 'Jakarta')).toBeGreaterThan(0.8);
+    expect(nameSimilarity('Jakarta', 'Jakarta Pusat')).toBeGreaterThanOrEqual(0.8);
+    expect(nameSimilarity('Jakarta', 'Surabaya')).toBeLessThan(0.5);
+  });
+
+  it('should rank close candidates first and match aliases', () => {
+    const candidates = [
+      { id: 1, name: 'Surabaya', aliases: ['SBY'] },
+      { id: 2, name: 'Jakarta', aliases: ['JKT'] },
+      { id: 3, name: 'Jakarta Pusat', aliases: ['JKP'] }
+    ];
+
+    expect(closestNames('Jakrta', candidates).map(candidate => candidate.id)).toEqual([2, 3]);
+    expect(closestNames('sby', candidates).map(candidate => candidate.id)).toEqual([1]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { hashPassword, verifyPassword, needsRehash } from '../helpers/password';
+
+describe('Password helpers', () => {
+  describe('hashPassword', () => {
+    it('should encode algorithm and parameters in the hash', async () => {
+      const hash = await hashPassword('secret123');
+
+      expect(hash).toMatch(/^scrypt\$N=\d+,r=\d+,p=\d+\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+    });
+
+    it('should use a random salt per hash', async () => {
+      const first = await hashPassword('secret123');
+      const second = await hashPassword('secret123');
+
+      expect(first).not.toEqual(second);
+    });
+  });
+
+  describe('verifyPassword', () => {
+    it('should accept the correct password', async () => {
+      const hash = await hashPassword('secret123');
+
+      expect(await verifyPassword('secret123', hash)).toBe(true);
+    });
+
+    it('should reject an incorrect password', async () => {
+      const hash = await hashPassword('secret123');
+
+      expect(await verifyPassword('wrong-password', hash)).toBe(false);
+    });
+
+    it('should verify legacy SHA-256 hashes', async () => {
+      const legacyHash = createHash('sha256').update('secret123' + 'salt_key_totalindo').digest('hex');
+
+      expect(await verifyPassword('secret123', legacyHash)).toBe(true);
+      expect(await verifyPassword('wrong-password', legacyHash)).toBe(false);
+    });
+
+    it('should reject malformed hashes', async () => {
+      expect(await verifyPassword('secret123', 'not-a-hash')).toBe(false);
+    });
+  });
+
+  describe('needsRehash', () => {
+    it('should flag legacy hashes', () => {
+      const legacyHash = createHash('sha256').update('secret123' + 'salt_key_totalindo').digest('hex');
+
+      expect(needsRehash(legacyHash)).toBe(true);
+    });
+
+    it('should flag hashes with weaker parameters', () => {
+      expect(needsRehash('scrypt$N=1024,r=8,p=1$c2FsdA==$a2V5')).toBe(true);
+    });
+
+    it('should not flag current hashes', async () => {
+      const hash = await hashPassword('secret123');
+
+      expect(needsRehash(hash)).toBe(false);
+    });
+  });
+});
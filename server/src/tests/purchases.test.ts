@@ -5,6 +5,7 @@ import { purchasesTable, inventoryItemsTable, suppliersTable, categoriesTable, l
 import { type CreatePurchaseInput, type UpdatePurchaseInput } from '../schema';
 import {
   getPurchases,
+  listPurchases,
   getPurchaseById,
   getPurchasesByItem,
   getPurchasesBySupplier,
@@ -210,6 +211,35 @@ describe('Purchase Handlers', () => {
     });
   });
 
+  describe('listPurchases', () => {
+    it('should sort by supplier then newest first and page the result', async () => {
+      const otherSupplier = await db.insert(suppliersTable)
+        .values({ name: 'Another Supplier', contact_person: null, phone_number: null, address: null })
+        .returning()
+        .execute();
+
+      const base = { ...testPurchaseInput, item_id: testItemId };
+      const older = await createPurchase({ ...base, supplier_id: testSupplierId, purchase_date: new Date('2024-01-10') });
+      const newer = await createPurchase({ ...base, supplier_id: testSupplierId, purchase_date: new Date('2024-02-10') });
+      const other = await createPurchase({ ...base, supplier_id: otherSupplier[0].id });
+
+      const sorted = await listPurchases({ sort: [{ field: 'supplier', direction: 'asc' }] });
+      expect(sorted.total).toBe(3);
+      expect(sorted.items.map(purchase => purchase.id)).toEqual([other.id, newer.id, older.id]);
+      expect(typeof sorted.items[0].total_price).toBe('number');
+      expect(sorted.items[0].item_code).toBe('TEST001');
+      expect(sorted.items[0].item_name).toBe('Test Item');
+      expect(sorted.items[0].supplier_name).toBe('Another Supplier');
+
+      const paged = await listPurchases({ supplier_id: testSupplierId, page: 2, page_size: 1 });
+      expect(paged.total).toBe(2);
+      expect(paged.items.map(purchase => purchase.id)).toEqual([older.id]);
+
+      expect((await listPurchases({ search: 'test0' })).total).toBe(3);
+      expect((await listPurchases({}, [])).items).toEqual([]);
+    });
+  });
+
   describe('getPurchaseById', () => {
     it('should return null for non-existent purchase', async () => {
       const result = await getPurchaseById(99999);
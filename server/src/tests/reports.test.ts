@@ -7,14 +7,16 @@ import {
   suppliersTable,
   inventoryItemsTable,
   purchasesTable,
-  locationHistoryTable
+  locationHistoryTable,
+  usersTable
 } from '../db/schema';
 import { 
   generateInventoryReport,
   generatePurchaseReport,
   generateLocationHistoryReport,
   generateInventorySummary,
-  generatePurchaseSummary
+  generatePurchaseSummary,
+  generateLocationHistorySummary
 } from '../handlers/reports';
 import { 
   type InventoryReportFilter,
@@ -116,7 +118,7 @@ describe('Reports Handlers', () => {
 
     it('should generate inventory report without filters', async () => {
       const filter: InventoryReportFilter = {};
-      const result = await generateInventoryReport(filter);
+      const { items: result } = await generateInventoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].name).toBe('Test Item');
@@ -127,11 +129,21 @@ describe('Reports Handlers', () => {
       expect(result[0].purchase_price).toBe(100.5);
     });
 
+    it('should return the names of the category and location', async () => {
+      const { items: result, groups } = await generateInventoryReport({});
+
+      expect(result[0].category_name).toBe('Test Category');
+      expect(result[0].location_name).toBe('Test Warehouse');
+      expect(result[0].location_branch_code).toBe('TW01');
+      expect(result[0].group_key).toBeNull();
+      expect(groups).toEqual([]);
+    });
+
     it('should filter by category_id', async () => {
       const filter: InventoryReportFilter = {
         category_id: testCategoryId
       };
-      const result = await generateInventoryReport(filter);
+      const { items: result } = await generateInventoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].category_id).toBe(testCategoryId);
@@ -141,7 +153,7 @@ describe('Reports Handlers', () => {
       const filter: InventoryReportFilter = {
         location_id: testLocationId
       };
-      const result = await generateInventoryReport(filter);
+      const { items: result } = await generateInventoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].location_id).toBe(testLocationId);
@@ -151,7 +163,7 @@ describe('Reports Handlers', () => {
       const filter: InventoryReportFilter = {
         condition: 'excellent'
       };
-      const result = await generateInventoryReport(filter);
+      const { items: result } = await generateInventoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].condition).toBe('excellent');
@@ -162,7 +174,7 @@ describe('Reports Handlers', () => {
         date_from: new Date('2024-01-01'),
         date_to: new Date('2024-01-31')
       };
-      const result = await generateInventoryReport(filter);
+      const { items: result } = await generateInventoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].purchase_date).toBeInstanceOf(Date);
@@ -172,7 +184,7 @@ describe('Reports Handlers', () => {
       const filter: InventoryReportFilter = {
         condition: 'damaged'
       };
-      const result = await generateInventoryReport(filter);
+      const { items: result } = await generateInventoryReport(filter);
 
       expect(result).toHaveLength(0);
     });
@@ -183,7 +195,7 @@ describe('Reports Handlers', () => {
 
     it('should generate purchase report without filters', async () => {
       const filter: PurchaseReportFilter = {};
-      const result = await generatePurchaseReport(filter);
+      const { items: result } = await generatePurchaseReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].item_id).toBe(testItemId);
@@ -193,13 +205,23 @@ describe('Reports Handlers', () => {
       expect(result[0].unit_price).toBe(100.5);
       expect(typeof result[0].total_price).toBe('number');
       expect(result[0].total_price).toBe(502.5);
+      expect(result[0].item_code).toBe('TEST-001');
+      expect(result[0].item_name).toBe('Test Item');
+      expect(result[0].supplier_name).toBe('Test Supplier');
+    });
+
+    it('should subtotal purchases by month', async () => {
+      const { items: result, groups } = await generatePurchaseReport({ group_by: 'month' });
+
+      expect(result[0].group_key).toBe('2024-01');
+      expect(groups).toEqual([{ key: '2024-01', label: '2024-01', count: 1, quantity: 5, amount: 502.5 }]);
     });
 
     it('should filter by supplier_id', async () => {
       const filter: PurchaseReportFilter = {
         supplier_id: testSupplierId
       };
-      const result = await generatePurchaseReport(filter);
+      const { items: result } = await generatePurchaseReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].supplier_id).toBe(testSupplierId);
@@ -210,7 +232,7 @@ describe('Reports Handlers', () => {
         date_from: new Date('2024-01-01'),
         date_to: new Date('2024-01-31')
       };
-      const result = await generatePurchaseReport(filter);
+      const { items: result } = await generatePurchaseReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].purchase_date).toBeInstanceOf(Date);
@@ -221,7 +243,7 @@ describe('Reports Handlers', () => {
         date_from: new Date('2024-02-01'),
         date_to: new Date('2024-02-28')
       };
-      const result = await generatePurchaseReport(filter);
+      const { items: result } = await generatePurchaseReport(filter);
 
       expect(result).toHaveLength(0);
     });
@@ -232,20 +254,24 @@ describe('Reports Handlers', () => {
 
     it('should generate location history report without filters', async () => {
       const filter: LocationHistoryReportFilter = {};
-      const result = await generateLocationHistoryReport(filter);
+      const { items: result } = await generateLocationHistoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].item_id).toBe(testItemId);
       expect(result[0].to_location_id).toBe(testLocationId);
       expect(result[0].status).toBe('completed');
       expect(result[0].transferred_by).toBe('Test User');
+      expect(result[0].item_code).toBe('TEST-001');
+      expect(result[0].from_location_name).toBeNull();
+      expect(result[0].to_location_name).toBe('Test Warehouse');
+      expect(result[0].recorded_by).toBe('Test User');
     });
 
     it('should filter by item_id', async () => {
       const filter: LocationHistoryReportFilter = {
         item_id: testItemId
       };
-      const result = await generateLocationHistoryReport(filter);
+      const { items: result } = await generateLocationHistoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].item_id).toBe(testItemId);
@@ -255,7 +281,7 @@ describe('Reports Handlers', () => {
       const filter: LocationHistoryReportFilter = {
         location_id: testLocationId
       };
-      const result = await generateLocationHistoryReport(filter);
+      const { items: result } = await generateLocationHistoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].to_location_id).toBe(testLocationId);
@@ -265,7 +291,7 @@ describe('Reports Handlers', () => {
       const filter: LocationHistoryReportFilter = {
         status: 'completed'
       };
-      const result = await generateLocationHistoryReport(filter);
+      const { items: result } = await generateLocationHistoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].status).toBe('completed');
@@ -276,7 +302,7 @@ describe('Reports Handlers', () => {
         date_from: new Date('2024-01-01'),
         date_to: new Date('2024-01-31')
       };
-      const result = await generateLocationHistoryReport(filter);
+      const { items: result } = await generateLocationHistoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].transfer_date).toBeInstanceOf(Date);
@@ -286,10 +312,90 @@ describe('Reports Handlers', () => {
       const filter: LocationHistoryReportFilter = {
         status: 'cancelled'
       };
-      const result = await generateLocationHistoryReport(filter);
+      const { items: result } = await generateLocationHistoryReport(filter);
 
       expect(result).toHaveLength(0);
     });
+
+    it('should filter by participating user', async () => {
+      const users = await db.insert(usersTable)
+        .values([
+          { username: 'clerk', password_hash: 'x' },
+          { username: 'courier', password_hash: 'x' }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(locationHistoryTable)
+        .values({
+          item_id: testItemId,
+          from_location_id: testLocationId,
+          to_location_id: testLocationId,
+          transfer_date: new Date('2024-01-20'),
+          created_by_id: users[0].id,
+          receiver_id: users[1].id,
+          status: 'pending'
+        })
+        .execute();
+
+      const { items: byCreator } = await generateLocationHistoryReport({ user_id: users[0].id });
+      expect(byCreator).toHaveLength(1);
+      expect(byCreator[0].created_by_id).toBe(users[0].id);
+
+      const { items: byReceiver } = await generateLocationHistoryReport({ user_id: users[1].id });
+      expect(byReceiver).toHaveLength(1);
+      expect(byReceiver[0].receiver_id).toBe(users[1].id);
+    });
+
+    it('should subtotal units moved, counting none for transfers without a quantity', async () => {
+      await db.insert(locationHistoryTable)
+        .values({
+          item_id: testItemId,
+          from_location_id: testLocationId,
+          to_location_id: testLocationId,
+          quantity: 3,
+          transfer_date: new Date('2024-01-20'),
+          status: 'completed'
+        })
+        .execute();
+
+      const { groups } = await generateLocationHistoryReport({ group_by: 'location' });
+
+      expect(groups).toEqual([
+        { key: String(testLocationId), label: 'Test Warehouse (TW01)', count: 2, quantity: 3, amount: null }
+      ]);
+    });
+  });
+
+  describe('generateLocationHistorySummary', () => {
+    beforeEach(setupTestData);
+
+    it('should group transfers by user, falling back to legacy names', async () => {
+      const user = await db.insert(usersTable)
+        .values({ username: 'clerk', password_hash: 'x' })
+        .returning()
+        .execute();
+
+      await db.insert(locationHistoryTable)
+        .values({
+          item_id: testItemId,
+          from_location_id: testLocationId,
+          to_location_id: testLocationId,
+          transfer_date: new Date('2024-01-20'),
+          created_by_id: user[0].id,
+          sender_id: user[0].id,
+          status: 'pending'
+        })
+        .execute();
+
+      const result = await generateLocationHistorySummary({});
+
+      expect(result.totalTransfers).toBe(2);
+      expect(result.transfersByUser).toEqual({ 'Test User': 1, clerk: 1 });
+      expect(result.transfersBySender).toEqual({ clerk: 1 });
+      expect(result.transfersByReceiver).toEqual({});
+      expect(result.transfersByStatus).toEqual({ completed: 1, pending: 1 });
+    });
   });
 
   describe('generateInventorySummary', () => {
@@ -412,13 +518,28 @@ describe('Reports Handlers', () => {
         date_from: new Date('2024-01-01'),
         date_to: new Date('2024-01-31')
       };
-      const result = await generateInventoryReport(filter);
+      const { items: result } = await generateInventoryReport(filter);
 
       expect(result).toHaveLength(1);
       expect(result[0].condition).toBe('excellent');
       expect(result[0].name).toBe('Test Item');
     });
 
+    it('should keep groups together and subtotal every matching item', async () => {
+      const { items: result, groups } = await generateInventoryReport({
+        group_by: 'category',
+        sort: [{ field: 'item_code', direction: 'desc' }],
+        page_size: 1
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].category_name).toBe('Electronics');
+      expect(groups.map(group => group.label)).toEqual(['Electronics', 'Test Category']);
+      expect(groups[0]).toMatchObject({ count: 1, quantity: 5, amount: 6000 });
+      expect(groups[1]).toMatchObject({ count: 1, quantity: 10, amount: 1005 });
+      expect(result[0].group_key).toBe(groups[0].key);
+    });
+
     it('should generate comprehensive inventory summary with multiple items', async () => {
       const filter: InventoryReportFilter = {};
       const result = await generateInventorySummary(filter);
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, locationsTable } from '../db/schema';
+import {
+  getRolePermissions,
+  updateRolePermissions,
+  getUserLocationIds,
+  setUserLocations,
+  getAccessScope,
+  isLocationAllowed
+} from '../handlers/roles';
+
+describe('role handlers', () => {
+  let userId: number;
+  let locationIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'manager', password_hash: 'x', role: 'branch_manager' })
+      .returning()
+      .execute();
+    userId = user[0].id;
+
+    const locations = await db.insert(locationsTable)
+      .values([
+        { name: 'Jakarta', branch_code: 'JKT', address: null },
+        { name: 'Surabaya', branch_code: 'SBY', address: null }
+      ])
+      .returning()
+      .execute();
+    locationIds = locations.map(location => location.id);
+  });
+
+  afterEach(resetDB);
+
+  describe('getRolePermissions', () => {
+    it('should return the built-in matrix for every role', async () => {
+      const roles = await getRolePermissions();
+
+      expect(roles.map(role => role.role)).toEqual(['admin', 'user', 'auditor', 'branch_manager', 'procurement', 'technician']);
+
+      const auditor = roles.find(role => role.role === 'auditor')!;
+      expect(auditor.permissions).toContain('reports.view');
+      expect(auditor.permissions).not.toContain('inventory.update');
+
+      const technician = roles.find(role => role.role === 'technician')!;
+      expect(technician.location_scoped).toBe(true);
+      expect(technician.permissions).toContain('inventory.updateCondition');
+      expect(technician.permissions).not.toContain('inventory.update');
+    });
+  });
+
+  describe('updateRolePermissions', () => {
+    it('should store and return the edited permissions', async () => {
+      const result = await updateRolePermissions({
+        role: 'procurement',
+        permissions: ['purchases.view', 'purchases.view', 'reports.view'],
+        location_scoped: true
+      });
+
+      expect(result.permissions).toEqual(['purchases.view', 'reports.view']);
+      expect(result.location_scoped).toBe(true);
+
+      const roles = await getRolePermissions();
+      expect(roles.find(role => role.role === 'procurement')!.permissions).toEqual(['purchases.view', 'reports.view']);
+    });
+  });
+
+  describe('setUserLocations', () => {
+    it('should replace the assigned locations', async () => {
+      await setUserLocations({ user_id: userId, location_ids: locationIds });
+      expect((await getUserLocationIds(userId)).sort()).toEqual([...locationIds].sort());
+
+      await setUserLocations({ user_id: userId, location_ids: [locationIds[1]] });
+      expect(await getUserLocationIds(userId)).toEqual([locationIds[1]]);
+    });
+
+    it('should reject unknown locations', async () => {
+      await expect(setUserLocations({ user_id: userId, location_ids: [999] }))
+        .rejects.toThrow(/Location with ID 999 does not exist/);
+    });
+  });
+
+  describe('getAccessScope', () => {
+    it('should restrict location-scoped roles to their assignments', async () => {
+      await setUserLocations({ user_id: userId, location_ids: [locationIds[0]] });
+
+      const scope = await getAccessScope({ id: userId, role: 'branch_manager' });
+
+      expect(scope.location_ids).toEqual([locationIds[0]]);
+      expect(isLocationAllowed(scope.location_ids, locationIds[0])).toBe(true);
+      expect(isLocationAllowed(scope.location_ids, locationIds[1])).toBe(false);
+    });
+
+    it('should leave unscoped roles unrestricted', async () => {
+      const scope = await getAccessScope({ id: userId, role: 'auditor' });
+
+      expect(scope.location_ids).toBeNull();
+      expect(isLocationAllowed(scope.location_ids, locationIds[1])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { locationsTable, categoriesTable, inventoryItemsTable, suppliersTable, purchasesTable } from '../db/schema';
+import { type Permission } from '../schema';
+import { globalSearch, toPrefixQuery } from '../handlers/search';
+
+const ALL: Permission[] = ['inventory.view', 'purchases.view', 'suppliers.view', 'locations.view'];
+
+describe('globalSearch', () => {
+  let jakartaId: number;
+  let surabayaId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const locations = await db.insert(locationsTable)
+      .values([
+        { name: 'Jakarta Head Office', branch_code: 'JKT', address: 'Jalan Sudirman 1' },
+        { name: 'Surabaya', branch_code: 'SBY', address: null }
+      ])
+      .returning()
+      .execute();
+    [jakartaId, surabayaId] = locations.map(location => location.id);
+
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Laptops' })
+      .returning()
+      .execute();
+
+    const items = await db.insert(inventoryItemsTable)
+      .values([
+        { item_code: 'LT-001', name: 'Laptop Dell Latitude', description: null, location_id: jakartaId },
+        { item_code: 'LT-002', name: 'Laptop Lenovo ThinkPad', description: 'Spare for LT-001', location_id: surabayaId }
+      ].map(item => ({
+        ...item,
+        category_id: category[0].id,
+        condition: 'good' as const,
+        quantity: 1,
+        purchase_price: '1000.00',
+        purchase_date: new Date('2024-01-01')
+      })))
+      .returning()
+      .execute();
+
+    const supplier = await db.insert(suppliersTable)
+      .values({ name: 'Dell Indonesia', contact_person: 'Budi' })
+      .returning()
+      .execute();
+
+    await db.insert(purchasesTable)
+      .values({
+        item_id: items[0].id,
+        supplier_id: supplier[0].id,
+        quantity: 1,
+        unit_price: '1000.00',
+        total_price: '1000.00',
+        purchase_date: new Date('2024-01-01'),
+        notes: 'Ordered for the finance team'
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should match the start of every word typed', async () => {
+    const results = await globalSearch({ query: 'lap dell' }, ALL);
+    expect(results.map(result => result.title)).toEqual(['LT-001 - Laptop Dell Latitude']);
+    expect(results[0].type).toBe('inventory_item');
+    expect(results[0].code).toBe('LT-001');
+  });
+
+  it('should return typed results from every kind of record', async () => {
+    const results = await globalSearch({ query: 'dell' }, ALL);
+    expect(results.map(result => result.type).sort()).toEqual(['inventory_item', 'supplier']);
+
+    const purchases = await globalSearch({ query: 'finance' }, ALL);
+    expect(purchases).toHaveLength(1);
+    expect(purchases[0]).toMatchObject({ type: 'purchase', title: 'LT-001 - Dell Indonesia', code: 'LT-001' });
+
+    const locations = await globalSearch({ query: 'sudirman' }, ALL);
+    expect(locations[0]).toMatchObject({ type: 'location', id: jakartaId, code: 'JKT' });
+  });
+
+  it('should rank an exact item code above other mentions of it', async () => {
+    const results = await globalSearch({ query: 'LT-001' }, ALL);
+    expect(results.map(result => result.title)).toEqual([
+      'LT-001 - Laptop Dell Latitude',
+      'LT-002 - Laptop Lenovo ThinkPad'
+    ]);
+  });
+
+  it('should only search what the caller may see', async () => {
+    const scoped = await globalSearch({ query: 'laptop' }, ['inventory.view'], [surabayaId]);
+    expect(scoped.map(result => result.code)).toEqual(['LT-002']);
+
+    expect(await globalSearch({ query: 'dell' }, ['locations.view'])).toEqual([]);
+    expect(await globalSearch({ query: 'laptop' }, ['inventory.view'], [])).toEqual([]);
+  });
+
+  it('should treat search operators as plain text', async () => {
+    expect(toPrefixQuery("lap & !dell | (x)':*")).toBe('lap:* & dell:* & x:*');
+    expect(await globalSearch({ query: '&|!' }, ALL)).toEqual([]);
+    expect(await globalSearch({ query: 'laptop & !dell' }, ALL)).toHaveLength(1);
+  });
+});
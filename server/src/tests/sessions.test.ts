@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import {
+  getMySessions,
+  revokeMySession,
+  getActiveSessions,
+  revokeUserSessions,
+  purgeExpiredSessions
+} from '../handlers/sessions';
+import { eq } from 'drizzle-orm';
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe('sessions handlers', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'john', password_hash: 'not-a-real-hash', role: 'user' },
+        { username: 'jane', password_hash: 'not-a-real-hash', role: 'admin' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    otherUserId = users[1].id;
+
+    await db.insert(sessionsTable)
+      .values([
+        { id: 'john-current', user_id: userId, ip_address: '10.0.0.1', user_agent: 'Firefox/128.0', expires_at: hoursFromNow(8) },
+        { id: 'john-other', user_id: userId, ip_address: '10.0.0.2', user_agent: null, expires_at: hoursFromNow(8) },
+        { id: 'john-expired', user_id: userId, ip_address: null, user_agent: null, expires_at: hoursFromNow(-1) },
+        { id: 'jane-current', user_id: otherUserId, ip_address: '10.0.0.3', user_agent: null, expires_at: hoursFromNow(8) }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('getMySessions', () => {
+    it('should return only unexpired sessions of the user', async () => {
+      const result = await getMySessions(userId, 'john-current');
+
+      expect(result).toHaveLength(2);
+      result.forEach(session => {
+        expect(session.user_id).toEqual(userId);
+        expect(session.username).toEqual('john');
+        expect(session).not.toHaveProperty('id');
+      });
+      expect(result.filter(session => session.is_current)).toHaveLength(1);
+    });
+  });
+
+  describe('revokeMySession', () => {
+    it('should revoke a session of the user', async () => {
+      const sessions = await getMySessions(userId, 'john-current');
+      const other = sessions.find(session => !session.is_current)!;
+
+      const result = await revokeMySession(userId, other.public_id);
+
+      expect(result.success).toBe(true);
+      const remaining = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, 'john-other'))
+        .execute();
+      expect(remaining).toHaveLength(0);
+    });
+
+    it('should not revoke a session of another user', async () => {
+      const janeSessions = await getMySessions(otherUserId, 'jane-current');
+
+      const result = await revokeMySession(userId, janeSessions[0].public_id);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('getActiveSessions', () => {
+    it('should return unexpired sessions of all users', async () => {
+      const result = await getActiveSessions('jane-current');
+
+      expect(result).toHaveLength(3);
+      expect(result.find(session => session.is_current)?.username).toEqual('jane');
+    });
+  });
+
+  describe('revokeUserSessions', () => {
+    it('should revoke every session of the user', async () => {
+      const result = await revokeUserSessions(userId);
+
+      expect(result.revoked).toEqual(3);
+    });
+  });
+
+  describe('purgeExpiredSessions', () => {
+    it('should delete only expired sessions', async () => {
+      const purged = await purgeExpiredSessions();
+
+      expect(purged).toEqual(1);
+      const remaining = await db.select().from(sessionsTable).execute();
+      expect(remaining).toHaveLength(3);
+    });
+  });
+});
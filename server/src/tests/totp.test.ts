@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  buildProvisioningUri,
+  generateRecoveryCodes,
+  hashRecoveryCode
+} from '../helpers/totp';
+
+// RFC 6238 appendix B reference secret (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP helpers', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow();
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toEqual('287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toEqual('081804');
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toEqual('005924');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    it('should accept codes from adjacent time steps', () => {
+      const now = 1111111109 * 1000;
+
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30 * 1000), now)).toBe(true);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30 * 1000), now)).toBe(true);
+    });
+
+    it('should reject stale and malformed codes', () => {
+      const now = 1111111109 * 1000;
+
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90 * 1000), now)).toBe(false);
+      expect(verifyTotp(RFC_SECRET, '12345', now)).toBe(false);
+      expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBe(false);
+    });
+  });
+
+  describe('buildProvisioningUri', () => {
+    it('should build an otpauth URI with issuer and secret', () => {
+      const uri = buildProvisioningUri('JBSWY3DPEHPK3PXP', 'john', 'Inventory');
+
+      expect(uri).toStartWith('otpauth://totp/Inventory%3Ajohn?');
+      expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+      expect(uri).toContain('issuer=Inventory');
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate unique codes that hash case-insensitively', () => {
+      const codes = generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toEqual(10);
+      expect(hashRecoveryCode(codes[0].toUpperCase())).toEqual(hashRecoveryCode(codes[0]));
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  locationsTable,
+  categoriesTable,
+  inventoryItemsTable,
+  locationHistoryTable,
+  transferManifestsTable,
+  auditLogTable
+} from '../db/schema';
+import { type BatchImportInput } from '../schema';
+import { createLocationHistory, TransferLocationMismatchError } from '../handlers/location_history';
+import { createManifest, dispatchManifest, receiveManifest } from '../handlers/manifests';
+import { batchImportItems } from '../handlers/inventory';
+import { eq, inArray, TransactionRollbackError } from 'drizzle-orm';
+
+describe('transactional handlers', () => {
+  let fromId: number;
+  let toId: number;
+  let itemIds: number[];
+
+  const itemsById = async () => {
+    const items = await db.select()
+      .from(inventoryItemsTable)
+      .where(inArray(inventoryItemsTable.id, itemIds))
+      .execute();
+    return new Map(items.map(item => [item.id, item]));
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const locations = await db.insert(locationsTable)
+      .values([
+        { name: 'Jakarta', branch_code: 'JKT' },
+        { name: 'Surabaya', branch_code: 'SBY' }
+      ])
+      .returning()
+      .execute();
+    [fromId, toId] = locations.map(location => location.id);
+
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Laptops' })
+      .returning()
+      .execute();
+
+    const items = await db.insert(inventoryItemsTable)
+      .values([1, 2].map(n => ({
+        item_code: `LT-00${n}`,
+        name: `Laptop ${n}`,
+        category_id: category[0].id,
+        location_id: fromId,
+        condition: 'good' as const,
+        quantity: 1,
+        purchase_price: '1000.00',
+        purchase_date: new Date('2024-01-01')
+      })))
+      .returning()
+      .execute();
+    itemIds = items.map(item => item.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should roll back a transfer with the unit of work it joined', async () => {
+    const work = db.transaction(async (tx) => {
+      await createLocationHistory({
+        item_id: itemIds[0],
+        from_location_id: fromId,
+        to_location_id: toId,
+        transfer_date: new Date('2024-03-01'),
+        reason: null,
+        status: 'completed',
+        notes: null
+      }, null, null, null, tx);
+      tx.rollback();
+    });
+
+    await expect(work).rejects.toThrow(TransactionRollbackError);
+    expect(await db.select().from(locationHistoryTable).execute()).toHaveLength(0);
+    expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+    expect((await itemsById()).get(itemIds[0])!.location_id).toBe(fromId);
+  });
+
+  it('should not leave a manifest behind when one of its transfers fails', async () => {
+    await expect(createManifest({
+      from_location_id: fromId,
+      to_location_id: toId,
+      item_ids: itemIds,
+      sender_id: 999,
+      courier: null,
+      tracking_number: null,
+      transfer_date: new Date('2024-03-01'),
+      reason: null,
+      notes: null
+    })).rejects.toThrow(/User with ID 999 does not exist/);
+
+    expect(await db.select().from(transferManifestsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(locationHistoryTable).execute()).toHaveLength(0);
+    expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+  });
+
+  it('should keep every item in place when part of a receipt fails', async () => {
+    const manifest = await createManifest({
+      from_location_id: fromId,
+      to_location_id: toId,
+      item_ids: itemIds,
+      courier: null,
+      tracking_number: null,
+      transfer_date: new Date('2024-03-01'),
+      reason: null,
+      notes: null
+    });
+    await dispatchManifest({ id: manifest.id });
+
+    // The second item is moved out from under the shipment
+    await db.update(inventoryItemsTable)
+      .set({ location_id: toId })
+      .where(eq(inventoryItemsTable.id, itemIds[1]))
+      .execute();
+
+    await expect(receiveManifest({ id: manifest.id, lines: [] })).rejects.toThrow(TransferLocationMismatchError);
+
+    const items = await itemsById();
+    expect(items.get(itemIds[0])!.location_id).toBe(fromId);
+
+    const transfers = await db.select()
+      .from(locationHistoryTable)
+      .where(eq(locationHistoryTable.manifest_id, manifest.id))
+      .execute();
+    expect(transfers.every(transfer => transfer.status === 'in_transit')).toBe(true);
+
+    const stored = await db.select()
+      .from(transferManifestsTable)
+      .where(eq(transferManifestsTable.id, manifest.id))
+      .execute();
+    expect(stored[0].status).toBe('in_transit');
+  });
+
+  describe('batch import', () => {
+    const batch = (allOrNothing: boolean): BatchImportInput => ({
+      all_or_nothing: allOrNothing,
+      items: [
+        {
+          item_code: 'MON-001',
+          name: 'Monitor',
+          description: null,
+          category_name: 'Monitors',
+          location_name: 'Jakarta',
+          condition: 'good',
+          quantity: 1,
+          purchase_price: 150,
+          purchase_date: new Date('2024-02-01')
+        },
+        {
+          // Clashes with an existing row at the same location
+          item_code: 'LT-001',
+          name: 'Laptop 1',
+          description: null,
+          category_name: 'Docking Stations',
+          location_name: 'Jakarta',
+          condition: 'good',
+          quantity: 1,
+          purchase_price: 200,
+          purchase_date: new Date('2024-02-01')
+        }
+      ]
+    });
+
+    const categoryNames = async () =>
+      (await db.select().from(categoriesTable).execute()).map(category => category.name).sort();
+
+    it('should drop only the failing row, including the category it created', async () => {
+      const result = await batchImportItems(batch(false));
+
+      expect(result.success).toBe(1);
+      expect(result.errors).toHaveLength(1);
+      expect(await categoryNames()).toEqual(['Laptops', 'Monitors']);
+    });
+
+    it('should import nothing in all-or-nothing mode when a row fails', async () => {
+      const result = await batchImportItems(batch(true));
+
+      expect(result.success).toBe(0);
+      expect(result.errors[0]).toContain('Item 2 (LT-001)');
+      expect(await categoryNames()).toEqual(['Laptops']);
+
+      const monitors = await db.select()
+        .from(inventoryItemsTable)
+        .where(eq(inventoryItemsTable.item_code, 'MON-001'))
+        .execute();
+      expect(monitors).toHaveLength(0);
+      expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import {
+  updateUser,
+  deactivateUser,
+  reactivateUser,
+  deleteUser
+} from '../handlers/users';
+import { eq } from 'drizzle-orm';
+
+const createTestUser = async (username: string, role: 'admin' | 'user', is_active = true) => {
+  const result = await db.insert(usersTable)
+    .values({
+      username,
+      password_hash: 'not-a-real-hash',
+      role,
+      is_active
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestSession = async (id: string, userId: number) => {
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + 8);
+
+  await db.insert(sessionsTable)
+    .values({ id, user_id: userId, expires_at: expiresAt })
+    .execute();
+};
+
+describe('users handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('updateUser', () => {
+    it('should update username and role', async () => {
+      const user = await createTestUser('john', 'user');
+
+      const result = await updateUser({ id: user.id, username: 'johnny', role: 'admin' });
+
+      expect(result.username).toEqual('johnny');
+      expect(result.role).toEqual('admin');
+      expect(result).not.toHaveProperty('password_hash');
+    });
+
+    it('should reject a duplicate username', async () => {
+      await createTestUser('john', 'user');
+      const other = await createTestUser('jane', 'user');
+
+      await expect(updateUser({ id: other.id, username: 'john' })).rejects.toThrow(/already exists/i);
+    });
+
+    it('should not demote the last active admin', async () => {
+      const admin = await createTestUser('admin', 'admin');
+      await createTestUser('former-admin', 'admin', false);
+
+      await expect(updateUser({ id: admin.id, role: 'user' })).rejects.toThrow(/last active administrator/i);
+    });
+
+    it('should demote an admin when another active admin exists', async () => {
+      const admin = await createTestUser('admin', 'admin');
+      await createTestUser('second-admin', 'admin');
+
+      const result = await updateUser({ id: admin.id, role: 'user' });
+
+      expect(result.role).toEqual('user');
+    });
+  });
+
+  describe('deactivateUser', () => {
+    it('should deactivate the user and revoke their sessions', async () => {
+      const user = await createTestUser('john', 'user');
+      await createTestSession('session-1', user.id);
+      await createTestSession('session-2', user.id);
+
+      const result = await deactivateUser(user.id);
+
+      expect(result.is_active).toBe(false);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should not deactivate the last active admin', async () => {
+      const admin = await createTestUser('admin', 'admin');
+
+      await expect(deactivateUser(admin.id)).rejects.toThrow(/last active administrator/i);
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(deactivateUser(999)).rejects.toThrow(/does not exist/i);
+    });
+  });
+
+  describe('reactivateUser', () => {
+    it('should reactivate an inactive user', async () => {
+      const user = await createTestUser('john', 'user', false);
+
+      const result = await reactivateUser(user.id);
+
+      expect(result.is_active).toBe(true);
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should not delete the last active admin', async () => {
+      const admin = await createTestUser('root', 'admin');
+
+      await expect(deleteUser(admin.id)).rejects.toThrow(/last active administrator/i);
+    });
+
+    it('should delete an admin named admin when another active admin exists', async () => {
+      const admin = await createTestUser('admin', 'admin');
+      await createTestUser('second-admin', 'admin');
+
+      const result = await deleteUser(admin.id);
+
+      expect(result.success).toBe(true);
+    });
+  });
+});